@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeAccountBalances, getTransferError, normalizeTransferFields } from '@/lib/accounts';
+import { Account, ExchangeRate, Transaction } from '@/types';
+
+const accounts: Account[] = [
+    { id: 'bank', name: 'Banco', type: 'bank', openingBalance: 1000, currency: 'COP' },
+    { id: 'usd', name: 'Dólares', type: 'savings', openingBalance: 0, currency: 'USD' },
+];
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+    id: '1', title: 'Movimiento', amount: 100, currency: 'COP', accountId: 'bank', type: 'expense', category: 'Varios', date: '2024-03-01',
+    ...overrides,
+});
+
+describe('computeAccountBalances', () => {
+    it('parte del saldo inicial y suma ingresos y gastos de cada cuenta', () => {
+        const balances = computeAccountBalances(accounts, [
+            tx({ id: '1', type: 'income', amount: 500 }),
+            tx({ id: '2', type: 'expense', amount: 200 }),
+        ]);
+
+        expect(balances.map(({ balance }) => balance)).toEqual([1300, 0]);
+    });
+
+    it('mueve las transferencias entre cuentas usando el monto recibido', () => {
+        const balances = computeAccountBalances(accounts, [
+            tx({ type: 'transfer', amount: 400, toAccountId: 'usd', toAmount: 0.1, category: 'Transferencia' }),
+        ]);
+
+        expect(balances.map(({ balance }) => balance)).toEqual([600, 0.1]);
+    });
+
+    it('convierte a la moneda de la cuenta los movimientos en otra moneda', () => {
+        const rates: ExchangeRate[] = [{ id: 'r1', from: 'USD', to: 'COP', rate: 4000, date: '2024-01-01' }];
+        const [bank, usd] = computeAccountBalances(accounts, [
+            tx({ id: '1', type: 'expense', amount: 10, currency: 'USD' }),
+            tx({ id: '2', type: 'income', amount: 8000, accountId: 'usd' }),
+            tx({ id: '3', type: 'expense', amount: 5, currency: 'EUR' }),
+        ], rates);
+
+        expect(bank).toMatchObject({ balance: 1000 - 40000, missingRates: ['EUR'] });
+        expect(usd).toMatchObject({ balance: 2, missingRates: [] });
+    });
+
+    it('convierte el monto enviado si la transferencia no indica el recibido', () => {
+        const rates: ExchangeRate[] = [{ id: 'r1', from: 'USD', to: 'COP', rate: 4000, date: '2024-01-01' }];
+        const [, usd] = computeAccountBalances(accounts, [tx({ type: 'transfer', amount: 200000, toAccountId: 'usd' })], rates);
+        expect(usd.balance).toBe(50);
+    });
+});
+
+describe('getTransferError', () => {
+    it('exige una cuenta de destino distinta de la de origen (ej: al cambiar solo el tipo con PATCH)', () => {
+        const expense = tx({ type: 'expense' });
+
+        expect(getTransferError({ ...expense, type: 'transfer' })).toBe('Selecciona una cuenta de destino distinta');
+        expect(getTransferError({ ...expense, type: 'transfer', toAccountId: 'bank' })).toBe('Selecciona una cuenta de destino distinta');
+        expect(getTransferError({ ...expense, type: 'transfer', toAccountId: 'usd' })).toBeNull();
+        expect(getTransferError(expense)).toBeNull();
+    });
+
+    it('borra los datos de la transferencia al convertirla en otro tipo', () => {
+        const transfer = tx({ type: 'transfer', toAccountId: 'usd', toAmount: 0.1 });
+
+        expect(normalizeTransferFields({ ...transfer, type: 'expense' })).toMatchObject({ toAccountId: undefined, toAmount: undefined });
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { getMonthlyTotals, getRunningBalance, getSpendingByCategory } from '@/lib/aggregations';
+import { filterByRange, getPeriodRange, listMonthKeys } from '@/lib/periods';
+import { Transaction } from '@/types';
+
+const tx = (id: string, type: Transaction['type'], amount: number, category: string, date: string): Transaction => ({
+    id, title: id, amount, currency: 'COP', accountId: 'a1', type, category, date,
+});
+
+const transactions: Transaction[] = [
+    tx('1', 'income', 3000, 'Trabajo', '2023-12-20'),
+    tx('2', 'expense', 500, 'Comida', '2024-01-05'),
+    tx('3', 'expense', 1500, 'Vivienda', '2024-01-05'),
+    tx('4', 'income', 3000, 'Trabajo', '2024-03-01'),
+    tx('5', 'transfer', 700, 'Transferencia', '2024-03-02'),
+    tx('6', 'expense', 500, 'Comida', '2024-03-10'),
+];
+
+describe('getPeriodRange', () => {
+    it('abarca meses completos terminando en el mes actual', () => {
+        expect(getPeriodRange({ preset: 'month' }, '2024-03-15')).toEqual({ from: '2024-03-01', to: '2024-03-31' });
+        expect(getPeriodRange({ preset: 'last3' }, '2024-03-15')).toEqual({ from: '2024-01-01', to: '2024-03-31' });
+        expect(getPeriodRange({ preset: 'last12' }, '2024-02-10')).toEqual({ from: '2023-03-01', to: '2024-02-29' });
+    });
+
+    it('ordena un rango personalizado invertido', () => {
+        const custom = { from: '2024-02-10', to: '2024-01-01' };
+        expect(getPeriodRange({ preset: 'custom', custom }, '2024-03-15')).toEqual({ from: '2024-01-01', to: '2024-02-10' });
+    });
+
+    it('lista los meses del rango y filtra por fecha', () => {
+        const range = { from: '2023-12-15', to: '2024-02-01' };
+
+        expect(listMonthKeys(range)).toEqual(['2023-12', '2024-01', '2024-02']);
+        expect(filterByRange(transactions, range).map((t) => t.id)).toEqual(['1', '2', '3']);
+    });
+});
+
+describe('getMonthlyTotals', () => {
+    it('incluye los meses sin movimientos e ignora las transferencias', () => {
+        const result = getMonthlyTotals(transactions, { from: '2024-01-01', to: '2024-03-31' });
+
+        expect(result).toEqual([
+            { month: '2024-01', totalIncome: 0, totalExpenses: 2000, netBalance: -2000 },
+            { month: '2024-02', totalIncome: 0, totalExpenses: 0, netBalance: 0 },
+            { month: '2024-03', totalIncome: 3000, totalExpenses: 500, netBalance: 2500 },
+        ]);
+    });
+});
+
+describe('getSpendingByCategory', () => {
+    it('ordena el gasto de mayor a menor con su proporción', () => {
+        expect(getSpendingByCategory(transactions)).toEqual([
+            { category: 'Vivienda', amount: 1500, share: 0.6 },
+            { category: 'Comida', amount: 1000, share: 0.4 },
+        ]);
+    });
+
+    it('omite los montos sin tasa de cambio', () => {
+        const convert = (t: Pick<Transaction, 'amount'>) => (t.amount === 1500 ? null : t.amount);
+        expect(getSpendingByCategory(transactions, convert)).toEqual([{ category: 'Comida', amount: 1000, share: 1 }]);
+    });
+});
+
+describe('getRunningBalance', () => {
+    it('parte del saldo previo y acumula un punto por día con ingresos o gastos', () => {
+        expect(getRunningBalance(transactions, { from: '2024-01-01', to: '2024-03-31' })).toEqual([
+            { date: '2024-01-01', balance: 3000 },
+            { date: '2024-01-05', balance: 1000 },
+            { date: '2024-03-01', balance: 4000 },
+            { date: '2024-03-10', balance: 3500 },
+        ]);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPeriodRange, getPreviousRange, parsePeriod, serializePeriod } from '@/lib/periods';
+import { getRelativeChange, getSavingsRate } from '@/lib/aggregations';
+
+describe('getPeriodRange (calendario)', () => {
+    it('usa el trimestre y el año en curso', () => {
+        expect(getPeriodRange({ preset: 'quarter' }, '2024-05-20')).toEqual({ from: '2024-04-01', to: '2024-06-30' });
+        expect(getPeriodRange({ preset: 'year' }, '2024-05-20')).toEqual({ from: '2024-01-01', to: '2024-12-31' });
+    });
+});
+
+describe('getPreviousRange', () => {
+    it('retrocede los mismos meses completos', () => {
+        expect(getPreviousRange({ from: '2024-03-01', to: '2024-03-31' })).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+        expect(getPreviousRange({ from: '2024-04-01', to: '2024-06-30' })).toEqual({ from: '2024-01-01', to: '2024-03-31' });
+        expect(getPreviousRange({ from: '2024-01-01', to: '2024-12-31' })).toEqual({ from: '2023-01-01', to: '2023-12-31' });
+    });
+
+    it('retrocede la misma cantidad de días en un rango parcial', () => {
+        expect(getPreviousRange({ from: '2024-03-10', to: '2024-03-19' })).toEqual({ from: '2024-02-29', to: '2024-03-09' });
+    });
+});
+
+describe('parsePeriod / serializePeriod', () => {
+    it('conserva el periodo personalizado al ir y volver de la URL', () => {
+        const period = { preset: 'custom' as const, custom: { from: '2024-01-01', to: '2024-02-15' } };
+
+        expect(serializePeriod(period).toString()).toBe('period=custom&start=2024-01-01&end=2024-02-15');
+        expect(parsePeriod(serializePeriod(period))).toEqual(period);
+    });
+
+    it('usa el mes actual por defecto y descarta valores desconocidos', () => {
+        expect(serializePeriod({ preset: 'month' }).toString()).toBe('');
+        expect(parsePeriod(new URLSearchParams('period=decade&start=ayer'))).toEqual({ preset: 'month', custom: undefined });
+    });
+});
+
+describe('getSavingsRate / getRelativeChange', () => {
+    it('calcula la tasa de ahorro sobre los ingresos', () => {
+        expect(getSavingsRate({ totalIncome: 4000, totalExpenses: 3000, netBalance: 1000 })).toBe(0.25);
+        expect(getSavingsRate({ totalIncome: 0, totalExpenses: 300, netBalance: -300 })).toBeNull();
+    });
+
+    it('compara con el periodo anterior usando su valor absoluto', () => {
+        expect(getRelativeChange(1200, 1000)).toBeCloseTo(0.2);
+        expect(getRelativeChange(-500, -1000)).toBeCloseTo(0.5);
+        expect(getRelativeChange(100, 0)).toBeNull();
+    });
+});
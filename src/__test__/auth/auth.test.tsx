@@ -1,5 +1,5 @@
-import { jest, describe, it, expect } from '@jest/globals';
-import { renderHook, act } from '@testing-library/react';
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import React from 'react';
 
 const mockPush = jest.fn();
@@ -18,32 +18,66 @@ jest.mock('next/navigation', () => ({
 
 import { useAuth, AuthProvider } from '@/context/AuthContext';
 
-// Mock de localStorage
-const localStorageMock = (() => {
-    let store: Record<string, string> = {};
-    return {
-        getItem: (key: string) => store[key] || null,
-        setItem: (key: string, value: string) => { store[key] = value.toString(); },
-        removeItem: (key: string) => { delete store[key]; },
-        clear: () => { store = {}; },
-    };
-})();
-Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+// Mock de fetch: simula las respuestas de /api/auth/*
+const jsonResponse = (body: unknown, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+}) as Response;
 
+const fetchMock = jest.fn<typeof fetch>();
+global.fetch = fetchMock;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <AuthProvider>{children}</AuthProvider>
+);
 
 describe('AuthContext', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+    });
+
     it('realiza login y actualiza el estado', async () => {
-        const wrapper = ({ children }: { children: React.ReactNode }) => (
-            <AuthProvider>{children}</AuthProvider>
-        );
+        fetchMock
+            .mockResolvedValueOnce(jsonResponse({ error: 'No autenticado' }, 401))
+            .mockResolvedValueOnce(jsonResponse({ id: 'u1', email: 'test@mail.com', name: 'Test' }));
 
         const { result } = renderHook(() => useAuth(), { wrapper });
+        await waitFor(() => expect(result.current.isLoading).toBe(false));
 
         await act(async () => {
-            await result.current.login('test@mail.com');
+            await result.current.login('test@mail.com', '123456');
         });
 
+        expect(fetchMock).toHaveBeenLastCalledWith('/api/auth/login', expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ email: 'test@mail.com', password: '123456' }),
+        }));
         expect(result.current.isAuthenticated).toBe(true);
         expect(result.current.user?.email).toBe('test@mail.com');
     });
+
+    it('rechaza credenciales incorrectas', async () => {
+        fetchMock
+            .mockResolvedValueOnce(jsonResponse({ error: 'No autenticado' }, 401))
+            .mockResolvedValueOnce(jsonResponse({ error: 'Correo o contraseña incorrectos' }, 401));
+
+        const { result } = renderHook(() => useAuth(), { wrapper });
+        await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+        await act(async () => {
+            await expect(result.current.login('test@mail.com', 'wrong-pass')).rejects.toThrow('Correo o contraseña incorrectos');
+        });
+
+        expect(result.current.isAuthenticated).toBe(false);
+    });
+
+    it('restaura la sesión desde /api/auth/me', async () => {
+        fetchMock.mockResolvedValueOnce(jsonResponse({ id: 'u1', email: 'test@mail.com', name: 'Test' }));
+
+        const { result } = renderHook(() => useAuth(), { wrapper });
+
+        await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+        expect(result.current.user?.name).toBe('Test');
+    });
 });
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+import { proxy } from '@/proxy';
+import { createSessionToken, SESSION_COOKIE } from '@/server/session';
+import { getSafeRedirectPath } from '@/lib/navigation';
+
+const request = (url: string, token?: string) => {
+    const req = new NextRequest(new URL(url, 'http://localhost'));
+    if (token) req.cookies.set(SESSION_COOKIE, token);
+    return req;
+};
+
+describe('proxy', () => {
+    it('redirige al login conservando la ruta solicitada', async () => {
+        const response = await proxy(request('/dashboard?type=income'));
+
+        expect(response.status).toBe(307);
+        expect(response.headers.get('location')).toBe('http://localhost/login?next=%2Fdashboard%3Ftype%3Dincome');
+    });
+
+    it('protege también la página de análisis', async () => {
+        const response = await proxy(request('/analytics'));
+
+        expect(response.headers.get('location')).toBe('http://localhost/login?next=%2Fanalytics');
+    });
+
+    it('saca del login a los usuarios con sesión', async () => {
+        const token = await createSessionToken('u1');
+        const response = await proxy(request('/login?next=/dashboard', token));
+
+        expect(response.headers.get('location')).toBe('http://localhost/dashboard');
+    });
+
+    it('deja pasar a los usuarios con sesión válida', async () => {
+        const token = await createSessionToken('u1');
+        const response = await proxy(request('/dashboard', token));
+
+        expect(response.headers.get('location')).toBeNull();
+    });
+});
+
+describe('getSafeRedirectPath', () => {
+    it('rechaza redirecciones externas', () => {
+        expect(getSafeRedirectPath('//evil.com')).toBe('/dashboard');
+        expect(getSafeRedirectPath('https://evil.com')).toBe('/dashboard');
+        expect(getSafeRedirectPath('/dashboard?type=income')).toBe('/dashboard?type=income');
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+
+import { createSessionToken, verifySessionToken } from '@/server/session';
+import { hashPassword, verifyPassword } from '@/server/password';
+
+describe('session', () => {
+    it('verifica tokens firmados y rechaza los manipulados', async () => {
+        const token = await createSessionToken('u1');
+
+        expect(await verifySessionToken(token)).toBe('u1');
+
+        const [payload, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ sub: 'u2', exp: 9999999999 })).toString('base64url');
+        expect(await verifySessionToken(`${forged}.${signature}`)).toBeNull();
+        expect(await verifySessionToken(`${payload}.`)).toBeNull();
+    });
+
+    it('rechaza tokens expirados', async () => {
+        const token = await createSessionToken('u1', -1);
+        expect(await verifySessionToken(token)).toBeNull();
+    });
+});
+
+describe('password', () => {
+    it('genera hashes con sal y los verifica', async () => {
+        const hash = await hashPassword('secreto123');
+
+        expect(hash).not.toContain('secreto123');
+        expect(await hashPassword('secreto123')).not.toBe(hash);
+        expect(await verifyPassword('secreto123', hash)).toBe(true);
+        expect(await verifyPassword('otra-clave', hash)).toBe(false);
+    });
+});
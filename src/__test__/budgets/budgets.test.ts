@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeBudgetProgress, getPreviousMonthKey, getTotalRemaining } from '@/lib/budgets';
+import { Budget, Transaction } from '@/types';
+
+const tx = (id: string, amount: number, category: string, date: string, type: Transaction['type'] = 'expense'): Transaction =>
+    ({ id, title: id, amount, currency: 'COP', accountId: 'a1', type, category, date });
+
+const transactions: Transaction[] = [
+    tx('1', 300, 'Comida', '2024-03-02'),
+    tx('2', 150, 'comida ', '2024-03-15'),
+    tx('3', 900, 'Vivienda', '2024-03-05'),
+    tx('4', 100, 'Comida', '2024-02-10'),
+    tx('5', 5000, 'Comida', '2024-03-01', 'income'),
+];
+
+describe('computeBudgetProgress', () => {
+    it('agrupa los gastos del mes y asigna el estado de alerta', () => {
+        const budgets: Budget[] = [
+            { id: 'b1', category: 'Comida', amount: 500, rollover: false },
+            { id: 'b2', category: 'Vivienda', amount: 800, rollover: false },
+            { id: 'b3', category: 'Ocio', amount: 200, rollover: false },
+        ];
+
+        const [food, housing, leisure] = computeBudgetProgress(budgets, transactions, '2024-03');
+
+        expect(food).toMatchObject({ spent: 450, remaining: 50, status: 'warning' });
+        expect(housing).toMatchObject({ spent: 900, remaining: -100, status: 'over' });
+        expect(leisure).toMatchObject({ spent: 0, status: 'ok' });
+        expect(getTotalRemaining([food, housing, leisure])).toBe(150);
+    });
+
+    it('traslada el saldo del mes anterior cuando rollover está activo', () => {
+        const budgets: Budget[] = [{ id: 'b1', category: 'Comida', amount: 500, rollover: true }];
+
+        const [food] = computeBudgetProgress(budgets, transactions, '2024-03');
+
+        expect(food.limit).toBe(900);
+        expect(food.status).toBe('ok');
+    });
+
+    it('con un límite de 0 devuelve un porcentaje finito y marca el exceso', () => {
+        const budgets: Budget[] = [
+            { id: 'b1', category: 'Comida', amount: 0, rollover: false },
+            { id: 'b2', category: 'Ocio', amount: 0, rollover: false },
+        ];
+
+        const [food, leisure] = JSON.parse(JSON.stringify(computeBudgetProgress(budgets, transactions, '2024-03')));
+
+        expect(food).toMatchObject({ spent: 450, percentage: 100, isOverBudget: true, status: 'over' });
+        expect(leisure).toMatchObject({ spent: 0, percentage: 0, isOverBudget: false, status: 'ok' });
+    });
+
+    it('calcula el mes anterior cruzando de año', () => {
+        expect(getPreviousMonthKey('2024-01')).toBe('2023-12');
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+import { findCategoryByName, getCategoryPath, planCategoryMigration, sortCategoryTree } from '@/lib/categories';
+import { Category } from '@/types';
+
+const category = (overrides: Partial<Category>): Category => ({
+    id: 'c1', name: 'Comida', type: 'expense', color: '#7c3aed', icon: 'Utensils',
+    ...overrides,
+});
+
+describe('planCategoryMigration', () => {
+    it('agrupa variantes por mayúsculas y tildes usando la grafía más frecuente', () => {
+        const { toCreate, renames } = planCategoryMigration([], [
+            { category: 'comida', type: 'expense' },
+            { category: 'Comida', type: 'expense' },
+            { category: 'Comida', type: 'expense' },
+            { category: 'Salario', type: 'income' },
+        ]);
+
+        expect(toCreate.map(({ name, type }) => ({ name, type }))).toEqual([
+            { name: 'Comida', type: 'expense' },
+            { name: 'Salario', type: 'income' },
+        ]);
+        expect([...renames]).toEqual([['comida', 'Comida']]);
+    });
+
+    it('reutiliza las categorías gestionadas existentes', () => {
+        const { toCreate, renames } = planCategoryMigration([category({ name: 'Alimentación' })], [
+            { category: 'alimentacion', type: 'expense' },
+            { category: 'Alimentación' },
+        ]);
+
+        expect(toCreate).toEqual([]);
+        expect([...renames]).toEqual([['alimentacion', 'Alimentación']]);
+    });
+
+    it('marca como mixtas las categorías usadas en ingresos y gastos', () => {
+        const { toCreate } = planCategoryMigration([], [
+            { category: 'Varios', type: 'income' },
+            { category: 'Varios', type: 'expense' },
+        ]);
+        expect(toCreate[0].type).toBe('both');
+    });
+});
+
+describe('árbol de categorías', () => {
+    const categories = [
+        category({ id: 'food', name: 'Comida' }),
+        category({ id: 'rest', name: 'Restaurantes', parentId: 'food' }),
+        category({ id: 'car', name: 'Auto' }),
+        category({ id: 'gas', name: 'Gasolina', parentId: 'car' }),
+    ];
+
+    it('ordena cada padre seguido de sus subcategorías', () => {
+        expect(sortCategoryTree(categories).map((item) => item.id)).toEqual(['car', 'gas', 'food', 'rest']);
+    });
+
+    it('muestra la ruta de las subcategorías y busca sin distinguir tildes', () => {
+        expect(getCategoryPath(categories, categories[1])).toBe('Comida › Restaurantes');
+        expect(findCategoryByName(categories, ' GASOLINA ')?.id).toBe('gas');
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { ensureCategories, resolveCategoryNames } from '@/server/categories';
+import { findTransactionAudit } from '@/server/audit';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'appinit-'));
+
+const sample = { title: 'Mercado', amount: 100, currency: 'COP' as const, accountId: 'a1', type: 'expense' as const, category: 'Comida', date: '2023-10-01' };
+
+describe('migración de categorías', () => {
+    beforeEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        process.env.DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('crea una categoría por nombre y unifica las variantes en transacciones y presupuestos', async () => {
+        await transactionRepository.createMany('u1', [sample, { ...sample, category: 'comida ' }, { ...sample, category: 'Comida' }]);
+        await budgetRepository.create('u1', { category: 'COMIDA', amount: 500, rollover: false });
+
+        const categories = await ensureCategories('u1');
+
+        expect(categories.map((category) => category.name)).toEqual(['Comida']);
+        expect((await transactionRepository.findAllByUser('u1')).map((tx) => tx.category)).toEqual(['Comida', 'Comida', 'Comida']);
+        expect((await budgetRepository.findAllByUser('u1'))[0].category).toBe('Comida');
+        expect(await ensureCategories('u1')).toHaveLength(1);
+    });
+
+    it('unifica también las categorías de las líneas de una transacción dividida', async () => {
+        await transactionRepository.create('u1', {
+            ...sample,
+            splits: [{ category: 'comida', amount: 60 }, { category: 'Hogar', amount: 40 }],
+        });
+
+        const categories = await ensureCategories('u1');
+        const [transaction] = await transactionRepository.findAllByUser('u1');
+
+        expect(categories.map((category) => category.name).sort()).toEqual(['Comida', 'Hogar']);
+        expect(transaction.splits?.map((line) => line.category)).toEqual(['Comida', 'Hogar']);
+        expect(transaction.updatedAt).toBeDefined();
+        expect(await findTransactionAudit('u1', transaction.id)).toMatchObject([{
+            action: 'update',
+            changes: [expect.objectContaining({ field: 'splits' })],
+        }]);
+    });
+
+    it('usa los nombres gestionados al guardar y crea los que faltan', async () => {
+        await ensureCategories('u1');
+        await transactionRepository.create('u1', sample);
+        await ensureCategories('u1');
+
+        const resolved = await resolveCategoryNames('u1', [{ ...sample, category: 'comída' }, { ...sample, category: 'Viajes' }]);
+
+        expect(resolved.map((item) => item.category)).toEqual(['Comida', 'Viajes']);
+        expect((await ensureCategories('u1')).map((category) => category.name).sort()).toEqual(['Comida', 'Viajes']);
+    });
+});
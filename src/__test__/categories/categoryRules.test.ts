@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { createCategorizer, getTitleKey, matchesRule } from '@/lib/categoryRules';
+import { categoryRuleSchema } from '@/validations/validations';
+import { CategoryRule, Transaction } from '@/types';
+
+const tx = (id: string, changes: Partial<Transaction>): Transaction =>
+    ({ id, title: id, amount: 100, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-02-10', ...changes });
+
+const uber: CategoryRule = { id: 'r1', titleContains: 'uber', maxAmount: 50, type: 'expense', category: 'Transporte' };
+
+describe('getTitleKey', () => {
+    it('ignora mayúsculas, tildes, números y signos', () => {
+        expect(getTitleKey('UBER *Trip 4821')).toBe('uber trip');
+        expect(getTitleKey('Café  Águila #12')).toBe('cafe aguila');
+    });
+});
+
+describe('matchesRule', () => {
+    it('exige el texto del título, el tipo y el rango de montos', () => {
+        expect(matchesRule(uber, { title: 'Pago ÚBER Eats', amount: 20, type: 'expense' })).toBe(true);
+        expect(matchesRule(uber, { title: 'Pago Uber', amount: 80, type: 'expense' })).toBe(false);
+        expect(matchesRule(uber, { title: 'Pago Uber', amount: 20, type: 'income' })).toBe(false);
+        expect(matchesRule(uber, { title: 'Taxi', amount: 20, type: 'expense' })).toBe(false);
+        // Sin monto, solo cumplen las reglas sin condiciones de monto
+        expect(matchesRule(uber, { title: 'Uber', type: 'expense' })).toBe(false);
+        expect(matchesRule({ ...uber, maxAmount: undefined }, { title: 'Uber', type: 'expense' })).toBe(true);
+        expect(matchesRule({ ...uber, type: undefined }, { title: 'Uber', amount: 10, type: 'transfer' })).toBe(false);
+    });
+});
+
+describe('createCategorizer', () => {
+    const history = [
+        tx('1', { title: 'Mercadona 0012', category: 'Supermercado', date: '2024-01-05' }),
+        tx('2', { title: 'MERCADONA 0345', category: 'Supermercado', date: '2024-01-12' }),
+        tx('3', { title: 'Mercadona', category: 'Hogar', date: '2024-02-01' }),
+        tx('4', { title: 'Netflix', category: 'Ocio', date: '2024-01-01' }),
+        tx('5', { title: 'Netflix', category: 'Suscripciones', date: '2024-02-01' }),
+        tx('6', { title: 'Uber Trip', category: 'Transporte', date: '2024-02-03' }),
+        tx('7', { title: 'Salario', type: 'income', category: 'Trabajo' }),
+        tx('8', { title: 'Farmacia', category: 'Comida', splits: [{ category: 'Comida', amount: 60 }, { category: 'Salud', amount: 40 }] }),
+    ];
+
+    it('prioriza la primera regla que cumple sobre el historial', () => {
+        const categorize = createCategorizer([uber, { ...uber, id: 'r2', maxAmount: undefined, category: 'Viajes' }], history);
+
+        expect(categorize({ title: 'Uber', amount: 30, type: 'expense' })).toEqual({ category: 'Transporte', source: 'rule' });
+        expect(categorize({ title: 'Uber', amount: 300, type: 'expense' })).toEqual({ category: 'Viajes', source: 'rule' });
+    });
+
+    it('aprende la categoría más usada para títulos equivalentes y desempata por la más reciente', () => {
+        const categorize = createCategorizer([], history);
+
+        expect(categorize({ title: 'mercadona 9999', type: 'expense' })).toEqual({ category: 'Supermercado', source: 'history' });
+        expect(categorize({ title: 'NETFLIX 03/24', type: 'expense' })).toEqual({ category: 'Suscripciones', source: 'history' });
+        // Sin coincidencia exacta, reconoce los títulos que empiezan por la clave
+        expect(categorize({ title: 'Uber', amount: 300, type: 'expense' })).toEqual({ category: 'Transporte', source: 'history' });
+    });
+
+    it('no sugiere con otro tipo, transacciones divididas, transferencias ni claves cortas', () => {
+        const categorize = createCategorizer([], [...history, tx('9', { title: 'TX', category: 'Otros' })]);
+
+        expect(categorize({ title: 'Salario', type: 'expense' })).toBeNull();
+        expect(categorize({ title: 'Farmacia', type: 'expense' })).toBeNull();
+        expect(categorize({ title: 'Netflix', type: 'transfer' })).toBeNull();
+        expect(categorize({ title: 'TX 01', type: 'expense' })).toBeNull();
+    });
+});
+
+describe('categoryRuleSchema', () => {
+    it('convierte el tipo vacío en "ambos" y valida el rango de montos', () => {
+        expect(categoryRuleSchema.parse({ titleContains: ' uber ', type: '', category: 'Transporte' }))
+            .toEqual({ titleContains: 'uber', type: undefined, category: 'Transporte' });
+
+        const result = categoryRuleSchema.safeParse({ titleContains: 'uber', minAmount: 50, maxAmount: 10, type: 'expense', category: 'Transporte' });
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0]).toMatchObject({ path: ['maxAmount'], message: 'El monto mínimo no puede superar el máximo' });
+    });
+});
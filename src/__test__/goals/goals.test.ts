@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeGoalProgress, getContributionDraft, getMonthsLeft } from '@/lib/goals';
+import { goalSchema } from '@/validations/validations';
+import { Account, Goal, Transaction } from '@/types';
+
+const tx = (id: string, changes: Partial<Transaction>): Transaction =>
+    ({ id, title: id, amount: 100, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Ahorro', date: '2024-02-10', ...changes });
+
+const accounts: Account[] = [
+    { id: 'a1', name: 'Nómina', type: 'bank', openingBalance: 0, currency: 'COP' },
+    { id: 'a2', name: 'Ahorros', type: 'savings', openingBalance: 0, currency: 'USD' },
+];
+
+const trip: Goal = { id: 'g1', name: 'Viaje', targetAmount: 1200, startDate: '2024-01-01', targetDate: '2024-12-31', category: 'Ahorro' };
+
+describe('getMonthsLeft', () => {
+    it('cuenta el mes actual y el de la fecha objetivo', () => {
+        expect(getMonthsLeft('2024-03-15', '2024-12-31')).toBe(10);
+        expect(getMonthsLeft('2024-12-01', '2025-01-05')).toBe(2);
+        expect(getMonthsLeft('2025-01-06', '2025-01-05')).toBe(0);
+    });
+});
+
+describe('computeGoalProgress', () => {
+    it('suma los movimientos de la categoría desde el inicio y calcula el aporte mensual', () => {
+        const transactions = [
+            tx('1', { amount: 300 }),
+            tx('2', { amount: 200, date: '2023-12-20' }),
+            tx('3', { amount: 500, category: 'Comida' }),
+            tx('4', { amount: 150, category: 'Comida', splits: [{ category: 'Comida', amount: 50 }, { category: 'Ahorro', amount: 100 }] }),
+        ];
+
+        const [progress] = computeGoalProgress([trip], transactions, accounts, '2024-03-01');
+
+        expect(progress).toMatchObject({ saved: 400, remaining: 800, monthsLeft: 10, monthlyContribution: 80, status: 'on-track' });
+    });
+
+    it('marca la meta atrasada si lo reunido no alcanza el ritmo lineal', () => {
+        const [progress] = computeGoalProgress([trip], [tx('1', { amount: 300 })], accounts, '2024-07-01');
+
+        expect(progress.status).toBe('behind');
+        expect(progress.monthlyContribution).toBe(150);
+        expect(computeGoalProgress([trip], [tx('1', { amount: 1200 })], accounts, '2024-03-01')[0].status).toBe('completed');
+    });
+
+    it('en una cuenta, suma entradas y resta salidas convirtiendo a la moneda base', () => {
+        const goal: Goal = { ...trip, category: undefined, accountId: 'a2' };
+        const transactions = [
+            tx('1', { type: 'transfer', category: 'Transferencia', toAccountId: 'a2', amount: 400_000, toAmount: 100 }),
+            tx('2', { type: 'income', accountId: 'a2', currency: 'USD', amount: 20 }),
+            tx('3', { accountId: 'a2', currency: 'USD', amount: 30 }),
+        ];
+        const convert = (contribution: Pick<Transaction, 'amount' | 'currency'>) =>
+            contribution.currency === 'USD' ? contribution.amount * 4000 : contribution.amount;
+
+        const [progress] = computeGoalProgress([{ ...goal, targetAmount: 1_000_000 }], transactions, accounts, '2024-03-01', convert);
+
+        expect(progress.saved).toBe(360_000);
+    });
+});
+
+describe('getContributionDraft', () => {
+    it('propone un gasto en la categoría o una transferencia a la cuenta vinculada', () => {
+        const [progress] = computeGoalProgress([trip], [], accounts, '2024-03-01');
+
+        expect(getContributionDraft(progress, accounts, 'COP')).toEqual({
+            title: 'Aporte a Viaje', type: 'expense', category: 'Ahorro', accountId: 'a1', currency: 'COP', amount: 120,
+        });
+
+        const [toAccount] = computeGoalProgress([{ ...trip, category: undefined, accountId: 'a2' }], [], accounts, '2024-03-01');
+        expect(getContributionDraft(toAccount, accounts, 'COP')).toMatchObject({ type: 'transfer', accountId: 'a1', toAccountId: 'a2', amount: 120 });
+    });
+});
+
+describe('goalSchema', () => {
+    it('exige un solo vínculo y una fecha objetivo posterior al inicio', () => {
+        const data = { name: 'Viaje', targetAmount: 1200, startDate: '2024-01-01', targetDate: '2024-12-31' };
+
+        expect(goalSchema.safeParse({ ...data, category: 'Ahorro', accountId: '' }).success).toBe(true);
+        expect(goalSchema.safeParse({ ...data, category: '', accountId: '' }).success).toBe(false);
+        expect(goalSchema.safeParse({ ...data, category: 'Ahorro', accountId: 'a1' }).success).toBe(false);
+        expect(goalSchema.safeParse({ ...data, category: 'Ahorro', targetDate: '2023-12-31' }).success).toBe(false);
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { attachmentFileSchema, transactionSchema } from '@/validations/validations';
+import {
+    hasUnknownAttachment,
+    InvalidAttachmentError,
+    markDetachedAttachments,
+    ORPHAN_ATTACHMENT_TTL_MS,
+    readAttachment,
+    removeAttachments,
+    removeOrphanAttachments,
+    saveAttachment,
+} from '@/server/attachments';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachments';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'appinit-'));
+
+const transaction = { title: 'Taxi', amount: 20, currency: 'COP' as const, accountId: 'a1', type: 'expense' as const, category: 'Transporte', date: '2024-01-05' };
+
+const receipt = () => new File(['%PDF-1.4 recibo'], 'recibo.pdf', { type: 'application/pdf' });
+
+describe('attachmentFileSchema', () => {
+    it('acepta imágenes y PDF dentro del tamaño máximo', () => {
+        expect(attachmentFileSchema.safeParse(receipt()).success).toBe(true);
+        expect(attachmentFileSchema.safeParse(new File(['x'], 'foto.png', { type: 'image/png' })).success).toBe(true);
+    });
+
+    it('rechaza otros formatos y archivos demasiado grandes', () => {
+        const svg = attachmentFileSchema.safeParse(new File(['<svg/>'], 'logo.svg', { type: 'image/svg+xml' }));
+        const large = attachmentFileSchema.safeParse(new File([new Uint8Array(MAX_ATTACHMENT_SIZE + 1)], 'scan.jpg', { type: 'image/jpeg' }));
+
+        expect(svg.error?.issues[0].message).toBe('Solo se admiten imágenes (JPG, PNG, WebP, GIF) o PDF');
+        expect(large.error?.issues[0].message).toBe('Cada archivo puede pesar hasta 5 MB');
+    });
+
+    it('valida los metadatos adjuntos a la transacción', () => {
+        const transaction = { title: 'Taxi', amount: 20, type: 'expense', category: 'Transporte', date: '2024-01-05', accountId: 'a1' };
+        const attachment = { id: 'f1', name: 'recibo.pdf', type: 'application/pdf', size: 1200 };
+
+        expect(transactionSchema.safeParse({ ...transaction, attachments: [attachment] }).success).toBe(true);
+        expect(transactionSchema.safeParse({ ...transaction, attachments: [{ ...attachment, type: 'text/html' }] }).success).toBe(false);
+        expect(transactionSchema.safeParse({ ...transaction, attachments: Array(6).fill(attachment) }).success).toBe(false);
+    });
+});
+
+describe('comprobantes en disco', () => {
+    beforeEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        process.env.DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('guarda el archivo acotado al usuario que lo subió', async () => {
+        const attachment = await saveAttachment('u1', receipt());
+
+        expect(attachment).toEqual({ id: expect.any(String), name: 'recibo.pdf', type: 'application/pdf', size: 15 });
+        expect((await readAttachment('u1', attachment.id))?.data.toString()).toBe('%PDF-1.4 recibo');
+        expect(await readAttachment('u2', attachment.id)).toBeNull();
+
+        expect(await hasUnknownAttachment('u1', [{ attachments: [attachment] }])).toBe(false);
+        expect(await hasUnknownAttachment('u2', [{ attachments: [attachment] }])).toBe(true);
+    });
+
+    it('borra los archivos de una transacción eliminada definitivamente', async () => {
+        const attachment = await saveAttachment('u1', receipt());
+
+        await removeAttachments('u1', [attachment]);
+
+        expect(await readAttachment('u1', attachment.id)).toBeNull();
+        expect(await hasUnknownAttachment('u1', [{ attachments: [attachment] }])).toBe(true);
+    });
+
+    it('rechaza archivos cuyo contenido no corresponde al tipo declarado', async () => {
+        const disguised = new File(['<html><script></script></html>'], 'foto.png', { type: 'image/png' });
+        const png = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])], 'foto.png', { type: 'image/png' });
+
+        await expect(saveAttachment('u1', disguised)).rejects.toBeInstanceOf(InvalidAttachmentError);
+        await expect(saveAttachment('u1', png)).resolves.toMatchObject({ type: 'image/png' });
+    });
+
+    it('conserva durante el plazo los comprobantes que una edición quita, para poder deshacerla', async () => {
+        const [kept, removed] = await Promise.all([saveAttachment('u1', receipt()), saveAttachment('u1', receipt())]);
+        const before = await transactionRepository.create('u1', { ...transaction, attachments: [kept, removed] });
+        const after = (await transactionRepository.update('u1', before.id, { attachments: [kept] }))!;
+
+        // Subido hace tiempo: el plazo empieza a contar al quitarlo
+        const old = new Date(Date.now() - ORPHAN_ATTACHMENT_TTL_MS - 1000);
+        utimesSync(path.join(dataDir, 'uploads', 'u1', removed.id), old, old);
+        await markDetachedAttachments('u1', [{ before, after }]);
+        await removeOrphanAttachments('u1');
+
+        expect(await readAttachment('u1', removed.id)).not.toBeNull();
+        expect(await hasUnknownAttachment('u1', [before])).toBe(false);
+
+        await removeOrphanAttachments('u1', Date.now() + ORPHAN_ATTACHMENT_TTL_MS + 1000);
+        expect(await readAttachment('u1', kept.id)).not.toBeNull();
+        expect(await readAttachment('u1', removed.id)).toBeNull();
+    });
+
+    it('borra los comprobantes sin transacción subidos hace más del plazo', async () => {
+        const [attached, recent, abandoned] = await Promise.all([saveAttachment('u1', receipt()), saveAttachment('u1', receipt()), saveAttachment('u1', receipt())]);
+        await transactionRepository.create('u1', { ...transaction, attachments: [attached] });
+
+        const old = new Date(Date.now() - ORPHAN_ATTACHMENT_TTL_MS - 1000);
+        for (const { id } of [attached, abandoned]) utimesSync(path.join(dataDir, 'uploads', 'u1', id), old, old);
+
+        await removeOrphanAttachments('u1');
+
+        expect(await readAttachment('u1', attached.id)).not.toBeNull();
+        expect(await readAttachment('u1', recent.id)).not.toBeNull();
+        expect(await readAttachment('u1', abandoned.id)).toBeNull();
+    });
+});
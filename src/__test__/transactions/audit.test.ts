@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { diffTransactions } from '@/lib/audit';
+import { findTransactionAudit, recordAudit } from '@/server/audit';
+import { Transaction } from '@/types';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'appinit-'));
+
+const transaction: Transaction = {
+    id: 't1', title: 'Mercado', amount: 80, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-01-05',
+};
+
+describe('diffTransactions', () => {
+    it('lista solo los campos que cambiaron, sin el ID', () => {
+        const after = { ...transaction, amount: 95, category: 'Hogar' };
+
+        expect(diffTransactions(transaction, after)).toEqual([
+            { field: 'amount', from: 80, to: 95 },
+            { field: 'category', from: 'Comida', to: 'Hogar' },
+        ]);
+    });
+
+    it('registra los campos agregados o quitados y el alta completa', () => {
+        expect(diffTransactions(transaction, { ...transaction, deletedAt: '2024-02-01T00:00:00.000Z' })).toEqual([
+            { field: 'deletedAt', to: '2024-02-01T00:00:00.000Z' },
+        ]);
+        expect(diffTransactions(null, transaction)).toHaveLength(7);
+        expect(diffTransactions(transaction, null)[0]).toEqual({ field: 'title', from: 'Mercado' });
+    });
+
+    it('no registra como cambio una lista o un texto vacíos en un campo que no existía', () => {
+        const edited = { ...transaction, tags: [], splits: [], attachments: [], notes: '' };
+
+        expect(diffTransactions(transaction, edited)).toEqual([]);
+        expect(diffTransactions(transaction, { ...edited, tags: ['viaje'] })).toEqual([{ field: 'tags', to: ['viaje'] }]);
+    });
+});
+
+describe('recordAudit', () => {
+    beforeEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        process.env.DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('guarda quién y qué cambió, omitiendo ediciones sin cambios', async () => {
+        await recordAudit('u1', [{ action: 'create', before: null, after: transaction }]);
+        await recordAudit('u1', [{ action: 'update', before: transaction, after: { ...transaction } }]);
+        await recordAudit('u1', [{ action: 'update', before: transaction, after: { ...transaction, title: 'Supermercado' } }]);
+
+        const history = await findTransactionAudit('u1', 't1');
+
+        expect(history.map((entry) => entry.action)).toEqual(['update', 'create']);
+        expect(history[0]).toMatchObject({ actorId: 'u1', changes: [{ field: 'title', from: 'Mercado', to: 'Supermercado' }] });
+        expect(await findTransactionAudit('u2', 't1')).toEqual([]);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyBulkEdit } from '@/lib/bulkEdit';
+import { Transaction } from '@/types';
+
+const groceries: Transaction = {
+    id: 't1', title: 'Mercado', amount: 100, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-02-28',
+    splits: [{ category: 'Comida', amount: 60 }, { category: 'Hogar', amount: 40 }],
+};
+const salary: Transaction = { ...groceries, id: 't2', title: 'Salario', type: 'income', category: 'Trabajo', splits: undefined };
+const transfer: Transaction = { ...salary, id: 't3', title: 'Ahorro', type: 'transfer', category: 'Transferencia', toAccountId: 'a2' };
+
+describe('applyBulkEdit', () => {
+    it('cambia la categoría quitando la división y omite las transferencias', () => {
+        const edited = applyBulkEdit([groceries, salary, transfer], { kind: 'category', category: 'Varios' });
+
+        expect(edited.map((tx) => tx.id)).toEqual(['t1', 't2']);
+        expect(edited[0]).toMatchObject({ category: 'Varios', splits: [] });
+        expect(edited[1]).not.toHaveProperty('splits', []);
+    });
+
+    it('cambia el tipo entre ingreso y gasto solo donde cambia', () => {
+        const edited = applyBulkEdit([groceries, salary, transfer], { kind: 'type', type: 'income' });
+
+        expect(edited).toEqual([{ ...groceries, type: 'income' }]);
+    });
+
+    it('desplaza las fechas los días indicados, también hacia atrás', () => {
+        expect(applyBulkEdit([groceries, transfer], { kind: 'shift', days: 2 }).map((tx) => tx.date)).toEqual(['2024-03-01', '2024-03-01']);
+        expect(applyBulkEdit([groceries], { kind: 'shift', days: -28 })[0].date).toBe('2024-01-31');
+        expect(applyBulkEdit([groceries], { kind: 'shift', days: 0 })).toEqual([]);
+    });
+});
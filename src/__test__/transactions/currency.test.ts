@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { createAmountConverter, findRate, formatCurrency, getMissingRateCurrencies } from '@/lib/currency';
+import { summarizeTransactions } from '@/lib/aggregations';
+import { parseExchangeRatesCsv } from '@/lib/exchangeRateImport';
+import { ExchangeRate, Transaction } from '@/types';
+
+const rates: ExchangeRate[] = [
+    { id: 'r1', date: '2024-01-01', from: 'USD', to: 'COP', rate: 4000 },
+    { id: 'r2', date: '2024-02-01', from: 'USD', to: 'COP', rate: 3900 },
+    { id: 'r3', date: '2024-01-01', from: 'COP', to: 'EUR', rate: 0.00025 },
+];
+
+const transactions: Transaction[] = [
+    { id: '1', title: 'Salario', amount: 1000, currency: 'USD', accountId: 'a1', type: 'income', category: 'Trabajo', date: '2024-02-15' },
+    { id: '2', title: 'Mercado', amount: 200000, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-02-16' },
+    { id: '3', title: 'Hotel', amount: 100, currency: 'GBP', accountId: 'a1', type: 'expense', category: 'Viajes', date: '2024-02-17' },
+];
+
+describe('findRate', () => {
+    it('usa la tasa vigente más reciente para la fecha', () => {
+        expect(findRate(rates, 'USD', 'COP', '2024-01-20')).toBe(4000);
+        expect(findRate(rates, 'USD', 'COP', '2024-03-01')).toBe(3900);
+    });
+
+    it('usa la tasa más antigua si la fecha es anterior a todas', () => {
+        expect(findRate(rates, 'USD', 'COP', '2023-06-01')).toBe(4000);
+    });
+
+    it('invierte las tasas registradas en el otro sentido', () => {
+        expect(findRate(rates, 'EUR', 'COP', '2024-01-10')).toBe(4000);
+    });
+
+    it('devuelve null si no hay tasa para el par', () => {
+        expect(findRate(rates, 'GBP', 'COP', '2024-01-10')).toBeNull();
+        expect(findRate(rates, 'COP', 'COP', '2024-01-10')).toBe(1);
+    });
+});
+
+describe('conversión de totales', () => {
+    it('suma en la moneda base y omite las monedas sin tasa', () => {
+        const convert = createAmountConverter(rates, 'COP');
+
+        expect(summarizeTransactions(transactions, convert)).toEqual({
+            totalIncome: 3900000,
+            totalExpenses: 200000,
+            netBalance: 3700000,
+        });
+        expect(getMissingRateCurrencies(transactions, convert)).toEqual(['GBP']);
+    });
+
+    it('elige la tasa por fecha con la tabla desordenada y en ambos sentidos del par', () => {
+        const toCop = createAmountConverter([...rates].reverse(), 'COP');
+        const toUsd = createAmountConverter(rates, 'USD');
+
+        expect(toCop({ amount: 2, currency: 'USD', date: '2024-01-31' })).toBe(8000);
+        expect(toCop({ amount: 2, currency: 'USD', date: '2024-02-01' })).toBe(7800);
+        expect(toCop({ amount: 1, currency: 'EUR', date: '2023-12-01' })).toBe(4000);
+        expect(toUsd({ amount: 7800, currency: 'COP', date: '2024-02-10' })).toBe(2);
+        expect(toUsd({ amount: 10, currency: 'EUR', date: '2024-02-10' })).toBeNull();
+    });
+});
+
+describe('formatCurrency', () => {
+    it('formatea según la moneda', () => {
+        expect(formatCurrency(1234.5, 'EUR')).toMatch(/1234,50\s€|1\.234,50\s€/);
+        expect(formatCurrency(10, 'USD')).toContain('US$');
+    });
+});
+
+describe('parseExchangeRatesCsv', () => {
+    it('lee las tasas y reporta las filas inválidas', () => {
+        const { rates: parsed, errors } = parseExchangeRatesCsv('Fecha;De;A;Tasa\n01/03/2024;usd;COP;3.950,5\n02/03/2024;USD;USD;1');
+
+        expect(parsed).toEqual([{ date: '2024-03-01', from: 'USD', to: 'COP', rate: 3950.5 }]);
+        expect(errors).toEqual(['Fila 3: Las monedas deben ser distintas']);
+    });
+
+    it('exige las columnas obligatorias', () => {
+        expect(() => parseExchangeRatesCsv('Fecha,Tasa\n2024-01-01,1')).toThrow();
+    });
+});
@@ -0,0 +1,112 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import {
+    createQuotaSafeStorage,
+    migrateTransactionState,
+    PERSISTED_TRANSACTIONS_LIMIT,
+    QueuedOperation,
+    readPersistedTransactionState,
+    renameQueuedTransaction,
+    TRANSACTION_STORE_VERSION,
+} from '@/lib/offlineSync';
+import { Transaction } from '@/types';
+
+const transaction: Transaction = {
+    id: 'temp-1', title: 'Mercado', amount: 80, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-01-05',
+};
+
+describe('renameQueuedTransaction', () => {
+    it('asigna el ID definitivo a las operaciones posteriores al alta', () => {
+        const queue: QueuedOperation[] = [
+            { kind: 'update', transaction: { ...transaction, amount: 95 } },
+            { kind: 'delete', id: 'temp-1' },
+            { kind: 'purge', id: 'temp-1' },
+            { kind: 'restore', id: 't7' },
+        ];
+
+        expect(renameQueuedTransaction(queue, 'temp-1', 't9')).toEqual([
+            { kind: 'update', transaction: { ...transaction, id: 't9', amount: 95 } },
+            { kind: 'delete', id: 't9' },
+            { kind: 'purge', id: 't9' },
+            { kind: 'restore', id: 't7' },
+        ]);
+    });
+});
+
+describe('migrateTransactionState', () => {
+    it('completa el estado guardado sin versión con los valores iniciales', () => {
+        expect(migrateTransactionState({ transactions: [transaction] }, 0)).toEqual({
+            ownerId: null,
+            transactions: [transaction],
+            queue: [],
+        });
+    });
+
+    it('descarta la papelera y acota el historial guardado con la versión 1', () => {
+        const transactions = Array.from({ length: PERSISTED_TRANSACTIONS_LIMIT + 1 }, (_, i) => ({ ...transaction, id: `t${i}` }));
+        const migrated = migrateTransactionState({ ownerId: 'u1', transactions, trash: [transaction], queue: [] }, 1);
+
+        expect(migrated).not.toHaveProperty('trash');
+        expect(migrated.transactions).toHaveLength(PERSISTED_TRANSACTIONS_LIMIT);
+    });
+
+    it('no modifica el estado válido de la versión actual', () => {
+        const state = { ownerId: 'u1', transactions: [transaction], queue: [{ kind: 'delete', id: 't1' }] };
+        expect(migrateTransactionState(state, TRANSACTION_STORE_VERSION)).toEqual(state);
+    });
+
+    it('no falla con un estado guardado corrupto', () => {
+        expect(migrateTransactionState('corrupto', 0)).toEqual({ ownerId: null, transactions: [], queue: [] });
+        expect(migrateTransactionState({ transactions: 'x' }, 1)).toEqual({ ownerId: null, transactions: [], queue: [] });
+    });
+});
+
+describe('readPersistedTransactionState', () => {
+    it('reemplaza los campos con otra forma y descarta las transacciones y operaciones mal formadas', () => {
+        const state = readPersistedTransactionState({
+            ownerId: 42,
+            transactions: [transaction, { id: 't2' }, null],
+            queue: [
+                { kind: 'create', transaction },
+                { kind: 'update', transaction: { id: 't3' } },
+                { kind: 'batch', operations: [{ kind: 'delete', id: 't1' }] },
+                { kind: 'batch', operations: [{ kind: 'delete' }] },
+                { kind: 'desconocida', id: 't1' },
+            ],
+            trash: [transaction],
+        });
+
+        expect(state).toEqual({
+            ownerId: null,
+            transactions: [transaction],
+            queue: [{ kind: 'create', transaction }, { kind: 'batch', operations: [{ kind: 'delete', id: 't1' }] }],
+        });
+    });
+});
+
+describe('createQuotaSafeStorage', () => {
+    const quotaExceeded = () => new DOMException('Cuota superada', 'QuotaExceededError');
+    const value = JSON.stringify({ state: { ownerId: 'u1', transactions: [transaction], queue: [{ kind: 'delete', id: 't1' }] }, version: 2 });
+
+    it('si no cabe el estado completo, guarda al menos la cola de cambios', () => {
+        const setItem = jest.fn<(name: string, value: string) => void>()
+            .mockImplementationOnce(() => { throw quotaExceeded(); });
+        const storage = createQuotaSafeStorage({ getItem: () => null, setItem, removeItem: () => undefined });
+
+        storage.setItem('transactions', value);
+
+        expect(JSON.parse(setItem.mock.calls[1][1])).toEqual({
+            state: { ownerId: 'u1', transactions: [], queue: [{ kind: 'delete', id: 't1' }] },
+            version: 2,
+        });
+    });
+
+    it('no lanza si tampoco cabe la cola, pero sí con otros errores', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const full = createQuotaSafeStorage({ getItem: () => null, setItem: () => { throw quotaExceeded(); }, removeItem: () => undefined });
+        const broken = createQuotaSafeStorage({ getItem: () => null, setItem: () => { throw new Error('Sin acceso'); }, removeItem: () => undefined });
+
+        expect(() => full.setItem('transactions', value)).not.toThrow();
+        expect(() => broken.setItem('transactions', value)).toThrow('Sin acceso');
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { getDueOccurrences, getOccurrenceDates, describeRecurrence } from '@/lib/recurrence';
+import { RecurringRule } from '@/types';
+
+const rule = (overrides: Partial<RecurringRule>): RecurringRule => ({
+    id: 'r1',
+    title: 'Alquiler',
+    amount: 800,
+    currency: 'COP',
+    accountId: 'a1',
+    type: 'expense',
+    category: 'Vivienda',
+    frequency: 'monthly',
+    interval: 1,
+    startDate: '2024-01-31',
+    monthEndPolicy: 'clamp',
+    ...overrides,
+});
+
+describe('getOccurrenceDates', () => {
+    it('usa el último día del mes para los días 29-31 con la política clamp', () => {
+        expect(getOccurrenceDates(rule({}), '2024-01-01', '2024-04-30'))
+            .toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    });
+
+    it('omite los meses sin ese día con la política skip', () => {
+        expect(getOccurrenceDates(rule({ monthEndPolicy: 'skip' }), '2024-01-01', '2024-04-30'))
+            .toEqual(['2024-01-31', '2024-03-31']);
+    });
+
+    it('respeta el intervalo y la fecha final', () => {
+        const biweekly = rule({ frequency: 'weekly', interval: 2, startDate: '2024-01-01', endDate: '2024-02-01' });
+        expect(getOccurrenceDates(biweekly, '2024-01-01', '2024-12-31'))
+            .toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+    });
+
+    it('maneja el 29 de febrero en reglas anuales', () => {
+        const yearly = rule({ frequency: 'yearly', startDate: '2024-02-29' });
+        expect(getOccurrenceDates(yearly, '2024-01-01', '2026-12-31'))
+            .toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+    });
+});
+
+describe('getDueOccurrences', () => {
+    it('solo genera las ocurrencias posteriores a la última generación', () => {
+        const due = getDueOccurrences(rule({ startDate: '2024-01-05', lastGeneratedDate: '2024-02-10' }), '2024-04-01');
+
+        expect(due.map((tx) => tx.date)).toEqual(['2024-03-05']);
+        expect(due[0]).toMatchObject({ recurringRuleId: 'r1', occurrenceDate: '2024-03-05', amount: 800 });
+    });
+});
+
+describe('describeRecurrence', () => {
+    it('describe la frecuencia', () => {
+        expect(describeRecurrence({ frequency: 'monthly', interval: 1 })).toBe('Mensual');
+        expect(describeRecurrence({ frequency: 'weekly', interval: 2 })).toBe('Cada 2 semanas');
+    });
+});
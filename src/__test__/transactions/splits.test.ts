@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { expandSplits, getSplitRemainder, getSplitsError, narrowToCategories } from '@/lib/splits';
+import { getCategoryTotals, summarizeTransactions } from '@/lib/aggregations';
+import { computeBudgetProgress } from '@/lib/budgets';
+import { DEFAULT_FILTERS, filterTransactions } from '@/lib/transactionFilters';
+import { transactionSchema } from '@/validations/validations';
+import { Transaction } from '@/types';
+
+/** Compra de supermercado repartida entre comida y hogar. */
+const groceries: Transaction = {
+    id: '1', title: 'Supermercado', amount: 120, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-03-02',
+    splits: [
+        { category: 'Comida', amount: 80 },
+        { category: 'Hogar', amount: 40, note: 'Detergente' },
+    ],
+};
+const rent: Transaction = { id: '2', title: 'Alquiler', amount: 900, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Vivienda', date: '2024-03-05' };
+
+describe('getSplitsError', () => {
+    it('exige al menos dos líneas que sumen el total', () => {
+        expect(getSplitsError(groceries)).toBeNull();
+        expect(getSplitsError(rent)).toBeNull();
+        expect(getSplitsError({ ...groceries, splits: groceries.splits!.slice(0, 1) })).toBe('Divide el monto en al menos dos líneas');
+        expect(getSplitsError({ ...groceries, amount: 150 })).toBe('Las líneas deben sumar el monto total (faltan 30,00)');
+        expect(getSplitsError({ ...groceries, amount: 100 })).toBe('Las líneas deben sumar el monto total (sobran 20,00)');
+        expect(getSplitsError({ ...groceries, type: 'transfer' })).toBe('Las transferencias no se pueden dividir');
+    });
+
+    it('redondea a centavos para evitar errores de coma flotante', () => {
+        expect(getSplitRemainder(0.3, [{ amount: 0.1 }, { amount: 0.2 }])).toBe(0);
+    });
+});
+
+describe('transacciones divididas en los totales', () => {
+    it('cuentan cada línea en su categoría y el total una sola vez', () => {
+        expect(expandSplits(groceries)).toMatchObject([
+            { id: '1', category: 'Comida', amount: 80 },
+            { id: '1', category: 'Hogar', amount: 40 },
+        ]);
+        expect(getCategoryTotals([groceries, rent])).toEqual([
+            { category: 'Vivienda', income: 0, expense: 900 },
+            { category: 'Comida', income: 0, expense: 80 },
+            { category: 'Hogar', income: 0, expense: 40 },
+        ]);
+        expect(summarizeTransactions([groceries, rent]).totalExpenses).toBe(1020);
+    });
+
+    it('descuentan de cada presupuesto solo su parte', () => {
+        const [food, home] = computeBudgetProgress(
+            [
+                { id: 'b1', category: 'Comida', amount: 100, rollover: false },
+                { id: 'b2', category: 'Hogar', amount: 100, rollover: false },
+            ],
+            [groceries, rent],
+            '2024-03'
+        );
+
+        expect(food.spent).toBe(80);
+        expect(home.spent).toBe(40);
+    });
+
+    it('el filtro por categoría encuentra las líneas y los totales solo suman esa parte', () => {
+        const filtered = filterTransactions([groceries, rent], { ...DEFAULT_FILTERS, categories: ['Hogar'] });
+
+        expect(filtered).toEqual([groceries]);
+        expect(summarizeTransactions(narrowToCategories(filtered, ['Hogar'])).totalExpenses).toBe(40);
+        expect(filterTransactions([groceries, rent], { ...DEFAULT_FILTERS, query: 'detergente' })).toEqual([groceries]);
+    });
+});
+
+describe('transactionSchema', () => {
+    it('rechaza líneas que no suman el monto total', () => {
+        const { title, currency, accountId, type, category, date, splits } = groceries;
+        const data = { title, amount: 120, currency, accountId, type, category, date, splits };
+        const result = transactionSchema.safeParse({ ...data, amount: 130 });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0]).toMatchObject({ path: ['splits'], message: 'Las líneas deben sumar el monto total (faltan 10,00)' });
+        expect(transactionSchema.safeParse(data).success).toBe(true);
+    });
+});
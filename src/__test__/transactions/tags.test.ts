@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { getTagSuggestions, normalizeTag } from '@/lib/tags';
+import { transactionPatchSchema, transactionSchema } from '@/validations/validations';
+
+describe('normalizeTag', () => {
+    it('unifica mayúsculas, espacios y el # inicial', () => {
+        expect(normalizeTag('  Viaje Cartagena ')).toBe('viaje-cartagena');
+        expect(normalizeTag('#Deducible')).toBe('deducible');
+        expect(normalizeTag(' # ')).toBe('');
+    });
+});
+
+describe('getTagSuggestions', () => {
+    it('ordena las etiquetas por uso y luego alfabéticamente', () => {
+        const transactions = [
+            { tags: ['viaje', 'deducible'] },
+            { tags: ['deducible'] },
+            { tags: ['auto'] },
+            {},
+        ];
+
+        expect(getTagSuggestions(transactions)).toEqual(['deducible', 'auto', 'viaje']);
+    });
+});
+
+describe('etiquetas y notas en transactionSchema', () => {
+    const data = { title: 'Hotel', amount: 800, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Viajes', date: '2023-11-10' };
+
+    it('normaliza las etiquetas, quita las repetidas y recorta las notas', () => {
+        const result = transactionSchema.parse({ ...data, tags: ['Viaje Cartagena', 'viaje-cartagena', '#deducible'], notes: '  Factura  ' });
+
+        expect(result.tags).toEqual(['viaje-cartagena', 'deducible']);
+        expect(result.notes).toBe('Factura');
+    });
+
+    it('rechaza etiquetas vacías y un texto vacío borra las notas', () => {
+        expect(transactionSchema.safeParse({ ...data, tags: ['  '] }).success).toBe(false);
+
+        const patch = transactionPatchSchema.parse({ notes: '   ' });
+        expect(patch).toHaveProperty('notes', undefined);
+        expect(transactionPatchSchema.parse({})).not.toHaveProperty('notes');
+    });
+});
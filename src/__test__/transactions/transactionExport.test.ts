@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv } from '@/lib/csv';
+import { transactionsToCsv, transactionsToJson } from '@/lib/transactionExport';
+import { buildImportRows, buildImportRowsFromJson, guessColumnMapping } from '@/lib/transactionImport';
+import { Transaction } from '@/types';
+
+const defaults = { currency: 'COP' as const, accountId: 'a1' };
+
+const transactions: Transaction[] = [
+    { id: '1', title: 'Salario', amount: 3000, currency: 'COP', accountId: 'a1', type: 'income', category: 'Trabajo', date: '2023-10-01' },
+    { id: '2', title: 'Cena, "especial"', amount: 45.5, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2023-10-05', recurringRuleId: 'r1' },
+];
+
+describe('transactionsToJson', () => {
+    it('se puede volver a importar sin pérdidas', () => {
+        const rows = buildImportRowsFromJson(transactionsToJson(transactions), [], defaults);
+
+        expect(rows.map((row) => row.data)).toEqual(transactions.map(({ title, amount, currency, accountId, type, category, date }) => ({ title, amount, currency, accountId, type, category, date })));
+        expect(rows.every((row) => !row.isDuplicate)).toBe(true);
+    });
+
+    it('marca como duplicadas las transacciones ya existentes', () => {
+        const rows = buildImportRowsFromJson(transactionsToJson(transactions), transactions, defaults);
+        expect(rows.every((row) => row.isDuplicate)).toBe(true);
+    });
+
+    it('asigna la cuenta elegida a los registros de cuentas desconocidas y rechaza transferencias hacia ellas', () => {
+        const foreign = [
+            { ...transactions[0], accountId: 'otra' },
+            { ...transactions[1], type: 'transfer', toAccountId: 'otra' },
+        ];
+        const rows = buildImportRowsFromJson(JSON.stringify(foreign), [], { ...defaults, accountIds: ['a1', 'a2'] });
+
+        expect(rows[0].data?.accountId).toBe('a1');
+        expect(rows[1].errors).toEqual(['La cuenta de destino de la transferencia no existe']);
+    });
+
+    it('no exporta los comprobantes ni la marca de modificación, ni los importa de archivos anteriores', () => {
+        const attached: Transaction = {
+            ...transactions[0],
+            attachments: [{ id: 'f1', name: 'recibo.pdf', type: 'application/pdf', size: 1200 }],
+            updatedAt: '2024-01-10T10:00:00.000Z',
+        };
+
+        const [record] = JSON.parse(transactionsToJson([attached])).transactions;
+        const [row] = buildImportRowsFromJson(JSON.stringify([attached]), [], defaults);
+
+        expect(record).not.toHaveProperty('attachments');
+        expect(record).not.toHaveProperty('updatedAt');
+        expect(row.data?.attachments).toBeUndefined();
+        expect(row.data?.updatedAt).toBeUndefined();
+    });
+
+    it('rechaza archivos con otro formato', () => {
+        expect(() => buildImportRowsFromJson('{"foo": 1}', [], defaults)).toThrow();
+    });
+});
+
+describe('transactionsToCsv', () => {
+    it('genera encabezados reconocidos por la importación CSV', () => {
+        const [header, ...rows] = parseCsv(transactionsToCsv(transactions));
+        const imported = buildImportRows(rows, guessColumnMapping(header), [], defaults);
+
+        expect(imported[1].data).toEqual({ title: 'Cena, "especial"', amount: 45.5, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2023-10-05' });
+    });
+
+    it('antepone un apóstrofo a los textos que empiezan como fórmula, pero no al monto', () => {
+        const [, ...rows] = parseCsv(transactionsToCsv([
+            { ...transactions[0], title: '=HYPERLINK("http://x")', category: '@Trabajo' },
+            { ...transactions[1], title: '+57 Recarga', category: '-Varios' },
+        ]));
+
+        expect(rows).toEqual([
+            ['2023-10-01', `'=HYPERLINK("http://x")`, "'@Trabajo", 'income', '3000.00', 'COP'],
+            ['2023-10-05', "'+57 Recarga", "'-Varios", 'expense', '45.50', 'COP'],
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyFilters, DEFAULT_FILTERS, parseFilters, scopeToRange, serializeFilters, TransactionFilters } from '@/lib/transactionFilters';
+import { Transaction } from '@/types';
+
+const transactions: Transaction[] = [
+    { id: '1', title: 'Salario', amount: 3000, currency: 'COP', accountId: 'a1', type: 'income', category: 'Trabajo', date: '2023-10-01' },
+    { id: '2', title: 'Cena en restaurante', amount: 45.5, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2023-10-05' },
+    { id: '3', title: 'Supermercado', amount: 120, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2023-10-12' },
+    { id: '4', title: 'Gasolina', amount: 60, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Transporte', date: '2023-11-02' },
+];
+
+const ids = (list: Transaction[]) => list.map((tx) => tx.id);
+const withFilters = (changes: Partial<TransactionFilters>) => ({ ...DEFAULT_FILTERS, ...changes });
+
+describe('parseFilters / serializeFilters', () => {
+    it('conserva todos los filtros al ir y volver de la URL', () => {
+        const filters = withFilters({
+            query: 'cena',
+            type: 'expense',
+            categories: ['Comida', 'Transporte'],
+            accounts: ['a1'],
+            tags: ['viaje-cartagena'],
+            minAmount: 10,
+            maxAmount: 200,
+            from: '2023-10-01',
+            to: '2023-10-31',
+            sortBy: 'amount',
+            sortOrder: 'asc',
+        });
+
+        expect(parseFilters(serializeFilters(filters))).toEqual(filters);
+    });
+
+    it('omite los valores predeterminados', () => {
+        expect(serializeFilters(DEFAULT_FILTERS).toString()).toBe('');
+    });
+
+    it('ignora valores desconocidos o mal formados', () => {
+        const filters = parseFilters(new URLSearchParams('type=otro&sort=foo&min=abc&from=10/10/2023'));
+        expect(filters).toEqual(parseFilters(new URLSearchParams()));
+    });
+});
+
+describe('applyFilters', () => {
+    it('busca en título y categoría sin distinguir tildes ni mayúsculas', () => {
+        expect(ids(applyFilters(transactions, withFilters({ query: 'COMIDA' })))).toEqual(['3', '2']);
+        expect(ids(applyFilters(transactions, withFilters({ query: 'salário' })))).toEqual(['1']);
+    });
+
+    it('combina categorías, rango de montos y de fechas', () => {
+        const result = applyFilters(transactions, withFilters({
+            categories: ['Comida', 'Transporte'],
+            minAmount: 50,
+            from: '2023-10-01',
+            to: '2023-10-31',
+        }));
+        expect(ids(result)).toEqual(['3']);
+    });
+
+    it('ordena por la clave y dirección indicadas', () => {
+        expect(ids(applyFilters(transactions, withFilters({ sortBy: 'amount', sortOrder: 'asc' })))).toEqual(['2', '4', '3', '1']);
+        expect(ids(applyFilters(transactions, withFilters({ sortBy: 'title', sortOrder: 'asc' })))).toEqual(['2', '4', '1', '3']);
+        expect(ids(applyFilters(transactions, withFilters({ type: 'expense' })))).toEqual(['4', '3', '2']);
+    });
+
+    it('filtra por cuenta de origen o de destino de las transferencias', () => {
+        const transfer: Transaction = {
+            id: '5', title: 'Ahorro', amount: 500, currency: 'COP', accountId: 'a1', toAccountId: 'a2',
+            type: 'transfer', category: 'Transferencia', date: '2023-11-05',
+        };
+        const withTransfer = [...transactions, transfer];
+
+        expect(ids(applyFilters(withTransfer, withFilters({ accounts: ['a2'] })))).toEqual(['5']);
+        expect(ids(applyFilters(withTransfer, withFilters({ type: 'transfer' })))).toEqual(['5']);
+    });
+
+    it('filtra por etiqueta y busca también en etiquetas y notas', () => {
+        const trip: Transaction = {
+            id: '6', title: 'Hotel', amount: 800, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Viajes', date: '2023-11-10',
+            tags: ['viaje-cartagena', 'deducible'], notes: 'Factura a nombre de la empresa',
+        };
+        const withTrip = [...transactions, { ...transactions[1], tags: ['deducible'] }, trip];
+
+        expect(ids(applyFilters(withTrip, withFilters({ tags: ['viaje-cartagena'] })))).toEqual(['6']);
+        expect(ids(applyFilters(withTrip, withFilters({ tags: ['deducible'] })))).toEqual(['6', '2']);
+        expect(ids(applyFilters(withTrip, withFilters({ query: 'cartagena' })))).toEqual(['6']);
+        expect(ids(applyFilters(withTrip, withFilters({ query: 'factura' })))).toEqual(['6']);
+    });
+
+    it('acota las fechas del filtro al periodo sin ampliarlas', () => {
+        const october = { from: '2023-10-01', to: '2023-10-31' };
+
+        expect(scopeToRange(withFilters({}), october)).toMatchObject(october);
+        expect(scopeToRange(withFilters({ from: '2023-10-10', to: '2023-12-01' }), october)).toMatchObject({ from: '2023-10-10', to: '2023-10-31' });
+        expect(ids(applyFilters(transactions, scopeToRange(withFilters({}), october)))).toEqual(['3', '2', '1']);
+    });
+});
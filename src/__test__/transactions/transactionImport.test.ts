@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv } from '@/lib/csv';
+import { buildImportRows, getImportDateRange, guessColumnMapping, markDuplicates, parseAmount, parseDate } from '@/lib/transactionImport';
+import { CategorizationInput } from '@/lib/categoryRules';
+import { Transaction } from '@/types';
+
+describe('parseCsv', () => {
+    it('respeta comillas, separador ; y saltos de línea CRLF', () => {
+        const text = 'Fecha;Concepto;Valor\r\n01/02/2024;"Pago ""Uber""; viaje";-12,50\r\n\r\n';
+
+        expect(parseCsv(text)).toEqual([
+            ['Fecha', 'Concepto', 'Valor'],
+            ['01/02/2024', 'Pago "Uber"; viaje', '-12,50'],
+        ]);
+    });
+});
+
+describe('parseAmount', () => {
+    it.each([
+        ['1.234,56', 1234.56],
+        ['1,234.56', 1234.56],
+        ['-12,5', -12.5],
+        ['12.500', 12500],
+        ['$ 3000', 3000],
+        ['(80,00)', -80],
+        ['150-', -150],
+        ['abc', null],
+    ])('%s → %s', (raw, expected) => {
+        expect(parseAmount(raw)).toBe(expected);
+    });
+});
+
+describe('parseDate', () => {
+    it('normaliza dd/mm/yyyy, dd-mm-yy e ISO', () => {
+        expect(parseDate('05/10/2023')).toBe('2023-10-05');
+        expect(parseDate('5-1-24')).toBe('2024-01-05');
+        expect(parseDate('2023-10-01')).toBe('2023-10-01');
+        expect(parseDate('31/02/2024')).toBeNull();
+    });
+});
+
+describe('buildImportRows', () => {
+    const existing: Transaction[] = [
+        { id: '1', title: 'Alquiler', amount: 800, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Vivienda', date: '2023-10-05' },
+    ];
+
+    it('valida cada fila, infiere el tipo por el signo y marca duplicados', () => {
+        const [header, ...rows] = parseCsv([
+            'Fecha,Descripción,Monto',
+            '05/10/2023,alquiler,-800',
+            '06/10/2023,Salario,3000',
+            '06/10/2023,Salario,3000',
+            '07/10/2023,X,abc',
+        ].join('\n'));
+
+        const mapping = guessColumnMapping(header);
+        const result = buildImportRows(rows, mapping, existing, { currency: 'COP', accountId: 'a1' }, 2);
+
+        expect(mapping).toEqual({ date: 0, title: 1, amount: 2 });
+        expect(result[0]).toMatchObject({ line: 2, isDuplicate: true, data: { type: 'expense', amount: 800 } });
+        expect(result[1]).toMatchObject({ isDuplicate: false, data: { type: 'income', category: 'Sin categoría', accountId: 'a1' } });
+        expect(result[2].isDuplicate).toBe(true);
+        expect(result[3].data).toBeNull();
+        expect(result[3].errors).toEqual(['Monto inválido: "abc"', 'El título debe tener al menos 3 caracteres']);
+    });
+
+    it('categoriza las filas sin categoría y respeta la columna de categoría', () => {
+        const rows = [['01/11/2023', 'Uber Trip', '-25', ''], ['02/11/2023', 'Uber Trip', '-25', 'Viajes'], ['03/11/2023', 'Librería', '-40', '']];
+        const categorize = ({ title, amount, type }: CategorizationInput) =>
+            title.startsWith('Uber') && amount === 25 && type === 'expense' ? 'Transporte' : null;
+
+        const result = buildImportRows(rows, { date: 0, title: 1, amount: 2, category: 3 }, [], { currency: 'COP', accountId: 'a1', categorize });
+
+        expect(result.map((row) => row.data?.category)).toEqual(['Transporte', 'Viajes', 'Sin categoría']);
+    });
+});
+
+describe('getImportDateRange y markDuplicates', () => {
+    it('obtiene el rango de las filas válidas y marca los duplicados del historial de ese rango', () => {
+        const rows = buildImportRows(
+            [['15/03/2021', 'Seguro', '-120'], ['02/01/2021', 'Luz', '-60'], ['x', 'Agua', '-30']],
+            { date: 0, title: 1, amount: 2 },
+            [],
+            { currency: 'COP', accountId: 'a1' }
+        );
+        const history: Transaction[] = [
+            { id: '9', title: 'seguro', amount: 120, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Otros', date: '2021-03-15' },
+        ];
+
+        expect(getImportDateRange(rows)).toEqual({ from: '2021-01-02', to: '2021-03-15' });
+        expect(markDuplicates(rows, history).map((row) => row.isDuplicate)).toEqual([true, false, false]);
+        expect(getImportDateRange([])).toBeNull();
+    });
+});
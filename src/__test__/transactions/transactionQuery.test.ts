@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { InvalidCursorError, paginateTransactions, parseLimit, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE } from '@/server/transactionQuery';
+import { applyFilters, DEFAULT_FILTERS, TransactionFilters } from '@/lib/transactionFilters';
+import { Transaction } from '@/types';
+
+const transactions: Transaction[] = Array.from({ length: 25 }, (_, index) => ({
+    id: String(index).padStart(2, '0'),
+    title: `Movimiento ${index}`,
+    amount: (index % 5) * 10,
+    currency: 'COP',
+    accountId: 'a1',
+    type: index % 2 === 0 ? 'income' : 'expense',
+    category: index % 3 === 0 ? 'Comida' : 'Otros',
+    date: `2023-10-${String((index % 10) + 1).padStart(2, '0')}`,
+}));
+
+/** Recorre todas las páginas siguiendo el cursor. */
+const collectPages = (list: Transaction[], filters: TransactionFilters, limit: number) => {
+    const pages: Transaction[][] = [];
+    let cursor: string | null = null;
+
+    do {
+        const page = paginateTransactions(list, filters, { limit, cursor });
+        pages.push(page.items);
+        cursor = page.nextCursor;
+    } while (cursor);
+
+    return pages;
+};
+
+describe('paginateTransactions', () => {
+    it.each(['date', 'amount', 'title', 'category'] as const)('recorre todo el conjunto ordenado por %s sin repetir ni omitir', (sortBy) => {
+        const filters = { ...DEFAULT_FILTERS, sortBy, sortOrder: 'asc' as const };
+        const pages = collectPages(transactions, filters, 7);
+
+        expect(pages.map((page) => page.length)).toEqual([7, 7, 7, 4]);
+        expect(pages.flat()).toEqual(applyFilters(transactions, filters));
+    });
+
+    it('aplica los filtros antes de paginar', () => {
+        const filters = { ...DEFAULT_FILTERS, type: 'income' as const };
+        const pages = collectPages(transactions, filters, 5);
+
+        expect(pages.flat()).toHaveLength(13);
+        expect(pages.flat().every((tx) => tx.type === 'income')).toBe(true);
+    });
+
+    it('mantiene la posición aunque se eliminen registros entre páginas', () => {
+        const first = paginateTransactions(transactions, DEFAULT_FILTERS, { limit: 10 });
+        const remaining = transactions.filter((tx) => tx.id !== first.items[0].id);
+        const second = paginateTransactions(remaining, DEFAULT_FILTERS, { limit: 10, cursor: first.nextCursor });
+
+        expect(second.items).toEqual(applyFilters(transactions, DEFAULT_FILTERS).slice(10, 20));
+    });
+
+    it('rechaza cursores mal formados o de otro orden', () => {
+        const { nextCursor } = paginateTransactions(transactions, DEFAULT_FILTERS, { limit: 10 });
+
+        expect(() => paginateTransactions(transactions, DEFAULT_FILTERS, { cursor: 'no-es-un-cursor' })).toThrow(InvalidCursorError);
+        expect(() => paginateTransactions(transactions, { ...DEFAULT_FILTERS, sortBy: 'amount' }, { cursor: nextCursor })).toThrow(InvalidCursorError);
+    });
+});
+
+describe('parseLimit', () => {
+    it('usa el tamaño por defecto y respeta el máximo', () => {
+        expect(parseLimit(null)).toBe(DEFAULT_PAGE_SIZE);
+        expect(parseLimit('-3')).toBe(DEFAULT_PAGE_SIZE);
+        expect(parseLimit('20')).toBe(20);
+        expect(parseLimit('999999')).toBe(MAX_PAGE_SIZE);
+    });
+});
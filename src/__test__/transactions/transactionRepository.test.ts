@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { generateRecurringTransactions } from '@/server/recurring';
+import { findTransactionAudit } from '@/server/audit';
+import { asReplacement, findActiveTransactions, findDeletedTransactions, isStaleWrite, restoreTransaction } from '@/server/transactions';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'appinit-'));
+
+const sample = { title: 'Salario', amount: 3000, currency: 'COP' as const, accountId: 'a1', type: 'income' as const, category: 'Trabajo', date: '2023-10-01' };
+
+describe('transactionRepository', () => {
+    beforeEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        process.env.DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('persiste las transacciones acotadas a cada usuario', async () => {
+        const created = await transactionRepository.create('u1', sample);
+        await transactionRepository.create('u2', { ...sample, title: 'Otro' });
+
+        const list = await transactionRepository.findAllByUser('u1');
+
+        expect(list).toEqual([created]);
+        expect(created).not.toHaveProperty('userId');
+    });
+
+    it('no permite actualizar ni eliminar registros de otro usuario', async () => {
+        const created = await transactionRepository.create('u1', sample);
+
+        expect(await transactionRepository.update('u2', created.id, { amount: 1 })).toBeNull();
+        expect(await transactionRepository.remove('u2', created.id)).toBe(false);
+
+        const updated = await transactionRepository.update('u1', created.id, { amount: 3500 });
+        expect(updated?.amount).toBe(3500);
+        expect(await transactionRepository.remove('u1', created.id)).toBe(true);
+        expect(await transactionRepository.findAllByUser('u1')).toEqual([]);
+    });
+
+    it('aplica a cada registro sus propios cambios en una sola escritura', async () => {
+        const [salary, rent] = await transactionRepository.createMany('u1', [sample, { ...sample, title: 'Alquiler' }]);
+        const foreign = await transactionRepository.create('u2', sample);
+
+        const updated = await transactionRepository.updateMany('u1', [
+            { id: rent.id, category: 'Vivienda' },
+            { id: salary.id, date: '2023-10-02' },
+            { id: foreign.id, amount: 1 },
+        ]);
+
+        expect(updated).toEqual([{ ...rent, category: 'Vivienda' }, { ...salary, date: '2023-10-02' }]);
+        expect(await transactionRepository.findById('u2', foreign.id)).toEqual(foreign);
+    });
+
+    it('genera las ocurrencias recurrentes sin duplicados', async () => {
+        await recurringRuleRepository.create('u1', {
+            title: 'Salario', amount: 3000, currency: 'COP', accountId: 'a1', type: 'income', category: 'Trabajo',
+            frequency: 'monthly', interval: 1, startDate: '2024-01-01', monthEndPolicy: 'clamp',
+        });
+
+        const [first, second] = await Promise.all([
+            generateRecurringTransactions('u1', '2024-03-15'),
+            generateRecurringTransactions('u1', '2024-03-15'),
+        ]);
+
+        expect(first.length + second.length).toBe(3);
+        const dates = (await transactionRepository.findAllByUser('u1')).map((tx) => tx.date).sort();
+        expect(dates).toEqual(['2024-01-01', '2024-02-01', '2024-03-01']);
+        expect(await findTransactionAudit('u1', first.concat(second)[0].id)).toMatchObject([{ action: 'create', actorId: 'u1' }]);
+
+        // Una ocurrencia eliminada no se vuelve a generar
+        const [january] = await transactionRepository.findAllByUser('u1');
+        await transactionRepository.remove('u1', january.id);
+        expect(await generateRecurringTransactions('u1', '2024-03-20')).toEqual([]);
+    });
+
+    it('envía a la papelera y restaura sin perder el registro', async () => {
+        const created = await transactionRepository.create('u1', sample);
+        await transactionRepository.update('u1', created.id, { deletedAt: '2024-01-10T10:00:00.000Z' });
+
+        expect(await findActiveTransactions('u1')).toEqual([]);
+        expect(await findDeletedTransactions('u1')).toMatchObject([{ id: created.id }]);
+        expect(await restoreTransaction('u2', created.id)).toBeNull();
+
+        const restored = await restoreTransaction('u1', created.id);
+        expect(restored).toEqual({ ...created, updatedAt: expect.any(String) });
+        expect(await findActiveTransactions('u1')).toEqual([restored]);
+        // Solo se restaura lo que está en la papelera
+        expect(await restoreTransaction('u1', created.id)).toBeNull();
+    });
+
+    it('descarta las escrituras anteriores a la última modificación (last-write-wins)', async () => {
+        const created = await transactionRepository.create('u1', { ...sample, updatedAt: '2024-01-10T10:00:00.000Z' });
+
+        expect(isStaleWrite(created, '2024-01-10T09:59:59Z')).toBe(true);
+        expect(isStaleWrite(created, '2024-01-10T10:00:00Z')).toBe(false);
+        expect(isStaleWrite(created, '2024-01-11T08:00:00.000Z')).toBe(false);
+        // Sin marca en alguno de los lados (registros anteriores o clientes sin cola) gana la escritura
+        expect(isStaleWrite(created)).toBe(false);
+        expect(isStaleWrite({ ...created, updatedAt: undefined }, '2024-01-01T00:00:00.000Z')).toBe(false);
+    });
+
+    it('al reemplazar borra las notas, etiquetas y divisiones que el cuerpo omite (deshacer una edición)', async () => {
+        const created = await transactionRepository.create('u1', { ...sample, recurringRuleId: 'r1' });
+        const edited = await transactionRepository.update('u1', created.id, {
+            notes: 'hola',
+            tags: ['x'],
+            splits: [{ category: 'Trabajo', amount: 2000 }, { category: 'Bonos', amount: 1000 }],
+        });
+        expect(edited).toMatchObject({ notes: 'hola', tags: ['x'] });
+
+        const undone = await transactionRepository.update('u1', created.id, asReplacement({ ...sample }));
+
+        expect(undone).toEqual({ ...created });
+        expect(undone?.recurringRuleId).toBe('r1');
+    });
+});
@@ -0,0 +1,214 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { waitFor } from '@testing-library/react';
+import { useTransactionStore } from '@/services/useTransactionStore';
+import { Transaction } from '@/types';
+import { DEFAULT_FILTERS } from '@/lib/transactionFilters';
+
+// Mock de fetch: simula las respuestas de /api/transactions
+const jsonResponse = (body: unknown, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+}) as Response;
+
+const fetchMock = jest.fn<typeof fetch>();
+global.fetch = fetchMock;
+
+const salary: Transaction = { id: 't1', title: 'Salario', amount: 3000, currency: 'COP', accountId: 'a1', type: 'income', category: 'Trabajo', date: '2023-10-01' };
+const rent: Transaction = { ...salary, id: 't2', title: 'Alquiler', amount: 800, type: 'expense', category: 'Vivienda' };
+
+describe('useTransactionStore (optimista)', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+        useTransactionStore.setState({ transactions: [salary, rent], trash: [], undoStack: [], redoStack: [], pendingIds: [], error: null, queue: [] });
+    });
+
+    it('muestra el alta al instante con un ID temporal y lo reemplaza por el del servidor', async () => {
+        let respond!: (response: Response) => void;
+        fetchMock.mockReturnValueOnce(new Promise<Response>((resolve) => { respond = resolve; }));
+
+        const data: Omit<Transaction, 'id'> = { title: 'Mercado', amount: 120, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2023-10-02' };
+        const pending = useTransactionStore.getState().addTransaction(data);
+
+        const [optimistic] = useTransactionStore.getState().transactions;
+        expect(optimistic.title).toBe('Mercado');
+        expect(useTransactionStore.getState().pendingIds).toEqual([optimistic.id]);
+
+        respond(jsonResponse({ ...data, id: 't3' }, 201));
+        await pending;
+
+        const state = useTransactionStore.getState();
+        expect(state.transactions.map((tx) => tx.id)).toEqual(['t3', 't1', 't2']);
+        expect(state.pendingIds).toEqual([]);
+    });
+
+    it('revierte un borrado fallido en su posición original y guarda el error', async () => {
+        fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'Sin conexión con el servidor' }, 500));
+
+        await expect(useTransactionStore.getState().deleteTransaction('t1')).rejects.toThrow('Sin conexión con el servidor');
+
+        const state = useTransactionStore.getState();
+        expect(state.transactions).toEqual([salary, rent]);
+        expect(state.trash).toEqual([]);
+        expect(state.pendingIds).toEqual([]);
+        expect(state.error).toBe('Sin conexión con el servidor');
+        expect(state.undoStack).toEqual([]);
+    });
+
+    it('revierte una edición fallida a la versión anterior', async () => {
+        fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'Transacción no encontrada' }, 404));
+
+        await expect(useTransactionStore.getState().updateTransaction({ ...rent, amount: 900 })).rejects.toThrow();
+
+        expect(useTransactionStore.getState().transactions).toEqual([salary, rent]);
+        expect(useTransactionStore.getState().error).toBe('Transacción no encontrada');
+    });
+
+    it('envía varias transacciones a la papelera con una sola petición y las restaura con un solo deshacer', async () => {
+        const deletedAt = '2024-01-10T10:00:00.000Z';
+        fetchMock.mockResolvedValueOnce(jsonResponse([{ ...salary, deletedAt }, { ...rent, deletedAt }]));
+
+        await useTransactionStore.getState().deleteTransactions(['t1', 't2']);
+
+        let state = useTransactionStore.getState();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock).toHaveBeenLastCalledWith('/api/transactions/batch', expect.objectContaining({ method: 'PATCH' }));
+        expect(state.transactions).toEqual([]);
+        expect(state.trash.map((tx) => tx.id)).toEqual(['t1', 't2']);
+        expect(state.undoStack).toHaveLength(1);
+        expect(state.notice?.message).toBe('2 transacciones enviadas a la papelera');
+
+        fetchMock.mockResolvedValueOnce(jsonResponse([salary, rent]));
+        await useTransactionStore.getState().undo();
+
+        state = useTransactionStore.getState();
+        expect(state.transactions).toEqual([salary, rent]);
+        expect(state.trash).toEqual([]);
+    });
+
+    it('aplica una edición masiva en un solo cambio del estado y la revierte completa si falla', async () => {
+        const snapshots: string[][] = [];
+        const unsubscribe = useTransactionStore.subscribe((state) => snapshots.push(state.transactions.map((tx) => tx.category)));
+        fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'Cuenta no encontrada' }, 400));
+
+        const edited = [salary, rent].map((tx) => ({ ...tx, category: 'Varios' }));
+        await expect(useTransactionStore.getState().updateTransactions(edited)).rejects.toThrow('Cuenta no encontrada');
+        unsubscribe();
+
+        expect(snapshots[0]).toEqual(['Varios', 'Varios']);
+        expect(useTransactionStore.getState().transactions).toEqual([salary, rent]);
+        expect(useTransactionStore.getState().undoStack).toEqual([]);
+    });
+
+    it('permite deshacer la edición masiva de transacciones que no están cargadas', async () => {
+        const groceries: Transaction = { ...rent, id: 't9', title: 'Mercado', category: 'Comida' };
+        const edited = { ...groceries, category: 'Hogar' };
+        fetchMock.mockResolvedValueOnce(jsonResponse([edited]));
+
+        await useTransactionStore.getState().updateTransactions([edited], [groceries]);
+
+        const state = useTransactionStore.getState();
+        expect(state.transactions).toEqual([salary, rent]);
+        expect(state.undoStack.at(-1)?.undo).toEqual({ kind: 'batch', operations: [{ kind: 'update', transaction: groceries }] });
+    });
+});
+
+describe('useTransactionStore (sin conexión)', () => {
+    const offline = () => new TypeError('Failed to fetch');
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        useTransactionStore.setState({ transactions: [salary, rent], trash: [], undoStack: [], redoStack: [], pendingIds: [], error: null, queue: [], ownerId: 'u1' });
+    });
+
+    it('conserva el borrado sin conexión y lo envía al sincronizar', async () => {
+        fetchMock.mockRejectedValueOnce(offline());
+
+        await useTransactionStore.getState().deleteTransaction('t1');
+
+        let state = useTransactionStore.getState();
+        expect(state.transactions).toEqual([rent]);
+        expect(state.trash).toMatchObject([{ id: 't1', deletedAt: expect.any(String) }]);
+        expect(state.queue).toEqual([{ kind: 'delete', id: 't1' }]);
+        expect(state.error).toBeNull();
+
+        fetchMock.mockResolvedValueOnce(jsonResponse({ ...salary, deletedAt: '2024-01-10T10:00:00.000Z' }));
+        await useTransactionStore.getState().syncQueue();
+
+        state = useTransactionStore.getState();
+        expect(fetchMock).toHaveBeenLastCalledWith('/api/transactions/t1', expect.objectContaining({ method: 'DELETE' }));
+        expect(state.queue).toEqual([]);
+        expect(state.trash).toEqual([{ ...salary, deletedAt: '2024-01-10T10:00:00.000Z' }]);
+    });
+
+    it('envía en orden los cambios posteriores a un alta sin conexión, ya con el ID definitivo', async () => {
+        const data: Omit<Transaction, 'id'> = { title: 'Mercado', amount: 120, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2023-10-02' };
+        fetchMock.mockRejectedValueOnce(offline());
+
+        await useTransactionStore.getState().addTransaction(data);
+        const [local] = useTransactionStore.getState().transactions;
+        expect(useTransactionStore.getState().queue).toMatchObject([{ kind: 'create', transaction: { id: local.id } }]);
+
+        // Con cambios en cola, la edición también se encola y se intenta sincronizar
+        fetchMock
+            .mockResolvedValueOnce(jsonResponse({ ...data, id: 't3' }, 201))
+            .mockResolvedValueOnce(jsonResponse({ ...data, id: 't3', amount: 150 }));
+        await useTransactionStore.getState().updateTransaction({ ...local, amount: 150 });
+
+        await waitFor(() => expect(useTransactionStore.getState().queue).toEqual([]));
+        expect(fetchMock).toHaveBeenLastCalledWith('/api/transactions/t3', expect.objectContaining({ method: 'PUT' }));
+        expect(useTransactionStore.getState().transactions[0]).toEqual({ ...data, id: 't3', amount: 150 });
+        expect(useTransactionStore.getState().undoStack.at(-1)?.redo).toMatchObject({ transaction: { id: 't3' } });
+    });
+
+    it('descarta los datos guardados si inicia sesión otro usuario', () => {
+        useTransactionStore.setState({ queue: [{ kind: 'delete', id: 't1' }] });
+
+        useTransactionStore.getState().setOwner('u1');
+        expect(useTransactionStore.getState().transactions).toHaveLength(2);
+
+        useTransactionStore.getState().setOwner('u2');
+        expect(useTransactionStore.getState()).toMatchObject({ ownerId: 'u2', transactions: [], queue: [] });
+    });
+});
+
+describe('useTransactionStore (historial paginado)', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+        useTransactionStore.setState({ transactions: [], query: '', nextCursor: null, error: null, queue: [], isLoading: false });
+    });
+
+    it('pide al servidor la primera página con los filtros y agrega la siguiente sin repetir filas', async () => {
+        fetchMock.mockResolvedValueOnce(jsonResponse({ items: [rent], nextCursor: 'c1' }));
+        await useTransactionStore.getState().getTransactions({ ...DEFAULT_FILTERS, type: 'expense' });
+
+        const [firstUrl] = fetchMock.mock.calls[0];
+        const params = new URL(String(firstUrl), 'http://localhost').searchParams;
+        expect(params.get('type')).toBe('expense');
+        expect(params.has('cursor')).toBe(false);
+        expect(useTransactionStore.getState()).toMatchObject({ transactions: [rent], nextCursor: 'c1' });
+
+        fetchMock.mockResolvedValueOnce(jsonResponse({ items: [rent, salary], nextCursor: null }));
+        await useTransactionStore.getState().loadMoreTransactions();
+
+        const [nextUrl] = fetchMock.mock.calls[1];
+        const nextParams = new URL(String(nextUrl), 'http://localhost').searchParams;
+        expect(nextParams.get('type')).toBe('expense');
+        expect(nextParams.get('cursor')).toBe('c1');
+        expect(useTransactionStore.getState()).toMatchObject({ transactions: [rent, salary], nextCursor: null });
+    });
+
+    it('descarta la respuesta de unos filtros que ya cambiaron', async () => {
+        let respond!: (response: Response) => void;
+        fetchMock.mockReturnValueOnce(new Promise<Response>((resolve) => { respond = resolve; }));
+        const stale = useTransactionStore.getState().getTransactions({ ...DEFAULT_FILTERS, type: 'income' });
+
+        fetchMock.mockResolvedValueOnce(jsonResponse({ items: [rent], nextCursor: null }));
+        await useTransactionStore.getState().getTransactions({ ...DEFAULT_FILTERS, type: 'expense' });
+
+        respond(jsonResponse({ items: [salary], nextCursor: 'c1' }));
+        await stale;
+
+        expect(useTransactionStore.getState()).toMatchObject({ transactions: [rent], nextCursor: null, isLoading: false });
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals';
+import { forgetTransaction, HistoryEntry, pushEntry, renameTransaction } from '@/lib/undoHistory';
+import { Transaction } from '@/types';
+
+const transaction: Transaction = {
+    id: 't2', title: 'Mercado', amount: 80, currency: 'COP', accountId: 'a1', type: 'expense', category: 'Comida', date: '2024-01-05',
+};
+
+const created: HistoryEntry = { label: 'Creada', undo: { kind: 'delete', id: 't1' }, redo: { kind: 'restore', id: 't1' } };
+const updated: HistoryEntry = {
+    label: 'Actualizada',
+    undo: { kind: 'update', transaction },
+    redo: { kind: 'update', transaction: { ...transaction, amount: 90 } },
+};
+const bulkDeleted: HistoryEntry = {
+    label: '2 transacciones enviadas a la papelera',
+    undo: { kind: 'batch', operations: [{ kind: 'restore', id: 't1' }, { kind: 'restore', id: 't2' }] },
+    redo: { kind: 'batch', operations: [{ kind: 'delete', id: 't1' }, { kind: 'delete', id: 't2' }] },
+};
+
+describe('pushEntry', () => {
+    it('descarta las entradas más antiguas por encima del límite', () => {
+        expect(pushEntry([created], updated, 1)).toEqual([updated]);
+        expect(pushEntry([created], updated)).toEqual([created, updated]);
+    });
+});
+
+describe('forgetTransaction', () => {
+    it('quita las entradas de la transacción eliminada definitivamente', () => {
+        expect(forgetTransaction([created, updated], 't2')).toEqual([created]);
+        expect(forgetTransaction([created, updated], 't1')).toEqual([updated]);
+    });
+
+    it('en un lote solo descarta la parte de esa transacción', () => {
+        const [entry] = forgetTransaction([bulkDeleted], 't1');
+
+        expect(entry.undo).toEqual({ kind: 'batch', operations: [{ kind: 'restore', id: 't2' }] });
+        expect(entry.redo).toEqual({ kind: 'batch', operations: [{ kind: 'delete', id: 't2' }] });
+        expect(forgetTransaction([entry], 't2')).toEqual([]);
+    });
+});
+
+describe('renameTransaction', () => {
+    it('cambia el ID temporal de una transacción sincronizada en sus entradas', () => {
+        const [renamed, untouched] = renameTransaction([updated, created], 't2', 't9');
+
+        expect(renamed.undo).toEqual({ kind: 'update', transaction: { ...transaction, id: 't9' } });
+        expect(renamed.redo).toMatchObject({ transaction: { id: 't9' } });
+        expect(untouched).toEqual(created);
+    });
+
+    it('cambia el ID dentro de las operaciones de un lote', () => {
+        const [renamed] = renameTransaction([bulkDeleted], 't1', 't9');
+
+        expect(renamed.undo).toEqual({ kind: 'batch', operations: [{ kind: 'restore', id: 't9' }, { kind: 'restore', id: 't2' }] });
+    });
+});
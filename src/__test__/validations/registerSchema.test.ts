@@ -0,0 +1,23 @@
+import { describe, it, expect } from '@jest/globals';
+import { registerSchema } from '@/validations/validations';
+
+const valid = { name: 'Ana', email: 'ana@mail.com', password: 'Segura123', confirmPassword: 'Segura123' };
+
+describe('registerSchema', () => {
+    it('acepta datos válidos', () => {
+        expect(registerSchema.safeParse(valid).success).toBe(true);
+    });
+
+    it('exige que las contraseñas coincidan', () => {
+        const result = registerSchema.safeParse({ ...valid, confirmPassword: 'Segura124' });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].path).toEqual(['confirmPassword']);
+    });
+
+    it('aplica las reglas de fortaleza', () => {
+        expect(registerSchema.safeParse({ ...valid, password: 'segura123', confirmPassword: 'segura123' }).success).toBe(false);
+        expect(registerSchema.safeParse({ ...valid, password: 'SeguraSin', confirmPassword: 'SeguraSin' }).success).toBe(false);
+        expect(registerSchema.safeParse({ ...valid, password: 'Ab1', confirmPassword: 'Ab1' }).success).toBe(false);
+    });
+});
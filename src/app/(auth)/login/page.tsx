@@ -1,9 +1,12 @@
 "use client";
 
+import { use } from "react";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
+import { getSafeRedirectPath } from "@/lib/navigation";
 import { loginSchema, LoginFormData } from "@/validations/validations";
 
 /**
@@ -11,7 +14,10 @@ import { loginSchema, LoginFormData } from "@/validations/validations";
  * * Este componente gestiona el acceso de usuarios, validando las credenciales
  * mediante un esquema de Zod y coordinando la redirección post-login.
  */
-export default function LoginPage() {
+export default function LoginPage({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+  /** Ruta solicitada antes de ser redirigido al login (?next=). */
+  const { next } = use(searchParams);
+
   /** * Extraemos 'login' para ejecutar la acción y 'isLoading' para el feedback visual
    * del estado global de autenticación.
    */
@@ -25,7 +31,7 @@ export default function LoginPage() {
    * Se vincula con 'loginSchema' para asegurar que los datos cumplen con el formato
    * antes de intentar el proceso de autenticación.
    */
-  const { register, handleSubmit, formState: { errors }, } = useForm<LoginFormData>({
+  const { register, handleSubmit, setError, formState: { errors }, } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
   });
 
@@ -36,15 +42,18 @@ export default function LoginPage() {
   const onSubmit = async (data: LoginFormData) => {
     try {
       // 1. Intentamos la autenticación a través del contexto global
-      await login(data.email);
+      await login(data.email, data.password);
 
       // 2. Si es exitoso, redirigimos al usuario al dashboard
-      router.push("/dashboard");
+      router.push(getSafeRedirectPath(next));
     } catch (error) {
       /**
        * Manejo de excepciones de autenticación.
+       * Se muestra el mensaje del servidor (ej: credenciales incorrectas).
        */
-      console.error("Error al iniciar sesión", error);
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible iniciar sesión",
+      });
     }
   };
 
@@ -63,7 +72,7 @@ export default function LoginPage() {
           />
           <h2 className="text-4xl font-bold text-app-green">Bienvenido</h2>
           <p className="mt-4 text-gray-600">
-            Ingresa a tu cuenta de prueba
+            Ingresa a tu cuenta
           </p>
         </div>
 
@@ -106,6 +115,11 @@ export default function LoginPage() {
             </div>
           </div>
 
+          {/* Error devuelto por el servidor */}
+          {errors.root && (
+            <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+          )}
+
           {/* Botón de acción principal con feedback de estado */}
           <button
             type="submit"
@@ -122,6 +136,13 @@ export default function LoginPage() {
               "Iniciar Sesión"
             )}
           </button>
+
+          <p className="text-center text-sm text-gray-600">
+            ¿No tienes cuenta?{" "}
+            <Link href={next ? `/register?next=${encodeURIComponent(next)}` : "/register"} className="font-semibold text-app-purple hover:underline">
+              Regístrate
+            </Link>
+          </p>
         </form>
       </div>
     </div>
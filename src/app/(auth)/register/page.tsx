@@ -0,0 +1,128 @@
+"use client";
+
+import { use } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { getSafeRedirectPath } from "@/lib/navigation";
+import { registerSchema, RegisterFormData } from "@/validations/validations";
+
+/** Campos del formulario con su etiqueta, tipo de input y placeholder. */
+const FIELDS: { name: keyof RegisterFormData; label: string; type: string; placeholder: string }[] = [
+  { name: "name", label: "Nombre", type: "text", placeholder: "Tu nombre" },
+  { name: "email", label: "Email", type: "email", placeholder: "correo@ejemplo.com" },
+  { name: "password", label: "Contraseña", type: "password", placeholder: "••••••••" },
+  { name: "confirmPassword", label: "Confirmar contraseña", type: "password", placeholder: "••••••••" },
+];
+
+/**
+ * Página de Registro
+ * Crea la cuenta del usuario validando los datos con 'registerSchema'
+ * y lo redirige al dashboard con la sesión ya iniciada.
+ */
+export default function RegisterPage({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+  /** Ruta a la que volver tras el registro (?next=). */
+  const { next } = use(searchParams);
+
+  const { register: signUp, isLoading } = useAuth();
+  const router = useRouter();
+
+  /**
+   * Configuración de React Hook Form vinculada a 'registerSchema'
+   * (coincidencia de contraseñas y reglas de fortaleza).
+   */
+  const { register, handleSubmit, setError, formState: { errors }, } = useForm<RegisterFormData>({
+    resolver: zodResolver(registerSchema),
+  });
+
+  /**
+   * Envía los datos de registro.
+   * @param data - Datos validados del formulario.
+   */
+  const onSubmit = async (data: RegisterFormData) => {
+    try {
+      await signUp(data);
+      router.push(getSafeRedirectPath(next));
+    } catch (error) {
+      // Ej: el correo ya está registrado
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible crear la cuenta",
+      });
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md space-y-8 rounded-xl bg-white p-10 shadow-xl">
+
+        {/* Cabecera de la página: Logo y título */}
+        <div className="text-center">
+          <img
+            src="/logo.png"
+            alt="Logo de la aplicación"
+            className="block mx-auto rounded-xl mb-10 shadow-lg shadow-app-purple/30"
+            width={300}
+            height={150}
+          />
+          <h2 className="text-4xl font-bold text-app-green">Crear cuenta</h2>
+          <p className="mt-4 text-gray-600">
+            Registra tus datos para empezar
+          </p>
+        </div>
+
+        {/* Formulario de registro */}
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-5">
+            {FIELDS.map((field) => (
+              <div key={field.name}>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">{field.label}</label>
+                <input
+                  {...register(field.name)}
+                  type={field.type}
+                  className={`w-full rounded-lg border px-4 py-3 outline-none transition-all ${errors[field.name]
+                    ? "border-red-500 focus:ring-2 focus:ring-red-100"
+                    : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+                    }`}
+                  placeholder={field.placeholder}
+                />
+                {errors[field.name] && (
+                  <p className="mt-1.5 text-xs font-medium text-red-500">{errors[field.name]?.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Error devuelto por el servidor */}
+          {errors.root && (
+            <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+          )}
+
+          {/* Botón de acción principal con feedback de estado */}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full rounded-lg bg-app-purple py-3 text-sm font-bold text-white transition-all hover:brightness-110 active:scale-[0.98] disabled:bg-gray-400"
+          >
+            {isLoading ? (
+              <span className="flex items-center justify-center gap-2">
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-app-green"></div>
+                Creando cuenta...
+              </span>
+            ) : (
+              "Registrarme"
+            )}
+          </button>
+
+          <p className="text-center text-sm text-gray-600">
+            ¿Ya tienes cuenta?{" "}
+            <Link href={next ? `/login?next=${encodeURIComponent(next)}` : "/login"} className="font-semibold text-app-purple hover:underline">
+              Inicia sesión
+            </Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useCategoryStore } from "@/services/useCategoryStore";
+import { useCurrencyConverter } from "@/hooks/useCurrencyConverter";
+import { useAnalytics } from "@/hooks/useAnalytics";
+import ChartCard from "@/components/analytics/ChartCard";
+import MonthlyBarChart from "@/components/analytics/MonthlyBarChart";
+import CategoryDonut from "@/components/analytics/CategoryDonut";
+import BalanceLineChart from "@/components/analytics/BalanceLineChart";
+import { AnalyticsChart, AnalyticsResult } from "@/lib/aggregations";
+import { findCategoryByName } from "@/lib/categories";
+import { DateRange } from "@/lib/periods";
+
+interface ChartDataProps<C extends AnalyticsChart> {
+  chart: C;
+  range: DateRange;
+  /** Renderiza el gráfico con los datos del servidor. */
+  children: (result: AnalyticsResult<C>) => React.ReactNode;
+}
+
+/**
+ * Carga los datos de un gráfico para el rango elegido y avisa de las monedas sin tasa de cambio.
+ */
+function ChartData<C extends AnalyticsChart>({ chart, range, children }: ChartDataProps<C>) {
+  const result = useAnalytics(chart, range);
+  if (!result) return <p className="text-sm text-gray-500">Cargando...</p>;
+
+  return (
+    <>
+      {children(result)}
+      {result.missingRates.length > 0 && (
+        <p className="text-xs text-amber-600 font-medium">
+          Sin tasa de cambio para {result.missingRates.join(", ")}: esos movimientos no se suman en el gráfico.
+        </p>
+      )}
+    </>
+  );
+}
+
+/**
+ * Análisis: ingresos vs. gastos por mes, gasto por categoría y balance acumulado.
+ * Cada gráfico tiene su propio periodo y se calcula en el servidor sobre todo el historial;
+ * los montos se expresan en la moneda base.
+ */
+export default function AnalyticsPage() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { categories, getCategories } = useCategoryStore();
+  const { baseCurrency } = useCurrencyConverter();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!isAuthenticated) {
+      router.replace("/login?next=/analytics");
+      return;
+    }
+
+    getCategories().catch((error) => {
+      console.error("Error al cargar las categorías:", error);
+    });
+  }, [isAuthenticated, authLoading, getCategories, router]);
+
+  const getCategoryColor = (name: string) => findCategoryByName(categories, name)?.color;
+
+  return (
+    <div className="min-h-screen bg-gray-50/50 pb-12">
+      <main className="max-w-5xl mx-auto px-4 pt-8 space-y-8">
+        <Link href="/dashboard" className="flex items-center gap-2 text-sm font-semibold text-gray-600">
+          <ArrowLeft size={16} /> Volver al dashboard
+        </Link>
+
+        <header>
+          <h1 className="text-3xl font-black text-gray-900">Análisis</h1>
+          <p className="text-sm text-gray-500 font-medium mt-1">Montos expresados en {baseCurrency}.</p>
+        </header>
+
+        <ChartCard title="Ingresos vs. gastos por mes" defaultPeriod={{ preset: "last12" }}>
+          {(range) => (
+            <ChartData chart="monthly" range={range}>
+              {({ data, currency }) => <MonthlyBarChart data={data} currency={currency} />}
+            </ChartData>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Gasto por categoría" defaultPeriod={{ preset: "month" }}>
+          {(range) => (
+            <ChartData chart="categories" range={range}>
+              {({ data, currency }) => <CategoryDonut data={data} currency={currency} getColor={getCategoryColor} />}
+            </ChartData>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Balance neto acumulado" defaultPeriod={{ preset: "last3" }}>
+          {(range) => (
+            <ChartData chart="balance" range={range}>
+              {({ data, currency }) => <BalanceLineChart data={data} range={range} currency={currency} />}
+            </ChartData>
+          )}
+        </ChartCard>
+      </main>
+    </div>
+  );
+}
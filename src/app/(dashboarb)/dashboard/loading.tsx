@@ -0,0 +1,14 @@
+/**
+ * Estado de carga del dashboard.
+ * También sirve de límite de Suspense para los componentes que leen la query string.
+ */
+export default function DashboardLoading() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-white">
+      <div className="text-center">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-app-purple border-t-transparent mx-auto"></div>
+        <p className="mt-4 text-gray-600 font-medium">Cargando tus finanzas...</p>
+      </div>
+    </div>
+  );
+}
@@ -1,79 +1,258 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import { useTransactionStore } from "@/services/useTransactionStore";
+import { fetchFilteredTransactions, useTransactionStore } from "@/services/useTransactionStore";
+import { useBudgetStore } from "@/services/useBudgetStore";
+import { useGoalStore } from "@/services/useGoalStore";
+import { useRecurringStore } from "@/services/useRecurringStore";
+import { useExchangeRateStore } from "@/services/useExchangeRateStore";
+import { useAccountStore } from "@/services/useAccountStore";
+import { useCategoryStore } from "@/services/useCategoryStore";
+import { useCategoryRuleStore } from "@/services/useCategoryRuleStore";
 import { useAuth } from "@/context/AuthContext";
-import { redirect } from "next/navigation";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
 import Modal from "@/components/ui/Modal";
+import SummaryCard from "@/components/ui/SummaryCard";
+import PeriodSelector from "@/components/ui/PeriodSelector";
 import TransactionForm from "@/components/forms/TransactionForm";
-import { Plus, ArrowUpDown, Filter, Wallet, ArrowUpCircle, ArrowDownCircle, Edit2, Trash2 } from "lucide-react";
+import TransactionImportForm from "@/components/forms/TransactionImportForm";
+import BudgetsPanel from "@/components/budgets/BudgetsPanel";
+import GoalsPanel from "@/components/goals/GoalsPanel";
+import AccountsPanel from "@/components/accounts/AccountsPanel";
+import ExportMenu from "@/components/transactions/ExportMenu";
+import CurrencySettings from "@/components/currency/CurrencySettings";
+import CategoriesManager from "@/components/categories/CategoriesManager";
+import CategoryRulesManager from "@/components/categories/CategoryRulesManager";
+import TransactionFiltersBar from "@/components/transactions/TransactionFiltersBar";
+import TransactionTable from "@/components/transactions/TransactionTable";
+import BulkActionsBar from "@/components/transactions/BulkActionsBar";
+import TrashPanel from "@/components/transactions/TrashPanel";
+import AuditHistory from "@/components/transactions/AuditHistory";
+import AttachmentPreview from "@/components/transactions/AttachmentPreview";
+import UndoToast from "@/components/transactions/UndoToast";
+import { useTransactionFilters } from "@/hooks/useTransactionFilters";
+import { useCurrencyConverter } from "@/hooks/useCurrencyConverter";
+import { useUndoShortcuts } from "@/hooks/useUndoShortcuts";
+import { useOnlineSync } from "@/hooks/useOnlineSync";
+import { scopeToRange, serializeFilters } from "@/lib/transactionFilters";
+import { DASHBOARD_PERIODS, getPeriodRange, getPreviousRange } from "@/lib/periods";
+import { getRelativeChange, getSavingsRate } from "@/lib/aggregations";
+import { getTodayKey } from "@/lib/dates";
+import { getMonthKey, getTotalRemaining } from "@/lib/budgets";
+import { ContributionDraft, getContributionDraft, GoalProgress } from "@/lib/goals";
+import { describeRecurrence } from "@/lib/recurrence";
+import { applyBulkEdit, BulkEdit } from "@/lib/bulkEdit";
+import { categoryAppliesTo, sortCategoryTree } from "@/lib/categories";
+import { Plus, Wallet, ArrowUpCircle, ArrowDownCircle, LogOut, PiggyBank, Upload, Coins, AlertTriangle, Tags, BarChart3, Trash2, XCircle, X, CloudOff } from "lucide-react";
 import { Transaction } from "@/types";
 
+/** Fecha de un extremo del periodo (ej: "1 oct 2026"). */
+const formatRangeDate = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString("es-ES", { day: "numeric", month: "short", year: "numeric" });
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Diferencia en puntos porcentuales, con signo (ej: "+4"). */
+const formatPoints = (value: number) => {
+  const points = Math.round(value * 100);
+  return points > 0 ? `+${points}` : String(points);
+};
+
 /**
  * Gestiona la visualización, filtrado y acciones de transacciones.
  */
 export default function DashboardPage() {
   // --- ESTADO GLOBAL ---
-  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
-  const { transactions, getAllTransactions, deleteTransaction, isLoading: dataLoading } = useTransactionStore();
+  const { user, isAuthenticated, isLoading: authLoading, logout } = useAuth();
+  const router = useRouter();
+  const { transactions, nextCursor, summary, previousSummary, getTransactions, loadMoreTransactions, getRecentTransactions, getSummary, deleteTransaction, deleteTransactions, updateTransactions, undo, redo, pendingIds, error, clearError, queue, syncQueue, isLoading: dataLoading } = useTransactionStore();
+  const { budgets, progress: budgetProgress, getBudgets, getProgress: getBudgetProgress } = useBudgetStore();
+  const { goals, progress: goalProgress, getGoals, getProgress: getGoalProgress } = useGoalStore();
+  const { rules, getRules, generateDueTransactions, deleteRule } = useRecurringStore();
+  const { rates, getRates } = useExchangeRateStore();
+  const { accounts, balances: accountBalances, getAccounts, getBalances } = useAccountStore();
+  const { categories: managedCategories, getCategories } = useCategoryStore();
+  const { getCategoryRules } = useCategoryRuleStore();
+  const { baseCurrency } = useCurrencyConverter();
 
   // --- ESTADO LOCAL (UI) ---
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isCurrencyOpen, setIsCurrencyOpen] = useState(false);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | undefined>(undefined);
-  const [filterType, setFilterType] = useState<"all" | "income" | "expense">("all");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [transactionDefaults, setTransactionDefaults] = useState<ContributionDraft | undefined>(undefined);
+  const [historyTransaction, setHistoryTransaction] = useState<Transaction | null>(null);
+  const [attachmentsTransaction, setAttachmentsTransaction] = useState<Transaction | null>(null);
+
+  // Búsqueda, filtros, orden y periodo sincronizados con la URL (vista compartible)
+  const { filters, setFilters, resetFilters, period, setPeriod } = useTransactionFilters();
 
   // Estado para el flujo de eliminación
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
+  const [stopRecurrence, setStopRecurrence] = useState(false);
+
+  // Selección de filas para las acciones masivas
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Al seleccionar todo el filtro: sus transacciones, incluidas las de páginas sin cargar
+  const [matching, setMatching] = useState<{ key: string; items: Transaction[] } | null>(null);
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
+
+  // Ctrl+Z / Ctrl+Shift+Z sobre los cambios de transacciones
+  useUndoShortcuts(undo, redo);
+  useOnlineSync(syncQueue);
 
   /**
-   * Redirige al login si no hay sesión y dispara la carga inicial de datos.
+   * Dispara la carga inicial de datos una vez confirmada la sesión.
+   * La protección principal de la ruta ocurre en el servidor (src/proxy.ts);
+   * aquí solo se cubre el caso de una sesión que expira con la página abierta.
    */
   useEffect(() => {
-    if (!authLoading && !isAuthenticated) {
-      redirect("/login");
+    if (authLoading) return;
+
+    if (!isAuthenticated) {
+      router.replace("/login?next=/dashboard");
+      return;
     }
-    getAllTransactions();
-  }, [isAuthenticated, authLoading, getAllTransactions]);
+
+    // Si se generaron ocurrencias recurrentes vencidas, se recarga el historial para incluirlas
+    generateDueTransactions()
+      .then((created) => (created > 0 ? getTransactions() : undefined))
+      .catch((error) => {
+        console.error("Error al generar las transacciones recurrentes:", error);
+      });
+    getRecentTransactions().catch((error) => {
+      console.error("Error al cargar las transacciones recientes:", error);
+    });
+    getRules().catch((error) => {
+      console.error("Error al cargar las reglas recurrentes:", error);
+    });
+    getBudgets().catch((error) => {
+      console.error("Error al cargar los presupuestos:", error);
+    });
+    getGoals().catch((error) => {
+      console.error("Error al cargar las metas:", error);
+    });
+    getRates().catch((error) => {
+      console.error("Error al cargar las tasas de cambio:", error);
+    });
+    getAccounts().catch((error) => {
+      console.error("Error al cargar las cuentas:", error);
+    });
+    getCategories().catch((error) => {
+      console.error("Error al cargar las categorías:", error);
+    });
+    getCategoryRules().catch((error) => {
+      console.error("Error al cargar las reglas de categorización:", error);
+    });
+  }, [isAuthenticated, authLoading, getTransactions, getRecentTransactions, getBudgets, getGoals, getRules, getRates, getAccounts, getCategories, getCategoryRules, generateDueTransactions, router]);
 
   /**
-   * Cálculo del Resumen Financiero.
-   * Se utiliza useMemo para evitar recalcular totales si las transacciones no han cambiado.
+   * Saldos de las cuentas, progreso de los presupuestos del mes en curso y avance de las metas a hoy.
+   * Los calcula el servidor sobre todo el historial (convertido a la moneda base)
+   * y se vuelven a pedir cuando cambian las transacciones, las cuentas, los presupuestos, las metas, las tasas o la moneda base.
    */
-  const { totalIncome, totalExpenses, netBalance } = useMemo(() => {
-    const income = transactions
-      .filter((t) => t.type === "income")
-      .reduce((acc, t) => acc + t.amount, 0);
-    const expenses = transactions
-      .filter((t) => t.type === "expense")
-      .reduce((acc, t) => acc + t.amount, 0);
-
-    return {
-      totalIncome: income,
-      totalExpenses: expenses,
-      netBalance: income - expenses,
-    };
-  }, [transactions]);
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    getBalances().catch((error) => {
+      console.error("Error al calcular los saldos:", error);
+    });
+    getBudgetProgress(getMonthKey(new Date())).catch((error) => {
+      console.error("Error al calcular los presupuestos:", error);
+    });
+    getGoalProgress(getTodayKey()).catch((error) => {
+      console.error("Error al calcular las metas:", error);
+    });
+  }, [isAuthenticated, transactions, accounts, budgets, goals, rates, baseCurrency, getBalances, getBudgetProgress, getGoalProgress]);
+
+  /** Nombres de las categorías gestionadas, en orden de árbol (filtro del historial). */
+  const categories = useMemo(
+    () => sortCategoryTree(managedCategories).map((category) => category.name),
+    [managedCategories]
+  );
+
+  /** Categorías de gasto (sugerencias para presupuestos). */
+  const expenseCategories = useMemo(
+    () => sortCategoryTree(managedCategories).filter((category) => categoryAppliesTo(category, "expense")).map((category) => category.name),
+    [managedCategories]
+  );
+
+  /**
+   * Filtros acotados al periodo elegido (las fechas del filtro solo lo estrechan)
+   * y los mismos filtros sobre el periodo anterior equivalente, para comparar.
+   */
+  const { scopedFilters, previousFilters } = useMemo(() => {
+    const scoped = scopeToRange(filters, getPeriodRange(period, getTodayKey()));
+    return { scopedFilters: scoped, previousFilters: { ...scoped, ...getPreviousRange(scoped) } };
+  }, [filters, period]);
 
   /**
    * Lógica de Procesamiento de Lista.
-   * Aplica filtros de tipo (ingreso/gasto) y ordenamiento por fecha.
+   * El servidor aplica el periodo, búsqueda, filtros (tipo, categorías, montos, fechas) y ordenamiento;
+   * al cambiarlos se pide de nuevo la primera página.
    */
-  const processedTransactions = useMemo(() => {
-    return transactions
-      .filter((t) => (filterType === "all" ? true : t.type === filterType))
-      .sort((a, b) => {
-        const dateA = new Date(a.date).getTime();
-        const dateB = new Date(b.date).getTime();
-        return sortOrder === "desc" ? dateB - dateA : dateA - dateB;
-      });
-  }, [transactions, filterType, sortOrder]);
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    getTransactions(scopedFilters).catch((error) => {
+      console.error("Error al cargar las transacciones:", error);
+    });
+  }, [isAuthenticated, scopedFilters, getTransactions]);
+
+  /** Query string de los filtros; identifica la vista actual. */
+  const filterKey = serializeFilters(filters).toString();
+  /** Query string de los filtros acotados al periodo. */
+  const scopedKey = serializeFilters(scopedFilters).toString();
+
+  /**
+   * Filas seleccionadas que siguen en el filtro: las cargadas y, si se eligió todo el filtro,
+   * las de páginas sin cargar. Las acciones masivas solo afectan a lo que coincide con la vista.
+   */
+  const selectedTransactions = useMemo(() => {
+    const ids = new Set(selectedIds);
+    const loaded = new Set(transactions.map((tx) => tx.id));
+    const unloaded = matching?.key === scopedKey ? matching.items.filter((tx) => !loaded.has(tx.id)) : [];
+    return [...transactions, ...unloaded].filter((tx) => ids.has(tx.id));
+  }, [transactions, matching, scopedKey, selectedIds]);
+
+  /**
+   * Cálculo del Resumen Financiero sobre el conjunto filtrado del periodo y del periodo anterior.
+   * Los totales se piden al servidor (consulta agregada, convertida a la moneda base)
+   * y se vuelven a pedir cuando cambian los filtros, el periodo, las transacciones, las tasas o la moneda base.
+   */
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    getSummary(scopedFilters, previousFilters).catch((error) => {
+      console.error("Error al calcular el resumen:", error);
+    });
+  }, [isAuthenticated, scopedFilters, previousFilters, transactions, rates, baseCurrency, getSummary]);
+
+  const { totalIncome = 0, totalExpenses = 0, netBalance = 0, missingRates = [] } = summary ?? {};
+  const summaryCurrency = summary?.currency ?? baseCurrency;
+  const savingsRate = summary ? getSavingsRate(summary) : null;
+  const previousSavingsRate = previousSummary ? getSavingsRate(previousSummary) : null;
+
+  /** Variación de un total frente al periodo anterior (null sin datos de comparación). */
+  const getChange = (key: "totalIncome" | "totalExpenses" | "netBalance") =>
+    summary && previousSummary ? getRelativeChange(summary[key], previousSummary[key]) : null;
 
   // --- MANEJADORES DE EVENTOS ---
 
   const handleCreate = () => {
     setEditingTransaction(undefined);
+    setTransactionDefaults(undefined);
+    setIsModalOpen(true);
+  };
+
+  /** Abre el formulario con un aporte a la meta ya completado. */
+  const handleContribute = (progress: GoalProgress) => {
+    setEditingTransaction(undefined);
+    setTransactionDefaults(getContributionDraft(progress, accounts, baseCurrency));
     setIsModalOpen(true);
   };
 
@@ -84,14 +263,77 @@ export default function DashboardPage() {
 
   const handleDeleteClick = (transaction: Transaction) => {
     setTransactionToDelete(transaction);
+    setStopRecurrence(false);
     setIsDeleteModalOpen(true);
   };
 
+  /** Pulsar una etiqueta de la tabla la añade al filtro (la lista y el resumen se recalculan). */
+  const handleTagClick = (tag: string) => {
+    if (!filters.tags.includes(tag)) setFilters({ tags: [...filters.tags, tag] });
+  };
+
+  /** Selecciona todas las transacciones del filtro, pidiendo al servidor las de páginas sin cargar. */
+  const handleSelectAll = async () => {
+    try {
+      const items = await fetchFilteredTransactions(scopedFilters);
+      setMatching({ key: scopedKey, items });
+      setSelectedIds(items.map((tx) => tx.id));
+    } catch (error) {
+      console.error("Error al seleccionar las transacciones del filtro:", error);
+    }
+  };
+
+  /**
+   * Versión vigente de la selección. Las filas sin cargar se vuelven a pedir al servidor
+   * (otro cambio o un "Deshacer" pudo modificarlas desde que se seleccionaron); las cargadas tienen prioridad.
+   */
+  const getSelectionTargets = async () => {
+    const loaded = new Set(transactions.map((tx) => tx.id));
+    if (selectedTransactions.every((tx) => loaded.has(tx.id))) return selectedTransactions;
+
+    const items = await fetchFilteredTransactions(scopedFilters);
+    setMatching({ key: scopedKey, items });
+    const ids = new Set(selectedIds);
+    return [...transactions, ...items.filter((tx) => !loaded.has(tx.id))].filter((tx) => ids.has(tx.id));
+  };
+
+  /** Aplica el cambio masivo a la selección; un solo "Deshacer" lo revierte completo. */
+  const handleBulkEdit = async (edit: BulkEdit) => {
+    try {
+      const targets = await getSelectionTargets();
+      await updateTransactions(applyBulkEdit(targets, edit), targets);
+    } catch {
+      // El store ya guardó el error que muestra el dashboard
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = selectedTransactions.map((tx) => tx.id);
+    setIsBulkDeleteOpen(false);
+    setSelectedIds([]);
+    try {
+      await deleteTransactions(ids);
+    } catch {
+      // El store ya guardó el error que muestra el dashboard
+    }
+  };
+
+  /** Descripción de la regla que generó una transacción (ej: "Mensual"). */
+  const getRuleLabel = (ruleId: string) => {
+    const rule = rules.find((r) => r.id === ruleId);
+    return rule ? `Recurrente · ${describeRecurrence(rule)}` : "Recurrente";
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    router.replace("/login");
+  };
+
   /**
    * Pantalla de carga (Spinner).
-   * Se muestra durante la validación de auth o la carga inicial de datos.
+   * Se muestra durante la validación de auth; la carga del historial se indica en la tabla.
    */
-  if (authLoading || (dataLoading && transactions.length === 0)) {
+  if (authLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-white">
         <div className="text-center">
@@ -117,110 +359,221 @@ export default function DashboardPage() {
             </div>
           </div>
 
-          <button
-            onClick={handleCreate}
-            className="flex items-center gap-2 bg-app-purple hover:brightness-110 text-white px-6 py-3 rounded-xl font-bold transition-all active:scale-95"
-          >
-            <Plus size={20} strokeWidth={3} />
-            Nueva Transacción
-          </button>
+          <div className="flex items-center gap-3">
+            <Link
+              href="/analytics"
+              className="p-3 text-gray-600 hover:bg-gray-50 rounded-xl border border-gray-200"
+              aria-label="Análisis"
+              title="Análisis"
+            >
+              <BarChart3 size={20} />
+            </Link>
+            <button
+              onClick={() => setIsCategoriesOpen(true)}
+              className="p-3 text-gray-600 hover:bg-gray-50 rounded-xl border border-gray-200"
+              aria-label="Categorías"
+              title="Categorías"
+            >
+              <Tags size={20} />
+            </button>
+            <button
+              onClick={() => setIsCurrencyOpen(true)}
+              className="flex items-center gap-2 p-3 text-gray-600 hover:bg-gray-50 rounded-xl border border-gray-200 font-semibold text-sm"
+              title="Monedas y tasas de cambio"
+            >
+              <Coins size={20} />
+              {baseCurrency}
+            </button>
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 bg-app-purple hover:brightness-110 text-white px-6 py-3 rounded-xl font-bold transition-all active:scale-95"
+            >
+              <Plus size={20} strokeWidth={3} />
+              Nueva Transacción
+            </button>
+            <button
+              onClick={handleLogout}
+              className="p-3 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-xl transition-colors"
+              aria-label="Cerrar sesión"
+              title="Cerrar sesión"
+            >
+              <LogOut size={20} />
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 mt-8">
+        {/* Periodo del resumen y del historial */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <p className="text-sm font-semibold text-gray-500">
+            {formatRangeDate(scopedFilters.from)} – {formatRangeDate(scopedFilters.to)}
+          </p>
+          <PeriodSelector value={period} onChange={setPeriod} presets={DASHBOARD_PERIODS} />
+        </div>
+
         {/* Grilla de Resumen */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <SummaryCard
             title="Balance Neto"
             amount={netBalance}
             icon={<Wallet className="text-app-purple" />}
             accentColor="bg-app-purple/10"
-          />
+            currency={summaryCurrency}
+            change={getChange("netBalance")}
+          >
+            <p className="text-xs font-semibold text-gray-500 mt-1">
+              Tasa de ahorro: {savingsRate === null ? "—" : formatPercent(savingsRate)}
+              {savingsRate !== null && previousSavingsRate !== null && (
+                <span className="text-gray-400"> ({formatPoints(savingsRate - previousSavingsRate)} pp)</span>
+              )}
+            </p>
+          </SummaryCard>
           <SummaryCard
             title="Total Ingresos"
             amount={totalIncome}
             icon={<ArrowUpCircle className="text-app-green" />}
             accentColor="bg-app-green/15"
+            currency={summaryCurrency}
+            change={getChange("totalIncome")}
           />
           <SummaryCard
             title="Total Gastos"
             amount={totalExpenses}
             icon={<ArrowDownCircle className="text-red-500" />}
             accentColor="bg-red-50"
+            currency={summaryCurrency}
+            change={getChange("totalExpenses")}
+            higherIsBetter={false}
+          />
+          <SummaryCard
+            title="Presupuesto restante"
+            amount={getTotalRemaining(budgetProgress)}
+            icon={<PiggyBank className="text-amber-500" />}
+            accentColor="bg-amber-50"
+            currency={baseCurrency}
           />
         </div>
 
+        {/* Metas de ahorro */}
+        <GoalsPanel progress={goalProgress} accounts={accounts} currency={baseCurrency} onContribute={handleContribute} />
+
+        {/* Cambios hechos sin conexión que aún no llegan al servidor */}
+        {queue.length > 0 && (
+          <div className="flex items-center gap-3 mb-8 rounded-xl border border-amber-200 bg-amber-50/60 p-4 text-sm font-medium text-amber-700">
+            <CloudOff size={18} className="shrink-0" />
+            <span>
+              {queue.length === 1 ? "1 cambio sin sincronizar" : `${queue.length} cambios sin sincronizar`}: se enviarán al recuperar la conexión.
+            </span>
+            <button onClick={() => syncQueue()} className="ml-auto font-bold hover:underline">
+              Reintentar
+            </button>
+          </div>
+        )}
+
+        {/* Error de la última operación (el cambio optimista ya se revirtió) */}
+        {error && (
+          <div role="alert" className="flex items-center gap-3 mb-8 rounded-xl border border-red-200 bg-red-50/60 p-4 text-sm font-medium text-red-700">
+            <XCircle size={18} className="shrink-0" />
+            <span>{error}</span>
+            <button onClick={clearError} className="ml-auto p-1 rounded-lg hover:bg-red-100" aria-label="Descartar error">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {/* Aviso de monedas sin tasa de cambio */}
+        {missingRates.length > 0 && (
+          <div className="flex items-center gap-3 mb-8 rounded-xl border border-amber-200 bg-amber-50/60 p-4 text-sm font-medium text-amber-700">
+            <AlertTriangle size={18} className="shrink-0" />
+            <span>
+              Faltan tasas de cambio de {missingRates.join(", ")} a {summaryCurrency}; esas transacciones no se incluyen en los totales.
+            </span>
+            <button onClick={() => setIsCurrencyOpen(true)} className="ml-auto font-bold underline">
+              Agregar tasas
+            </button>
+          </div>
+        )}
+
+        {/* Cuentas y sus saldos */}
+        <AccountsPanel balances={accountBalances} />
+
+        {/* Presupuestos por categoría */}
+        <BudgetsPanel progress={budgetProgress} categories={expenseCategories} currency={baseCurrency} />
+
         {/* Listado y Filtros */}
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
           <div className="p-6 border-b border-gray-50 flex flex-col md:flex-row justify-between items-center gap-4">
             <h2 className="text-lg font-bold text-gray-800">Historial</h2>
 
             <div className="flex items-center gap-3">
-              {/* Filtro por Tipo */}
-              <div className="flex items-center gap-2 bg-gray-50 p-1.5 rounded-xl border border-gray-200">
-                <Filter size={16} className="ml-2 text-gray-400" />
-                <select
-                  value={filterType}
-                  onChange={(e) => setFilterType(e.target.value as any)}
-                  className="bg-transparent text-sm font-semibold focus:outline-none"
-                >
-                  <option value="all">Todos</option>
-                  <option value="income">Ingresos</option>
-                  <option value="expense">Gastos</option>
-                </select>
-              </div>
-
-              {/* Toggle de Ordenamiento */}
+              {/* Transacciones eliminadas */}
               <button
-                onClick={() => setSortOrder(sortOrder === "asc" ? "desc" : "asc")}
+                onClick={() => setIsTrashOpen(true)}
                 className="flex items-center gap-2 text-sm font-semibold text-gray-600 bg-white px-4 py-2.5 rounded-xl border border-gray-200"
               >
-                <ArrowUpDown size={16} />
-                {sortOrder === "asc" ? "Antiguas" : "Recientes"}
+                <Trash2 size={16} />
+                Papelera
               </button>
+
+              {/* Importación masiva */}
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center gap-2 text-sm font-semibold text-gray-600 bg-white px-4 py-2.5 rounded-xl border border-gray-200"
+              >
+                <Upload size={16} />
+                Importar
+              </button>
+
+              {/* Exportación de la vista actual */}
+              <ExportMenu
+                filters={scopedFilters}
+                count={summary?.count ?? 0}
+                statementHref={`/dashboard/statement?month=${getMonthKey(new Date())}&${filterKey}`}
+              />
             </div>
           </div>
 
-          {/* Tabla de Datos */}
-          <div className="overflow-x-auto">
-            <table className="w-full text-left">
-              <thead className="bg-gray-50/50 text-gray-400 text-[11px] uppercase font-bold">
-                <tr>
-                  <th className="px-8 py-4">Descripción</th>
-                  <th className="px-8 py-4">Fecha</th>
-                  <th className="px-8 py-4 text-right">Monto</th>
-                  <th className="px-8 py-4 text-right">Acciones</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-50">
-                {processedTransactions.map((tx) => (
-                  <tr key={tx.id} className="hover:bg-gray-50/80 transition-colors group">
-                    <td className="px-8 py-5">
-                      <div className="font-bold text-gray-900">{tx.title}</div>
-                      <div className="text-xs font-medium text-gray-400">{tx.category}</div>
-                    </td>
-                    <td className="px-8 py-5 text-sm font-medium text-gray-500">
-                      {new Date(tx.date).toLocaleDateString('es-ES')}
-                    </td>
-                    <td className={`px-8 py-5 text-right font-black text-lg ${tx.type === "income" ? "text-app-green" : "text-red-500"
-                      }`}>
-                      {tx.type === "income" ? "+" : "-"} ${tx.amount.toLocaleString()}
-                    </td>
-                    <td className="px-8 py-5">
-                      <div className="flex items-center justify-end gap-2">
-                        <button onClick={() => handleEdit(tx)} className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg">
-                          <Edit2 size={18} />
-                        </button>
-                        <button onClick={() => handleDeleteClick(tx)} className="p-2 text-red-600 hover:bg-red-50 rounded-lg">
-                          <Trash2 size={18} />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+          <TransactionFiltersBar
+            filters={filters}
+            onChange={setFilters}
+            onReset={resetFilters}
+            categories={categories}
+            accounts={accounts}
+          />
+
+          {/* Acciones sobre las filas seleccionadas */}
+          {selectedTransactions.length > 0 && (
+            <BulkActionsBar
+              selected={selectedTransactions}
+              totalCount={Math.max(summary?.count ?? 0, transactions.length)}
+              onSelectAll={handleSelectAll}
+              onEdit={handleBulkEdit}
+              onDelete={() => setIsBulkDeleteOpen(true)}
+              onClear={() => setSelectedIds([])}
+            />
+          )}
+
+          {/* Tabla de Datos (paginada) */}
+          <TransactionTable
+            key={scopedKey}
+            transactions={transactions}
+            totalCount={summary?.count}
+            hasMore={nextCursor !== null}
+            onLoadMore={loadMoreTransactions}
+            isLoading={dataLoading}
+            onEdit={handleEdit}
+            onDelete={handleDeleteClick}
+            onShowHistory={setHistoryTransaction}
+            onShowAttachments={setAttachmentsTransaction}
+            onTagClick={handleTagClick}
+            pendingIds={pendingIds}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            getRuleLabel={getRuleLabel}
+            accounts={accounts}
+            categories={managedCategories}
+          />
         </div>
       </main>
 
@@ -233,24 +586,101 @@ export default function DashboardPage() {
         <TransactionForm
           onClose={() => setIsModalOpen(false)}
           transaction={editingTransaction}
+          defaults={transactionDefaults}
         />
       </Modal>
 
+      <Modal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        title="Importar transacciones"
+        size="xl"
+      >
+        <TransactionImportForm onClose={() => setIsImportOpen(false)} />
+      </Modal>
+
+      <Modal
+        isOpen={isCurrencyOpen}
+        onClose={() => setIsCurrencyOpen(false)}
+        title="Monedas y tasas de cambio"
+        size="lg"
+      >
+        <CurrencySettings />
+      </Modal>
+
+      <Modal
+        isOpen={isCategoriesOpen}
+        onClose={() => setIsCategoriesOpen(false)}
+        title="Categorías"
+        size="lg"
+      >
+        <CategoriesManager />
+        <div className="mt-8 pt-6 border-t border-gray-100">
+          <CategoryRulesManager />
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={historyTransaction !== null}
+        onClose={() => setHistoryTransaction(null)}
+        title={`Historial · ${historyTransaction?.title ?? ""}`}
+        size="lg"
+      >
+        {historyTransaction && <AuditHistory transaction={historyTransaction} accounts={accounts} />}
+      </Modal>
+
+      <Modal
+        isOpen={attachmentsTransaction !== null}
+        onClose={() => setAttachmentsTransaction(null)}
+        title={`Comprobantes · ${attachmentsTransaction?.title ?? ""}`}
+        size="lg"
+      >
+        {attachmentsTransaction && <AttachmentPreview attachments={attachmentsTransaction.attachments ?? []} />}
+      </Modal>
+
+      <Modal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        title="Papelera"
+        size="lg"
+      >
+        <TrashPanel />
+      </Modal>
+
       <Modal
         isOpen={isDeleteModalOpen}
         onClose={() => setIsDeleteModalOpen(false)}
         title="Confirmar eliminación"
       >
         <p className="text-gray-600 mb-6">
-          ¿Estás seguro de eliminar <span className="font-semibold text-gray-900">“{transactionToDelete?.title}”</span>?
+          ¿Enviar <span className="font-semibold text-gray-900">“{transactionToDelete?.title}”</span> a la papelera? Podrás restaurarla desde allí.
         </p>
+        {transactionToDelete?.recurringRuleId && (
+          <label className="flex items-center gap-3 text-sm text-gray-700 mb-6">
+            <input
+              type="checkbox"
+              checked={stopRecurrence}
+              onChange={(e) => setStopRecurrence(e.target.checked)}
+              className="h-4 w-4 accent-app-purple"
+            />
+            Detener también las repeticiones futuras
+          </label>
+        )}
         <div className="flex justify-end gap-3">
           <button onClick={() => setIsDeleteModalOpen(false)} className="px-4 py-2 text-gray-700">Cancelar</button>
           <button
             onClick={async () => {
               if (transactionToDelete) {
-                await deleteTransaction(transactionToDelete.id);
+                // La fila desaparece al instante; si la API falla, vuelve y se muestra el error
                 setIsDeleteModalOpen(false);
+                try {
+                  await deleteTransaction(transactionToDelete.id);
+                  if (stopRecurrence && transactionToDelete.recurringRuleId) {
+                    await deleteRule(transactionToDelete.recurringRuleId);
+                  }
+                } catch {
+                  // El store ya guardó el error que muestra el dashboard
+                }
               }
             }}
             className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold"
@@ -259,28 +689,29 @@ export default function DashboardPage() {
           </button>
         </div>
       </Modal>
-    </div>
-  );
-}
 
-/**
- * Componente atómico para mostrar métricas financieras.
- */
-function SummaryCard({ title, amount, icon, accentColor }: {
-  title: string;
-  amount: number;
-  icon: React.ReactNode;
-  accentColor: string;
-}) {
-  return (
-    <div className="bg-white p-6 rounded-2xl border border-gray-100 flex items-center gap-5 transition-transform hover:scale-[1.02]">
-      <div className={`p-4 rounded-2xl ${accentColor} shrink-0`}>
-        {icon}
-      </div>
-      <div>
-        <p className="text-xs font-bold text-gray-400 uppercase">{title}</p>
-        <p className="text-2xl font-black text-gray-900 mt-0.5">${amount.toLocaleString()}</p>
-      </div>
+      <Modal
+        isOpen={isBulkDeleteOpen}
+        onClose={() => setIsBulkDeleteOpen(false)}
+        title="Confirmar eliminación"
+      >
+        <p className="text-gray-600 mb-6">
+          ¿Enviar{" "}
+          <span className="font-semibold text-gray-900">
+            {selectedTransactions.length === 1 ? "1 transacción" : `${selectedTransactions.length} transacciones`}
+          </span>{" "}
+          a la papelera? Podrás restaurarlas desde allí o deshacer el cambio.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setIsBulkDeleteOpen(false)} className="px-4 py-2 text-gray-700">Cancelar</button>
+          <button onClick={handleBulkDelete} className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold">
+            Eliminar
+          </button>
+        </div>
+      </Modal>
+
+      {/* Aviso con "Deshacer" tras cada cambio */}
+      <UndoToast />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowDownCircle, ArrowLeft, ArrowUpCircle, Printer, Wallet } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { fetchFilteredTransactions } from "@/services/useTransactionStore";
+import { useExchangeRateStore } from "@/services/useExchangeRateStore";
+import { useCurrencyConverter } from "@/hooks/useCurrencyConverter";
+import SummaryCard from "@/components/ui/SummaryCard";
+import { getCategoryTotals, summarizeTransactions } from "@/lib/aggregations";
+import { getMonthKey } from "@/lib/budgets";
+import { parseFilters, scopeToRange, serializeFilters, TypeFilter } from "@/lib/transactionFilters";
+import { getPeriodRange } from "@/lib/periods";
+import { formatCurrency, getMissingRateCurrencies } from "@/lib/currency";
+import { getTransactionCategories, narrowToCategories } from "@/lib/splits";
+import { Transaction } from "@/types";
+
+/** Mes (?month=YYYY-MM) más los filtros del historial del dashboard. */
+type StatementSearchParams = Record<string, string | string[] | undefined>;
+
+/** Texto del filtro de tipo en el encabezado. */
+const TYPE_LABELS: Record<Exclude<TypeFilter, "all">, string> = {
+  income: "ingresos",
+  expense: "gastos",
+  transfer: "transferencias",
+};
+
+/** Convierte los searchParams de la página en URLSearchParams (conservando valores repetidos). */
+const toUrlSearchParams = (params: StatementSearchParams) => {
+  const result = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    [value ?? []].flat().forEach((item) => result.append(key, item));
+  });
+  return result;
+};
+
+/**
+ * Estado de cuenta mensual imprimible.
+ * Respeta los filtros activos del dashboard y se imprime con el diálogo del navegador.
+ */
+export default function StatementPage({ searchParams }: { searchParams: Promise<StatementSearchParams> }) {
+  const params = toUrlSearchParams(use(searchParams));
+  const month = params.get("month") || getMonthKey(new Date());
+  const filters = parseFilters(params);
+  const filterQuery = serializeFilters(filters).toString();
+  /** Filtros del dashboard acotados al mes, en orden cronológico. */
+  const monthQuery = serializeFilters({
+    ...scopeToRange(filters, getPeriodRange({ preset: "month" }, `${month}-01`)),
+    sortBy: "date",
+    sortOrder: "asc",
+  }).toString();
+
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [monthTransactions, setMonthTransactions] = useState<Transaction[]>([]);
+  const getRates = useExchangeRateStore((state) => state.getRates);
+  const { baseCurrency, convert } = useCurrencyConverter();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!isAuthenticated) {
+      router.replace("/login?next=/dashboard/statement");
+      return;
+    }
+
+    getRates().catch((error) => {
+      console.error("Error al cargar las tasas de cambio:", error);
+    });
+  }, [isAuthenticated, authLoading, getRates, router]);
+
+  /** Transacciones del mes con los filtros del dashboard aplicados (solo las de ese mes se piden al servidor). */
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    // Si cambia el mes o los filtros antes de que llegue la respuesta, se descarta
+    let isCurrent = true;
+
+    fetchFilteredTransactions(parseFilters(new URLSearchParams(monthQuery)))
+      .then((transactions) => {
+        if (isCurrent) setMonthTransactions(transactions);
+      })
+      .catch((error) => {
+        console.error("Error al cargar las transacciones:", error);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [isAuthenticated, monthQuery]);
+
+  // Totales y subtotales convertidos a la moneda base del usuario; con filtro de categoría,
+  // de las transacciones divididas solo cuentan las líneas filtradas
+  const filteredAmounts = narrowToCategories(monthTransactions, filters.categories);
+  const { totalIncome, totalExpenses, netBalance } = summarizeTransactions(filteredAmounts, convert);
+  const categoryTotals = getCategoryTotals(filteredAmounts, convert);
+  const missingRates = getMissingRateCurrencies(monthTransactions, convert);
+
+  const monthLabel = new Date(`${month}-01T00:00:00`).toLocaleDateString("es-ES", { month: "long", year: "numeric" });
+
+  return (
+    <div className="min-h-screen bg-gray-50/50 pb-12 print:bg-white">
+      <main className="max-w-5xl mx-auto px-4 pt-8 space-y-8">
+        {/* Acciones (no se imprimen) */}
+        <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+          <Link href="/dashboard" className="flex items-center gap-2 text-sm font-semibold text-gray-600">
+            <ArrowLeft size={16} /> Volver al dashboard
+          </Link>
+          <div className="flex items-center gap-3">
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && router.replace(`/dashboard/statement?month=${e.target.value}&${filterQuery}`)}
+              className="border border-gray-200 rounded-xl px-3 py-2 text-sm font-semibold bg-white"
+            />
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 bg-app-purple hover:brightness-110 text-white px-5 py-2.5 rounded-xl font-bold"
+            >
+              <Printer size={18} /> Imprimir / PDF
+            </button>
+          </div>
+        </div>
+
+        {/* Encabezado del estado de cuenta */}
+        <header>
+          <h1 className="text-3xl font-black text-gray-900 capitalize">Estado de cuenta · {monthLabel}</h1>
+          <p className="text-sm text-gray-500 font-medium mt-1">
+            {user?.name} · {user?.email}
+            {filters.type !== "all" && ` · Solo ${TYPE_LABELS[filters.type]}`}
+            {filters.categories.length > 0 && ` · ${filters.categories.join(", ")}`}
+            {filters.tags.length > 0 && ` · ${filters.tags.map((tag) => `#${tag}`).join(" ")}`}
+            {filters.query.trim() && ` · “${filters.query.trim()}”`}
+          </p>
+          {missingRates.length > 0 && (
+            <p className="text-xs text-amber-600 font-medium mt-1">
+              Sin tasa de cambio para {missingRates.join(", ")}: esos movimientos no se suman en los totales.
+            </p>
+          )}
+        </header>
+
+        {/* Totales */}
+        <div className="grid grid-cols-3 gap-6">
+          <SummaryCard title="Balance Neto" amount={netBalance} currency={baseCurrency} icon={<Wallet className="text-app-purple" />} accentColor="bg-app-purple/10" />
+          <SummaryCard title="Total Ingresos" amount={totalIncome} currency={baseCurrency} icon={<ArrowUpCircle className="text-app-green" />} accentColor="bg-app-green/15" />
+          <SummaryCard title="Total Gastos" amount={totalExpenses} currency={baseCurrency} icon={<ArrowDownCircle className="text-red-500" />} accentColor="bg-red-50" />
+        </div>
+
+        {/* Subtotales por categoría */}
+        <section className="bg-white rounded-2xl border border-gray-100 overflow-hidden break-inside-avoid">
+          <h2 className="p-6 text-lg font-bold text-gray-800 border-b border-gray-50">Subtotales por categoría</h2>
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50/50 text-gray-400 text-[11px] uppercase font-bold">
+              <tr>
+                <th className="px-6 py-3">Categoría</th>
+                <th className="px-6 py-3 text-right">Ingresos</th>
+                <th className="px-6 py-3 text-right">Gastos</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {categoryTotals.map((row) => (
+                <tr key={row.category}>
+                  <td className="px-6 py-3 font-semibold text-gray-900">{row.category}</td>
+                  <td className="px-6 py-3 text-right text-app-green font-bold">{formatCurrency(row.income, baseCurrency)}</td>
+                  <td className="px-6 py-3 text-right text-red-500 font-bold">{formatCurrency(row.expense, baseCurrency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Detalle de movimientos */}
+        <section className="bg-white rounded-2xl border border-gray-100 overflow-hidden">
+          <h2 className="p-6 text-lg font-bold text-gray-800 border-b border-gray-50">Movimientos</h2>
+          {monthTransactions.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No hay movimientos en este periodo.</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50/50 text-gray-400 text-[11px] uppercase font-bold">
+                <tr>
+                  <th className="px-6 py-3">Fecha</th>
+                  <th className="px-6 py-3">Descripción</th>
+                  <th className="px-6 py-3">Categoría</th>
+                  <th className="px-6 py-3 text-right">Monto</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {monthTransactions.map((tx) => (
+                  <tr key={tx.id} className="break-inside-avoid">
+                    <td className="px-6 py-3 text-gray-500">{new Date(tx.date).toLocaleDateString('es-ES')}</td>
+                    <td className="px-6 py-3 font-semibold text-gray-900">{tx.title}</td>
+                    <td className="px-6 py-3 text-gray-500">{getTransactionCategories(tx).join(", ")}</td>
+                    <td className={`px-6 py-3 text-right font-bold ${tx.type === "income" ? "text-app-green" : tx.type === "expense" ? "text-red-500" : "text-gray-700"}`}>
+                      {tx.type === "income" ? "+" : tx.type === "expense" ? "-" : ""} {formatCurrency(tx.amount, tx.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
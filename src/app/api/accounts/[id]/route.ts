@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSchema } from '@/validations/validations';
+import { accountRepository } from '@/server/repositories/accountRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { goalRepository } from '@/server/repositories/goalRepository';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/accounts/:id
+ * Reemplaza los datos de la cuenta.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = accountSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const existing = await accountRepository.findAllByUser(userId);
+    const name = result.data.name.toLowerCase();
+    if (existing.some((account) => account.id !== id && account.name.toLowerCase() === name)) {
+        return jsonError('Ya existe una cuenta con ese nombre', 409);
+    }
+
+    const account = await accountRepository.update(userId, id, result.data);
+    if (!account) return jsonError('Cuenta no encontrada', 404);
+
+    return NextResponse.json(account);
+}
+
+/**
+ * DELETE /api/accounts/:id
+ * Elimina la cuenta si ningún movimiento ni regla recurrente la usa.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const usesAccount = (item: { accountId: string; toAccountId?: string }) => item.accountId === id || item.toAccountId === id;
+    const [transactions, rules] = await Promise.all([
+        transactionRepository.findAllByUser(userId),
+        recurringRuleRepository.findAllByUser(userId),
+    ]);
+    if (transactions.some(usesAccount) || rules.some(usesAccount)) {
+        return jsonError('La cuenta tiene movimientos (también en la papelera); muévelos a otra cuenta antes de eliminarla', 409);
+    }
+    if ((await goalRepository.findAllByUser(userId)).some((goal) => goal.accountId === id)) {
+        return jsonError('La cuenta está vinculada a una meta de ahorro; edita o elimina la meta primero', 409);
+    }
+
+    const deleted = await accountRepository.remove(userId, id);
+    if (!deleted) return jsonError('Cuenta no encontrada', 404);
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountRepository } from '@/server/repositories/accountRepository';
+import { exchangeRateRepository } from '@/server/repositories/exchangeRateRepository';
+import { findActiveTransactions } from '@/server/transactions';
+import { getSessionUserId } from '@/server/session';
+import { unauthorized } from '@/server/http';
+import { computeAccountBalances } from '@/lib/accounts';
+
+/**
+ * GET /api/accounts/balances
+ * Saldo de cada cuenta (en su propia moneda, convirtiendo los movimientos en otras con la tabla de tasas)
+ * calculado con todos sus movimientos, sin depender de las páginas del historial cargadas en el cliente.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const [accounts, transactions, rates] = await Promise.all([
+        accountRepository.findAllByUser(userId),
+        findActiveTransactions(userId),
+        exchangeRateRepository.findAllByUser(userId),
+    ]);
+    return NextResponse.json(computeAccountBalances(accounts, transactions, rates));
+}
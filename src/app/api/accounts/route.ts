@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSchema } from '@/validations/validations';
+import { accountRepository } from '@/server/repositories/accountRepository';
+import { ensureAccounts } from '@/server/accounts';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/accounts
+ * Lista las cuentas del usuario (crea la cuenta principal si aún no tiene ninguna).
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await ensureAccounts(userId));
+}
+
+/**
+ * POST /api/accounts
+ * Crea una cuenta; los nombres no se repiten.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = accountSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const existing = await accountRepository.findAllByUser(userId);
+    const name = result.data.name.toLowerCase();
+    if (existing.some((account) => account.name.toLowerCase() === name)) {
+        return jsonError('Ya existe una cuenta con ese nombre', 409);
+    }
+
+    const account = await accountRepository.create(userId, result.data);
+    return NextResponse.json(account, { status: 201 });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/server/session';
+import { readAttachment } from '@/server/attachments';
+import { jsonError, unauthorized } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/attachments/:id
+ * Devuelve el contenido del comprobante para mostrarlo en línea (imagen o PDF).
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const file = await readAttachment(userId, id);
+    if (!file) return jsonError('Comprobante no encontrado', 404);
+
+    return new NextResponse(new Uint8Array(file.data), {
+        headers: {
+            'Content-Type': file.attachment.type,
+            'Content-Length': String(file.data.length),
+            'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.attachment.name)}`,
+            'Cache-Control': 'private, max-age=3600',
+            // El navegador respeta el tipo declarado (validado al subir) en lugar de adivinarlo
+            'X-Content-Type-Options': 'nosniff',
+            // Abierto en su propia pestaña, el archivo no puede ejecutar scripts ni acceder al origen de la app.
+            // Los PDF quedan fuera: el visor de Chrome no carga en un documento aislado y ya ejecuta el PDF en su propio proceso
+            ...(file.attachment.type === 'application/pdf' ? {} : { 'Content-Security-Policy': 'sandbox' }),
+        },
+    });
+}
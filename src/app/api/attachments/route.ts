@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { attachmentFileSchema } from '@/validations/validations';
+import { getSessionUserId } from '@/server/session';
+import { InvalidAttachmentError, removeOrphanAttachments, saveAttachment } from '@/server/attachments';
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachments';
+import { jsonError, unauthorized, validationError } from '@/server/http';
+
+/** Tamaño máximo del cuerpo: un archivo más el margen de las cabeceras del formulario multipart. */
+const MAX_UPLOAD_SIZE = MAX_ATTACHMENT_SIZE + 64 * 1024;
+
+/**
+ * POST /api/attachments
+ * Sube un comprobante (campo `file` de un formulario multipart) y devuelve sus metadatos.
+ * El archivo queda disponible para adjuntarlo a una transacción con el ID devuelto.
+ * Antes se borran los comprobantes del usuario que quedaron sin adjuntar.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    // Se rechaza antes de leer el cuerpo para no cargar en memoria un archivo demasiado grande
+    if (Number(request.headers.get('content-length')) > MAX_UPLOAD_SIZE) {
+        return jsonError('Cada archivo puede pesar hasta 5 MB', 413);
+    }
+
+    const form = await request.formData().catch(() => null);
+    const result = attachmentFileSchema.safeParse(form?.get('file'));
+    if (!result.success) return validationError(result.error);
+
+    await removeOrphanAttachments(userId);
+
+    try {
+        const attachment = await saveAttachment(userId, result.data);
+        return NextResponse.json(attachment, { status: 201 });
+    } catch (error) {
+        if (error instanceof InvalidAttachmentError) return jsonError(error.message, 400);
+        throw error;
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loginSchema } from '@/validations/validations';
+import { toUser, userRepository } from '@/server/repositories/userRepository';
+import { verifyPassword } from '@/server/password';
+import { setSessionCookie } from '@/server/session';
+import { jsonError, readJson, validationError } from '@/server/http';
+
+/**
+ * POST /api/auth/login
+ * Valida las credenciales y emite la cookie de sesión firmada.
+ */
+export async function POST(request: NextRequest) {
+    const result = loginSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const { email, password } = result.data;
+    const record = await userRepository.findByEmail(email);
+
+    // Mismo mensaje para correo inexistente y contraseña errónea
+    if (!record || !(await verifyPassword(password, record.passwordHash))) {
+        return jsonError('Correo o contraseña incorrectos', 401);
+    }
+
+    return setSessionCookie(NextResponse.json(toUser(record)), record.id);
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/server/session';
+
+/**
+ * POST /api/auth/logout
+ * Invalida la sesión eliminando la cookie.
+ */
+export async function POST() {
+    return clearSessionCookie(new NextResponse(null, { status: 204 }));
+}
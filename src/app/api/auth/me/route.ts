@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toUser, userRepository } from '@/server/repositories/userRepository';
+import { getSessionUserId } from '@/server/session';
+import { readJson, unauthorized, validationError } from '@/server/http';
+import { userPreferencesSchema } from '@/validations/validations';
+
+/**
+ * GET /api/auth/me
+ * Devuelve el usuario de la sesión actual.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const record = await userRepository.findById(userId);
+    if (!record) return unauthorized();
+
+    return NextResponse.json(toUser(record));
+}
+
+/**
+ * PATCH /api/auth/me
+ * Actualiza las preferencias del usuario (moneda base).
+ */
+export async function PATCH(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = userPreferencesSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const user = await userRepository.update(userId, result.data);
+    if (!user) return unauthorized();
+
+    return NextResponse.json(user);
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registerSchema } from '@/validations/validations';
+import { userRepository } from '@/server/repositories/userRepository';
+import { hashPassword } from '@/server/password';
+import { setSessionCookie } from '@/server/session';
+import { jsonError, readJson, validationError } from '@/server/http';
+
+/**
+ * POST /api/auth/register
+ * Crea la cuenta, guarda la contraseña con hash e inicia la sesión.
+ */
+export async function POST(request: NextRequest) {
+    const result = registerSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const { name, email, password } = result.data;
+    const user = await userRepository.create({ name, email, passwordHash: await hashPassword(password) });
+    if (!user) return jsonError('El correo ya está registrado', 409);
+
+    return setSessionCookie(NextResponse.json(user, { status: 201 }), user.id);
+}
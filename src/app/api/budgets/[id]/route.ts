@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { budgetSchema } from '@/validations/validations';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { resolveCategoryNames } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/budgets/:id
+ * Reemplaza los datos del presupuesto.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = budgetSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const [data] = await resolveCategoryNames(userId, [result.data], 'expense');
+    const existing = await budgetRepository.findAllByUser(userId);
+    const category = data.category.toLowerCase();
+    if (existing.some((budget) => budget.id !== id && budget.category.toLowerCase() === category)) {
+        return jsonError('Ya existe un presupuesto para esa categoría', 409);
+    }
+
+    const budget = await budgetRepository.update(userId, id, data);
+    if (!budget) return jsonError('Presupuesto no encontrado', 404);
+
+    return NextResponse.json(budget);
+}
+
+/**
+ * DELETE /api/budgets/:id
+ * Elimina el presupuesto del usuario.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const deleted = await budgetRepository.remove(userId, id);
+    if (!deleted) return jsonError('Presupuesto no encontrado', 404);
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { findActiveTransactions } from '@/server/transactions';
+import { getUserConverter } from '@/server/currency';
+import { getSessionUserId } from '@/server/session';
+import { unauthorized } from '@/server/http';
+import { computeBudgetProgress, getMonthKey } from '@/lib/budgets';
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+/**
+ * GET /api/budgets/progress?month=YYYY-MM
+ * Progreso de cada presupuesto en el mes indicado (por defecto, el actual),
+ * con los gastos convertidos a la moneda base del usuario.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const converter = await getUserConverter(userId);
+    if (!converter) return unauthorized();
+
+    const month = request.nextUrl.searchParams.get('month') ?? '';
+    const [budgets, transactions] = await Promise.all([
+        budgetRepository.findAllByUser(userId),
+        findActiveTransactions(userId),
+    ]);
+
+    return NextResponse.json(
+        computeBudgetProgress(budgets, transactions, MONTH_PATTERN.test(month) ? month : getMonthKey(new Date()), converter.convert)
+    );
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { budgetSchema } from '@/validations/validations';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { resolveCategoryNames } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/budgets
+ * Lista los presupuestos del usuario autenticado.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await budgetRepository.findAllByUser(userId));
+}
+
+/**
+ * POST /api/budgets
+ * Crea un presupuesto; solo se permite uno por categoría.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = budgetSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const [data] = await resolveCategoryNames(userId, [result.data], 'expense');
+    const existing = await budgetRepository.findAllByUser(userId);
+    const category = data.category.toLowerCase();
+    if (existing.some((budget) => budget.category.toLowerCase() === category)) {
+        return jsonError('Ya existe un presupuesto para esa categoría', 409);
+    }
+
+    const budget = await budgetRepository.create(userId, data);
+    return NextResponse.json(budget, { status: 201 });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryMergeSchema } from '@/validations/validations';
+import { categoryRepository } from '@/server/repositories/categoryRepository';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { renameCategoryUsages } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/categories/:id/merge
+ * Fusiona la categoría en `targetId`: sus transacciones, reglas y presupuesto
+ * pasan al destino, sus subcategorías se cuelgan del destino y se elimina.
+ * Si ambas tenían presupuesto, se conserva el del destino.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = categoryMergeSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const categories = await categoryRepository.findAllByUser(userId);
+    const source = categories.find((category) => category.id === id);
+    const target = categories.find((category) => category.id === result.data.targetId);
+    if (!source || !target) return jsonError('Categoría no encontrada', 404);
+    if (source.id === target.id) return jsonError('Selecciona una categoría distinta', 400);
+
+    const budgets = await budgetRepository.findAllByUser(userId);
+    const sourceBudget = budgets.find((budget) => budget.category === source.name);
+    if (sourceBudget && budgets.some((budget) => budget.category === target.name)) {
+        await budgetRepository.remove(userId, sourceBudget.id);
+    }
+    await renameCategoryUsages(userId, source.name, target.name);
+
+    // Las subcategorías siguen a un solo nivel: cuelgan del destino o de su padre
+    if (target.parentId === source.id) {
+        await categoryRepository.update(userId, target.id, { parentId: source.parentId });
+    }
+    await categoryRepository.updateWhere(
+        userId,
+        (category) => category.parentId === source.id && category.id !== target.id,
+        { parentId: target.parentId === source.id ? target.id : target.parentId ?? target.id }
+    );
+    await categoryRepository.remove(userId, source.id);
+
+    return NextResponse.json(await categoryRepository.findAllByUser(userId));
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categorySchema } from '@/validations/validations';
+import { categoryRepository } from '@/server/repositories/categoryRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { goalRepository } from '@/server/repositories/goalRepository';
+import { categoryRuleRepository } from '@/server/repositories/categoryRuleRepository';
+import { getCategoryConflict, renameCategoryUsages } from '@/server/categories';
+import { expandSplits } from '@/lib/splits';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/categories/:id
+ * Reemplaza los datos de la categoría. Si cambia el nombre, se actualizan
+ * también las transacciones, reglas y presupuestos que la usan.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = categorySchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const categories = await categoryRepository.findAllByUser(userId);
+    const current = categories.find((category) => category.id === id);
+    if (!current) return jsonError('Categoría no encontrada', 404);
+
+    const conflict = getCategoryConflict(categories, result.data, id);
+    if (conflict) return jsonError(conflict, 409);
+
+    // parentId se envía siempre para poder convertir una subcategoría en principal
+    const category = await categoryRepository.update(userId, id, { ...result.data, parentId: result.data.parentId });
+    if (!category) return jsonError('Categoría no encontrada', 404);
+
+    if (current.name !== category.name) {
+        await renameCategoryUsages(userId, current.name, category.name);
+    }
+
+    return NextResponse.json(category);
+}
+
+/**
+ * DELETE /api/categories/:id
+ * Elimina la categoría si no tiene movimientos, presupuestos ni subcategorías.
+ * Para conservar los movimientos, se fusiona con otra categoría.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const categories = await categoryRepository.findAllByUser(userId);
+    const category = categories.find((item) => item.id === id);
+    if (!category) return jsonError('Categoría no encontrada', 404);
+
+    if (categories.some((item) => item.parentId === id)) {
+        return jsonError('La categoría tiene subcategorías; elimínalas o muévelas primero', 409);
+    }
+
+    const usesCategory = (item: { category: string; type?: string }) => item.type !== 'transfer' && item.category === category.name;
+    const [transactions, rules, budgets, goals, categoryRules] = await Promise.all([
+        transactionRepository.findAllByUser(userId),
+        recurringRuleRepository.findAllByUser(userId),
+        budgetRepository.findAllByUser(userId),
+        goalRepository.findAllByUser(userId),
+        categoryRuleRepository.findAllByUser(userId),
+    ]);
+    if (
+        transactions.flatMap(expandSplits).some(usesCategory) ||
+        rules.some(usesCategory) ||
+        budgets.some(usesCategory) ||
+        goals.some((goal) => goal.category === category.name) ||
+        categoryRules.some(usesCategory)
+    ) {
+        return jsonError('La categoría está en uso (también en la papelera); fusiónala con otra para conservar sus movimientos', 409);
+    }
+
+    await categoryRepository.remove(userId, id);
+    return new NextResponse(null, { status: 204 });
+}
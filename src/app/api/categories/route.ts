@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categorySchema } from '@/validations/validations';
+import { categoryRepository } from '@/server/repositories/categoryRepository';
+import { ensureCategories, getCategoryConflict } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/categories
+ * Lista las categorías del usuario (migra antes las categorías de texto libre).
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await ensureCategories(userId));
+}
+
+/**
+ * POST /api/categories
+ * Crea una categoría o subcategoría; los nombres no se repiten.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = categorySchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const conflict = getCategoryConflict(await categoryRepository.findAllByUser(userId), result.data);
+    if (conflict) return jsonError(conflict, 409);
+
+    const category = await categoryRepository.create(userId, result.data);
+    return NextResponse.json(category, { status: 201 });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findActiveTransactions } from '@/server/transactions';
+import { getSessionUserId } from '@/server/session';
+import { unauthorized } from '@/server/http';
+import { getTransactionCategories } from '@/lib/splits';
+
+/**
+ * GET /api/categories/usage
+ * Cantidad de movimientos de cada categoría, por nombre
+ * (una transacción dividida cuenta en cada una de sus líneas; las transferencias no cuentan).
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const usage = new Map<string, number>();
+    for (const tx of await findActiveTransactions(userId)) {
+        if (tx.type === 'transfer') continue;
+        new Set(getTransactionCategories(tx)).forEach((name) => usage.set(name, (usage.get(name) ?? 0) + 1));
+    }
+
+    return NextResponse.json(Object.fromEntries(usage));
+}
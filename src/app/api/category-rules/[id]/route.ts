@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryRuleSchema } from '@/validations/validations';
+import { categoryRuleRepository } from '@/server/repositories/categoryRuleRepository';
+import { resolveCategoryNames } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/category-rules/:id
+ * Reemplaza las condiciones y la categoría de la regla (las condiciones que no se envían se quitan).
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = categoryRuleSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const [data] = await resolveCategoryNames(userId, [result.data], 'expense');
+    const rule = await categoryRuleRepository.update(userId, id, {
+        ...data,
+        minAmount: data.minAmount,
+        maxAmount: data.maxAmount,
+        type: data.type,
+    });
+    if (!rule) return jsonError('Regla no encontrada', 404);
+
+    return NextResponse.json(rule);
+}
+
+/**
+ * DELETE /api/category-rules/:id
+ * Elimina la regla; las transacciones ya categorizadas no cambian.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const deleted = await categoryRuleRepository.remove(userId, id);
+    if (!deleted) return jsonError('Regla no encontrada', 404);
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryRuleSchema } from '@/validations/validations';
+import { categoryRuleRepository } from '@/server/repositories/categoryRuleRepository';
+import { resolveCategoryNames } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/category-rules
+ * Lista las reglas de categorización del usuario, en el orden en que se evalúan.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await categoryRuleRepository.findAllByUser(userId));
+}
+
+/**
+ * POST /api/category-rules
+ * Crea una regla al final de la lista; su categoría se crea si no existe.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = categoryRuleSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const [data] = await resolveCategoryNames(userId, [result.data], 'expense');
+    const rule = await categoryRuleRepository.create(userId, data);
+    return NextResponse.json(rule, { status: 201 });
+}
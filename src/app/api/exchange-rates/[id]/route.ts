@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeRateSchema } from '@/validations/validations';
+import { exchangeRateRepository, isSameRate } from '@/server/repositories/exchangeRateRepository';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/exchange-rates/:id
+ * Reemplaza los datos de la tasa.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = exchangeRateSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const existing = await exchangeRateRepository.findAllByUser(userId);
+    if (existing.some((rate) => rate.id !== id && isSameRate(result.data, rate))) {
+        return jsonError('Ya existe una tasa para ese par de monedas en esa fecha', 409);
+    }
+
+    const rate = await exchangeRateRepository.update(userId, id, result.data);
+    if (!rate) return jsonError('Tasa no encontrada', 404);
+
+    return NextResponse.json(rate);
+}
+
+/**
+ * DELETE /api/exchange-rates/:id
+ * Elimina la tasa del usuario.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const deleted = await exchangeRateRepository.remove(userId, id);
+    if (!deleted) return jsonError('Tasa no encontrada', 404);
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeRateBatchSchema } from '@/validations/validations';
+import { exchangeRateRepository, isSameRate } from '@/server/repositories/exchangeRateRepository';
+import { getSessionUserId } from '@/server/session';
+import { readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * POST /api/exchange-rates/batch
+ * Importa varias tasas en una sola escritura.
+ * Se omiten las que ya existen para el mismo par y fecha.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = exchangeRateBatchSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const rates = await exchangeRateRepository.createMany(userId, result.data, isSameRate);
+    return NextResponse.json(rates, { status: 201 });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeRateSchema } from '@/validations/validations';
+import { exchangeRateRepository, isSameRate } from '@/server/repositories/exchangeRateRepository';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/exchange-rates
+ * Lista la tabla de tasas de cambio del usuario.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await exchangeRateRepository.findAllByUser(userId));
+}
+
+/**
+ * POST /api/exchange-rates
+ * Registra una tasa; solo se permite una por par de monedas y fecha.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = exchangeRateSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const [rate] = await exchangeRateRepository.createMany(userId, [result.data], isSameRate);
+    if (!rate) return jsonError('Ya existe una tasa para ese par de monedas en esa fecha', 409);
+
+    return NextResponse.json(rate, { status: 201 });
+}
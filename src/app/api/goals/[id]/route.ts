@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { goalSchema } from '@/validations/validations';
+import { goalRepository } from '@/server/repositories/goalRepository';
+import { hasUnknownAccount } from '@/server/accounts';
+import { resolveCategoryNames } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/goals/:id
+ * Reemplaza los datos de la meta (también el vínculo: el que no se envía se quita).
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = goalSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+
+    const [data] = await resolveCategoryNames(userId, [result.data], 'expense');
+    const goal = await goalRepository.update(userId, id, { ...data, category: data.category, accountId: data.accountId });
+    if (!goal) return jsonError('Meta no encontrada', 404);
+
+    return NextResponse.json(goal);
+}
+
+/**
+ * DELETE /api/goals/:id
+ * Elimina la meta; los movimientos que la alimentaban no cambian.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const deleted = await goalRepository.remove(userId, id);
+    if (!deleted) return jsonError('Meta no encontrada', 404);
+
+    return new NextResponse(null, { status: 204 });
+}
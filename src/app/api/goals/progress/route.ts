@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { goalRepository } from '@/server/repositories/goalRepository';
+import { accountRepository } from '@/server/repositories/accountRepository';
+import { findActiveTransactions } from '@/server/transactions';
+import { getUserConverter } from '@/server/currency';
+import { getSessionUserId } from '@/server/session';
+import { unauthorized } from '@/server/http';
+import { computeGoalProgress } from '@/lib/goals';
+import { getTodayKey } from '@/lib/dates';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/goals/progress?today=YYYY-MM-DD
+ * Avance de cada meta a la fecha indicada (por defecto, la del servidor),
+ * con los aportes convertidos a la moneda base del usuario.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const converter = await getUserConverter(userId);
+    if (!converter) return unauthorized();
+
+    const today = request.nextUrl.searchParams.get('today') ?? '';
+    const [goals, accounts, transactions] = await Promise.all([
+        goalRepository.findAllByUser(userId),
+        accountRepository.findAllByUser(userId),
+        findActiveTransactions(userId),
+    ]);
+
+    return NextResponse.json(
+        computeGoalProgress(goals, transactions, accounts, DATE_PATTERN.test(today) ? today : getTodayKey(), converter.convert)
+    );
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { goalSchema } from '@/validations/validations';
+import { goalRepository } from '@/server/repositories/goalRepository';
+import { hasUnknownAccount } from '@/server/accounts';
+import { resolveCategoryNames } from '@/server/categories';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/goals
+ * Lista las metas de ahorro del usuario autenticado.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await goalRepository.findAllByUser(userId));
+}
+
+/**
+ * POST /api/goals
+ * Crea una meta vinculada a una categoría (se crea si no existe) o a una cuenta del usuario.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = goalSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+
+    const [data] = await resolveCategoryNames(userId, [result.data], 'expense');
+    const goal = await goalRepository.create(userId, data);
+    return NextResponse.json(goal, { status: 201 });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Transaction } from '@/types';
+import { recurringSeriesUpdateSchema } from '@/validations/validations';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { hasUnknownAccount } from '@/server/accounts';
+import { resolveCategoryNames } from '@/server/categories';
+import { recordAudit } from '@/server/audit';
+import { normalizeTransferFields } from '@/lib/accounts';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/recurring-rules/:id
+ * Edición "esta y las futuras": actualiza la regla y las ocurrencias ya
+ * generadas a partir de `fromDate`. Las anteriores se conservan intactas.
+ * Cada ocurrencia modificada queda en su historial de cambios.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = recurringSeriesUpdateSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+
+    const { fromDate, ...fields } = result.data;
+    const [changes] = await resolveCategoryNames(userId, [normalizeTransferFields(fields)]);
+    const rule = await recurringRuleRepository.update(userId, id, changes);
+    if (!rule) return jsonError('Regla recurrente no encontrada', 404);
+
+    const isAffected = (tx: Transaction) => tx.recurringRuleId === id && (tx.occurrenceDate ?? tx.date) >= fromDate;
+    const before = new Map((await transactionRepository.findAllByUser(userId)).filter(isAffected).map((tx) => [tx.id, tx]));
+    const updated = await transactionRepository.updateWhere(userId, isAffected, { ...changes, updatedAt: new Date().toISOString() });
+
+    await recordAudit(userId, updated.map((after) => ({ action: 'update', before: before.get(after.id) ?? null, after })));
+
+    return NextResponse.json(rule);
+}
+
+/**
+ * DELETE /api/recurring-rules/:id
+ * Detiene la serie. Las transacciones ya generadas se conservan.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const deleted = await recurringRuleRepository.remove(userId, id);
+    if (!deleted) return jsonError('Regla recurrente no encontrada', 404);
+
+    return new NextResponse(null, { status: 204 });
+}
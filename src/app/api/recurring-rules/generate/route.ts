@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRecurringTransactions } from '@/server/recurring';
+import { getSessionUserId } from '@/server/session';
+import { unauthorized } from '@/server/http';
+
+/**
+ * POST /api/recurring-rules/generate
+ * Crea las ocurrencias vencidas de todas las reglas (idempotente).
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const created = await generateRecurringTransactions(userId);
+    return NextResponse.json({ created: created.length });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recurringRuleSchema } from '@/validations/validations';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { generateRecurringTransactions } from '@/server/recurring';
+import { getSessionUserId } from '@/server/session';
+import { hasUnknownAccount } from '@/server/accounts';
+import { resolveCategoryNames } from '@/server/categories';
+import { normalizeTransferFields } from '@/lib/accounts';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * GET /api/recurring-rules
+ * Lista las reglas recurrentes del usuario autenticado.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await recurringRuleRepository.findAllByUser(userId));
+}
+
+/**
+ * POST /api/recurring-rules
+ * Crea una regla y genera de inmediato las ocurrencias que ya vencieron.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = recurringRuleSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+
+    const [data] = await resolveCategoryNames(userId, [normalizeTransferFields(result.data)]);
+    const rule = await recurringRuleRepository.create(userId, data);
+    await generateRecurringTransactions(userId);
+
+    return NextResponse.json(rule, { status: 201 });
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/server/session';
+import { findTransactionAudit } from '@/server/audit';
+import { unauthorized } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/transactions/:id/audit
+ * Historial de cambios de la transacción (quién, cuándo y qué campos), del más reciente al más antiguo.
+ * Se conserva aunque la transacción se haya eliminado definitivamente.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    return NextResponse.json(await findTransactionAudit(userId, id));
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/server/session';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { restoreTransaction } from '@/server/transactions';
+import { recordAudit } from '@/server/audit';
+import { jsonError, unauthorized } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/transactions/:id/restore
+ * Saca la transacción de la papelera.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const before = await transactionRepository.findById(userId, id);
+    const transaction = await restoreTransaction(userId, id);
+    if (!before || !transaction) return jsonError('Transacción no encontrada en la papelera', 404);
+
+    await recordAudit(userId, [{ action: 'restore', before, after: transaction }]);
+
+    return NextResponse.json(transaction);
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transactionPatchSchema, transactionSchema } from '@/validations/validations';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { getSessionUserId } from '@/server/session';
+import { recordAudit } from '@/server/audit';
+import { asReplacement, isStaleWrite, withUpdatedAt } from '@/server/transactions';
+import { hasUnknownAccount } from '@/server/accounts';
+import { hasUnknownAttachment, markDetachedAttachments, removeAttachments } from '@/server/attachments';
+import { resolveCategoryNames } from '@/server/categories';
+import { getTransferError, normalizeTransferFields } from '@/lib/accounts';
+import { getSplitsError } from '@/lib/splits';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/transactions/:id
+ * Reemplaza todos los campos de la transacción (los opcionales que no se envían se borran).
+ * Si el cambio es anterior a la última modificación guardada, se descarta y se responde con la versión vigente.
+ * Los comprobantes que la edición quita se borran del disco si nadie los recupera en 24 horas (ej: al deshacer).
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = transactionSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+    if (await hasUnknownAttachment(userId, [result.data])) return jsonError('Comprobante no encontrado', 400);
+
+    const before = await transactionRepository.findById(userId, id);
+    if (!before) return jsonError('Transacción no encontrada', 404);
+
+    if (isStaleWrite(before, result.data.updatedAt)) return NextResponse.json(before);
+
+    const [data] = await resolveCategoryNames(userId, [withUpdatedAt(normalizeTransferFields(asReplacement(result.data)))]);
+    const transaction = await transactionRepository.update(userId, id, data);
+    if (!transaction) return jsonError('Transacción no encontrada', 404);
+
+    await markDetachedAttachments(userId, [{ before, after: transaction }]);
+    await recordAudit(userId, [{ action: 'update', before, after: transaction }]);
+    return NextResponse.json(transaction);
+}
+
+/**
+ * PATCH /api/transactions/:id
+ * Actualiza solo los campos enviados (con la misma resolución de conflictos que PUT).
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const result = transactionPatchSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+    if (await hasUnknownAttachment(userId, [result.data])) return jsonError('Comprobante no encontrado', 400);
+
+    const before = await transactionRepository.findById(userId, id);
+    if (!before) return jsonError('Transacción no encontrada', 404);
+
+    // La división y la transferencia se validan sobre el resultado: el parche puede cambiar solo el monto,
+    // solo las líneas, solo el tipo o solo una de las cuentas
+    const merged = { ...before, ...result.data };
+    const mergedError = getTransferError(merged) ?? getSplitsError(merged);
+    if (mergedError) return jsonError(mergedError, 400);
+
+    if (isStaleWrite(before, result.data.updatedAt)) return NextResponse.json(before);
+
+    // Como en PUT, la cuenta de destino y el monto recibido solo se conservan en las transferencias
+    const { toAccountId, toAmount } = normalizeTransferFields(merged);
+    const [data] = await resolveCategoryNames(userId, [withUpdatedAt({ ...result.data, toAccountId, toAmount })]);
+    const transaction = await transactionRepository.update(userId, id, data);
+    if (!transaction) return jsonError('Transacción no encontrada', 404);
+
+    await markDetachedAttachments(userId, [{ before, after: transaction }]);
+    await recordAudit(userId, [{ action: 'update', before, after: transaction }]);
+    return NextResponse.json(transaction);
+}
+
+/**
+ * DELETE /api/transactions/:id[?permanent=true]
+ * Envía la transacción a la papelera y la devuelve; con `permanent=true` la elimina definitivamente
+ * junto con sus comprobantes.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const before = await transactionRepository.findById(userId, id);
+    if (!before) return jsonError('Transacción no encontrada', 404);
+
+    if (request.nextUrl.searchParams.get('permanent') === 'true') {
+        const deleted = await transactionRepository.remove(userId, id);
+        if (!deleted) return jsonError('Transacción no encontrada', 404);
+
+        await removeAttachments(userId, before.attachments);
+        await recordAudit(userId, [{ action: 'purge', before, after: null }]);
+        return new NextResponse(null, { status: 204 });
+    }
+
+    const now = new Date().toISOString();
+    const transaction = await transactionRepository.update(userId, id, { deletedAt: now, updatedAt: now });
+    if (!transaction) return jsonError('Transacción no encontrada', 404);
+
+    await recordAudit(userId, [{ action: 'delete', before, after: transaction }]);
+    return NextResponse.json(transaction);
+}
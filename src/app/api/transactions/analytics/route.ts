@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findActiveTransactions } from '@/server/transactions';
+import { getUserConverter } from '@/server/currency';
+import { getSessionUserId } from '@/server/session';
+import { jsonError, unauthorized } from '@/server/http';
+import { getMissingRateCurrencies } from '@/lib/currency';
+import { parseFilters } from '@/lib/transactionFilters';
+import { filterByRange } from '@/lib/periods';
+import {
+    ANALYTICS_CHARTS,
+    AnalyticsChart,
+    AnalyticsResult,
+    getMonthlyTotals,
+    getRunningBalance,
+    getSpendingByCategory,
+} from '@/lib/aggregations';
+
+/**
+ * GET /api/transactions/analytics?chart=monthly|categories|balance&from=&to=
+ * Datos de un gráfico del análisis para el rango indicado, calculados en el servidor
+ * sobre todo el historial y convertidos a la moneda base del usuario.
+ * El balance acumulado parte del saldo de los movimientos anteriores al rango.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const params = request.nextUrl.searchParams;
+    const chart = params.get('chart') as AnalyticsChart;
+    const { from, to } = parseFilters(params);
+    if (!ANALYTICS_CHARTS.includes(chart) || !from || !to) return jsonError('Gráfico o rango inválido', 400);
+
+    const converter = await getUserConverter(userId);
+    if (!converter) return unauthorized();
+
+    const { baseCurrency, convert } = converter;
+    const range = { from, to };
+    const transactions = await findActiveTransactions(userId);
+    // Movimientos que intervienen en el gráfico (el balance incluye los anteriores al rango)
+    const used = chart === 'balance' ? transactions.filter((tx) => tx.date <= to) : filterByRange(transactions, range);
+
+    const data = {
+        monthly: () => getMonthlyTotals(used, range, convert),
+        categories: () => getSpendingByCategory(used, convert),
+        balance: () => getRunningBalance(used, range, convert),
+    }[chart]();
+
+    const result: AnalyticsResult = { data, currency: baseCurrency, missingRates: getMissingRateCurrencies(used, convert) };
+    return NextResponse.json(result);
+}
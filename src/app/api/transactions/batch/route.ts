@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transactionBatchSchema, transactionOperationsSchema } from '@/validations/validations';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { getSessionUserId } from '@/server/session';
+import { recordAudit } from '@/server/audit';
+import { asReplacement, isDeleted, isStaleWrite, withUpdatedAt } from '@/server/transactions';
+import { hasUnknownAccount } from '@/server/accounts';
+import { hasUnknownAttachment, markDetachedAttachments } from '@/server/attachments';
+import { resolveCategoryNames } from '@/server/categories';
+import { normalizeTransferFields } from '@/lib/accounts';
+import { Transaction } from '@/types';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+
+/**
+ * POST /api/transactions/batch
+ * Crea varias transacciones en una sola escritura (importación CSV).
+ * El lote se valida completo: si una fila es inválida no se guarda ninguna.
+ * Las categorías que no existan se crean como categorías gestionadas.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = transactionBatchSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, result.data)) return jsonError('El lote hace referencia a una cuenta que no existe', 400);
+    if (await hasUnknownAttachment(userId, result.data)) return jsonError('El lote hace referencia a un comprobante que no existe', 400);
+
+    const data = await resolveCategoryNames(userId, result.data.map((item) => withUpdatedAt(normalizeTransferFields(item))));
+    const transactions = await transactionRepository.createMany(userId, data);
+    await recordAudit(userId, transactions.map((transaction) => ({ action: 'create', before: null, after: transaction })));
+    return NextResponse.json(transactions, { status: 201 });
+}
+
+/** Campos que cambian en una transacción del lote. */
+type TransactionChanges = Partial<Omit<Transaction, 'id'>> & { id: string };
+
+/**
+ * PATCH /api/transactions/batch
+ * Aplica varios cambios (editar, enviar a la papelera, restaurar) en una sola escritura:
+ * las acciones masivas del historial y su deshacer.
+ * El lote se valida completo: si un cambio es inválido o su transacción no existe, no se aplica ninguno.
+ * Responde las transacciones en el orden de los cambios; las ediciones obsoletas se descartan
+ * y se responde con la versión vigente, como en PUT /api/transactions/:id.
+ */
+export async function PATCH(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = transactionOperationsSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+
+    const edits = result.data.flatMap((operation) => (operation.kind === 'update' ? [operation.transaction] : []));
+    if (await hasUnknownAccount(userId, edits)) return jsonError('El lote hace referencia a una cuenta que no existe', 400);
+    if (await hasUnknownAttachment(userId, edits)) return jsonError('El lote hace referencia a un comprobante que no existe', 400);
+
+    const stored = new Map((await transactionRepository.findAllByUser(userId)).map((transaction) => [transaction.id, transaction]));
+    for (const operation of result.data) {
+        const before = stored.get(operation.id);
+        if (!before) return jsonError('Transacción no encontrada', 404);
+        if (operation.kind === 'restore' && !isDeleted(before)) return jsonError('Transacción no encontrada en la papelera', 404);
+    }
+
+    const now = new Date().toISOString();
+    const pending = result.data.filter((operation) =>
+        operation.kind !== 'update' || !isStaleWrite(stored.get(operation.id)!, operation.transaction.updatedAt));
+    const changes = await resolveCategoryNames(userId, pending.map((operation): TransactionChanges => {
+        switch (operation.kind) {
+            case 'update':
+                return { ...withUpdatedAt(normalizeTransferFields(asReplacement(operation.transaction))), id: operation.id };
+            case 'delete':
+                return { id: operation.id, deletedAt: now, updatedAt: now };
+            case 'restore':
+                // Los campos undefined no se escriben en el JSON: así se borra la marca
+                return { id: operation.id, deletedAt: undefined, updatedAt: now };
+        }
+    }));
+
+    const saved = new Map<string, Transaction>(
+        (await transactionRepository.updateMany(userId, changes)).map((transaction) => [transaction.id, transaction])
+    );
+    await markDetachedAttachments(userId, pending.flatMap((operation) => {
+        const after = saved.get(operation.id);
+        return operation.kind === 'update' && after ? [{ before: stored.get(operation.id)!, after }] : [];
+    }));
+    await recordAudit(userId, pending.map((operation) => ({
+        action: operation.kind,
+        before: stored.get(operation.id)!,
+        after: saved.get(operation.id) ?? null,
+    })));
+
+    return NextResponse.json(result.data.map((operation) => saved.get(operation.id) ?? stored.get(operation.id)));
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transactionSchema } from '@/validations/validations';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { findActiveTransactions, withUpdatedAt } from '@/server/transactions';
+import { recordAudit } from '@/server/audit';
+import { getSessionUserId } from '@/server/session';
+import { hasUnknownAccount } from '@/server/accounts';
+import { hasUnknownAttachment } from '@/server/attachments';
+import { resolveCategoryNames } from '@/server/categories';
+import { normalizeTransferFields } from '@/lib/accounts';
+import { jsonError, readJson, unauthorized, validationError } from '@/server/http';
+import { InvalidCursorError, paginateTransactions, parseLimit } from '@/server/transactionQuery';
+import { parseFilters } from '@/lib/transactionFilters';
+
+/**
+ * GET /api/transactions?limit=&cursor=&sort=&order=&q=...
+ * Lista paginada (por cursor) de las transacciones del usuario autenticado, sin las de la papelera.
+ * Acepta los mismos filtros que el historial del dashboard.
+ * Responde `{ items, nextCursor }`.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const params = request.nextUrl.searchParams;
+    const transactions = await findActiveTransactions(userId);
+
+    try {
+        const page = paginateTransactions(transactions, parseFilters(params), {
+            limit: parseLimit(params.get('limit')),
+            cursor: params.get('cursor'),
+        });
+        return NextResponse.json(page);
+    } catch (error) {
+        if (error instanceof InvalidCursorError) return jsonError(error.message, 400);
+        throw error;
+    }
+}
+
+/**
+ * POST /api/transactions
+ * Crea una transacción validando el cuerpo con transactionSchema.
+ */
+export async function POST(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const result = transactionSchema.safeParse(await readJson(request));
+    if (!result.success) return validationError(result.error);
+    if (await hasUnknownAccount(userId, [result.data])) return jsonError('Cuenta no encontrada', 400);
+    if (await hasUnknownAttachment(userId, [result.data])) return jsonError('Comprobante no encontrado', 400);
+
+    const [data] = await resolveCategoryNames(userId, [withUpdatedAt(normalizeTransferFields(result.data))]);
+    const transaction = await transactionRepository.create(userId, data);
+    await recordAudit(userId, [{ action: 'create', before: null, after: transaction }]);
+    return NextResponse.json(transaction, { status: 201 });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findActiveTransactions } from '@/server/transactions';
+import { getUserConverter } from '@/server/currency';
+import { getSessionUserId } from '@/server/session';
+import { unauthorized } from '@/server/http';
+import { getMissingRateCurrencies } from '@/lib/currency';
+import { filterTransactions, parseFilters } from '@/lib/transactionFilters';
+import { FilteredSummary, summarizeTransactions } from '@/lib/aggregations';
+import { narrowToCategories } from '@/lib/splits';
+
+/**
+ * GET /api/transactions/summary?q=&type=&category=...
+ * Totales (ingresos, gastos, balance y cantidad) del conjunto filtrado,
+ * calculados en el servidor para no depender de las filas cargadas en el cliente.
+ * Los montos se convierten a la moneda base del usuario con su tabla de tasas.
+ * Con filtro de categorías, de las transacciones divididas solo suman las líneas de esas categorías.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    const converter = await getUserConverter(userId);
+    if (!converter) return unauthorized();
+
+    const filters = parseFilters(request.nextUrl.searchParams);
+    const filtered = filterTransactions(await findActiveTransactions(userId), filters);
+    const { baseCurrency, convert } = converter;
+
+    const summary: FilteredSummary = {
+        ...summarizeTransactions(narrowToCategories(filtered, filters.categories), convert),
+        count: filtered.length,
+        currency: baseCurrency,
+        missingRates: getMissingRateCurrencies(filtered, convert),
+    };
+    return NextResponse.json(summary);
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/server/session';
+import { findDeletedTransactions } from '@/server/transactions';
+import { unauthorized } from '@/server/http';
+
+/**
+ * GET /api/transactions/trash
+ * Transacciones en la papelera del usuario, de la más reciente a la más antigua.
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorized();
+
+    return NextResponse.json(await findDeletedTransactions(userId));
+}
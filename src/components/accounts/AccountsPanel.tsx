@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Edit2, Plus, Trash2 } from "lucide-react";
+import Modal from "@/components/ui/Modal";
+import AccountForm from "@/components/forms/AccountForm";
+import { useAccountStore } from "@/services/useAccountStore";
+import { AccountBalance, ACCOUNT_TYPE_LABELS } from "@/lib/accounts";
+import { formatCurrency } from "@/lib/currency";
+import { Account } from "@/types";
+
+interface AccountsPanelProps {
+  /** Saldo calculado de cada cuenta. */
+  balances: AccountBalance[];
+}
+
+/**
+ * Sección de cuentas del dashboard.
+ * Muestra el saldo de cada cuenta en su propia moneda y permite gestionarlas.
+ */
+export default function AccountsPanel({ balances }: AccountsPanelProps) {
+  const { deleteAccount } = useAccountStore();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | undefined>(undefined);
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    setEditingAccount(undefined);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingAccount(account);
+    setIsFormOpen(true);
+  };
+
+  const closeDelete = () => {
+    setAccountToDelete(null);
+    setDeleteError(null);
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-100 mb-8">
+      <div className="p-6 border-b border-gray-50 flex justify-between items-center gap-4">
+        <h2 className="text-lg font-bold text-gray-800">Cuentas</h2>
+        <button
+          onClick={handleCreate}
+          className="flex items-center gap-2 text-sm font-semibold text-app-purple bg-app-purple/10 px-4 py-2.5 rounded-xl hover:bg-app-purple/20 transition-colors"
+        >
+          <Plus size={16} strokeWidth={3} />
+          Nueva cuenta
+        </button>
+      </div>
+
+      <ul className="p-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {balances.map(({ account, balance, missingRates }) => (
+          <li key={account.id} className="rounded-xl border border-gray-100 p-4">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-bold text-gray-900">{account.name}</p>
+                <p className="text-xs font-medium text-gray-500">{ACCOUNT_TYPE_LABELS[account.type]}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => handleEdit(account)} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg" aria-label="Editar cuenta">
+                  <Edit2 size={16} />
+                </button>
+                <button onClick={() => setAccountToDelete(account)} className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg" aria-label="Eliminar cuenta">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+            <p className={`mt-3 text-xl font-bold ${balance < 0 ? "text-red-600" : "text-gray-900"}`}>
+              {formatCurrency(balance, account.currency)}
+            </p>
+            {missingRates.length > 0 && (
+              <p className="mt-1 text-xs font-medium text-amber-700">
+                Sin tasa de {missingRates.join(", ")} a {account.currency}: esos movimientos no se incluyen.
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editingAccount ? "Editar Cuenta" : "Nueva Cuenta"}
+      >
+        <AccountForm onClose={() => setIsFormOpen(false)} account={editingAccount} />
+      </Modal>
+
+      <Modal
+        isOpen={!!accountToDelete}
+        onClose={closeDelete}
+        title="Confirmar eliminación"
+      >
+        <p className="text-gray-600 mb-6">
+          ¿Eliminar la cuenta <span className="font-semibold text-gray-900">“{accountToDelete?.name}”</span>?
+        </p>
+        {deleteError && (
+          <p className="mb-6 rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{deleteError}</p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button onClick={closeDelete} className="px-4 py-2 text-gray-700">Cancelar</button>
+          <button
+            onClick={async () => {
+              if (!accountToDelete) return;
+              try {
+                await deleteAccount(accountToDelete.id);
+                closeDelete();
+              } catch (error) {
+                // Ej: la cuenta todavía tiene movimientos
+                setDeleteError(error instanceof Error ? error.message : "No fue posible eliminar la cuenta");
+              }
+            }}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold"
+          >
+            Eliminar
+          </button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
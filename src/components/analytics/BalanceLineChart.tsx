@@ -0,0 +1,63 @@
+"use client";
+
+import { BalancePoint } from "@/lib/aggregations";
+import { formatCurrency } from "@/lib/currency";
+import { DateRange } from "@/lib/periods";
+import { CurrencyCode } from "@/types";
+
+interface BalanceLineChartProps {
+  data: BalancePoint[];
+  range: DateRange;
+  currency: CurrencyCode;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = 12;
+
+const toTime = (dateKey: string) => Date.parse(`${dateKey}T00:00:00Z`);
+
+/**
+ * Línea escalonada del balance neto acumulado a lo largo del rango.
+ * Si el balance cruza el cero se marca la línea base.
+ */
+export default function BalanceLineChart({ data, range, currency }: BalanceLineChartProps) {
+  const balances = data.map((point) => point.balance);
+  const min = Math.min(0, ...balances);
+  const max = Math.max(0, ...balances);
+  const span = max - min || 1;
+  const start = toTime(range.from);
+  const duration = toTime(range.to) - start || 1;
+
+  const x = (dateKey: string) => PADDING + ((toTime(dateKey) - start) / duration) * (WIDTH - 2 * PADDING);
+  const y = (balance: number) => PADDING + ((max - balance) / span) * (HEIGHT - 2 * PADDING);
+
+  // Escalones: el balance se mantiene hasta el siguiente día con movimientos
+  const path = data
+    .map((point, index) => (index === 0 ? `M${x(point.date)} ${y(point.balance)}` : `H${x(point.date)} V${y(point.balance)}`))
+    .join(" ") + ` H${x(range.to)}`;
+
+  const last = data[data.length - 1];
+  const first = data[0];
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Balance neto acumulado">
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(0)} y2={y(0)} className="stroke-gray-200" strokeDasharray="4 4" />
+        <path d={path} fill="none" className="stroke-app-purple" strokeWidth={2.5} strokeLinejoin="round" />
+        {data.map((point) => (
+          <circle key={point.date} cx={x(point.date)} cy={y(point.balance)} r={3} className="fill-app-purple">
+            <title>{`${new Date(point.date).toLocaleDateString("es-ES", { timeZone: "UTC" })}: ${formatCurrency(point.balance, currency)}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs font-semibold text-gray-500">
+        <span>Inicio: {formatCurrency(first.balance, currency)}</span>
+        <span className={last.balance >= first.balance ? "text-app-green" : "text-red-500"}>
+          Final: {formatCurrency(last.balance, currency)}
+        </span>
+      </div>
+    </div>
+  );
+}
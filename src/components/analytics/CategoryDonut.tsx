@@ -0,0 +1,71 @@
+"use client";
+
+import { CategoryShare } from "@/lib/aggregations";
+import { CATEGORY_COLORS } from "@/lib/categories";
+import { formatCurrency } from "@/lib/currency";
+import { CurrencyCode } from "@/types";
+
+interface CategoryDonutProps {
+  data: CategoryShare[];
+  currency: CurrencyCode;
+  /** Color de cada categoría gestionada; las demás usan la paleta por defecto. */
+  getColor: (category: string) => string | undefined;
+}
+
+const RADIUS = 70;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+/**
+ * Donut del gasto por categoría con su leyenda.
+ * Cada porción es un arco de `stroke-dasharray` sobre el mismo círculo.
+ */
+export default function CategoryDonut({ data, currency, getColor }: CategoryDonutProps) {
+  const total = data.reduce((sum, entry) => sum + entry.amount, 0);
+  const colorOf = (category: string, index: number) => getColor(category) ?? CATEGORY_COLORS[index % CATEGORY_COLORS.length];
+
+  if (data.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">No hay gastos en este periodo.</p>;
+  }
+
+  // Desplazamiento acumulado de cada porción a lo largo del círculo
+  const offsets = data.map((_, index) => data.slice(0, index).reduce((sum, entry) => sum + entry.share, 0));
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-8">
+      <svg viewBox="0 0 200 200" className="w-48 shrink-0" role="img" aria-label="Gasto por categoría">
+        <g transform="rotate(-90 100 100)">
+          {data.map((entry, index) => (
+            <circle
+              key={entry.category}
+              cx={100}
+              cy={100}
+              r={RADIUS}
+              fill="none"
+              stroke={colorOf(entry.category, index)}
+              strokeWidth={28}
+              strokeDasharray={`${entry.share * CIRCUMFERENCE} ${CIRCUMFERENCE}`}
+              strokeDashoffset={-offsets[index] * CIRCUMFERENCE}
+            >
+              <title>{`${entry.category}: ${formatCurrency(entry.amount, currency)}`}</title>
+            </circle>
+          ))}
+        </g>
+        <text x={100} y={96} textAnchor="middle" className="fill-gray-400 text-[11px] font-bold uppercase">Total</text>
+        <text x={100} y={114} textAnchor="middle" className="fill-gray-900 text-[13px] font-black">
+          {formatCurrency(total, currency)}
+        </text>
+      </svg>
+
+      <ul className="w-full space-y-2 text-sm">
+        {data.map((entry, index) => (
+          <li key={entry.category} className="flex items-center gap-3">
+            <span className="size-3 rounded-full shrink-0" style={{ backgroundColor: colorOf(entry.category, index) }} />
+            <span className="font-semibold text-gray-800 truncate">{entry.category}</span>
+            <span className="ml-auto text-gray-400 font-medium">{Math.round(entry.share * 100)}%</span>
+            <span className="w-32 text-right font-bold text-gray-900">{formatCurrency(entry.amount, currency)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useState } from "react";
+import PeriodSelector from "@/components/ui/PeriodSelector";
+import { DateRange, getPeriodRange, PeriodSelection } from "@/lib/periods";
+import { getTodayKey } from "@/lib/dates";
+
+interface ChartCardProps {
+  title: string;
+  /** Periodo con el que se abre el gráfico. */
+  defaultPeriod: PeriodSelection;
+  /** Renderiza el gráfico para el rango elegido. */
+  children: (range: DateRange) => React.ReactNode;
+}
+
+/**
+ * Tarjeta de un gráfico con su propio selector de periodo.
+ */
+export default function ChartCard({ title, defaultPeriod, children }: ChartCardProps) {
+  const [period, setPeriod] = useState(defaultPeriod);
+  const range = getPeriodRange(period, getTodayKey());
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-100 p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-bold text-gray-800">{title}</h2>
+        <PeriodSelector value={period} onChange={setPeriod} />
+      </div>
+      {children(range)}
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { MonthlyTotal } from "@/lib/aggregations";
+import { formatCurrency } from "@/lib/currency";
+import { CurrencyCode } from "@/types";
+
+interface MonthlyBarChartProps {
+  data: MonthlyTotal[];
+  currency: CurrencyCode;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+/** Espacio inferior reservado a las etiquetas de los meses. */
+const LABEL_HEIGHT = 24;
+
+/** Nombre corto del mes (`YYYY-MM` → "ene 24"). */
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("es-ES", { month: "short", year: "2-digit" });
+
+/**
+ * Barras de ingresos y gastos por mes, en SVG sin dependencias.
+ */
+export default function MonthlyBarChart({ data, currency }: MonthlyBarChartProps) {
+  const max = Math.max(1, ...data.flatMap((row) => [row.totalIncome, row.totalExpenses]));
+  const chartHeight = HEIGHT - LABEL_HEIGHT;
+  const slot = WIDTH / Math.max(1, data.length);
+  const barWidth = Math.min(28, slot / 3);
+  const barHeight = (amount: number) => (amount / max) * (chartHeight - 8);
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Ingresos y gastos por mes">
+        <line x1={0} x2={WIDTH} y1={chartHeight} y2={chartHeight} className="stroke-gray-200" />
+        {data.map((row, index) => {
+          const center = slot * index + slot / 2;
+
+          return (
+            <g key={row.month}>
+              <title>
+                {`${formatMonth(row.month)} · Ingresos ${formatCurrency(row.totalIncome, currency)} · Gastos ${formatCurrency(row.totalExpenses, currency)} · Neto ${formatCurrency(row.netBalance, currency)}`}
+              </title>
+              <rect
+                x={center - barWidth - 1}
+                y={chartHeight - barHeight(row.totalIncome)}
+                width={barWidth}
+                height={barHeight(row.totalIncome)}
+                rx={3}
+                className="fill-app-green"
+              />
+              <rect
+                x={center + 1}
+                y={chartHeight - barHeight(row.totalExpenses)}
+                width={barWidth}
+                height={barHeight(row.totalExpenses)}
+                rx={3}
+                className="fill-red-500"
+              />
+              {/* Con muchos meses solo se rotula uno de cada dos */}
+              {(data.length <= 12 || index % 2 === 0) && (
+                <text x={center} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-400 text-[11px] font-semibold capitalize">
+                  {formatMonth(row.month)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex items-center gap-4 text-xs font-semibold text-gray-500">
+        <span className="flex items-center gap-1.5"><span className="size-2.5 rounded-sm bg-app-green" /> Ingresos</span>
+        <span className="flex items-center gap-1.5"><span className="size-2.5 rounded-sm bg-red-500" /> Gastos</span>
+        <span className="ml-auto">Máximo mensual: {formatCurrency(max, currency)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Edit2, Plus, Trash2 } from "lucide-react";
+import Modal from "@/components/ui/Modal";
+import BudgetForm from "@/components/forms/BudgetForm";
+import { useBudgetStore } from "@/services/useBudgetStore";
+import { BudgetProgress, BudgetStatus } from "@/lib/budgets";
+import { Budget, CurrencyCode } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+/** Colores de la barra y del contenedor según el estado del presupuesto. */
+const STATUS_STYLES: Record<BudgetStatus, { bar: string; row: string; text: string }> = {
+  ok: { bar: "bg-app-green", row: "border-gray-100", text: "text-gray-500" },
+  warning: { bar: "bg-amber-400", row: "border-amber-200 bg-amber-50/60", text: "text-amber-600" },
+  over: { bar: "bg-red-500", row: "border-red-200 bg-red-50/60", text: "text-red-600" },
+};
+
+interface BudgetsPanelProps {
+  /** Progreso de cada presupuesto en el mes actual. */
+  progress: BudgetProgress[];
+  /** Categorías conocidas, para sugerir en el formulario. */
+  categories: string[];
+  /** Moneda base en la que se definen los límites. */
+  currency: CurrencyCode;
+}
+
+/**
+ * Sección de presupuestos del dashboard.
+ * Muestra el consumo mensual por categoría y resalta las que superan el 80% o el 100%.
+ */
+export default function BudgetsPanel({ progress, categories, currency }: BudgetsPanelProps) {
+  const { deleteBudget } = useBudgetStore();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | undefined>(undefined);
+  const [budgetToDelete, setBudgetToDelete] = useState<Budget | null>(null);
+
+  const handleCreate = () => {
+    setEditingBudget(undefined);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingBudget(budget);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-100 mb-8">
+      <div className="p-6 border-b border-gray-50 flex justify-between items-center gap-4">
+        <h2 className="text-lg font-bold text-gray-800">Presupuestos del mes</h2>
+        <button
+          onClick={handleCreate}
+          className="flex items-center gap-2 text-sm font-semibold text-app-purple bg-app-purple/10 px-4 py-2.5 rounded-xl hover:bg-app-purple/20 transition-colors"
+        >
+          <Plus size={16} strokeWidth={3} />
+          Nuevo presupuesto
+        </button>
+      </div>
+
+      {progress.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">
+          Aún no tienes presupuestos. Define un límite mensual para tus categorías de gasto.
+        </p>
+      ) : (
+        <ul className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {progress.map(({ budget, spent, limit, remaining, percentage, status }) => {
+            const styles = STATUS_STYLES[status];
+
+            return (
+              <li key={budget.id} className={`rounded-xl border p-4 ${styles.row}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 font-bold text-gray-900">
+                    {status !== "ok" && <AlertTriangle size={16} className={styles.text} />}
+                    {budget.category}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => handleEdit(budget)} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg" aria-label="Editar presupuesto">
+                      <Edit2 size={16} />
+                    </button>
+                    <button onClick={() => setBudgetToDelete(budget)} className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg" aria-label="Eliminar presupuesto">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Barra de progreso (limitada visualmente al 100%) */}
+                <div className="mt-3 h-2.5 w-full rounded-full bg-gray-100 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${styles.bar}`}
+                    style={{ width: `${Math.min(percentage, 100)}%` }}
+                  />
+                </div>
+
+                <div className="mt-2 flex justify-between text-xs font-medium">
+                  <span className="text-gray-500">
+                    {formatCurrency(spent, currency)} de {formatCurrency(limit, currency)}
+                  </span>
+                  <span className={styles.text}>
+                    {remaining >= 0
+                      ? `Quedan ${formatCurrency(remaining, currency)}`
+                      : `Excedido en ${formatCurrency(Math.abs(remaining), currency)}`}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editingBudget ? "Editar Presupuesto" : "Nuevo Presupuesto"}
+      >
+        <BudgetForm
+          onClose={() => setIsFormOpen(false)}
+          budget={editingBudget}
+          categories={categories}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={!!budgetToDelete}
+        onClose={() => setBudgetToDelete(null)}
+        title="Confirmar eliminación"
+      >
+        <p className="text-gray-600 mb-6">
+          ¿Eliminar el presupuesto de <span className="font-semibold text-gray-900">“{budgetToDelete?.category}”</span>?
+        </p>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setBudgetToDelete(null)} className="px-4 py-2 text-gray-700">Cancelar</button>
+          <button
+            onClick={async () => {
+              if (budgetToDelete) {
+                await deleteBudget(budgetToDelete.id);
+                setBudgetToDelete(null);
+              }
+            }}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold"
+          >
+            Eliminar
+          </button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Edit2, GitMerge, Plus, Trash2 } from "lucide-react";
+import CategoryIcon from "@/components/categories/CategoryIcon";
+import CategoryForm from "@/components/forms/CategoryForm";
+import { useCategoryStore } from "@/services/useCategoryStore";
+import { useTransactionStore } from "@/services/useTransactionStore";
+import { useBudgetStore } from "@/services/useBudgetStore";
+import { useRecurringStore } from "@/services/useRecurringStore";
+import { useCategoryRuleStore } from "@/services/useCategoryRuleStore";
+import { CATEGORY_TYPE_LABELS, getCategoryPath, sortCategoryTree } from "@/lib/categories";
+import { Category } from "@/types";
+
+/** Vista activa: listado o formulario (crear/editar). */
+type ManagerView = { mode: "list" } | { mode: "form"; category?: Category };
+
+/**
+ * Gestión de la taxonomía de categorías: alta, edición, eliminación y
+ * fusión (reasigna los movimientos de una categoría a otra).
+ */
+export default function CategoriesManager() {
+  const { categories, usage, getUsage, deleteCategory, mergeCategories, isLoading } = useCategoryStore();
+  const { getTransactions } = useTransactionStore();
+  const { getBudgets } = useBudgetStore();
+  const { getRules } = useRecurringStore();
+  const { getCategoryRules } = useCategoryRuleStore();
+
+  const [view, setView] = useState<ManagerView>({ mode: "list" });
+  const [mergeSource, setMergeSource] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Movimientos por nombre de categoría, contados en el servidor
+  useEffect(() => {
+    getUsage().catch((error) => {
+      console.error("Error al cargar el uso de las categorías:", error);
+    });
+  }, [getUsage]);
+
+  /** Los renombres y fusiones cambian transacciones, presupuestos y reglas en el servidor. */
+  const reloadRelatedData = () =>
+    Promise.all([getTransactions(), getUsage(), getBudgets(), getRules(), getCategoryRules()]).catch((error) => {
+      console.error("Error al recargar los datos tras cambiar las categorías:", error);
+    });
+
+  const handleDelete = async (category: Category) => {
+    setMessage(null);
+    try {
+      await deleteCategory(category.id);
+    } catch (error) {
+      // Ej: la categoría tiene movimientos o subcategorías
+      setMessage(error instanceof Error ? error.message : "No fue posible eliminar la categoría");
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+
+    setMessage(null);
+    try {
+      await mergeCategories(mergeSource.id, mergeTargetId);
+      setMergeSource(null);
+      await reloadRelatedData();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "No fue posible fusionar las categorías");
+    }
+  };
+
+  if (view.mode === "form") {
+    const editing = view.category;
+    return (
+      <CategoryForm
+        category={editing}
+        onClose={() => {
+          setView({ mode: "list" });
+          // Un cambio de nombre se propaga a los movimientos
+          if (editing) reloadRelatedData();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Las categorías con el mismo nombre (sin distinguir mayúsculas ni tildes) se unifican automáticamente.
+          Fusiona las que signifiquen lo mismo, como «Comida» y «Alimentación».
+        </p>
+        <button
+          onClick={() => setView({ mode: "form" })}
+          className="flex shrink-0 items-center gap-2 text-sm font-semibold text-app-purple bg-app-purple/10 px-4 py-2.5 rounded-xl hover:bg-app-purple/20 transition-colors"
+        >
+          <Plus size={16} strokeWidth={3} />
+          Nueva categoría
+        </button>
+      </div>
+
+      {message && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{message}</p>
+      )}
+
+      {/* Fusión: la categoría elegida se integra en la de destino */}
+      {mergeSource && (
+        <div className="rounded-xl border border-app-purple/30 bg-app-purple/5 p-4 space-y-3">
+          <p className="text-sm font-semibold text-gray-800">
+            Fusionar «{mergeSource.name}» en:
+          </p>
+          <div className="flex gap-2">
+            <select
+              value={mergeTargetId}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm outline-none focus:border-app-purple bg-white"
+            >
+              <option value="">Selecciona...</option>
+              {sortCategoryTree(categories)
+                .filter((category) => category.id !== mergeSource.id)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>{getCategoryPath(categories, category)}</option>
+                ))}
+            </select>
+            <button onClick={() => setMergeSource(null)} className="px-4 py-2 text-sm text-gray-700">Cancelar</button>
+            <button
+              onClick={handleMerge}
+              disabled={!mergeTargetId || isLoading}
+              className="px-4 py-2 bg-app-purple text-white rounded-lg text-sm font-semibold disabled:bg-gray-400"
+            >
+              Fusionar
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Sus {usage[mergeSource.name] ?? 0} movimiento(s), reglas y presupuesto pasan a la categoría de destino.
+          </p>
+        </div>
+      )}
+
+      {categories.length === 0 ? (
+        <p className="text-sm text-gray-500">Aún no tienes categorías.</p>
+      ) : (
+        <ul className="divide-y divide-gray-50 rounded-xl border border-gray-100">
+          {sortCategoryTree(categories).map((category) => (
+            <li key={category.id} className={`flex items-center gap-3 px-4 py-2.5 ${category.parentId ? "pl-12" : ""}`}>
+              <CategoryIcon icon={category.icon} color={category.color} />
+              <div className="flex-1">
+                <p className="text-sm font-semibold text-gray-900">{category.name}</p>
+                <p className="text-xs text-gray-400">
+                  {CATEGORY_TYPE_LABELS[category.type]} · {usage[category.name] ?? 0} movimiento(s)
+                </p>
+              </div>
+              <button onClick={() => setView({ mode: "form", category })} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg" aria-label="Editar categoría">
+                <Edit2 size={16} />
+              </button>
+              <button
+                onClick={() => {
+                  setMergeSource(category);
+                  setMergeTargetId("");
+                }}
+                className="p-1.5 text-app-purple hover:bg-app-purple/10 rounded-lg"
+                aria-label="Fusionar categoría"
+                title="Fusionar con otra categoría"
+              >
+                <GitMerge size={16} />
+              </button>
+              <button onClick={() => handleDelete(category)} className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg" aria-label="Eliminar categoría">
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import {
+  Banknote, Briefcase, Bus, Car, Coffee, Dumbbell, Film, Gamepad2, Gift, GraduationCap, HeartPulse, Home,
+  LucideIcon, PawPrint, PiggyBank, Plane, Receipt, Shirt, ShoppingCart, Smartphone, Tag, TrendingUp, Utensils, Wifi, Zap,
+} from "lucide-react";
+import { CATEGORY_ICONS } from "@/lib/categories";
+
+/** Componente de lucide-react para cada nombre de CATEGORY_ICONS. */
+export const CATEGORY_ICON_COMPONENTS: Record<(typeof CATEGORY_ICONS)[number], LucideIcon> = {
+  Tag, ShoppingCart, Utensils, Coffee, Home, Car, Bus, Plane,
+  HeartPulse, GraduationCap, Shirt, Gift, Film, Gamepad2, Dumbbell, PawPrint,
+  Smartphone, Zap, Wifi, Briefcase, Banknote, PiggyBank, TrendingUp, Receipt,
+};
+
+interface CategoryIconProps {
+  icon: string;
+  color: string;
+  size?: number;
+}
+
+/**
+ * Icono de una categoría dentro de un círculo con su color.
+ */
+export default function CategoryIcon({ icon, color, size = 14 }: CategoryIconProps) {
+  const Icon = CATEGORY_ICON_COMPONENTS[icon as keyof typeof CATEGORY_ICON_COMPONENTS] ?? Tag;
+
+  return (
+    <span
+      className="inline-flex shrink-0 items-center justify-center rounded-full p-1.5"
+      style={{ backgroundColor: `${color}1a`, color }}
+    >
+      <Icon size={size} />
+    </span>
+  );
+}
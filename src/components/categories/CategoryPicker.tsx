@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Plus, Search } from "lucide-react";
+import CategoryIcon from "@/components/categories/CategoryIcon";
+import { useCategoryStore } from "@/services/useCategoryStore";
+import {
+  CATEGORY_COLORS,
+  categoryAppliesTo,
+  DEFAULT_CATEGORY_ICON,
+  findCategoryByName,
+  getCategoryPath,
+  sortCategoryTree,
+} from "@/lib/categories";
+import { normalizeText } from "@/lib/text";
+import { TransactionType } from "@/types";
+
+interface CategoryPickerProps {
+  /** Nombre de la categoría seleccionada. */
+  value: string;
+  onChange: (name: string) => void;
+  /** Tipo del movimiento: solo se ofrecen las categorías que aplican. */
+  type: TransactionType;
+  hasError?: boolean;
+}
+
+/**
+ * Selector de categoría con búsqueda.
+ * Si el texto buscado no coincide con ninguna categoría, permite crearla.
+ */
+export default function CategoryPicker({ value, onChange, type, hasError }: CategoryPickerProps) {
+  const { categories, addCategory, isLoading } = useCategoryStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = findCategoryByName(categories, value);
+  const search = normalizeText(query);
+  const options = sortCategoryTree(categories).filter(
+    (category) =>
+      categoryAppliesTo(category, type) && normalizeText(getCategoryPath(categories, category)).includes(search)
+  );
+  const canCreate = query.trim().length >= 2 && !findCategoryByName(categories, query);
+
+  const select = (name: string) => {
+    onChange(name);
+    setIsOpen(false);
+    setQuery("");
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const category = await addCategory({
+        name: query.trim(),
+        type: type === "income" ? "income" : "expense",
+        color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+        icon: DEFAULT_CATEGORY_ICON,
+      });
+      select(category.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No fue posible crear la categoría");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center gap-2 border rounded-lg px-4 py-2.5 text-left outline-none transition-all bg-white ${hasError
+          ? "border-red-500 focus:ring-2 focus:ring-red-200"
+          : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+          }`}
+      >
+        {selected ? (
+          <>
+            <CategoryIcon icon={selected.icon} color={selected.color} />
+            <span className="font-medium text-gray-900">{getCategoryPath(categories, selected)}</span>
+          </>
+        ) : (
+          <span className="text-gray-400">{value || "Selecciona una categoría"}</span>
+        )}
+        <ChevronDown size={16} className="ml-auto text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-30 mt-2 w-full rounded-xl border border-gray-100 bg-white p-2 shadow-lg">
+          <div className="relative mb-2">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter elige la primera coincidencia (o crea la categoría) sin enviar el formulario
+                if (e.key !== "Enter") return;
+                e.preventDefault();
+                if (options[0]) select(options[0].name);
+                else if (canCreate) handleCreate();
+              }}
+              placeholder="Buscar categoría"
+              className="w-full rounded-lg border border-gray-200 bg-gray-50 py-2 pl-8 pr-3 text-sm outline-none focus:border-app-purple"
+            />
+          </div>
+
+          <ul className="max-h-56 overflow-y-auto">
+            {options.map((category) => (
+              <li key={category.id}>
+                <button
+                  type="button"
+                  onClick={() => select(category.name)}
+                  className={`flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-gray-50 ${category.parentId ? "pl-8" : ""} ${category.name === value ? "bg-app-purple/10 font-semibold" : ""}`}
+                >
+                  <CategoryIcon icon={category.icon} color={category.color} size={12} />
+                  {category.name}
+                </button>
+              </li>
+            ))}
+            {options.length === 0 && !canCreate && (
+              <li className="px-2 py-1.5 text-sm text-gray-400">Sin resultados</li>
+            )}
+          </ul>
+
+          {canCreate && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isLoading}
+              className="mt-1 flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-sm font-semibold text-app-purple hover:bg-app-purple/10 disabled:opacity-50"
+            >
+              <Plus size={14} /> Crear «{query.trim()}»
+            </button>
+          )}
+          {error && <p className="px-2 pt-1 text-xs font-medium text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Edit2, Plus, Trash2, Wand2 } from "lucide-react";
+import CategoryRuleForm from "@/components/forms/CategoryRuleForm";
+import { useCategoryRuleStore } from "@/services/useCategoryRuleStore";
+import { CategoryRule } from "@/types";
+
+/** Vista activa: listado o formulario (crear/editar). */
+type ManagerView = { mode: "list" } | { mode: "form"; rule?: CategoryRule };
+
+const RULE_TYPE_LABELS: Record<NonNullable<CategoryRule["type"]>, string> = {
+  income: "Ingresos",
+  expense: "Gastos",
+};
+
+/**
+ * Condiciones de la regla en una línea (ej: "Gastos · contiene «uber» · hasta 50.000").
+ * Los montos se comparan tal cual, en la moneda de cada movimiento.
+ */
+function describeConditions(rule: CategoryRule): string {
+  const amount = (value: number) => value.toLocaleString("es-ES");
+  const parts = [rule.type ? RULE_TYPE_LABELS[rule.type] : "Ingresos y gastos", `contiene «${rule.titleContains}»`];
+
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined) parts.push(`entre ${amount(rule.minAmount)} y ${amount(rule.maxAmount)}`);
+  else if (rule.minAmount !== undefined) parts.push(`desde ${amount(rule.minAmount)}`);
+  else if (rule.maxAmount !== undefined) parts.push(`hasta ${amount(rule.maxAmount)}`);
+
+  return parts.join(" · ");
+}
+
+/**
+ * Gestión de las reglas de categorización automática.
+ * Se evalúan en orden: la primera que cumple un movimiento sugiere su categoría en el formulario
+ * y la asigna al importar. Si ninguna aplica, se sugiere la categoría aprendida de los títulos anteriores.
+ */
+export default function CategoryRulesManager() {
+  const { categoryRules, deleteCategoryRule } = useCategoryRuleStore();
+  const [view, setView] = useState<ManagerView>({ mode: "list" });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleDelete = async (rule: CategoryRule) => {
+    setMessage(null);
+    try {
+      await deleteCategoryRule(rule.id);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "No fue posible eliminar la regla");
+    }
+  };
+
+  if (view.mode === "form") {
+    return <CategoryRuleForm rule={view.rule} onClose={() => setView({ mode: "list" })} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-base font-bold text-gray-800">Reglas de categorización</h3>
+          <p className="text-sm text-gray-500">
+            Se aplican en orden al escribir el título de una transacción y al importar un extracto.
+          </p>
+        </div>
+        <button
+          onClick={() => setView({ mode: "form" })}
+          className="flex shrink-0 items-center gap-2 text-sm font-semibold text-app-purple bg-app-purple/10 px-4 py-2.5 rounded-xl hover:bg-app-purple/20 transition-colors"
+        >
+          <Plus size={16} strokeWidth={3} />
+          Nueva regla
+        </button>
+      </div>
+
+      {message && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{message}</p>
+      )}
+
+      {categoryRules.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Aún no tienes reglas. Ej: si el título contiene «Uber», asignar «Transporte».
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-50 rounded-xl border border-gray-100">
+          {categoryRules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-3 px-4 py-2.5">
+              <Wand2 size={16} className="text-app-purple shrink-0" />
+              <div className="flex-1">
+                <p className="text-sm font-semibold text-gray-900">{rule.category}</p>
+                <p className="text-xs text-gray-400">{describeConditions(rule)}</p>
+              </div>
+              <button onClick={() => setView({ mode: "form", rule })} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg" aria-label="Editar regla">
+                <Edit2 size={16} />
+              </button>
+              <button onClick={() => handleDelete(rule)} className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg" aria-label="Eliminar regla">
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
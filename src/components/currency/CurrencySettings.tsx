@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FileUp, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useExchangeRateStore } from "@/services/useExchangeRateStore";
+import { exchangeRateSchema, ExchangeRateFormData } from "@/validations/validations";
+import { CURRENCY_CODES, DEFAULT_CURRENCY, getCurrencyName } from "@/lib/currency";
+import { parseExchangeRatesCsv } from "@/lib/exchangeRateImport";
+import { getTodayKey } from "@/lib/dates";
+import { CurrencyCode, ExchangeRate } from "@/types";
+
+const fieldClass = "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm outline-none focus:border-app-purple bg-white";
+
+/**
+ * Preferencias de moneda: moneda base del usuario y tabla de tasas de cambio
+ * (alta manual, edición de la tasa, eliminación e importación desde CSV).
+ */
+export default function CurrencySettings() {
+  const { user, updatePreferences } = useAuth();
+  const { rates, addRate, updateRate, deleteRate, importRates, isLoading } = useExchangeRateStore();
+  const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const [message, setMessage] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const { register, handleSubmit, reset, setError, formState: { errors } } = useForm({
+    resolver: zodResolver(exchangeRateSchema),
+    defaultValues: { date: getTodayKey(), from: "USD", to: baseCurrency },
+  });
+
+  /** Tasas de la más reciente a la más antigua. */
+  const sortedRates = [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+
+  const onSubmit = async (data: ExchangeRateFormData) => {
+    try {
+      await addRate(data);
+      reset({ ...data, rate: undefined });
+    } catch (error) {
+      // Ej: ya existe una tasa para ese par en esa fecha
+      setError("root", { message: error instanceof Error ? error.message : "No fue posible guardar la tasa" });
+    }
+  };
+
+  /** Guarda la nueva tasa de una fila al salir del campo, si cambió y es válida. */
+  const handleRateBlur = async (rate: ExchangeRate, value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0 || parsed === rate.rate) return;
+
+    try {
+      await updateRate({ ...rate, rate: parsed });
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "No fue posible actualizar la tasa");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setMessage(null);
+    setImportErrors([]);
+
+    try {
+      const { rates: parsed, errors: rowErrors } = parseExchangeRatesCsv(await file.text());
+      setImportErrors(rowErrors);
+      if (parsed.length === 0) return;
+
+      const created = await importRates(parsed);
+      const skipped = parsed.length - created;
+      setMessage(`Se importaron ${created} tasas${skipped > 0 ? ` (${skipped} ya existían)` : ""}.`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "No fue posible importar el archivo");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Moneda base */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">Moneda base</label>
+        <select
+          value={baseCurrency}
+          onChange={(e) => updatePreferences({ baseCurrency: e.target.value as CurrencyCode }).catch((error) => {
+            setMessage(error instanceof Error ? error.message : "No fue posible cambiar la moneda base");
+          })}
+          className={fieldClass}
+        >
+          {CURRENCY_CODES.map((code) => (
+            <option key={code} value={code}>{code} · {getCurrencyName(code)}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1.5">Los totales y presupuestos se muestran convertidos a esta moneda.</p>
+      </div>
+
+      {/* Alta de tasa */}
+      <form onSubmit={handleSubmit(onSubmit)} className="rounded-xl border border-gray-200 p-4 space-y-3">
+        <p className="text-sm font-semibold text-gray-700">Nueva tasa</p>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+          <input type="date" {...register("date")} aria-label="Fecha" className={fieldClass} />
+          <select {...register("from")} aria-label="De" className={fieldClass}>
+            {CURRENCY_CODES.map((code) => <option key={code} value={code}>1 {code}</option>)}
+          </select>
+          <input type="number" step="any" {...register("rate", { valueAsNumber: true })} placeholder="Tasa" aria-label="Tasa" className={fieldClass} />
+          <select {...register("to")} aria-label="A" className={fieldClass}>
+            {CURRENCY_CODES.map((code) => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="flex items-center justify-center gap-2 bg-app-purple text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-400"
+          >
+            <Plus size={16} /> Agregar
+          </button>
+        </div>
+        {(errors.date || errors.rate || errors.to || errors.root) && (
+          <p className="text-red-500 text-xs font-medium">
+            {errors.date?.message ?? errors.rate?.message ?? errors.to?.message ?? errors.root?.message}
+          </p>
+        )}
+      </form>
+
+      {/* Importación */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-600 bg-white px-4 py-2.5 rounded-xl border border-gray-200 cursor-pointer">
+          <FileUp size={16} />
+          Importar CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <span className="text-xs text-gray-500">Columnas: Fecha, De, A, Tasa</span>
+      </div>
+      {message && <p className="text-sm font-medium text-gray-700">{message}</p>}
+      {importErrors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-0.5 max-h-24 overflow-y-auto">
+          {importErrors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {/* Tabla de tasas */}
+      {sortedRates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Aún no hay tasas. Las transacciones en otras monedas no se incluirán en los totales hasta que agregues una.
+        </p>
+      ) : (
+        <div className="max-h-72 overflow-auto rounded-xl border border-gray-100">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-gray-400 text-[11px] uppercase font-bold sticky top-0">
+              <tr>
+                <th className="px-3 py-2">Desde</th>
+                <th className="px-3 py-2">Par</th>
+                <th className="px-3 py-2">Tasa</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {sortedRates.map((rate) => (
+                <tr key={rate.id}>
+                  <td className="px-3 py-2 text-gray-500">{new Date(`${rate.date}T00:00:00`).toLocaleDateString("es-ES")}</td>
+                  <td className="px-3 py-2 font-semibold text-gray-900">1 {rate.from} → {rate.to}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      step="any"
+                      defaultValue={rate.rate}
+                      onBlur={(e) => handleRateBlur(rate, e.target.value)}
+                      aria-label={`Tasa ${rate.from}/${rate.to}`}
+                      className="w-32 border border-gray-200 rounded-lg px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => deleteRate(rate.id)}
+                      className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+                      aria-label="Eliminar tasa"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { accountSchema, AccountFormData } from "@/validations/validations";
+import { useAccountStore } from "@/services/useAccountStore";
+import { useAuth } from "@/context/AuthContext";
+import { CURRENCY_CODES, DEFAULT_CURRENCY } from "@/lib/currency";
+import { ACCOUNT_TYPE_LABELS } from "@/lib/accounts";
+import { Account, AccountType } from "@/types";
+
+/**
+ * Propiedades del componente AccountForm.
+ */
+interface AccountFormProps {
+  /** Función para cerrar el formulario o el modal que lo contiene. */
+  onClose: () => void;
+  /** Cuenta opcional; si se provee, el formulario se inicializa en modo edición. */
+  account?: Account;
+}
+
+/**
+ * Formulario de cuentas (banco, efectivo, tarjeta de crédito o ahorros).
+ */
+export default function AccountForm({ onClose, account }: AccountFormProps) {
+  const { addAccount, updateAccount, isLoading } = useAccountStore();
+  const { user } = useAuth();
+  const isEditMode = !!account;
+
+  const { register, handleSubmit, setError, formState: { errors }, } = useForm({
+    resolver: zodResolver(accountSchema),
+    defaultValues: account
+      ? { name: account.name, type: account.type, openingBalance: account.openingBalance, currency: account.currency }
+      : { type: "bank", openingBalance: 0, currency: user?.baseCurrency ?? DEFAULT_CURRENCY },
+  });
+
+  /**
+   * Guarda la cuenta y cierra el formulario.
+   * @param data - Datos validados del formulario.
+   */
+  const onSubmit = async (data: AccountFormData) => {
+    try {
+      if (isEditMode && account) {
+        await updateAccount({ ...data, id: account.id });
+      } else {
+        await addAccount(data);
+      }
+
+      onClose();
+    } catch (error) {
+      // Ej: ya existe una cuenta con ese nombre
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible guardar la cuenta",
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+      {/* SECCIÓN: Nombre */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Nombre
+        </label>
+        <input
+          {...register("name")}
+          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.name
+            ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+            : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+            }`}
+          placeholder="Ej: Cuenta de ahorros"
+        />
+        {errors.name && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.name.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Tipo y Moneda */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Tipo
+          </label>
+          <select
+            {...register("type")}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20 transition-all bg-white font-medium"
+          >
+            {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((type) => (
+              <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Moneda
+          </label>
+          <select
+            {...register("currency")}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20 transition-all bg-white font-medium"
+          >
+            {CURRENCY_CODES.map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* SECCIÓN: Saldo inicial */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Saldo inicial
+        </label>
+        <input
+          type="number"
+          step="0.01"
+          {...register("openingBalance", { valueAsNumber: true })}
+          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.openingBalance
+            ? "border-red-500 focus:ring-2 focus:ring-red-200"
+            : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+            }`}
+          placeholder="0.00"
+        />
+        {errors.openingBalance && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.openingBalance.message}</p>
+        )}
+      </div>
+
+      {errors.root && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+      )}
+
+      {/* SECCIÓN: Acciones (Cancelar y Guardar) */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Guardando..." : isEditMode ? "Actualizar" : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
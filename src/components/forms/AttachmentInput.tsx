@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { FileText, Image as ImageIcon, Paperclip, X } from "lucide-react";
+import { Attachment } from "@/types";
+import { useAttachmentStore } from "@/services/useAttachmentStore";
+import { attachmentFileSchema } from "@/validations/validations";
+import { ATTACHMENT_ACCEPT, formatFileSize, isImageAttachment, MAX_ATTACHMENTS } from "@/lib/attachments";
+
+interface AttachmentInputProps {
+  /** Comprobantes ya adjuntos. */
+  value: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  /** Error de validación del formulario (ej: demasiados archivos). */
+  error?: string;
+}
+
+/**
+ * Selector de comprobantes (imágenes o PDF).
+ * Cada archivo se valida (tipo y tamaño) y se sube al elegirlo; el formulario guarda sus metadatos.
+ */
+export default function AttachmentInput({ value, onChange, error }: AttachmentInputProps) {
+  const { uploadAttachment, uploadingCount } = useAttachmentStore();
+  /** Archivos rechazados en la última selección, con el motivo. */
+  const [rejected, setRejected] = useState<string[]>([]);
+
+  const handleFiles = async (files: File[]) => {
+    const messages: string[] = [];
+    const uploaded: Attachment[] = [];
+    const available = MAX_ATTACHMENTS - value.length;
+
+    for (const file of files) {
+      if (uploaded.length >= available) {
+        messages.push(`${file.name}: puedes adjuntar hasta ${MAX_ATTACHMENTS} archivos`);
+        continue;
+      }
+
+      const result = attachmentFileSchema.safeParse(file);
+      if (!result.success) {
+        messages.push(`${file.name}: ${result.error.issues[0].message}`);
+        continue;
+      }
+
+      try {
+        uploaded.push(await uploadAttachment(result.data));
+      } catch (uploadError) {
+        messages.push(`${file.name}: ${uploadError instanceof Error ? uploadError.message : "no se pudo subir"}`);
+      }
+    }
+
+    setRejected(messages);
+    if (uploaded.length > 0) onChange([...value, ...uploaded]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <ul className="space-y-1.5">
+          {value.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm">
+              {isImageAttachment(attachment) ? <ImageIcon size={16} className="text-gray-400" /> : <FileText size={16} className="text-gray-400" />}
+              <span className="truncate font-medium text-gray-700">{attachment.name}</span>
+              <span className="shrink-0 text-xs text-gray-400">{formatFileSize(attachment.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((item) => item.id !== attachment.id))}
+                className="ml-auto rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-500"
+                aria-label={`Quitar ${attachment.name}`}
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value.length < MAX_ATTACHMENTS && (
+        <label className="flex cursor-pointer items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-300 px-4 py-3 text-sm font-semibold text-gray-600 hover:border-app-purple hover:text-app-purple">
+          <Paperclip size={16} />
+          {uploadingCount > 0 ? "Subiendo..." : "Adjuntar imagen o PDF"}
+          <input
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            disabled={uploadingCount > 0}
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              // Permite volver a elegir el mismo archivo tras quitarlo
+              event.target.value = "";
+              void handleFiles(files);
+            }}
+            className="sr-only"
+          />
+        </label>
+      )}
+
+      {[...rejected, ...(error ? [error] : [])].map((message) => (
+        <p key={message} className="text-red-500 text-xs font-medium">{message}</p>
+      ))}
+    </div>
+  );
+}
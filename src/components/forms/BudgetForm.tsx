@@ -0,0 +1,141 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { budgetSchema, BudgetFormData } from "@/validations/validations";
+import { useBudgetStore } from "@/services/useBudgetStore";
+import { useAuth } from "@/context/AuthContext";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { Budget } from "@/types";
+
+/**
+ * Propiedades del componente BudgetForm.
+ */
+interface BudgetFormProps {
+  /** Función para cerrar el formulario o el modal que lo contiene. */
+  onClose: () => void;
+  /** Presupuesto opcional; si se provee, el formulario se inicializa en modo edición. */
+  budget?: Budget;
+  /** Categorías existentes, usadas como sugerencias del campo categoría. */
+  categories: string[];
+}
+
+/**
+ * Formulario de presupuestos mensuales por categoría.
+ */
+export default function BudgetForm({ onClose, budget, categories }: BudgetFormProps) {
+  const { addBudget, updateBudget, isLoading } = useBudgetStore();
+  const { user } = useAuth();
+  /** Los límites se expresan en la moneda base del usuario. */
+  const currency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+  const isEditMode = !!budget;
+
+  const { register, handleSubmit, setError, formState: { errors }, } = useForm({
+    resolver: zodResolver(budgetSchema),
+    defaultValues: budget
+      ? { category: budget.category, amount: budget.amount, rollover: budget.rollover }
+      : { rollover: false },
+  });
+
+  /**
+   * Guarda el presupuesto y cierra el formulario.
+   * @param data - Datos validados del formulario.
+   */
+  const onSubmit = async (data: BudgetFormData) => {
+    try {
+      if (isEditMode && budget) {
+        await updateBudget({ ...data, id: budget.id });
+      } else {
+        await addBudget(data);
+      }
+
+      onClose();
+    } catch (error) {
+      // Ej: ya existe un presupuesto para la categoría
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible guardar el presupuesto",
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+      {/* SECCIÓN: Categoría */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Categoría
+        </label>
+        <input
+          {...register("category")}
+          list="budget-categories"
+          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.category
+            ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+            : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+            }`}
+          placeholder="Ej: Alimentación"
+        />
+        <datalist id="budget-categories">
+          {categories.map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
+        {errors.category && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.category.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Límite mensual */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Límite mensual
+        </label>
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-semibold text-sm">
+            {currency}
+          </span>
+          <input
+            type="number"
+            step="0.01"
+            {...register("amount", { valueAsNumber: true })}
+            className={`w-full border rounded-lg pl-14 pr-4 py-2.5 outline-none transition-all ${errors.amount
+              ? "border-red-500 focus:ring-2 focus:ring-red-200"
+              : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+              }`}
+            placeholder="0.00"
+          />
+        </div>
+        {errors.amount && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.amount.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Traslado de saldo */}
+      <label className="flex items-center gap-3 text-sm font-medium text-gray-700">
+        <input type="checkbox" {...register("rollover")} className="h-4 w-4 accent-app-purple" />
+        Trasladar el saldo del mes anterior
+      </label>
+
+      {errors.root && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+      )}
+
+      {/* SECCIÓN: Acciones (Cancelar y Guardar) */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Guardando..." : isEditMode ? "Actualizar" : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
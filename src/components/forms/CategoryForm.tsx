@@ -0,0 +1,174 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { categorySchema, CategoryFormData } from "@/validations/validations";
+import { useCategoryStore } from "@/services/useCategoryStore";
+import { CATEGORY_ICON_COMPONENTS } from "@/components/categories/CategoryIcon";
+import { CATEGORY_COLORS, CATEGORY_ICONS, CATEGORY_TYPE_LABELS, DEFAULT_CATEGORY_ICON } from "@/lib/categories";
+import { Category, CategoryType } from "@/types";
+
+/**
+ * Propiedades del componente CategoryForm.
+ */
+interface CategoryFormProps {
+  /** Función para cerrar el formulario. */
+  onClose: () => void;
+  /** Categoría opcional; si se provee, el formulario se inicializa en modo edición. */
+  category?: Category;
+}
+
+/**
+ * Formulario de categorías: nombre, categoría padre, tipo, color e icono.
+ */
+export default function CategoryForm({ onClose, category }: CategoryFormProps) {
+  const { categories, addCategory, updateCategory, isLoading } = useCategoryStore();
+  const isEditMode = !!category;
+
+  /** Solo las categorías principales pueden ser padre; una con subcategorías no puede tener padre. */
+  const parentOptions = categories.filter((item) => !item.parentId && item.id !== category?.id);
+  const hasChildren = !!category && categories.some((item) => item.parentId === category.id);
+
+  const { register, handleSubmit, setError, formState: { errors }, } = useForm({
+    resolver: zodResolver(categorySchema),
+    defaultValues: category
+      ? { name: category.name, parentId: category.parentId ?? "", type: category.type, color: category.color, icon: category.icon as CategoryFormData["icon"] }
+      : { parentId: "", type: "expense", color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length], icon: DEFAULT_CATEGORY_ICON },
+  });
+
+  /**
+   * Guarda la categoría y cierra el formulario.
+   * @param data - Datos validados del formulario.
+   */
+  const onSubmit = async (data: CategoryFormData) => {
+    try {
+      if (isEditMode && category) {
+        await updateCategory({ ...data, id: category.id });
+      } else {
+        await addCategory(data);
+      }
+
+      onClose();
+    } catch (error) {
+      // Ej: ya existe una categoría con ese nombre
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible guardar la categoría",
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+      {/* SECCIÓN: Nombre */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Nombre
+        </label>
+        <input
+          {...register("name")}
+          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.name
+            ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+            : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+            }`}
+          placeholder="Ej: Restaurantes"
+        />
+        {errors.name && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.name.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Categoría padre y tipo */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Subcategoría de
+          </label>
+          <select
+            {...register("parentId")}
+            disabled={hasChildren}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20 transition-all bg-white font-medium disabled:bg-gray-50"
+          >
+            <option value="">— Ninguna —</option>
+            {parentOptions.map((item) => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Aplica a
+          </label>
+          <select
+            {...register("type")}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20 transition-all bg-white font-medium"
+          >
+            {(Object.keys(CATEGORY_TYPE_LABELS) as CategoryType[]).map((type) => (
+              <option key={type} value={type}>{CATEGORY_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* SECCIÓN: Color */}
+      <fieldset>
+        <legend className="block text-sm font-semibold text-gray-700 mb-2">Color</legend>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_COLORS.map((color) => (
+            <label key={color} className="cursor-pointer">
+              <input type="radio" value={color} {...register("color")} className="peer sr-only" />
+              <span
+                className="block h-8 w-8 rounded-full ring-offset-2 peer-checked:ring-2 peer-checked:ring-gray-900"
+                style={{ backgroundColor: color }}
+                aria-label={color}
+              />
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* SECCIÓN: Icono */}
+      <fieldset>
+        <legend className="block text-sm font-semibold text-gray-700 mb-2">Icono</legend>
+        <div className="grid grid-cols-8 gap-2">
+          {CATEGORY_ICONS.map((icon) => {
+            const Icon = CATEGORY_ICON_COMPONENTS[icon];
+            return (
+              <label key={icon} className="cursor-pointer" title={icon}>
+                <input type="radio" value={icon} {...register("icon")} className="peer sr-only" />
+                <span className="flex h-9 w-9 items-center justify-center rounded-lg border border-gray-200 text-gray-600 peer-checked:border-app-purple peer-checked:bg-app-purple/10 peer-checked:text-app-purple">
+                  <Icon size={18} />
+                </span>
+              </label>
+            );
+          })}
+        </div>
+        {errors.icon && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.icon.message}</p>
+        )}
+      </fieldset>
+
+      {errors.root && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+      )}
+
+      {/* SECCIÓN: Acciones (Cancelar y Guardar) */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Guardando..." : isEditMode ? "Actualizar" : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { categoryRuleSchema, CategoryRuleFormData } from "@/validations/validations";
+import { useCategoryRuleStore } from "@/services/useCategoryRuleStore";
+import CategoryPicker from "@/components/categories/CategoryPicker";
+import { CategoryRule } from "@/types";
+
+/**
+ * Propiedades del componente CategoryRuleForm.
+ */
+interface CategoryRuleFormProps {
+  /** Función para cerrar el formulario. */
+  onClose: () => void;
+  /** Regla opcional; si se provee, el formulario se inicializa en modo edición. */
+  rule?: CategoryRule;
+}
+
+/** Los montos vacíos quitan la condición. */
+const toOptionalNumber = (value: unknown) => (value === "" || value === undefined ? undefined : Number(value));
+
+/**
+ * Formulario de reglas de categorización: condiciones sobre el título, el monto y el tipo,
+ * y la categoría que se asigna a los movimientos que las cumplen.
+ */
+export default function CategoryRuleForm({ onClose, rule }: CategoryRuleFormProps) {
+  const { addCategoryRule, updateCategoryRule, isLoading } = useCategoryRuleStore();
+  const isEditMode = !!rule;
+
+  const { register, handleSubmit, control, setValue, setError, formState: { errors }, } = useForm({
+    resolver: zodResolver(categoryRuleSchema),
+    defaultValues: rule
+      ? {
+        titleContains: rule.titleContains,
+        minAmount: rule.minAmount,
+        maxAmount: rule.maxAmount,
+        type: rule.type ?? "",
+        category: rule.category,
+      }
+      : { type: "", category: "" },
+  });
+  const [type, category] = useWatch({ control, name: ["type", "category"] });
+
+  /**
+   * Guarda la regla y vuelve al listado.
+   * @param data - Datos validados del formulario.
+   */
+  const onSubmit = async (data: CategoryRuleFormData) => {
+    try {
+      if (isEditMode && rule) {
+        await updateCategoryRule({ ...data, id: rule.id });
+      } else {
+        await addCategoryRule(data);
+      }
+
+      onClose();
+    } catch (error) {
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible guardar la regla",
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+      {/* SECCIÓN: Título */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Si el título contiene
+        </label>
+        <input
+          {...register("titleContains")}
+          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.titleContains
+            ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+            : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+            }`}
+          placeholder="Ej: Uber"
+        />
+        {errors.titleContains && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.titleContains.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Tipo */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Tipo de movimiento
+        </label>
+        <select
+          {...register("type")}
+          className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple bg-white font-medium"
+        >
+          <option value="">Ingresos y gastos</option>
+          <option value="expense">Solo gastos</option>
+          <option value="income">Solo ingresos</option>
+        </select>
+      </div>
+
+      {/* SECCIÓN: Rango de montos (opcional) */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Monto desde
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            {...register("minAmount", { setValueAs: toOptionalNumber })}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+            placeholder="Sin mínimo"
+          />
+          {errors.minAmount && (
+            <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.minAmount.message}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Monto hasta
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            {...register("maxAmount", { setValueAs: toOptionalNumber })}
+            className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.maxAmount
+              ? "border-red-500 focus:ring-2 focus:ring-red-200"
+              : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+              }`}
+            placeholder="Sin máximo"
+          />
+          {errors.maxAmount && (
+            <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.maxAmount.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* SECCIÓN: Categoría asignada */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Asignar la categoría
+        </label>
+        <CategoryPicker
+          value={category ?? ""}
+          onChange={(name) => setValue("category", name, { shouldValidate: true })}
+          type={type || "expense"}
+          hasError={!!errors.category}
+        />
+        {errors.category && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.category.message}</p>
+        )}
+      </div>
+
+      {errors.root && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+      )}
+
+      {/* SECCIÓN: Acciones (Cancelar y Guardar) */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Guardando..." : isEditMode ? "Actualizar" : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
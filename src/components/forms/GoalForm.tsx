@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { goalSchema, GoalFormData } from "@/validations/validations";
+import { useGoalStore } from "@/services/useGoalStore";
+import { useAccountStore } from "@/services/useAccountStore";
+import { useAuth } from "@/context/AuthContext";
+import CategoryPicker from "@/components/categories/CategoryPicker";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { getTodayKey } from "@/lib/dates";
+import { Goal } from "@/types";
+
+/** Origen de los aportes de la meta. */
+type GoalLink = "category" | "account";
+
+/**
+ * Propiedades del componente GoalForm.
+ */
+interface GoalFormProps {
+  /** Función para cerrar el formulario o el modal que lo contiene. */
+  onClose: () => void;
+  /** Meta opcional; si se provee, el formulario se inicializa en modo edición. */
+  goal?: Goal;
+}
+
+/**
+ * Formulario de metas de ahorro.
+ */
+export default function GoalForm({ onClose, goal }: GoalFormProps) {
+  const { addGoal, updateGoal, isLoading } = useGoalStore();
+  const { accounts } = useAccountStore();
+  const { user } = useAuth();
+  /** Los objetivos se expresan en la moneda base del usuario. */
+  const currency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+  const isEditMode = !!goal;
+
+  const [link, setLink] = useState<GoalLink>(goal?.accountId ? "account" : "category");
+
+  const { register, handleSubmit, control, setValue, setError, formState: { errors }, } = useForm({
+    resolver: zodResolver(goalSchema),
+    defaultValues: goal
+      ? {
+        name: goal.name,
+        targetAmount: goal.targetAmount,
+        startDate: goal.startDate,
+        targetDate: goal.targetDate,
+        category: goal.category ?? "",
+        accountId: goal.accountId ?? "",
+      }
+      : { startDate: getTodayKey(), category: "", accountId: "" },
+  });
+  const category = useWatch({ control, name: "category" });
+
+  /** Al cambiar el vínculo se vacía el otro campo: la meta se alimenta de uno solo. */
+  const changeLink = (next: GoalLink) => {
+    setLink(next);
+    if (next === "category") setValue("accountId", "");
+    else setValue("category", "");
+  };
+
+  /**
+   * Guarda la meta y cierra el formulario.
+   * @param data - Datos validados del formulario.
+   */
+  const onSubmit = async (data: GoalFormData) => {
+    try {
+      if (isEditMode && goal) {
+        await updateGoal({ ...data, id: goal.id });
+      } else {
+        await addGoal(data);
+      }
+
+      onClose();
+    } catch (error) {
+      setError("root", {
+        message: error instanceof Error ? error.message : "No fue posible guardar la meta",
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+      {/* SECCIÓN: Nombre */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Nombre
+        </label>
+        <input
+          {...register("name")}
+          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.name
+            ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+            : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+            }`}
+          placeholder="Ej: Viaje a Cartagena"
+        />
+        {errors.name && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.name.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Objetivo */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Monto objetivo
+        </label>
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-semibold text-sm">
+            {currency}
+          </span>
+          <input
+            type="number"
+            step="0.01"
+            {...register("targetAmount", { valueAsNumber: true })}
+            className={`w-full border rounded-lg pl-14 pr-4 py-2.5 outline-none transition-all ${errors.targetAmount
+              ? "border-red-500 focus:ring-2 focus:ring-red-200"
+              : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+              }`}
+            placeholder="0.00"
+          />
+        </div>
+        {errors.targetAmount && (
+          <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.targetAmount.message}</p>
+        )}
+      </div>
+
+      {/* SECCIÓN: Fechas */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Aportes desde
+          </label>
+          <input
+            type="date"
+            {...register("startDate")}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+          />
+          {errors.startDate && (
+            <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.startDate.message}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Fecha objetivo
+          </label>
+          <input
+            type="date"
+            {...register("targetDate")}
+            className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.targetDate
+              ? "border-red-500 focus:ring-2 focus:ring-red-200"
+              : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+              }`}
+          />
+          {errors.targetDate && (
+            <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.targetDate.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* SECCIÓN: Origen de los aportes */}
+      <fieldset className="rounded-xl border border-gray-200 p-4 space-y-3">
+        <legend className="px-1 text-sm font-semibold text-gray-700">Los aportes vienen de</legend>
+        <div className="flex gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="radio" checked={link === "category"} onChange={() => changeLink("category")} className="accent-app-purple" />
+            Una categoría
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="radio" checked={link === "account"} onChange={() => changeLink("account")} className="accent-app-purple" />
+            Una cuenta
+          </label>
+        </div>
+
+        {link === "category" ? (
+          <CategoryPicker
+            value={category ?? ""}
+            onChange={(name) => setValue("category", name, { shouldValidate: true })}
+            type="expense"
+            hasError={!!errors.category}
+          />
+        ) : (
+          <select
+            {...register("accountId")}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple bg-white font-medium"
+          >
+            <option value="">Selecciona...</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+        )}
+        {errors.category && (
+          <p className="text-red-500 text-xs font-medium">{errors.category.message}</p>
+        )}
+      </fieldset>
+
+      {errors.root && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{errors.root.message}</p>
+      )}
+
+      {/* SECCIÓN: Acciones (Cancelar y Guardar) */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Guardando..." : isEditMode ? "Actualizar" : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
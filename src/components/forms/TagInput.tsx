@@ -0,0 +1,113 @@
+"use client";
+
+import { KeyboardEvent, useState } from "react";
+import { Hash, X } from "lucide-react";
+import { MAX_TAGS, normalizeTag } from "@/lib/tags";
+import { normalizeText } from "@/lib/text";
+
+interface TagInputProps {
+  /** Etiquetas elegidas. */
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Etiquetas existentes para autocompletar, de la más usada a la menos. */
+  suggestions: string[];
+  error?: string;
+}
+
+/** Sugerencias visibles a la vez. */
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Campo de etiquetas con chips.
+ * Enter o coma agrega la etiqueta escrita, Backspace con el campo vacío quita la última
+ * y las etiquetas ya usadas se sugieren mientras se escribe.
+ */
+export default function TagInput({ value, onChange, suggestions, error }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+
+  const search = normalizeText(normalizeTag(draft));
+  const options = suggestions
+    .filter((tag) => !value.includes(tag) && normalizeText(tag).includes(search))
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= MAX_TAGS;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag) && !isFull) onChange([...value, tag]);
+    setDraft("");
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      // Enter no debe enviar el formulario mientras se escribe una etiqueta
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === "Backspace" && draft === "" && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex flex-wrap items-center gap-1.5 border rounded-lg px-3 py-2 bg-white transition-all ${error
+          ? "border-red-500"
+          : "border-gray-300 focus-within:border-app-purple focus-within:ring-2 focus-within:ring-app-purple/20"
+          }`}
+      >
+        {value.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 rounded-full bg-app-purple/10 px-2.5 py-1 text-xs font-semibold text-app-purple">
+            <Hash size={10} />
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((item) => item !== tag))}
+              aria-label={`Quitar la etiqueta ${tag}`}
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          // Al salir del campo se conserva lo escrito como etiqueta
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) addTag(draft);
+          }}
+          disabled={isFull}
+          placeholder={isFull ? `Máximo ${MAX_TAGS} etiquetas` : value.length === 0 ? "Ej: viaje-cartagena, deducible" : ""}
+          aria-label="Etiquetas"
+          className="min-w-[120px] flex-1 py-0.5 text-sm outline-none bg-transparent"
+        />
+      </div>
+
+      {isFocused && options.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full rounded-lg border border-gray-100 bg-white p-1 shadow-lg">
+          {options.map((tag) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // mousedown se dispara antes del blur del input, que cerraría la lista
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  addTag(tag);
+                }}
+                className="flex w-full items-center gap-1 rounded-md px-3 py-1.5 text-left text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Hash size={12} className="text-gray-400" />
+                {tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-red-500 text-xs mt-1.5 font-medium">{error}</p>}
+    </div>
+  );
+}
@@ -1,11 +1,32 @@
 "use client";
 
-import { useForm } from "react-hook-form";
+import { useMemo, useState } from "react";
+import { Plus, Wand2, X } from "lucide-react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { transactionSchema, TransactionFormData } from "@/validations/validations";
+import { transactionFormSchema, TransactionFormValues } from "@/validations/validations";
 import { useTransactionStore } from "@/services/useTransactionStore";
+import { useRecurringStore } from "@/services/useRecurringStore";
+import { useAccountStore } from "@/services/useAccountStore";
+import { useCategoryRuleStore } from "@/services/useCategoryRuleStore";
+import CategoryPicker from "@/components/categories/CategoryPicker";
+import AttachmentInput from "@/components/forms/AttachmentInput";
+import TagInput from "@/components/forms/TagInput";
+import { useAttachmentStore } from "@/services/useAttachmentStore";
+import { useAuth } from "@/context/AuthContext";
+import { CURRENCY_CODES, DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
+import { normalizeTransferFields, TRANSFER_CATEGORY } from "@/lib/accounts";
+import { getSplitRemainder } from "@/lib/splits";
+import { getTagSuggestions } from "@/lib/tags";
+import { createCategorizer } from "@/lib/categoryRules";
 import { Transaction } from "@/types";
 
+/** Alcance de la edición de una transacción generada por una regla. */
+type EditScope = "this" | "future";
+
+/** Valores iniciales de la sección "Repetir". */
+const DEFAULT_RECURRENCE = { frequency: "monthly", interval: 1, monthEndPolicy: "clamp" } as const;
+
 /**
  * Propiedades del componente TransactionForm.
  */
@@ -14,62 +35,159 @@ interface TransactionFormProps {
   onClose: () => void;
   /** Objeto opcional; si se provee, el formulario se inicializa en modo edición. */
   transaction?: Transaction;
+  /** Valores iniciales al crear (ej: un aporte a una meta de ahorro). */
+  defaults?: Partial<Pick<Transaction, "title" | "amount" | "currency" | "type" | "category" | "accountId" | "toAccountId">>;
 }
 
 /**
- * Formulario de transacciones (Ingresos/Gastos).
+ * Formulario de transacciones (Ingresos, Gastos y Transferencias entre cuentas).
  * Maneja la creación y actualización de registros utilizando validación con Zod.
  */
-export default function TransactionForm({ onClose, transaction }: TransactionFormProps) {
+export default function TransactionForm({ onClose, transaction, defaults }: TransactionFormProps) {
   // Consumo de acciones y estado global del Store de transacciones
-  const { addTransaction, updateTransaction, isLoading } = useTransactionStore();
+  const { recent, addTransaction, updateTransaction, clearError } = useTransactionStore();
+  const { addRule, updateSeries } = useRecurringStore();
+  const { accounts } = useAccountStore();
+  const { categoryRules } = useCategoryRuleStore();
+  const isUploading = useAttachmentStore((state) => state.uploadingCount > 0);
+  const { user } = useAuth();
 
   /** * Determina si el componente está operando en modo edición.
    * La doble negación (!!) convierte el objeto en undefined o un booleano puro.
    */
   const isEditMode = !!transaction;
 
+  /** En ocurrencias recurrentes, el usuario elige si edita solo esta o también las futuras. */
+  const [editScope, setEditScope] = useState<EditScope>("this");
+
+  /** Error de la API al guardar; el formulario queda abierto para reintentar. */
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
   /**
    * Inicialización de React Hook Form.
    * - register: Vincula los inputs con el estado del formulario.
    * - handleSubmit: Función que envuelve el onSubmit para ejecutar validaciones primero.
    * - errors: Contiene los mensajes de error generados por el esquema de Zod.
+   * - isSubmitting: Indica que el guardado está en curso.
    */
-  const { register, handleSubmit, formState: { errors }, } = useForm({
-    // Aplica reglas de validación definidas en transactionSchema
-    resolver: zodResolver(transactionSchema),
+  const { register, handleSubmit, control, setValue, formState: { errors, isSubmitting }, } = useForm({
+    // Aplica reglas de validación definidas en transactionFormSchema
+    resolver: zodResolver(transactionFormSchema),
     // Si es edición, cargamos los datos existentes; si no, valores base.
     defaultValues: transaction
       ? {
         title: transaction.title,
         amount: transaction.amount,
+        currency: transaction.currency,
         type: transaction.type,
         category: transaction.category,
         date: transaction.date,
+        accountId: transaction.accountId,
+        toAccountId: transaction.toAccountId,
+        toAmount: transaction.toAmount,
+        splits: transaction.splits ?? [],
+        tags: transaction.tags ?? [],
+        notes: transaction.notes ?? "",
+        attachments: transaction.attachments ?? [],
+        repeat: false,
+        recurrence: DEFAULT_RECURRENCE,
       }
       : {
         type: "expense",
+        // La moneda sigue a la cuenta; sin cuentas cargadas se usa la moneda base
+        currency: accounts[0]?.currency ?? user?.baseCurrency ?? DEFAULT_CURRENCY,
+        accountId: accounts[0]?.id ?? "",
         date: new Date().toISOString().split("T")[0], // Fecha actual en formato YYYY-MM-DD
+        splits: [],
+        tags: [],
+        notes: "",
+        attachments: [],
+        repeat: false,
+        recurrence: DEFAULT_RECURRENCE,
+        ...defaults,
       },
   });
 
+  // Valores observados para mostrar u ocultar la sección "Repetir"
+  const [repeat, frequency, date] = useWatch({ control, name: ["repeat", "recurrence.frequency", "date"] });
+  const showMonthEndPolicy = (frequency === "monthly" || frequency === "yearly") && Number(date?.slice(8, 10)) > 28;
+
+  // Las transferencias piden la cuenta de destino y, si cambia la moneda, el monto recibido
+  const [type, accountId, toAccountId, currency, category, attachments, tags] = useWatch({
+    control,
+    name: ["type", "accountId", "toAccountId", "currency", "category", "attachments", "tags"],
+  });
+  const isTransfer = type === "transfer";
+  const toAccount = accounts.find((account) => account.id === toAccountId);
+  const needsToAmount = isTransfer && !!toAccount && toAccount.currency !== currency;
+
+  // Líneas de la división entre categorías; lo que falta por repartir se muestra en vivo
+  const { fields: splitLines, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({ control, name: "splits" });
+  const [amount, splits] = useWatch({ control, name: ["amount", "splits"] });
+  const isSplitting = splitLines.length > 0;
+  const splitRemainder = getSplitRemainder(Number(amount) || 0, (splits ?? []).map((line) => ({ amount: Number(line.amount) || 0 })));
+
+  /** Etiquetas usadas en las transacciones recientes, para el autocompletado. */
+  const tagSuggestions = getTagSuggestions(recent);
+
+  /**
+   * Categoría sugerida mientras se escribe el título al crear: la de la primera regla que cumple
+   * o la aprendida de los títulos recientes. Se ofrece solo si es distinta de la elegida.
+   */
+  const categorize = useMemo(() => createCategorizer(categoryRules, recent), [categoryRules, recent]);
+  const title = useWatch({ control, name: "title" });
+  const suggestion = !isEditMode && !isTransfer && !isSplitting && title
+    ? categorize({ title, amount: Number(amount) || undefined, type })
+    : null;
+  const categorySuggestion = suggestion && suggestion.category !== category ? suggestion : null;
+
+  /** Activa la división con dos líneas: la categoría actual por el total y una vacía. */
+  const toggleSplit = (enabled: boolean) => {
+    replaceSplits(enabled ? [{ category: category ?? "", amount: Number(amount) || 0 }, { category: "", amount: 0 }] : []);
+  };
+
   /**
    * Procesa el envío del formulario tras una validación exitosa.
    * @param data - Objeto con los datos validados del formulario.
    */
-  const onSubmit = async (data: TransactionFormData) => {
+  const onSubmit = async (data: TransactionFormValues) => {
+    const { repeat, recurrence, ...fields } = data;
+    const values = normalizeTransferFields({
+      ...fields,
+      toAmount: needsToAmount ? fields.toAmount : undefined,
+      // Una serie recurrente no se divide
+      splits: repeat ? undefined : fields.splits,
+    });
+    setSubmitError(null);
+
     try {
       if (isEditMode && transaction) {
-        // Actualización: Combinamos los nuevos datos con el ID original.
-        await updateTransaction({ ...data, id: transaction.id });
+        // Actualización: Combinamos los nuevos datos con el registro original (ID y vínculo a la regla).
+        await updateTransaction({ ...transaction, ...values });
+
+        // "Esta y las futuras": la regla y las ocurrencias siguientes heredan los cambios (salvo la fecha).
+        if (editScope === "future" && transaction.recurringRuleId) {
+          const { title, amount, currency, type, category, accountId, toAccountId, toAmount } = values;
+          await updateSeries(
+            transaction.recurringRuleId,
+            { title, amount, currency, type, category, accountId, toAccountId, toAmount },
+            transaction.occurrenceDate ?? transaction.date
+          );
+        }
+      } else if (repeat) {
+        // Creación recurrente: la fecha elegida es el inicio de la serie.
+        const { date: startDate, ...fields } = values;
+        await addRule({ ...fields, ...recurrence, startDate });
       } else {
         // Creación: Enviamos el objeto de datos limpio.
-        await addTransaction(data);
+        await addTransaction(values);
       }
 
       onClose(); // Cierra el formulario tras completar la operación
     } catch (error) {
-      console.error("Error al guardar la transacción:", error);
+      // El cambio optimista ya se revirtió; el error se muestra aquí en lugar del aviso del dashboard
+      setSubmitError(error instanceof Error ? error.message : "No fue posible guardar la transacción");
+      clearError();
     }
   };
 
@@ -91,6 +209,19 @@ export default function TransactionForm({ onClose, transaction }: TransactionFor
         {errors.title && (
           <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.title.message}</p>
         )}
+        {categorySuggestion && (
+          <p className="flex items-center gap-1.5 text-xs font-medium text-gray-500 mt-1.5">
+            <Wand2 size={12} className="text-app-purple" />
+            {categorySuggestion.source === "rule" ? "Según tus reglas" : "Según tu historial"}:
+            <button
+              type="button"
+              onClick={() => setValue("category", categorySuggestion.category, { shouldValidate: true })}
+              className="font-bold text-app-purple hover:underline"
+            >
+              usar «{categorySuggestion.category}»
+            </button>
+          </p>
+        )}
       </div>
 
       {/* SECCIÓN: Monto (Numérico) y Tipo (Select) */}
@@ -99,21 +230,27 @@ export default function TransactionForm({ onClose, transaction }: TransactionFor
           <label className="block text-sm font-semibold text-gray-700 mb-2">
             Monto
           </label>
-          <div className="relative">
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-semibold">
-              $
-            </span>
+          <div className="flex gap-2">
             <input
               type="number"
               step="0.01"
               // valueAsNumber asegura que el dato llegue al onSubmit como número y no como string
               {...register("amount", { valueAsNumber: true })}
-              className={`w-full border rounded-lg pl-8 pr-4 py-2.5 outline-none transition-all ${errors.amount
+              className={`min-w-0 flex-1 border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.amount
                 ? "border-red-500 focus:ring-2 focus:ring-red-200"
                 : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
                 }`}
               placeholder="0.00"
             />
+            <select
+              {...register("currency")}
+              aria-label="Moneda"
+              className="border border-gray-300 rounded-lg px-2 py-2.5 outline-none focus:border-app-purple bg-white font-semibold text-sm"
+            >
+              {CURRENCY_CODES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
           </div>
           {errors.amount && (
             <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.amount.message}</p>
@@ -125,32 +262,192 @@ export default function TransactionForm({ onClose, transaction }: TransactionFor
             Tipo
           </label>
           <select
-            {...register("type")}
+            {...register("type", {
+              // Las transferencias no son ingreso ni gasto: se guardan con una categoría fija
+              onChange: (event) => {
+                if (event.target.value === "transfer") {
+                  setValue("category", TRANSFER_CATEGORY);
+                  replaceSplits([]);
+                } else if (category === TRANSFER_CATEGORY) setValue("category", "");
+              },
+            })}
             className="w-full border border-gray-300 rounded-lg px-4 py-2.5 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20 transition-all bg-white font-medium"
           >
             <option value="income">💰 Ingreso</option>
             <option value="expense">💸 Gasto</option>
+            <option value="transfer">🔁 Transferencia</option>
           </select>
         </div>
       </div>
 
+      {/* SECCIÓN: Cuenta (origen) y destino de las transferencias */}
+      <div className={isTransfer ? "grid grid-cols-2 gap-4" : ""}>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            {isTransfer ? "Desde" : "Cuenta"}
+          </label>
+          <select
+            {...register("accountId", {
+              // Al cambiar de cuenta, el monto se expresa en su moneda
+              onChange: (event) => {
+                const account = accounts.find((item) => item.id === event.target.value);
+                if (account) setValue("currency", account.currency);
+              },
+            })}
+            className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all bg-white font-medium ${errors.accountId
+              ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+              : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+              }`}
+          >
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+          {errors.accountId && (
+            <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.accountId.message}</p>
+          )}
+        </div>
+
+        {isTransfer && (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Hacia
+            </label>
+            <select
+              {...register("toAccountId")}
+              className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all bg-white font-medium ${errors.toAccountId
+                ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+                : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
+                }`}
+            >
+              <option value="">Selecciona...</option>
+              {accounts.filter((account) => account.id !== accountId).map((account) => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+            {errors.toAccountId && (
+              <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.toAccountId.message}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* SECCIÓN: Monto recibido (transferencias entre monedas distintas) */}
+      {needsToAmount && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Monto recibido ({toAccount.currency})
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            {...register("toAmount", { setValueAs: (value) => (value === "" || value === undefined ? undefined : Number(value)) })}
+            className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.toAmount
+              ? "border-red-500 focus:ring-2 focus:ring-red-200"
+              : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+              }`}
+            placeholder="0.00"
+          />
+          {errors.toAmount && (
+            <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.toAmount.message}</p>
+          )}
+        </div>
+      )}
+
       {/* SECCIÓN: Categoría */}
-      <div>
+      {!isTransfer && <div>
         <label className="block text-sm font-semibold text-gray-700 mb-2">
-          Categoría
+          {isSplitting ? "Categoría principal" : "Categoría"}
         </label>
-        <input
-          {...register("category")}
-          className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all ${errors.category
-            ? 'border-red-500 focus:ring-2 focus:ring-red-200'
-            : 'border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20'
-            }`}
-          placeholder="Ej: Alimentación, Salario, Transporte"
+        <CategoryPicker
+          value={category ?? ""}
+          onChange={(name) => setValue("category", name, { shouldValidate: true })}
+          type={type}
+          hasError={!!errors.category}
         />
         {errors.category && (
           <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.category.message}</p>
         )}
-      </div>
+      </div>}
+
+      {/* SECCIÓN: División entre categorías (no aplica a transferencias ni a series recurrentes) */}
+      {!isTransfer && !repeat && (
+        <div className="rounded-xl border border-gray-200 p-4 space-y-3">
+          <label className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+            <input
+              type="checkbox"
+              checked={isSplitting}
+              onChange={(event) => toggleSplit(event.target.checked)}
+              className="h-4 w-4 accent-app-purple"
+            />
+            Dividir entre categorías
+          </label>
+
+          {isSplitting && (
+            <>
+              {splitLines.map((line, index) => (
+                <div key={line.id} className="space-y-2 rounded-lg bg-gray-50 p-3">
+                  <div className="flex items-start gap-2">
+                    <div className="min-w-0 flex-1">
+                      <CategoryPicker
+                        value={splits?.[index]?.category ?? ""}
+                        onChange={(name) => setValue(`splits.${index}.category`, name, { shouldValidate: true })}
+                        type={type}
+                        hasError={!!errors.splits?.[index]?.category}
+                      />
+                    </div>
+                    <input
+                      type="number"
+                      step="0.01"
+                      {...register(`splits.${index}.amount`, { valueAsNumber: true })}
+                      aria-label={`Monto de la línea ${index + 1}`}
+                      className={`w-28 border rounded-lg px-3 py-2.5 outline-none ${errors.splits?.[index]?.amount
+                        ? "border-red-500 focus:ring-2 focus:ring-red-200"
+                        : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+                        }`}
+                      placeholder="0.00"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeSplit(index)}
+                      className="p-2.5 text-gray-400 hover:text-red-500"
+                      aria-label={`Quitar la línea ${index + 1}`}
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                  <input
+                    {...register(`splits.${index}.note`)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+                    placeholder="Nota (opcional)"
+                  />
+                  {(errors.splits?.[index]?.category || errors.splits?.[index]?.amount || errors.splits?.[index]?.note) && (
+                    <p className="text-red-500 text-xs font-medium">
+                      {errors.splits[index].category?.message ?? errors.splits[index].amount?.message ?? errors.splits[index].note?.message}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => appendSplit({ category: "", amount: 0 })}
+                  className="flex items-center gap-1 font-semibold text-app-purple"
+                >
+                  <Plus size={16} /> Agregar línea
+                </button>
+                <span className={`font-medium ${splitRemainder === 0 ? "text-app-green" : "text-amber-600"}`}>
+                  {splitRemainder >= 0 ? "Por repartir" : "Excedente"}: {formatCurrency(Math.abs(splitRemainder), currency ?? DEFAULT_CURRENCY)}
+                </span>
+              </div>
+              {errors.splits?.message && (
+                <p className="text-red-500 text-xs font-medium">{errors.splits.message}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
 
       {/* SECCIÓN: Fecha */}
       <div>
@@ -170,6 +467,153 @@ export default function TransactionForm({ onClose, transaction }: TransactionFor
         )}
       </div>
 
+      {/* SECCIÓN: Etiquetas y notas (como los comprobantes, son de cada transacción y no de una serie) */}
+      {!repeat && (
+        <>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Etiquetas
+            </label>
+            <TagInput
+              value={tags ?? []}
+              onChange={(next) => setValue("tags", next, { shouldValidate: true })}
+              suggestions={tagSuggestions}
+              error={errors.tags?.message}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Notas
+            </label>
+            <textarea
+              {...register("notes")}
+              rows={3}
+              className={`w-full border rounded-lg px-4 py-2.5 outline-none transition-all resize-y ${errors.notes
+                ? "border-red-500 focus:ring-2 focus:ring-red-200"
+                : "border-gray-300 focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+                }`}
+              placeholder="Detalles adicionales (opcional)"
+            />
+            {errors.notes && (
+              <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.notes.message}</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* SECCIÓN: Comprobantes (no aplican a una serie recurrente: cada ocurrencia tiene los suyos) */}
+      {!repeat && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Comprobantes
+          </label>
+          <AttachmentInput
+            value={attachments ?? []}
+            onChange={(next) => setValue("attachments", next, { shouldValidate: true })}
+            error={errors.attachments?.message}
+          />
+        </div>
+      )}
+
+      {/* SECCIÓN: Repetir (solo al crear) */}
+      {!isEditMode && (
+        <div className="rounded-xl border border-gray-200 p-4 space-y-4">
+          <label className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+            <input type="checkbox" {...register("repeat")} className="h-4 w-4 accent-app-purple" />
+            Repetir esta transacción
+          </label>
+
+          {repeat && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1.5">Cada</label>
+                  <input
+                    type="number"
+                    min={1}
+                    {...register("recurrence.interval", { valueAsNumber: true })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1.5">Frecuencia</label>
+                  <select
+                    {...register("recurrence.frequency")}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 outline-none focus:border-app-purple bg-white font-medium"
+                  >
+                    <option value="daily">Día(s)</option>
+                    <option value="weekly">Semana(s)</option>
+                    <option value="monthly">Mes(es)</option>
+                    <option value="yearly">Año(s)</option>
+                  </select>
+                </div>
+              </div>
+              {errors.recurrence?.interval && (
+                <p className="text-red-500 text-xs font-medium">{errors.recurrence.interval.message}</p>
+              )}
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1.5">Hasta (opcional)</label>
+                <input
+                  type="date"
+                  {...register("recurrence.endDate")}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 outline-none focus:border-app-purple focus:ring-2 focus:ring-app-purple/20"
+                />
+                {errors.recurrence?.endDate && (
+                  <p className="text-red-500 text-xs mt-1.5 font-medium">{errors.recurrence.endDate.message}</p>
+                )}
+              </div>
+
+              {/* Días 29-31: qué hacer en meses que no tienen ese día */}
+              {showMonthEndPolicy && (
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1.5">En meses sin ese día</label>
+                  <select
+                    {...register("recurrence.monthEndPolicy")}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 outline-none focus:border-app-purple bg-white font-medium"
+                  >
+                    <option value="clamp">Usar el último día del mes</option>
+                    <option value="skip">Omitir ese mes</option>
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* SECCIÓN: Alcance de la edición en transacciones recurrentes */}
+      {isEditMode && transaction?.recurringRuleId && (
+        <fieldset className="rounded-xl border border-gray-200 p-4 space-y-2">
+          <legend className="px-1 text-sm font-semibold text-gray-700">Transacción recurrente</legend>
+          <label className="flex items-center gap-3 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={editScope === "this"}
+              onChange={() => setEditScope("this")}
+              className="accent-app-purple"
+            />
+            Solo esta
+          </label>
+          <label className="flex items-center gap-3 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={editScope === "future"}
+              onChange={() => setEditScope("future")}
+              className="accent-app-purple"
+            />
+            Esta y todas las futuras
+          </label>
+        </fieldset>
+      )}
+
+      {submitError && (
+        <p role="alert" className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">
+          {submitError}
+        </p>
+      )}
+
       {/* SECCIÓN: Acciones (Cancelar y Guardar) */}
       <div className="flex gap-3 pt-2">
         <button
@@ -181,10 +625,10 @@ export default function TransactionForm({ onClose, transaction }: TransactionFor
         </button>
         <button
           type="submit"
-          disabled={isLoading} // Previene múltiples clics durante el guardado
+          disabled={isSubmitting || isUploading} // Previene múltiples clics y guardar antes de terminar las subidas
           className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-          {isLoading ? (
+          {isSubmitting ? (
             <span className="flex items-center justify-center gap-2">
               <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
               Guardando...
@@ -0,0 +1,341 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, Copy, FileUp } from "lucide-react";
+import { fetchFilteredTransactions, useTransactionStore } from "@/services/useTransactionStore";
+import { useAccountStore } from "@/services/useAccountStore";
+import { useCategoryStore } from "@/services/useCategoryStore";
+import { useCategoryRuleStore } from "@/services/useCategoryRuleStore";
+import { createCategorizer } from "@/lib/categoryRules";
+import { useAuth } from "@/context/AuthContext";
+import { parseCsv } from "@/lib/csv";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
+import { DEFAULT_FILTERS } from "@/lib/transactionFilters";
+import {
+  buildImportRows,
+  buildImportRowsFromJson,
+  ColumnMapping,
+  getImportDateRange,
+  guessColumnMapping,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FIELDS,
+  ImportDefaults,
+  ImportField,
+  ImportRow,
+  markDuplicates,
+} from "@/lib/transactionImport";
+import { Transaction } from "@/types";
+
+interface TransactionImportFormProps {
+  /** Función para cerrar el modal que contiene el formulario. */
+  onClose: () => void;
+}
+
+/**
+ * Importación de extractos bancarios en CSV o de archivos JSON exportados por la app.
+ * El archivo se procesa en el navegador: asignación de columnas (solo CSV), validación
+ * por fila con transactionSchema y marcado de duplicados antes de guardar en lote.
+ * Los duplicados se buscan en todo el historial del rango de fechas del archivo, no solo en lo cargado.
+ */
+export default function TransactionImportForm({ onClose }: TransactionImportFormProps) {
+  const { recent, addTransactions, clearError } = useTransactionStore();
+  const { user } = useAuth();
+  /** Moneda de las filas que no la indican: la moneda base del usuario. */
+  const defaultCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+  const { accounts } = useAccountStore();
+  const { getCategories } = useCategoryStore();
+  const { categoryRules } = useCategoryRuleStore();
+  /** Cuenta en la que se registran las filas importadas. */
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? "");
+
+  const [isImporting, setIsImporting] = useState(false);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [cells, setCells] = useState<string[][]>([]);
+  /** Contenido del archivo cuando es una exportación JSON (no requiere asignar columnas). */
+  const [jsonText, setJsonText] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  /** Selección manual por fila; por defecto se incluyen las válidas que no son duplicadas. */
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+  /** Transacciones guardadas en el rango de fechas del archivo (`key` identifica el rango consultado). */
+  const [existing, setExisting] = useState<{ key: string; items: Transaction[] } | null>(null);
+
+  const headers = hasHeader ? cells[0] ?? [] : (cells[0] ?? []).map((_, i) => `Columna ${i + 1}`);
+  const dataRows = hasHeader ? cells.slice(1) : cells;
+
+  const parsedRows = useMemo(() => {
+    // Las filas sin categoría toman la de las reglas del usuario o, si ninguna aplica, la de las transacciones recientes
+    const categorize = createCategorizer(categoryRules, recent);
+    const defaults: ImportDefaults = {
+      currency: defaultCurrency,
+      accountId,
+      accountIds: accounts.map((account) => account.id),
+      categorize: (input) => categorize(input)?.category,
+    };
+    if (jsonText === null) return buildImportRows(dataRows, mapping, [], defaults, hasHeader ? 2 : 1);
+    try {
+      return buildImportRowsFromJson(jsonText, [], defaults);
+    } catch {
+      return [];
+    }
+  }, [dataRows, mapping, recent, categoryRules, hasHeader, jsonText, defaultCurrency, accountId, accounts]);
+
+  const range = getImportDateRange(parsedRows);
+  /** Rango de fechas del archivo; cambia con el archivo o la asignación de columnas. */
+  const rangeKey = range ? `${range.from}|${range.to}` : "";
+  /** Mientras se consulta el historial no se sabe qué filas son duplicadas. */
+  const isCheckingDuplicates = range !== null && existing?.key !== rangeKey;
+
+  useEffect(() => {
+    if (!rangeKey) return;
+    const [from, to] = rangeKey.split("|");
+    let isCurrent = true;
+
+    fetchFilteredTransactions({ ...DEFAULT_FILTERS, from, to })
+      .then((items) => {
+        if (isCurrent) setExisting({ key: rangeKey, items });
+      })
+      .catch(() => {
+        if (!isCurrent) return;
+        // Sin conexión, al menos se comparan con las transacciones recientes
+        setExisting({ key: rangeKey, items: useTransactionStore.getState().recent });
+        setError("No fue posible revisar el historial: los duplicados solo se buscan entre las transacciones recientes");
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [rangeKey]);
+
+  const rows = useMemo(
+    () => (existing?.key === rangeKey ? markDuplicates(parsedRows, existing.items) : parsedRows),
+    [parsedRows, existing, rangeKey]
+  );
+
+  const isSelected = (row: ImportRow) => !!row.data && (overrides[row.line] ?? !row.isDuplicate);
+  const selectedRows = rows.filter(isSelected);
+  const invalidCount = rows.filter((row) => !row.data).length;
+  const duplicateCount = rows.filter((row) => row.isDuplicate).length;
+
+  /**
+   * Lee el archivo seleccionado y propone la asignación de columnas.
+   */
+  const handleFile = async (file: File) => {
+    setError(null);
+    setOverrides({});
+    const text = await file.text();
+
+    if (file.name.toLowerCase().endsWith(".json")) {
+      try {
+        buildImportRowsFromJson(text, [], { currency: defaultCurrency, accountId });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Archivo JSON inválido");
+        return;
+      }
+      setFileName(file.name);
+      setCells([]);
+      setJsonText(text);
+      return;
+    }
+
+    const parsed = parseCsv(text);
+
+    if (parsed.length === 0) {
+      setError("El archivo está vacío");
+      return;
+    }
+
+    setFileName(file.name);
+    setJsonText(null);
+    setCells(parsed);
+    setMapping(hasHeader ? guessColumnMapping(parsed[0]) : {});
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === "" ? undefined : Number(value) }));
+    setOverrides({});
+  };
+
+  /**
+   * Guarda en un solo lote las filas seleccionadas.
+   */
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await addTransactions(selectedRows.map((row) => row.data!));
+      // El servidor crea las categorías nuevas del archivo
+      await getCategories();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No fue posible importar las transacciones");
+      clearError();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* PASO 1: Selección del archivo */}
+      <label className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-gray-300 p-6 text-sm text-gray-500 cursor-pointer hover:border-app-purple hover:bg-app-purple/5 transition-colors">
+        <FileUp className="text-app-purple" />
+        {fileName ? <span className="font-semibold text-gray-800">{fileName}</span> : "Selecciona un archivo .csv o .json"}
+        <input
+          type="file"
+          accept=".csv,text/csv,.json,application/json"
+          className="hidden"
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+        />
+      </label>
+
+      {/* Cuenta de destino de las filas (en JSON, de las que traen una cuenta desconocida) */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">Cuenta</label>
+        <select
+          value={accountId}
+          onChange={(e) => {
+            setAccountId(e.target.value);
+            setOverrides({});
+          }}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm outline-none focus:border-app-purple bg-white"
+        >
+          {accounts.map((account) => (
+            <option key={account.id} value={account.id}>{account.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* PASO 2: Asignación de columnas (solo CSV) */}
+      {cells.length > 0 && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-3 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => {
+                setHasHeader(e.target.checked);
+                setMapping(e.target.checked ? guessColumnMapping(cells[0]) : {});
+                setOverrides({});
+              }}
+              className="h-4 w-4 accent-app-purple"
+            />
+            La primera fila contiene los encabezados
+          </label>
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field}>
+                <label className="block text-xs font-semibold text-gray-600 mb-1.5">{IMPORT_FIELD_LABELS[field]}</label>
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm outline-none focus:border-app-purple bg-white"
+                >
+                  <option value="">— Sin asignar —</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{header}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Sin columna de tipo, los montos negativos se importan como gastos y los positivos como ingresos.
+            Sin columna de moneda, se usa tu moneda base ({defaultCurrency}).
+          </p>
+        </div>
+      )}
+
+      {(cells.length > 0 || jsonText !== null) && (
+        <>
+          {/* PASO 3: Vista previa y validación por fila */}
+          <div className="flex flex-wrap gap-4 text-sm font-medium">
+            <span className="text-app-green">{selectedRows.length} seleccionadas</span>
+            {invalidCount > 0 && <span className="text-red-500">{invalidCount} con errores</span>}
+            {duplicateCount > 0 && <span className="text-amber-600">{duplicateCount} posibles duplicados</span>}
+          </div>
+
+          <div className="max-h-80 overflow-auto rounded-xl border border-gray-100">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-400 text-[11px] uppercase font-bold sticky top-0">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2">Fila</th>
+                  <th className="px-3 py-2">Descripción</th>
+                  <th className="px-3 py-2">Fecha</th>
+                  <th className="px-3 py-2 text-right">Monto</th>
+                  <th className="px-3 py-2">Estado</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {rows.map((row) => (
+                  <tr key={row.line} className={!row.data ? "bg-red-50/50" : row.isDuplicate ? "bg-amber-50/50" : ""}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        disabled={!row.data}
+                        checked={isSelected(row)}
+                        onChange={(e) => setOverrides((prev) => ({ ...prev, [row.line]: e.target.checked }))}
+                        className="h-4 w-4 accent-app-purple"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                    <td className="px-3 py-2">
+                      <div className="font-semibold text-gray-900">{row.data?.title ?? "—"}</div>
+                      <div className="text-xs text-gray-400">{row.data?.category}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-500">{row.data?.date ?? "—"}</td>
+                    <td className={`px-3 py-2 text-right font-bold ${row.data?.type === "income" ? "text-app-green" : "text-red-500"}`}>
+                      {row.data ? `${row.data.type === "income" ? "+" : "-"} ${formatCurrency(row.data.amount, row.data.currency)}` : "—"}
+                    </td>
+                    <td className="px-3 py-2 text-xs font-medium">
+                      {!row.data ? (
+                        <span className="flex items-start gap-1 text-red-500">
+                          <AlertTriangle size={14} className="shrink-0" />
+                          {row.errors.join(" · ")}
+                        </span>
+                      ) : row.isDuplicate ? (
+                        <span className="flex items-center gap-1 text-amber-600"><Copy size={14} /> Posible duplicado</span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-app-green"><CheckCircle2 size={14} /> Válida</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="rounded-lg bg-red-50 px-4 py-3 text-sm font-medium text-red-600">{error}</p>
+      )}
+
+      {/* PASO 4: Confirmación */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={isImporting || isCheckingDuplicates || selectedRows.length === 0}
+          className="flex-1 bg-app-purple text-white py-2.5 rounded-lg font-semibold hover:brightness-110 transition-all disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isImporting
+            ? "Importando..."
+            : isCheckingDuplicates
+              ? "Buscando duplicados..."
+              : `Importar ${selectedRows.length} transacciones`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle2, Edit2, Plus, PlusCircle, Target, Trash2 } from "lucide-react";
+import Modal from "@/components/ui/Modal";
+import GoalForm from "@/components/forms/GoalForm";
+import { useGoalStore } from "@/services/useGoalStore";
+import { GoalProgress, GoalStatus } from "@/lib/goals";
+import { Account, CurrencyCode, Goal } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+/** Colores y texto de cada estado de la meta. */
+const STATUS_STYLES: Record<GoalStatus, { bar: string; badge: string; label: string }> = {
+  completed: { bar: "bg-app-green", badge: "bg-app-green/15 text-app-green", label: "Completada" },
+  "on-track": { bar: "bg-app-purple", badge: "bg-app-purple/10 text-app-purple", label: "Al día" },
+  behind: { bar: "bg-amber-400", badge: "bg-amber-100 text-amber-700", label: "Atrasada" },
+};
+
+interface GoalsPanelProps {
+  /** Avance de cada meta a la fecha de hoy. */
+  progress: GoalProgress[];
+  /** Cuentas del usuario, para mostrar el nombre de la cuenta vinculada. */
+  accounts: Account[];
+  /** Moneda base en la que se definen los objetivos. */
+  currency: CurrencyCode;
+  /** Abre el formulario de transacciones con un aporte a la meta. */
+  onContribute: (progress: GoalProgress) => void;
+}
+
+/** Mes y año de una fecha `YYYY-MM-DD` (ej: "dic 2025"). */
+const formatMonth = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString("es-ES", { month: "short", year: "numeric" });
+
+/**
+ * Sección de metas de ahorro del dashboard.
+ * Muestra lo reunido, el aporte mensual necesario para llegar a tiempo y si la meta va al día.
+ */
+export default function GoalsPanel({ progress, accounts, currency, onContribute }: GoalsPanelProps) {
+  const { deleteGoal } = useGoalStore();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | undefined>(undefined);
+  const [goalToDelete, setGoalToDelete] = useState<Goal | null>(null);
+
+  const handleCreate = () => {
+    setEditingGoal(undefined);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (goal: Goal) => {
+    setEditingGoal(goal);
+    setIsFormOpen(true);
+  };
+
+  /** Categoría o cuenta de la que salen los aportes. */
+  const getSourceLabel = (goal: Goal) =>
+    goal.category ?? accounts.find((account) => account.id === goal.accountId)?.name ?? "Cuenta eliminada";
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-100 mb-8">
+      <div className="p-6 border-b border-gray-50 flex justify-between items-center gap-4">
+        <h2 className="text-lg font-bold text-gray-800">Metas de ahorro</h2>
+        <button
+          onClick={handleCreate}
+          className="flex items-center gap-2 text-sm font-semibold text-app-purple bg-app-purple/10 px-4 py-2.5 rounded-xl hover:bg-app-purple/20 transition-colors"
+        >
+          <Plus size={16} strokeWidth={3} />
+          Nueva meta
+        </button>
+      </div>
+
+      {progress.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">
+          Aún no tienes metas. Define cuánto quieres ahorrar y para cuándo, y sigue tu avance mes a mes.
+        </p>
+      ) : (
+        <ul className="p-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {progress.map((item) => {
+            const { goal, saved, remaining, percentage, monthsLeft, monthlyContribution, status } = item;
+            const styles = STATUS_STYLES[status];
+
+            return (
+              <li key={goal.id} className="rounded-xl border border-gray-100 p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2 font-bold text-gray-900">
+                      <Target size={16} className="text-app-purple" />
+                      {goal.name}
+                    </div>
+                    <p className="text-xs font-medium text-gray-400 mt-0.5">
+                      {getSourceLabel(goal)} · hasta {formatMonth(goal.targetDate)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => handleEdit(goal)} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg" aria-label="Editar meta">
+                      <Edit2 size={16} />
+                    </button>
+                    <button onClick={() => setGoalToDelete(goal)} className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg" aria-label="Eliminar meta">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Barra de progreso (limitada visualmente al 100%) */}
+                <div className="mt-3 h-2.5 w-full rounded-full bg-gray-100 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${styles.bar}`}
+                    style={{ width: `${Math.min(Math.max(percentage, 0), 100)}%` }}
+                  />
+                </div>
+
+                <div className="mt-2 flex justify-between gap-2 text-xs font-medium">
+                  <span className="text-gray-500">
+                    {formatCurrency(saved, currency)} de {formatCurrency(goal.targetAmount, currency)}
+                  </span>
+                  <span className={`rounded-full px-2 py-0.5 font-semibold ${styles.badge}`}>{styles.label}</span>
+                </div>
+
+                <div className="mt-3 flex items-center justify-between gap-2">
+                  {status === "completed" ? (
+                    <p className="flex items-center gap-1 text-xs font-semibold text-app-green">
+                      <CheckCircle2 size={14} /> Objetivo alcanzado
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {monthsLeft === 0
+                        ? `Venció con ${formatCurrency(remaining, currency)} por reunir`
+                        : `Necesitas ${formatCurrency(monthlyContribution, currency)} al mes`}
+                    </p>
+                  )}
+                  <button
+                    onClick={() => onContribute(item)}
+                    className="flex items-center gap-1 text-xs font-bold text-app-purple hover:underline"
+                  >
+                    <PlusCircle size={14} /> Aportar
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editingGoal ? "Editar Meta" : "Nueva Meta"}
+      >
+        <GoalForm onClose={() => setIsFormOpen(false)} goal={editingGoal} />
+      </Modal>
+
+      <Modal
+        isOpen={!!goalToDelete}
+        onClose={() => setGoalToDelete(null)}
+        title="Confirmar eliminación"
+      >
+        <p className="text-gray-600 mb-6">
+          ¿Eliminar la meta <span className="font-semibold text-gray-900">“{goalToDelete?.name}”</span>? Sus aportes se conservan como transacciones.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setGoalToDelete(null)} className="px-4 py-2 text-gray-700">Cancelar</button>
+          <button
+            onClick={async () => {
+              if (goalToDelete) {
+                await deleteGoal(goalToDelete.id);
+                setGoalToDelete(null);
+              }
+            }}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold"
+          >
+            Eliminar
+          </button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { ExternalLink, FileText, Image as ImageIcon } from "lucide-react";
+import { Attachment } from "@/types";
+import { formatFileSize, getAttachmentUrl, isImageAttachment } from "@/lib/attachments";
+
+interface AttachmentPreviewProps {
+  attachments: Attachment[];
+}
+
+/**
+ * Vista previa de los comprobantes de una transacción: la imagen o el PDF seleccionado
+ * y, si hay varios, la lista para cambiar entre ellos.
+ */
+export default function AttachmentPreview({ attachments }: AttachmentPreviewProps) {
+  const [selectedId, setSelectedId] = useState(attachments[0]?.id);
+  const selected = attachments.find((attachment) => attachment.id === selectedId) ?? attachments[0];
+
+  if (!selected) {
+    return <p className="py-8 text-center text-sm text-gray-500">Esta transacción no tiene comprobantes.</p>;
+  }
+
+  const url = getAttachmentUrl(selected);
+
+  return (
+    <div className="space-y-4">
+      {isImageAttachment(selected) ? (
+        <div className="relative h-[60vh] w-full rounded-xl bg-gray-50">
+          {/* Se sirve tal cual desde la API (requiere la sesión): sin el optimizador de imágenes */}
+          <Image src={url} alt={selected.name} fill unoptimized className="object-contain" />
+        </div>
+      ) : (
+        <iframe src={url} title={selected.name} className="h-[60vh] w-full rounded-xl border border-gray-100" />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {attachments.length > 1 && attachments.map((attachment) => (
+          <button
+            key={attachment.id}
+            onClick={() => setSelectedId(attachment.id)}
+            className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-semibold ${
+              attachment.id === selected.id ? "border-app-purple text-app-purple" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+            }`}
+          >
+            {isImageAttachment(attachment) ? <ImageIcon size={14} /> : <FileText size={14} />}
+            {attachment.name}
+          </button>
+        ))}
+        <a
+          href={url}
+          target="_blank"
+          rel="noreferrer"
+          className="ml-auto flex items-center gap-1.5 text-xs font-semibold text-gray-500 hover:text-app-purple"
+        >
+          {selected.name} · {formatFileSize(selected.size)} <ExternalLink size={14} />
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect } from "react";
+import { useAuditStore } from "@/services/useAuditStore";
+import { useAuth } from "@/context/AuthContext";
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, TRANSACTION_TYPE_LABELS } from "@/lib/audit";
+import { Account, Attachment, FieldChange, SplitLine, Transaction, TransactionType } from "@/types";
+
+interface AuditHistoryProps {
+  transaction: Transaction;
+  /** Cuentas del usuario, para mostrar sus nombres en lugar de los IDs. */
+  accounts: Account[];
+}
+
+/** Campos que, en el alta y la eliminación definitiva, no aportan al resumen del cambio. */
+const HIDDEN_FIELDS = new Set<FieldChange["field"]>(["recurringRuleId", "occurrenceDate"]);
+
+/**
+ * Historial de cambios de una transacción: quién, cuándo y qué campos cambiaron.
+ */
+export default function AuditHistory({ transaction, accounts }: AuditHistoryProps) {
+  const { entries, getTransactionAudit, isLoading } = useAuditStore();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    getTransactionAudit(transaction.id).catch((error) => {
+      console.error("Error al cargar el historial:", error);
+    });
+  }, [transaction.id, getTransactionAudit]);
+
+  /** Valor legible de un campo (nombres de cuenta, tipos, fechas). */
+  const formatValue = (field: FieldChange["field"], value: FieldChange["from"]) => {
+    if (value === undefined) return "—";
+    if (field === "accountId" || field === "toAccountId") {
+      return accounts.find((account) => account.id === value)?.name ?? "Cuenta eliminada";
+    }
+    if (field === "type") return TRANSACTION_TYPE_LABELS[value as TransactionType];
+    if (field === "deletedAt") return new Date(String(value)).toLocaleString("es-ES");
+    if (field === "splits" && Array.isArray(value)) {
+      return (value as SplitLine[]).map((line) => `${line.category}: ${line.amount.toLocaleString("es-ES")}`).join(", ") || "—";
+    }
+    if (field === "tags" && Array.isArray(value)) {
+      return (value as string[]).map((tag) => `#${tag}`).join(" ") || "—";
+    }
+    if (field === "attachments" && Array.isArray(value)) {
+      return (value as Attachment[]).map((attachment) => attachment.name).join(", ") || "—";
+    }
+    if (typeof value === "number") return value.toLocaleString("es-ES");
+    return String(value);
+  };
+
+  if (isLoading && entries.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">Cargando historial...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-gray-500">
+        No hay cambios registrados (la transacción es anterior al historial).
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => {
+        const changes = entry.action === "update" ? entry.changes : entry.changes.filter((change) => !HIDDEN_FIELDS.has(change.field));
+
+        return (
+          <li key={entry.id} className="rounded-xl border border-gray-100 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="font-bold text-gray-900">{AUDIT_ACTION_LABELS[entry.action]}</span>
+              <span className="text-xs font-medium text-gray-400">
+                {new Date(entry.timestamp).toLocaleString("es-ES")} · {entry.actorId === user?.id ? user.name : entry.actorId}
+              </span>
+            </div>
+
+            {/* En el alta se listan los valores iniciales; en las ediciones, antes → después */}
+            {(entry.action === "create" || entry.action === "update") && changes.length > 0 && (
+              <table className="w-full mt-3 text-xs">
+                <tbody className="divide-y divide-gray-50">
+                  {changes.map((change) => (
+                    <tr key={change.field}>
+                      <td className="py-1.5 pr-4 font-semibold text-gray-500 w-40">{AUDIT_FIELD_LABELS[change.field]}</td>
+                      {entry.action === "update" && (
+                        <td className="py-1.5 pr-4 text-red-500 line-through">{formatValue(change.field, change.from)}</td>
+                      )}
+                      <td className="py-1.5 text-gray-900 font-medium">{formatValue(change.field, change.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
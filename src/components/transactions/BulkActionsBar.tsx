@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, Trash2, X } from "lucide-react";
+import CategoryPicker from "@/components/categories/CategoryPicker";
+import { BulkEdit } from "@/lib/bulkEdit";
+import { Transaction } from "@/types";
+
+interface BulkActionsBarProps {
+  /** Transacciones seleccionadas (solo las del filtro actual). */
+  selected: Transaction[];
+  /** Total de transacciones del filtro, cargadas o no. */
+  totalCount: number;
+  /** Selecciona todas las transacciones del filtro, también las de páginas sin cargar. */
+  onSelectAll: () => Promise<void>;
+  /** Aplica un cambio a todas las seleccionadas. */
+  onEdit: (edit: BulkEdit) => void;
+  /** Pide confirmación para enviar las seleccionadas a la papelera. */
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Barra de acciones masivas del historial: cambiar categoría, tipo o fecha
+ * de las transacciones seleccionadas, o enviarlas a la papelera.
+ * Las transferencias solo admiten el cambio de fecha.
+ */
+export default function BulkActionsBar({ selected, totalCount, onSelectAll, onEdit, onDelete, onClear }: BulkActionsBarProps) {
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [category, setCategory] = useState("");
+  const [type, setType] = useState<"" | "income" | "expense">("");
+  const [days, setDays] = useState("");
+
+  const shift = Number(days);
+  // Las categorías ofrecidas son las del tipo de la selección (de gasto si se mezclan)
+  const pickerType = selected.every((tx) => tx.type === "income") ? "income" : "expense";
+
+  const handleSelectAll = async () => {
+    setIsSelectingAll(true);
+    try {
+      await onSelectAll();
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-gray-50 bg-app-purple/5 text-sm">
+      <span className="font-bold text-app-purple">
+        {selected.length === 1 ? "1 seleccionada" : `${selected.length} seleccionadas`}
+      </span>
+      {selected.length < totalCount && (
+        <button
+          onClick={handleSelectAll}
+          disabled={isSelectingAll}
+          className="font-semibold text-app-purple underline disabled:opacity-40"
+        >
+          {isSelectingAll ? "Seleccionando..." : `Seleccionar las ${totalCount.toLocaleString()} del filtro`}
+        </button>
+      )}
+
+      <div className="flex items-center gap-2">
+        <div className="w-56">
+          <CategoryPicker value={category} onChange={setCategory} type={pickerType} />
+        </div>
+        <button
+          onClick={() => onEdit({ kind: "category", category })}
+          disabled={!category}
+          className="font-semibold text-app-purple hover:underline disabled:opacity-40 disabled:no-underline"
+        >
+          Cambiar categoría
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as typeof type)}
+          className="border border-gray-300 rounded-lg px-3 py-2 bg-white font-medium outline-none focus:border-app-purple"
+          aria-label="Nuevo tipo"
+        >
+          <option value="">Tipo...</option>
+          <option value="income">Ingreso</option>
+          <option value="expense">Gasto</option>
+        </select>
+        <button
+          onClick={() => type && onEdit({ kind: "type", type })}
+          disabled={!type}
+          className="font-semibold text-app-purple hover:underline disabled:opacity-40 disabled:no-underline"
+        >
+          Cambiar tipo
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          step="1"
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          placeholder="± días"
+          className="w-24 border border-gray-300 rounded-lg px-3 py-2 outline-none focus:border-app-purple"
+          aria-label="Días a desplazar (negativo hacia atrás)"
+        />
+        <button
+          onClick={() => onEdit({ kind: "shift", days: shift })}
+          disabled={!Number.isInteger(shift) || shift === 0}
+          className="flex items-center gap-1 font-semibold text-app-purple hover:underline disabled:opacity-40 disabled:no-underline"
+        >
+          <CalendarClock size={16} />
+          Mover fechas
+        </button>
+      </div>
+
+      <div className="ml-auto flex items-center gap-2">
+        <button
+          onClick={onDelete}
+          className="flex items-center gap-2 font-semibold text-red-600 bg-white px-4 py-2 rounded-xl border border-red-200 hover:bg-red-50"
+        >
+          <Trash2 size={16} />
+          Eliminar
+        </button>
+        <button onClick={onClear} className="p-2 text-gray-500 rounded-lg hover:bg-gray-100" aria-label="Quitar la selección" title="Quitar la selección">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Download, FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import { downloadFile, transactionsToCsv, transactionsToJson } from "@/lib/transactionExport";
+import { TransactionFilters } from "@/lib/transactionFilters";
+import { fetchFilteredTransactions } from "@/services/useTransactionStore";
+
+interface ExportMenuProps {
+  /** Filtros y orden de la vista actual (acotados al periodo). */
+  filters: TransactionFilters;
+  /** Cantidad de transacciones de la vista, según el resumen del servidor. */
+  count: number;
+  /** Enlace al estado de cuenta imprimible con los filtros activos. */
+  statementHref: string;
+}
+
+/**
+ * Menú de exportación del historial: CSV, JSON y estado de cuenta imprimible.
+ * Se exporta la vista completa (no solo las páginas cargadas): se pide al servidor al exportar.
+ */
+export default function ExportMenu({ filters, count, statementHref }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  /** Nombre de archivo con la fecha del día (ej: transacciones-2024-03-01.csv). */
+  const fileName = (extension: string) => `transacciones-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  const handleExport = async (format: "csv" | "json") => {
+    setIsExporting(true);
+    try {
+      const transactions = await fetchFilteredTransactions(filters);
+      if (format === "csv") {
+        downloadFile(fileName("csv"), transactionsToCsv(transactions), "text/csv;charset=utf-8");
+      } else {
+        downloadFile(fileName("json"), transactionsToJson(transactions), "application/json");
+      }
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error al exportar las transacciones:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const itemClass = "flex w-full items-center gap-3 px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-600 bg-white px-4 py-2.5 rounded-xl border border-gray-200"
+      >
+        <Download size={16} />
+        Exportar
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-56 overflow-hidden rounded-xl border border-gray-100 bg-white shadow-lg">
+          <button onClick={() => handleExport("csv")} className={itemClass} disabled={count === 0 || isExporting}>
+            <FileSpreadsheet size={16} className="text-app-green" /> CSV ({count})
+          </button>
+          <button onClick={() => handleExport("json")} className={itemClass} disabled={count === 0 || isExporting}>
+            <FileJson size={16} className="text-app-purple" /> JSON ({count})
+          </button>
+          <Link href={statementHref} className={itemClass} onClick={() => setIsOpen(false)}>
+            <Printer size={16} className="text-gray-500" /> Estado de cuenta
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowUpDown, ChevronDown, Filter, Hash, Search, X } from "lucide-react";
+import { hasActiveFilters, SortKey, TransactionFilters, TypeFilter } from "@/lib/transactionFilters";
+import { Account } from "@/types";
+
+interface TransactionFiltersBarProps {
+  filters: TransactionFilters;
+  /** Aplica cambios parciales a los filtros. */
+  onChange: (changes: Partial<TransactionFilters>) => void;
+  /** Restablece los filtros predeterminados. */
+  onReset: () => void;
+  /** Categorías disponibles para el filtro múltiple. */
+  categories: string[];
+  /** Cuentas disponibles para el filtro múltiple. */
+  accounts: Account[];
+}
+
+const SORT_LABELS: Record<SortKey, string> = {
+  date: "Fecha",
+  amount: "Monto",
+  title: "Título",
+  category: "Categoría",
+};
+
+const inputClass = "bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-sm font-medium focus:outline-none focus:border-app-purple";
+
+/** Convierte el valor de un input numérico en número u undefined si está vacío. */
+const toOptionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+/**
+ * Barra de búsqueda, filtros y orden del historial de transacciones.
+ */
+export default function TransactionFiltersBar({ filters, onChange, onReset, categories, accounts }: TransactionFiltersBarProps) {
+  const [isCategoryMenuOpen, setIsCategoryMenuOpen] = useState(false);
+  const [isAccountMenuOpen, setIsAccountMenuOpen] = useState(false);
+
+  const toggleCategory = (category: string) => {
+    const selected = filters.categories.includes(category)
+      ? filters.categories.filter((c) => c !== category)
+      : [...filters.categories, category];
+    onChange({ categories: selected });
+  };
+
+  const toggleAccount = (accountId: string) => {
+    const selected = filters.accounts.includes(accountId)
+      ? filters.accounts.filter((id) => id !== accountId)
+      : [...filters.accounts, accountId];
+    onChange({ accounts: selected });
+  };
+
+  return (
+    <div className="p-6 border-b border-gray-50 flex flex-wrap items-center gap-3">
+      {/* Búsqueda por título, categoría, etiqueta o nota */}
+      <div className="relative flex-1 min-w-[200px]">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="Buscar por título, categoría, etiqueta o nota"
+          className={`${inputClass} w-full pl-9`}
+        />
+      </div>
+
+      {/* Filtro por Tipo */}
+      <div className="flex items-center gap-2 bg-gray-50 p-1.5 rounded-xl border border-gray-200">
+        <Filter size={16} className="ml-2 text-gray-400" />
+        <select
+          value={filters.type}
+          onChange={(e) => onChange({ type: e.target.value as TypeFilter })}
+          className="bg-transparent text-sm font-semibold focus:outline-none"
+        >
+          <option value="all">Todos</option>
+          <option value="income">Ingresos</option>
+          <option value="expense">Gastos</option>
+          <option value="transfer">Transferencias</option>
+        </select>
+      </div>
+
+      {/* Filtro múltiple por categoría */}
+      <div className="relative">
+        <button
+          onClick={() => setIsCategoryMenuOpen(!isCategoryMenuOpen)}
+          className={`${inputClass} flex items-center gap-2`}
+        >
+          {filters.categories.length === 0 ? "Todas las categorías" : `${filters.categories.length} categoría(s)`}
+          <ChevronDown size={14} />
+        </button>
+        {isCategoryMenuOpen && (
+          <div className="absolute z-20 mt-2 w-56 max-h-64 overflow-y-auto rounded-xl border border-gray-100 bg-white p-2 shadow-lg">
+            {categories.length === 0 && <p className="px-2 py-1.5 text-sm text-gray-400">Sin categorías</p>}
+            {categories.map((category) => (
+              <label key={category} className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={filters.categories.includes(category)}
+                  onChange={() => toggleCategory(category)}
+                  className="h-4 w-4 accent-app-purple"
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Filtro múltiple por cuenta (origen o destino) */}
+      <div className="relative">
+        <button
+          onClick={() => setIsAccountMenuOpen(!isAccountMenuOpen)}
+          className={`${inputClass} flex items-center gap-2`}
+        >
+          {filters.accounts.length === 0 ? "Todas las cuentas" : `${filters.accounts.length} cuenta(s)`}
+          <ChevronDown size={14} />
+        </button>
+        {isAccountMenuOpen && (
+          <div className="absolute z-20 mt-2 w-56 max-h-64 overflow-y-auto rounded-xl border border-gray-100 bg-white p-2 shadow-lg">
+            {accounts.map((account) => (
+              <label key={account.id} className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={filters.accounts.includes(account.id)}
+                  onChange={() => toggleAccount(account.id)}
+                  className="h-4 w-4 accent-app-purple"
+                />
+                {account.name}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rango de montos */}
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          value={filters.minAmount ?? ""}
+          onChange={(e) => onChange({ minAmount: toOptionalNumber(e.target.value) })}
+          placeholder="Mín $"
+          aria-label="Monto mínimo"
+          className={`${inputClass} w-24`}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="number"
+          min={0}
+          value={filters.maxAmount ?? ""}
+          onChange={(e) => onChange({ maxAmount: toOptionalNumber(e.target.value) })}
+          placeholder="Máx $"
+          aria-label="Monto máximo"
+          className={`${inputClass} w-24`}
+        />
+      </div>
+
+      {/* Rango de fechas */}
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={filters.from ?? ""}
+          max={filters.to}
+          onChange={(e) => onChange({ from: e.target.value || undefined })}
+          aria-label="Desde"
+          className={inputClass}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="date"
+          value={filters.to ?? ""}
+          min={filters.from}
+          onChange={(e) => onChange({ to: e.target.value || undefined })}
+          aria-label="Hasta"
+          className={inputClass}
+        />
+      </div>
+
+      {/* Orden: clave y dirección */}
+      <div className="flex items-center gap-2">
+        <select
+          value={filters.sortBy}
+          onChange={(e) => onChange({ sortBy: e.target.value as SortKey })}
+          aria-label="Ordenar por"
+          className={inputClass}
+        >
+          {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+            <option key={key} value={key}>{SORT_LABELS[key]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange({ sortOrder: filters.sortOrder === "asc" ? "desc" : "asc" })}
+          className="flex items-center gap-2 text-sm font-semibold text-gray-600 bg-white px-4 py-2 rounded-xl border border-gray-200"
+        >
+          <ArrowUpDown size={16} />
+          {filters.sortOrder === "asc" ? "Ascendente" : "Descendente"}
+        </button>
+      </div>
+
+      {/* Etiquetas elegidas desde las filas del historial */}
+      {filters.tags.map((tag) => (
+        <button
+          key={tag}
+          onClick={() => onChange({ tags: filters.tags.filter((item) => item !== tag) })}
+          className="flex items-center gap-1 rounded-full bg-app-purple/10 px-3 py-1.5 text-sm font-semibold text-app-purple"
+          aria-label={`Quitar el filtro de la etiqueta ${tag}`}
+        >
+          <Hash size={12} />
+          {tag}
+          <X size={12} />
+        </button>
+      ))}
+
+      {hasActiveFilters(filters) && (
+        <button onClick={onReset} className="flex items-center gap-1 text-sm font-semibold text-red-500 hover:underline">
+          <X size={14} /> Limpiar filtros
+        </button>
+      )}
+    </div>
+  );
+}
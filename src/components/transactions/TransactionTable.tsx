@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeftRight, ChevronLeft, ChevronRight, Edit2, Hash, History, Paperclip, Repeat, StickyNote, Trash2 } from "lucide-react";
+import { Account, Category, Transaction } from "@/types";
+import CategoryIcon from "@/components/categories/CategoryIcon";
+import { formatCurrency } from "@/lib/currency";
+import { findCategoryByName } from "@/lib/categories";
+import { getTransactionCategories } from "@/lib/splits";
+
+/** Filas renderizadas por página; mantiene el DOM pequeño con historiales grandes. */
+export const TABLE_PAGE_SIZE = 50;
+
+interface TransactionTableProps {
+  /** Páginas cargadas del historial, ya filtradas y ordenadas por el servidor. */
+  transactions: Transaction[];
+  /** Total de transacciones del filtro (incluidas las que aún no se cargaron). */
+  totalCount?: number;
+  /** Indica si el servidor tiene más páginas. */
+  hasMore: boolean;
+  /** Carga la página siguiente del servidor. */
+  onLoadMore: () => Promise<void>;
+  /** Indica que se está cargando la consulta. */
+  isLoading?: boolean;
+  onEdit: (transaction: Transaction) => void;
+  onDelete: (transaction: Transaction) => void;
+  /** Abre el historial de cambios de la transacción. */
+  onShowHistory: (transaction: Transaction) => void;
+  /** Abre la vista previa de los comprobantes adjuntos. */
+  onShowAttachments: (transaction: Transaction) => void;
+  /** Filtra el historial por la etiqueta pulsada. */
+  onTagClick: (tag: string) => void;
+  /** Descripción de la regla recurrente que generó una transacción. */
+  getRuleLabel: (ruleId: string) => string;
+  /** Cuentas del usuario, para mostrar el origen y destino de cada movimiento. */
+  accounts: Account[];
+  /** Categorías gestionadas, para mostrar su icono y color. */
+  categories: Category[];
+  /** IDs con una operación en curso: se atenúan y no admiten acciones hasta que responda el servidor. */
+  pendingIds?: string[];
+  /** IDs seleccionados para las acciones masivas (los que no están en `transactions` se ignoran). */
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+}
+
+/** Signo y color del monto según el tipo; las transferencias son neutras. */
+const AMOUNT_STYLES: Record<Transaction["type"], { sign: string; color: string }> = {
+  income: { sign: "+", color: "text-app-green" },
+  expense: { sign: "-", color: "text-red-500" },
+  transfer: { sign: "", color: "text-gray-700" },
+};
+
+/**
+ * Tabla paginada del historial.
+ * Solo se renderiza la página visible y las páginas se piden al servidor al avanzar;
+ * para volver a la primera página al cambiar los filtros, el padre le asigna una `key` derivada de ellos.
+ */
+export default function TransactionTable({ transactions, totalCount, hasMore, onLoadMore, isLoading = false, onEdit, onDelete, onShowHistory, onShowAttachments, onTagClick, getRuleLabel, accounts, categories, pendingIds = [], selectedIds, onSelectionChange }: TransactionTableProps) {
+  const [page, setPage] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const selected = new Set(selectedIds);
+  const selectedCount = transactions.filter((tx) => selected.has(tx.id)).length;
+  const isAllSelected = transactions.length > 0 && selectedCount === transactions.length;
+
+  /** La casilla del encabezado selecciona todas las filas cargadas, no solo las de la página visible. */
+  const toggleAll = () => onSelectionChange(isAllSelected ? [] : transactions.map((tx) => tx.id));
+
+  const toggleRow = (id: string) =>
+    onSelectionChange(selected.has(id) ? selectedIds.filter((item) => item !== id) : [...selectedIds, id]);
+
+  const accountNames = new Map(accounts.map((account) => [account.id, account.name]));
+  const getAccountName = (accountId?: string) => (accountId && accountNames.get(accountId)) || "Cuenta eliminada";
+
+  // Sin más páginas en el servidor, el total es lo cargado (incluye los cambios locales aún sin resumen)
+  const total = hasMore ? Math.max(totalCount ?? 0, transactions.length) : transactions.length;
+  const pageCount = Math.max(1, Math.ceil(total / TABLE_PAGE_SIZE));
+  // Si se eliminan filas y la página actual queda vacía, se muestra la última disponible
+  const currentPage = Math.min(page, pageCount - 1);
+  const start = currentPage * TABLE_PAGE_SIZE;
+  const visibleRows = transactions.slice(start, start + TABLE_PAGE_SIZE);
+
+  /** Avanza de página; si sus filas aún no están cargadas, antes pide la siguiente al servidor. */
+  const goToNextPage = async () => {
+    const next = currentPage + 1;
+
+    if (hasMore && transactions.length < (next + 1) * TABLE_PAGE_SIZE) {
+      setIsLoadingMore(true);
+      try {
+        await onLoadMore();
+      } catch {
+        // El store ya guardó el error que muestra el dashboard
+        return;
+      } finally {
+        setIsLoadingMore(false);
+      }
+    }
+
+    setPage(next);
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left">
+        <thead className="bg-gray-50/50 text-gray-400 text-[11px] uppercase font-bold">
+          <tr>
+            <th className="pl-8 py-4 w-4">
+              <input
+                type="checkbox"
+                checked={isAllSelected}
+                // Estado intermedio cuando solo algunas filas del filtro están seleccionadas
+                ref={(input) => {
+                  if (input) input.indeterminate = selectedCount > 0 && !isAllSelected;
+                }}
+                onChange={toggleAll}
+                disabled={transactions.length === 0}
+                className="h-4 w-4 accent-app-purple"
+                aria-label={`Seleccionar las ${transactions.length} transacciones cargadas`}
+                title={`Seleccionar las ${transactions.length} transacciones cargadas`}
+              />
+            </th>
+            <th className="px-8 py-4">Descripción</th>
+            <th className="px-8 py-4">Fecha</th>
+            <th className="px-8 py-4 text-right">Monto</th>
+            <th className="px-8 py-4 text-right">Acciones</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-50">
+          {visibleRows.map((tx) => {
+            const category = tx.type === "transfer" ? undefined : findCategoryByName(categories, tx.category);
+            const isPending = pendingIds.includes(tx.id);
+
+            return (
+              <tr
+                key={tx.id}
+                className={`hover:bg-gray-50/80 transition-colors group ${isPending ? "opacity-50" : ""} ${selected.has(tx.id) ? "bg-app-purple/5" : ""}`}
+                aria-busy={isPending}
+                aria-selected={selected.has(tx.id)}
+              >
+                <td className="pl-8 py-5">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(tx.id)}
+                    onChange={() => toggleRow(tx.id)}
+                    className="h-4 w-4 accent-app-purple"
+                    aria-label={`Seleccionar “${tx.title}”`}
+                  />
+                </td>
+                <td className="px-8 py-5">
+                  <div className="flex items-center gap-3">
+                    {category && <CategoryIcon icon={category.icon} color={category.color} size={16} />}
+                    <div>
+                      <div className="flex items-center gap-1.5 font-bold text-gray-900">
+                        {tx.title}
+                        {tx.recurringRuleId && (
+                          <span title={getRuleLabel(tx.recurringRuleId)} className="text-app-purple">
+                            <Repeat size={14} />
+                          </span>
+                        )}
+                        {!!tx.attachments?.length && (
+                          <button
+                            onClick={() => onShowAttachments(tx)}
+                            className="flex items-center gap-0.5 text-xs font-semibold text-gray-400 hover:text-app-purple"
+                            aria-label="Ver comprobantes"
+                            title="Ver comprobantes"
+                          >
+                            <Paperclip size={14} />
+                            {tx.attachments.length > 1 && tx.attachments.length}
+                          </button>
+                        )}
+                        {tx.notes && (
+                          <span title={tx.notes} className="text-gray-400">
+                            <StickyNote size={14} />
+                          </span>
+                        )}
+                      </div>
+                      {tx.type === "transfer" ? (
+                        <div className="flex items-center gap-1 text-xs font-medium text-gray-400">
+                          {getAccountName(tx.accountId)}
+                          <ArrowLeftRight size={12} />
+                          {getAccountName(tx.toAccountId)}
+                        </div>
+                      ) : (
+                        <div className="text-xs font-medium text-gray-400">
+                          {getTransactionCategories(tx).join(", ")} · {getAccountName(tx.accountId)}
+                        </div>
+                      )}
+                      {!!tx.tags?.length && (
+                        <div className="mt-1.5 flex flex-wrap gap-1">
+                          {tx.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              onClick={() => onTagClick(tag)}
+                              className="flex items-center gap-0.5 rounded-full bg-gray-100 px-2 py-0.5 text-[11px] font-semibold text-gray-600 hover:bg-app-purple/10 hover:text-app-purple"
+                              title={`Filtrar por #${tag}`}
+                            >
+                              <Hash size={10} />
+                              {tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-8 py-5 text-sm font-medium text-gray-500">
+                  {new Date(tx.date).toLocaleDateString('es-ES')}
+                </td>
+                <td className={`px-8 py-5 text-right font-black text-lg ${AMOUNT_STYLES[tx.type].color}`}>
+                  {AMOUNT_STYLES[tx.type].sign} {formatCurrency(tx.amount, tx.currency)}
+                </td>
+                <td className="px-8 py-5">
+                  <div className="flex items-center justify-end gap-2">
+                    <button onClick={() => onEdit(tx)} disabled={isPending} className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg">
+                      <Edit2 size={18} />
+                    </button>
+                    <button onClick={() => onShowHistory(tx)} disabled={isPending} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg" aria-label="Historial de cambios" title="Historial de cambios">
+                      <History size={18} />
+                    </button>
+                    <button onClick={() => onDelete(tx)} disabled={isPending} className="p-2 text-red-600 hover:bg-red-50 rounded-lg">
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {transactions.length === 0 && (
+        <p className="p-8 text-center text-sm text-gray-500">
+          {isLoading ? "Cargando transacciones..." : "No hay transacciones que coincidan con los filtros."}
+        </p>
+      )}
+
+      {/* Paginación */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between gap-4 px-8 py-4 border-t border-gray-50 text-sm font-medium text-gray-500">
+          <span>
+            {start + 1}–{start + visibleRows.length} de {total.toLocaleString()}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-2 rounded-lg border border-gray-200 disabled:opacity-40"
+              aria-label="Página anterior"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>Página {currentPage + 1} de {pageCount}</span>
+            <button
+              onClick={goToNextPage}
+              disabled={currentPage === pageCount - 1 || isLoadingMore}
+              className="p-2 rounded-lg border border-gray-200 disabled:opacity-40"
+              aria-label="Página siguiente"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useTransactionStore } from "@/services/useTransactionStore";
+import { formatCurrency } from "@/lib/currency";
+import { getTransactionCategories } from "@/lib/splits";
+
+/**
+ * Papelera: transacciones eliminadas, que se pueden restaurar o borrar definitivamente.
+ */
+export default function TrashPanel() {
+  const { trash, getTrash, restoreTransaction, purgeTransaction, pendingIds, clearError } = useTransactionStore();
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTrash().catch((error) => {
+      console.error("Error al cargar la papelera:", error);
+    });
+  }, [getTrash]);
+
+  /** Ejecuta una acción mostrando el error de la API si falla. */
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      // La papelera muestra su propio mensaje
+      setMessage(error instanceof Error ? error.message : fallback);
+      clearError();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Las transacciones eliminadas no cuentan en los totales. Eliminarlas definitivamente no se puede deshacer.
+      </p>
+
+      {message && <p className="text-sm font-medium text-red-600">{message}</p>}
+
+      {trash.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">La papelera está vacía.</p>
+      ) : (
+        <ul className="divide-y divide-gray-50">
+          {trash.map((tx) => (
+            <li key={tx.id} className="flex items-center gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-bold text-gray-900 truncate">{tx.title}</p>
+                <p className="text-xs font-medium text-gray-400">
+                  {new Date(tx.date).toLocaleDateString("es-ES")} · {getTransactionCategories(tx).join(", ")}
+                  {tx.deletedAt && ` · eliminada el ${new Date(tx.deletedAt).toLocaleDateString("es-ES")}`}
+                </p>
+              </div>
+              <span className="ml-auto font-bold text-gray-700 whitespace-nowrap">{formatCurrency(tx.amount, tx.currency)}</span>
+              <button
+                onClick={() => run(() => restoreTransaction(tx.id), "No fue posible restaurar la transacción")}
+                disabled={pendingIds.includes(tx.id)}
+                className="p-2 text-app-purple hover:bg-app-purple/10 rounded-lg"
+                aria-label="Restaurar"
+                title="Restaurar"
+              >
+                <RotateCcw size={18} />
+              </button>
+              <button
+                onClick={() => run(() => purgeTransaction(tx.id), "No fue posible eliminar la transacción")}
+                disabled={pendingIds.includes(tx.id)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                aria-label="Eliminar definitivamente"
+                title="Eliminar definitivamente"
+              >
+                <Trash2 size={18} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
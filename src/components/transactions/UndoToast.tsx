@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect } from "react";
+import { X } from "lucide-react";
+import { useTransactionStore } from "@/services/useTransactionStore";
+
+/** Tiempo (ms) que el aviso permanece visible. */
+const NOTICE_DURATION = 6000;
+
+/**
+ * Aviso flotante tras crear, editar o eliminar una transacción,
+ * con la opción de deshacer (o rehacer lo deshecho) durante unos segundos.
+ */
+export default function UndoToast() {
+  const { notice, dismissNotice, undo, redo, pendingIds } = useTransactionStore();
+
+  useEffect(() => {
+    if (!notice) return;
+
+    const timer = setTimeout(() => dismissNotice(notice.id), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice, dismissNotice]);
+
+  if (!notice) return null;
+
+  const handleAction = () => {
+    // Si falla, el error queda en el store y lo muestra el dashboard
+    (notice.action === "undo" ? undo() : redo()).catch(() => undefined);
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 rounded-xl bg-gray-900 px-5 py-3 text-sm font-medium text-white shadow-2xl print:hidden"
+    >
+      <span>{notice.message}</span>
+      <button
+        onClick={handleAction}
+        disabled={pendingIds.length > 0}
+        className="font-bold text-app-green hover:underline disabled:opacity-50"
+      >
+        {notice.action === "undo" ? "Deshacer" : "Rehacer"}
+      </button>
+      <button onClick={() => dismissNotice(notice.id)} className="text-gray-400 hover:text-white" aria-label="Cerrar aviso">
+        <X size={16} />
+      </button>
+    </div>
+  );
+}
@@ -5,9 +5,17 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   children: React.ReactNode;
+  /** Ancho máximo del contenedor (por defecto "md"). */
+  size?: "md" | "lg" | "xl";
 }
 
-export default function Modal({ isOpen, onClose, title, children }: ModalProps) {
+const SIZE_CLASSES = {
+  md: "max-w-md",
+  lg: "max-w-2xl",
+  xl: "max-w-5xl",
+};
+
+export default function Modal({ isOpen, onClose, title, children, size = "md" }: ModalProps) {
   if (!isOpen) return null;
 
   return (
@@ -18,7 +26,7 @@ export default function Modal({ isOpen, onClose, title, children }: ModalProps)
     >
       {/* Modal container */}
       <div 
-        className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl animate-in fade-in zoom-in duration-200"
+        className={`w-full ${SIZE_CLASSES[size]} max-h-[90vh] overflow-y-auto rounded-2xl bg-white p-6 shadow-2xl animate-in fade-in zoom-in duration-200`}
         onClick={(e) => e.stopPropagation()} // Evitar cerrar al hacer click dentro
       >
         {/* Header del modal */}
@@ -0,0 +1,54 @@
+"use client";
+
+import { ANALYTICS_PERIODS, PERIOD_LABELS, PeriodPreset, PeriodSelection } from "@/lib/periods";
+import { getTodayKey } from "@/lib/dates";
+
+interface PeriodSelectorProps {
+  value: PeriodSelection;
+  onChange: (value: PeriodSelection) => void;
+  /** Presets ofrecidos, en orden. */
+  presets?: PeriodPreset[];
+}
+
+/**
+ * Selector de periodo de un gráfico: presets o un rango personalizado.
+ * Al pasar a "Personalizado" se parte del mes en curso.
+ */
+export default function PeriodSelector({ value, onChange, presets = ANALYTICS_PERIODS }: PeriodSelectorProps) {
+  const today = getTodayKey();
+  const custom = value.custom ?? { from: `${today.slice(0, 8)}01`, to: today };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={value.preset}
+        onChange={(e) => onChange({ preset: e.target.value as PeriodPreset, custom })}
+        className="border border-gray-200 rounded-xl px-3 py-2 font-semibold bg-white"
+        aria-label="Periodo"
+      >
+        {presets.map((preset) => (
+          <option key={preset} value={preset}>{PERIOD_LABELS[preset]}</option>
+        ))}
+      </select>
+
+      {value.preset === "custom" && (
+        <>
+          <input
+            type="date"
+            value={custom.from}
+            onChange={(e) => e.target.value && onChange({ preset: "custom", custom: { ...custom, from: e.target.value } })}
+            className="border border-gray-200 rounded-xl px-3 py-2 bg-white"
+            aria-label="Desde"
+          />
+          <input
+            type="date"
+            value={custom.to}
+            onChange={(e) => e.target.value && onChange({ preset: "custom", custom: { ...custom, to: e.target.value } })}
+            className="border border-gray-200 rounded-xl px-3 py-2 bg-white"
+            aria-label="Hasta"
+          />
+        </>
+      )}
+    </div>
+  );
+}
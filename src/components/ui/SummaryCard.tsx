@@ -0,0 +1,55 @@
+"use client";
+
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
+import { CurrencyCode } from "@/types";
+
+const percentFormatter = new Intl.NumberFormat("es-ES", { style: "percent", maximumFractionDigits: 1, signDisplay: "exceptZero" });
+
+/**
+ * Componente atómico para mostrar métricas financieras.
+ */
+export default function SummaryCard({ title, amount, icon, accentColor, currency = DEFAULT_CURRENCY, change, higherIsBetter = true, children }: {
+  title: string;
+  amount: number;
+  icon: React.ReactNode;
+  accentColor: string;
+  /** Moneda en la que se expresa `amount`. */
+  currency?: CurrencyCode;
+  /** Variación relativa frente al periodo anterior; null si no se puede calcular, undefined para no mostrarla. */
+  change?: number | null;
+  /** Si un aumento es favorable (ingresos) o desfavorable (gastos); define el color de la variación. */
+  higherIsBetter?: boolean;
+  /** Dato complementario bajo el monto. */
+  children?: React.ReactNode;
+}) {
+  const isFavorable = change != null && (change >= 0) === higherIsBetter;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-gray-100 flex items-center gap-5 transition-transform hover:scale-[1.02]">
+      <div className={`p-4 rounded-2xl ${accentColor} shrink-0`}>
+        {icon}
+      </div>
+      <div className="min-w-0">
+        <p className="text-xs font-bold text-gray-400 uppercase">{title}</p>
+        <p className="text-2xl font-black text-gray-900 mt-0.5">{formatCurrency(amount, currency)}</p>
+        {change !== undefined && (
+          <p className="flex items-center gap-1 text-xs font-semibold text-gray-400 mt-1">
+            {change === null ? (
+              "Sin datos del periodo anterior"
+            ) : (
+              <>
+                <span className={`flex items-center gap-0.5 ${change === 0 ? "" : isFavorable ? "text-app-green" : "text-red-500"}`}>
+                  {change >= 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+                  {percentFormatter.format(change)}
+                </span>
+                vs. periodo anterior
+              </>
+            )}
+          </p>
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
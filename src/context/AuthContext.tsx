@@ -2,23 +2,31 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { User, AuthState } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+import { useTransactionStore } from '@/services/useTransactionStore';
+import { RegisterFormData, UserPreferences } from '@/validations/validations';
 
 /**
  * Define la estructura extendida del contexto de autenticación.
  * Incluye el estado base y las funciones de acción.
  */
 interface AuthContextType extends AuthState {
-  /** Inicia sesión de forma asíncrona y persiste los datos. */
-  login: (email: string) => Promise<void>;
-  /** Limpia la sesión del estado y del almacenamiento local. */
-  logout: () => void;
+  /** Valida las credenciales contra la API e inicia la sesión. */
+  login: (email: string, password: string) => Promise<void>;
+  /** Crea la cuenta e inicia la sesión del nuevo usuario. */
+  register: (data: RegisterFormData) => Promise<void>;
+  /** Cierra la sesión en el servidor y limpia el estado. */
+  logout: () => Promise<void>;
+  /** Guarda las preferencias del usuario (moneda base). */
+  updatePreferences: (preferences: UserPreferences) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 /**
  * Componente Provider que envuelve la aplicación o rama de componentes.
- * Se encarga de la lógica de sincronización con el almacenamiento local.
+ * La sesión vive en una cookie HttpOnly firmada; el cliente solo conoce
+ * el usuario que devuelve /api/auth/me.
  */
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<AuthState>({
@@ -28,45 +36,68 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   });
 
   /**
-   * Efecto de hidratación: Al cargar el cliente, verifica si hay una sesión
-   * previamente guardada para restaurar el estado del usuario.
+   * Efecto de hidratación: Al cargar el cliente, consulta al servidor si
+   * existe una sesión válida para restaurar el estado del usuario.
    */
   useEffect(() => {
+    apiRequest<User>('/api/auth/me')
+      .then((user) => {
+        useTransactionStore.getState().setOwner(user.id);
+        setState({ user, isAuthenticated: true, isLoading: false });
+      })
+      .catch(() => {
+        // 401: no hay sesión activa
+        setState({ user: null, isAuthenticated: false, isLoading: false });
+      });
+  }, []);
+
+  /**
+   * Lógica de autenticación.
+   * @param email - Correo proporcionado por el usuario.
+   * @param password - Contraseña en texto plano (se verifica en el servidor).
+   * @throws {ApiError} Si las credenciales son incorrectas.
+   */
+  const login = async (email: string, password: string) => {
+    setState(prev => ({ ...prev, isLoading: true }));
+
     try {
-      const savedUser = localStorage.getItem('auth_user');
-
-      if (savedUser) {
-        setState({
-          user: JSON.parse(savedUser),
-          isAuthenticated: true,
-          isLoading: false
-        });
-      } else {
-        setState(prev => ({ ...prev, isLoading: false }));
-      }
+      const user = await apiRequest<User>('/api/auth/login', {
+        method: 'POST',
+        body: { email, password },
+      });
+
+      // Los datos guardados en el dispositivo por otro usuario se descartan
+      useTransactionStore.getState().setOwner(user.id);
+      setState({
+        user,
+        isAuthenticated: true,
+        isLoading: false
+      });
     } catch (error) {
-      console.error("Error recuperando sesión:", error);
       setState(prev => ({ ...prev, isLoading: false }));
+      throw error;
     }
-  }, []);
+  };
 
   /**
-   * Lógica de autenticación. 
-   * @param email - Correo proporcionado por el usuario.
-   * TODO: Reemplazar mock con llamada real a servicio de autenticación.
+   * Registro de un nuevo usuario.
+   * El servidor crea la cuenta y deja la sesión iniciada.
+   * @param data - Datos validados por registerSchema.
+   * @throws {ApiError} Si el correo ya está registrado o los datos son inválidos.
    */
-  const login = async (email: string) => {
+  const register = async (data: RegisterFormData) => {
     setState(prev => ({ ...prev, isLoading: true }));
 
     try {
-      // Simulación de tiempo de procesamiento
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      const mockUser: User = { id: '1', email, name: 'Usuario Demo' };
-      localStorage.setItem('auth_user', JSON.stringify(mockUser));
+      const user = await apiRequest<User>('/api/auth/register', {
+        method: 'POST',
+        body: data,
+      });
 
+      // Los datos guardados en el dispositivo por otro usuario se descartan
+      useTransactionStore.getState().setOwner(user.id);
       setState({
-        user: mockUser,
+        user,
         isAuthenticated: true,
         isLoading: false
       });
@@ -77,15 +108,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   /**
-   * Finaliza la sesión actual eliminando los tokens de localStorage.
+   * Finaliza la sesión actual eliminando la cookie en el servidor.
+   * También borra los datos guardados en el dispositivo (incluidos los cambios sin sincronizar).
+   */
+  const logout = async () => {
+    try {
+      await apiRequest<void>('/api/auth/logout', { method: 'POST' });
+    } finally {
+      useTransactionStore.getState().setOwner(null);
+      setState({ user: null, isAuthenticated: false, isLoading: false });
+    }
+  };
+
+  /**
+   * Actualiza las preferencias en el servidor y refleja el usuario devuelto.
+   * @throws {ApiError} Si los datos son inválidos o la sesión expiró.
    */
-  const logout = () => {
-    localStorage.removeItem('auth_user');
-    setState({ user: null, isAuthenticated: false, isLoading: false });
+  const updatePreferences = async (preferences: UserPreferences) => {
+    const user = await apiRequest<User>('/api/auth/me', { method: 'PATCH', body: preferences });
+    setState(prev => ({ ...prev, user }));
   };
 
   return (
-    <AuthContext.Provider value={{ ...state, login, logout }}>
+    <AuthContext.Provider value={{ ...state, login, register, logout, updatePreferences }}>
       {children}
     </AuthContext.Provider>
   );
@@ -104,4 +149,4 @@ export const useAuth = () => {
   }
 
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { apiRequest } from "@/services/apiClient";
+import { AnalyticsChart, AnalyticsResult } from "@/lib/aggregations";
+import { DateRange } from "@/lib/periods";
+
+/**
+ * Datos de un gráfico del análisis para el rango indicado, calculados por GET /api/transactions/analytics.
+ * Mientras llega la respuesta de un rango nuevo se conservan los datos anteriores.
+ * @returns null hasta la primera respuesta.
+ */
+export function useAnalytics<C extends AnalyticsChart>(chart: C, { from, to }: DateRange): AnalyticsResult<C> | null {
+  const [result, setResult] = useState<AnalyticsResult<C> | null>(null);
+
+  useEffect(() => {
+    // Si el rango cambia antes de que llegue la respuesta, se descarta
+    let isCurrent = true;
+
+    apiRequest<AnalyticsResult<C>>(`/api/transactions/analytics?${new URLSearchParams({ chart, from, to })}`)
+      .then((data) => {
+        if (isCurrent) setResult(data);
+      })
+      .catch((error) => {
+        console.error("Error al cargar el análisis:", error);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [chart, from, to]);
+
+  return result;
+}
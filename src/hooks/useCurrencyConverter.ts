@@ -0,0 +1,19 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useExchangeRateStore } from "@/services/useExchangeRateStore";
+import { createAmountConverter, DEFAULT_CURRENCY } from "@/lib/currency";
+
+/**
+ * Moneda base del usuario y conversor de montos según su tabla de tasas.
+ */
+export function useCurrencyConverter() {
+  const { user } = useAuth();
+  const rates = useExchangeRateStore((state) => state.rates);
+  const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const convert = useMemo(() => createAmountConverter(rates, baseCurrency), [rates, baseCurrency]);
+
+  return { baseCurrency, convert };
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Envía los cambios hechos sin conexión cuando el navegador recupera la red.
+ */
+export function useOnlineSync(syncQueue: () => Promise<void>) {
+  useEffect(() => {
+    const handleOnline = () => {
+      void syncQueue();
+    };
+
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [syncQueue]);
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { DEFAULT_FILTERS, parseFilters, serializeFilters, TransactionFilters } from "@/lib/transactionFilters";
+import { parsePeriod, PeriodSelection, serializePeriod } from "@/lib/periods";
+
+/**
+ * Filtros del historial y periodo del dashboard sincronizados con la query string.
+ * Usa history.replaceState (integrado con el App Router) para que escribir en
+ * la búsqueda no provoque navegaciones al servidor ni entradas en el historial.
+ */
+export function useTransactionFilters() {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+
+  const { filters, period } = useMemo(() => {
+    const params = new URLSearchParams(searchParams.toString());
+    return { filters: parseFilters(params), period: parsePeriod(params) };
+  }, [searchParams]);
+
+  /** Escribe filtros y periodo en la URL sin navegar. */
+  const replaceQuery = useCallback((nextFilters: TransactionFilters, nextPeriod: PeriodSelection) => {
+    const query = serializePeriod(nextPeriod, serializeFilters(nextFilters)).toString();
+    window.history.replaceState(null, "", query ? `${pathname}?${query}` : pathname);
+  }, [pathname]);
+
+  /** Combina los cambios con los filtros actuales y actualiza la URL. */
+  const setFilters = useCallback((changes: Partial<TransactionFilters>) => {
+    replaceQuery({ ...filters, ...changes }, period);
+  }, [filters, period, replaceQuery]);
+
+  /** Cambia el periodo conservando los filtros. */
+  const setPeriod = useCallback((nextPeriod: PeriodSelection) => {
+    replaceQuery(filters, nextPeriod);
+  }, [filters, replaceQuery]);
+
+  /** Limpia los filtros conservando el orden y el periodo elegidos. */
+  const resetFilters = useCallback(() => {
+    setFilters({ ...DEFAULT_FILTERS, sortBy: filters.sortBy, sortOrder: filters.sortOrder });
+  }, [filters.sortBy, filters.sortOrder, setFilters]);
+
+  return { filters, setFilters, resetFilters, period, setPeriod };
+}
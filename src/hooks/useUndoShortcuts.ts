@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Elementos en los que Ctrl+Z conserva el deshacer nativo del texto. */
+const EDITABLE_TAGS = ["INPUT", "TEXTAREA", "SELECT"];
+
+/**
+ * Atajos de teclado Ctrl+Z (deshacer) y Ctrl+Shift+Z / Ctrl+Y (rehacer); Cmd en macOS.
+ * Se ignoran mientras se escribe en un campo de formulario.
+ */
+export function useUndoShortcuts(undo: () => Promise<void>, redo: () => Promise<void>) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (EDITABLE_TAGS.includes(target.tagName) || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      const action = key === "z" ? (event.shiftKey ? redo : undo) : key === "y" ? redo : null;
+      if (!action) return;
+
+      event.preventDefault();
+      // Si falla, el error queda en el store de transacciones
+      action().catch(() => undefined);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+}
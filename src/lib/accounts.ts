@@ -0,0 +1,79 @@
+import { Account, AccountType, CurrencyCode, ExchangeRate, Transaction } from '@/types';
+import { createAmountConverter } from '@/lib/currency';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+    bank: 'Banco',
+    cash: 'Efectivo',
+    credit: 'Tarjeta de crédito',
+    savings: 'Ahorros',
+};
+
+/** Categoría asignada a las transferencias entre cuentas. */
+export const TRANSFER_CATEGORY = 'Transferencia';
+
+/** Saldo calculado de una cuenta, en su propia moneda. */
+export interface AccountBalance {
+    account: Account;
+    /** Saldo en la moneda de la cuenta. */
+    balance: number;
+    /** Monedas de movimientos de la cuenta que no se pudieron convertir a su moneda (no cuentan en el saldo). */
+    missingRates: CurrencyCode[];
+}
+
+/**
+ * Calcula el saldo de cada cuenta: saldo inicial + ingresos − gastos,
+ * restando las transferencias salientes y sumando las entrantes.
+ * Los movimientos en otra moneda se convierten a la de la cuenta con la tabla de tasas.
+ * Una transferencia entrante suma `toAmount` (monto recibido en la moneda destino) o,
+ * si no existe, el mismo monto enviado convertido.
+ */
+export function computeAccountBalances(accounts: Account[], transactions: Transaction[], rates: ExchangeRate[] = []): AccountBalance[] {
+    const entries = new Map(accounts.map((account) => [account.id, {
+        balance: account.openingBalance,
+        missing: new Set<CurrencyCode>(),
+        convert: createAmountConverter(rates, account.currency),
+    }]));
+    const add = (accountId: string | undefined, tx: Transaction, sign: 1 | -1, amount?: number) => {
+        const entry = accountId === undefined ? undefined : entries.get(accountId);
+        if (!entry) return;
+
+        const converted = amount ?? entry.convert(tx);
+        if (converted === null) entry.missing.add(tx.currency);
+        else entry.balance += sign * converted;
+    };
+
+    for (const tx of transactions) {
+        if (tx.type === 'income') {
+            add(tx.accountId, tx, 1);
+        } else if (tx.type === 'expense') {
+            add(tx.accountId, tx, -1);
+        } else {
+            add(tx.accountId, tx, -1);
+            add(tx.toAccountId, tx, 1, tx.toAmount);
+        }
+    }
+
+    return accounts.map((account) => {
+        const { balance, missing } = entries.get(account.id)!;
+        return { account, balance, missingRates: [...missing].sort() };
+    });
+}
+
+/**
+ * Valida la cuenta de destino de una transferencia: debe existir y ser distinta de la de origen.
+ * @returns El mensaje de error o null si es válida (o no es una transferencia).
+ */
+export function getTransferError({ type, accountId, toAccountId }: { type: string; accountId: string; toAccountId?: string }): string | null {
+    if (type !== 'transfer') return null;
+    return !toAccountId || toAccountId === accountId ? 'Selecciona una cuenta de destino distinta' : null;
+}
+
+/**
+ * Deja la cuenta de destino y el monto recibido solo en las transferencias.
+ * Las claves quedan presentes (aunque sin valor) para que, al combinarse con un
+ * registro guardado, se borren los datos de una transferencia anterior.
+ */
+export function normalizeTransferFields<T extends Pick<Transaction, 'type' | 'toAccountId' | 'toAmount'>>(data: T): T {
+    if (data.type !== 'transfer') return { ...data, toAccountId: undefined, toAmount: undefined };
+    return { ...data, toAccountId: data.toAccountId, toAmount: data.toAmount };
+}
@@ -0,0 +1,178 @@
+import { CurrencyCode, Transaction } from '@/types';
+import { AmountConverter } from '@/lib/currency';
+import { DateRange, filterByRange, listMonthKeys } from '@/lib/periods';
+import { expandSplits } from '@/lib/splits';
+
+/** Sin conversor, los montos se suman tal cual (todas en la misma moneda). */
+const rawAmount: AmountConverter = (tx) => tx.amount;
+
+/** Totales del resumen financiero. */
+export interface TransactionSummary {
+    totalIncome: number;
+    totalExpenses: number;
+    netBalance: number;
+}
+
+/** Totales de un conjunto filtrado, tal como los devuelve /api/transactions/summary. */
+export interface FilteredSummary extends TransactionSummary {
+    /** Cantidad de transacciones que cumplen los filtros. */
+    count: number;
+    /** Moneda base en la que están expresados los totales. */
+    currency: CurrencyCode;
+    /** Monedas sin tasa de cambio; sus transacciones no se incluyen en los totales. */
+    missingRates: CurrencyCode[];
+}
+
+/** Subtotales de una categoría. */
+export interface CategoryTotal {
+    category: string;
+    income: number;
+    expense: number;
+}
+
+/**
+ * Suma ingresos y gastos de un conjunto de transacciones.
+ * @param convert - Lleva cada monto a la moneda base; las transacciones sin tasa (null) se omiten.
+ */
+export function summarizeTransactions(transactions: Transaction[], convert: AmountConverter = rawAmount): TransactionSummary {
+    let totalIncome = 0;
+    let totalExpenses = 0;
+
+    for (const tx of transactions) {
+        const amount = convert(tx);
+        if (amount === null) continue;
+
+        if (tx.type === 'income') totalIncome += amount;
+        else if (tx.type === 'expense') totalExpenses += amount;
+    }
+
+    return { totalIncome, totalExpenses, netBalance: totalIncome - totalExpenses };
+}
+
+/**
+ * Agrupa ingresos y gastos por categoría, ordenados por volumen total (descendente).
+ * Las transacciones divididas suman cada línea en su categoría.
+ * @param convert - Lleva cada monto a la moneda base; las transacciones sin tasa (null) se omiten.
+ */
+export function getCategoryTotals(transactions: Transaction[], convert: AmountConverter = rawAmount): CategoryTotal[] {
+    const totals = new Map<string, CategoryTotal>();
+
+    for (const tx of transactions.flatMap(expandSplits)) {
+        const amount = convert(tx);
+        if (amount === null) continue;
+
+        const entry = totals.get(tx.category) ?? { category: tx.category, income: 0, expense: 0 };
+        if (tx.type === 'income') entry.income += amount;
+        else if (tx.type === 'expense') entry.expense += amount;
+        totals.set(tx.category, entry);
+    }
+
+    return [...totals.values()].sort((a, b) => b.income + b.expense - (a.income + a.expense));
+}
+
+/** Ingresos y gastos de un mes. */
+export interface MonthlyTotal extends TransactionSummary {
+    /** Mes `YYYY-MM`. */
+    month: string;
+}
+
+/** Gasto de una categoría y su proporción sobre el gasto total (0-1). */
+export interface CategoryShare {
+    category: string;
+    amount: number;
+    share: number;
+}
+
+/** Punto de la evolución del balance neto acumulado. */
+export interface BalancePoint {
+    date: string;
+    balance: number;
+}
+
+/** Datos de cada gráfico del análisis, tal como los devuelve /api/transactions/analytics. */
+export interface AnalyticsData {
+    monthly: MonthlyTotal[];
+    categories: CategoryShare[];
+    balance: BalancePoint[];
+}
+
+export type AnalyticsChart = keyof AnalyticsData;
+
+export const ANALYTICS_CHARTS: AnalyticsChart[] = ['monthly', 'categories', 'balance'];
+
+/** Datos de un gráfico del análisis en la moneda base. */
+export interface AnalyticsResult<C extends AnalyticsChart = AnalyticsChart> {
+    data: AnalyticsData[C];
+    currency: CurrencyCode;
+    /** Monedas sin tasa de cambio; sus transacciones no se incluyen en el gráfico. */
+    missingRates: CurrencyCode[];
+}
+
+/**
+ * Ingresos, gastos y neto por mes, incluidos los meses sin movimientos.
+ * @param range - Rango analizado; las transacciones fuera de él se ignoran.
+ * @param convert - Lleva cada monto a la moneda base; las transacciones sin tasa (null) se omiten.
+ */
+export function getMonthlyTotals(transactions: Transaction[], range: DateRange, convert: AmountConverter = rawAmount): MonthlyTotal[] {
+    const byMonth = new Map<string, Transaction[]>(listMonthKeys(range).map((month) => [month, []]));
+
+    for (const tx of filterByRange(transactions, range)) {
+        byMonth.get(tx.date.slice(0, 7))?.push(tx);
+    }
+
+    return [...byMonth].map(([month, monthTransactions]) => ({ month, ...summarizeTransactions(monthTransactions, convert) }));
+}
+
+/**
+ * Gasto por categoría con su porcentaje del total, de mayor a menor.
+ * @param convert - Lleva cada monto a la moneda base; las transacciones sin tasa (null) se omiten.
+ */
+export function getSpendingByCategory(transactions: Transaction[], convert: AmountConverter = rawAmount): CategoryShare[] {
+    const expenses = getCategoryTotals(transactions, convert).filter((total) => total.expense > 0);
+    const total = expenses.reduce((sum, entry) => sum + entry.expense, 0);
+
+    return expenses
+        .map(({ category, expense }) => ({ category, amount: expense, share: total > 0 ? expense / total : 0 }))
+        .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Balance neto acumulado (ingresos − gastos) día a día dentro del rango.
+ * El primer punto es el saldo al empezar el rango (movimientos anteriores);
+ * después hay un punto por cada día con ingresos o gastos.
+ * @param convert - Lleva cada monto a la moneda base; las transacciones sin tasa (null) se omiten.
+ */
+export function getRunningBalance(transactions: Transaction[], range: DateRange, convert: AmountConverter = rawAmount): BalancePoint[] {
+    let balance = summarizeTransactions(transactions.filter((tx) => tx.date < range.from), convert).netBalance;
+    const points: BalancePoint[] = [{ date: range.from, balance }];
+
+    // Las transferencias no cambian el neto: no generan puntos
+    const inRange = filterByRange(transactions, range)
+        .filter((tx) => tx.type !== 'transfer')
+        .sort((a, b) => a.date.localeCompare(b.date));
+    for (const tx of inRange) {
+        balance += summarizeTransactions([tx], convert).netBalance;
+
+        const last = points[points.length - 1];
+        if (last.date === tx.date) last.balance = balance;
+        else points.push({ date: tx.date, balance });
+    }
+
+    return points;
+}
+
+/**
+ * Tasa de ahorro: proporción de los ingresos que no se gastó (balance neto / ingresos).
+ * Es null si no hubo ingresos.
+ */
+export function getSavingsRate(summary: TransactionSummary): number | null {
+    return summary.totalIncome > 0 ? summary.netBalance / summary.totalIncome : null;
+}
+
+/**
+ * Variación relativa respecto al valor anterior (0.1 = +10%).
+ * Es null si el valor anterior es 0, porque el porcentaje no está definido.
+ */
+export function getRelativeChange(current: number, previous: number): number | null {
+    return previous === 0 ? null : (current - previous) / Math.abs(previous);
+}
@@ -0,0 +1,26 @@
+import { Attachment, AttachmentType } from '@/types';
+
+/** Formatos admitidos. No incluye SVG: al abrirlo en el navegador podría ejecutar scripts. */
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'] as const satisfies readonly AttachmentType[];
+
+/** Valor del atributo `accept` del selector de archivos. */
+export const ATTACHMENT_ACCEPT = ATTACHMENT_TYPES.join(',');
+
+/** Tamaño máximo de cada archivo (5 MB). */
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+/** Cantidad máxima de comprobantes por transacción. */
+export const MAX_ATTACHMENTS = 5;
+
+/** URL con el contenido del comprobante. */
+export const getAttachmentUrl = (attachment: Pick<Attachment, 'id'>) => `/api/attachments/${attachment.id}`;
+
+/** Indica si el comprobante es una imagen (se previsualiza en línea) o un PDF. */
+export const isImageAttachment = (attachment: Pick<Attachment, 'type'>) => attachment.type.startsWith('image/');
+
+/** Tamaño legible (ej: "820 KB", "1,4 MB"). */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / 1024 / 1024).toLocaleString('es-ES', { maximumFractionDigits: 1 })} MB`;
+}
@@ -0,0 +1,72 @@
+import { AuditAction, FieldChange, Transaction, TransactionType } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    create: 'Creada',
+    update: 'Editada',
+    delete: 'Enviada a la papelera',
+    restore: 'Restaurada',
+    purge: 'Eliminada definitivamente',
+};
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+    income: 'Ingreso',
+    expense: 'Gasto',
+    transfer: 'Transferencia',
+};
+
+/** Nombre legible de cada campo auditado. */
+export const AUDIT_FIELD_LABELS: Record<keyof Transaction, string> = {
+    id: 'ID',
+    title: 'Título',
+    amount: 'Monto',
+    currency: 'Moneda',
+    type: 'Tipo',
+    category: 'Categoría',
+    date: 'Fecha',
+    accountId: 'Cuenta',
+    toAccountId: 'Cuenta de destino',
+    toAmount: 'Monto recibido',
+    recurringRuleId: 'Regla recurrente',
+    occurrenceDate: 'Fecha programada',
+    deletedAt: 'Eliminada el',
+    updatedAt: 'Modificada el',
+    attachments: 'Comprobantes',
+    splits: 'División',
+    tags: 'Etiquetas',
+    notes: 'Notas',
+};
+
+/**
+ * Una lista o un texto vacíos equivalen a un campo sin valor: las transacciones anteriores a las etiquetas,
+ * las notas, la división o los comprobantes no los tienen y el formulario los envía vacíos.
+ */
+const withoutEmpty = <V>(value: V) =>
+    value === '' || (Array.isArray(value) && value.length === 0) ? undefined : value;
+
+/**
+ * Diferencia campo a campo entre dos versiones de una transacción.
+ * `null` representa "no existía" (alta) o "ya no existe" (eliminación definitiva).
+ * El ID no se audita: identifica a la transacción, no cambia. La marca `updatedAt`
+ * tampoco: cambia en cada escritura y la entrada ya guarda su propia fecha.
+ */
+export function diffTransactions(before: Partial<Transaction> | null, after: Partial<Transaction> | null): FieldChange[] {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})] as (keyof Transaction)[]);
+    const changes: FieldChange[] = [];
+
+    for (const field of fields) {
+        if (field === 'id' || field === 'updatedAt') continue;
+
+        const from = withoutEmpty(before?.[field]);
+        const to = withoutEmpty(after?.[field]);
+        // Los comprobantes y las líneas son listas: se comparan por contenido
+        if (from === to || (Array.isArray(from) && JSON.stringify(from) === JSON.stringify(to))) continue;
+
+        changes.push({
+            field,
+            ...(from !== undefined && { from }),
+            ...(to !== undefined && { to }),
+        });
+    }
+
+    return changes;
+}
@@ -0,0 +1,101 @@
+import { Budget, Transaction } from '@/types';
+import { AmountConverter } from '@/lib/currency';
+import { expandSplits } from '@/lib/splits';
+
+/** Porcentaje de consumo a partir del cual se alerta al usuario. */
+export const BUDGET_WARNING_THRESHOLD = 80;
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+/** Estado calculado de un presupuesto en un mes concreto. */
+export interface BudgetProgress {
+    budget: Budget;
+    /** Gasto del mes en la categoría. */
+    spent: number;
+    /** Límite efectivo del mes (incluye el traslado si aplica). */
+    limit: number;
+    /** Saldo disponible; negativo si se excedió el límite. */
+    remaining: number;
+    /** Porcentaje consumido respecto al límite efectivo; 100 si hay gasto con un límite de 0 o menos. */
+    percentage: number;
+    /** Si el gasto supera el límite efectivo (cualquier gasto, cuando el límite es 0 o menos). */
+    isOverBudget: boolean;
+    status: BudgetStatus;
+}
+
+const normalizeCategory = (category: string) => category.trim().toLowerCase();
+
+/**
+ * Clave de mes `YYYY-MM` para una fecha.
+ * @param date - Fecha (objeto Date o cadena `YYYY-MM-DD`).
+ */
+export function getMonthKey(date: Date | string): string {
+    if (typeof date === 'string') return date.slice(0, 7);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Clave `YYYY-MM` del mes anterior. */
+export function getPreviousMonthKey(monthKey: string): string {
+    const [year, month] = monthKey.split('-').map(Number);
+    return getMonthKey(new Date(year, month - 2, 1));
+}
+
+/**
+ * Suma los gastos de un mes agrupados por categoría (sin distinguir mayúsculas).
+ * Las transacciones divididas suman cada línea en su categoría.
+ * @param convert - Lleva cada monto a la moneda base; los gastos sin tasa (null) se omiten.
+ */
+export function getExpensesByCategory(
+    transactions: Transaction[],
+    monthKey: string,
+    convert: AmountConverter = (tx) => tx.amount
+): Map<string, number> {
+    const totals = new Map<string, number>();
+
+    for (const tx of transactions.flatMap(expandSplits)) {
+        if (tx.type !== 'expense' || getMonthKey(tx.date) !== monthKey) continue;
+        const amount = convert(tx);
+        if (amount === null) continue;
+
+        const key = normalizeCategory(tx.category);
+        totals.set(key, (totals.get(key) ?? 0) + amount);
+    }
+
+    return totals;
+}
+
+/**
+ * Calcula el progreso de cada presupuesto en el mes indicado.
+ * Con `rollover`, el saldo del mes anterior (positivo o negativo) se suma al límite.
+ * Los límites están en la moneda base; `convert` lleva los gastos a esa moneda.
+ */
+export function computeBudgetProgress(
+    budgets: Budget[],
+    transactions: Transaction[],
+    monthKey: string,
+    convert?: AmountConverter
+): BudgetProgress[] {
+    const spentByCategory = getExpensesByCategory(transactions, monthKey, convert);
+    const previousSpent = getExpensesByCategory(transactions, getPreviousMonthKey(monthKey), convert);
+
+    return budgets.map((budget) => {
+        const key = normalizeCategory(budget.category);
+        const spent = spentByCategory.get(key) ?? 0;
+        const carried = budget.rollover ? budget.amount - (previousSpent.get(key) ?? 0) : 0;
+        const limit = budget.amount + carried;
+        // Siempre finito: el progreso viaja en JSON, que no admite Infinity
+        const percentage = limit > 0 ? (spent / limit) * 100 : spent > 0 ? 100 : 0;
+        const isOverBudget = spent > Math.max(limit, 0);
+
+        let status: BudgetStatus = 'ok';
+        if (isOverBudget) status = 'over';
+        else if (percentage >= BUDGET_WARNING_THRESHOLD) status = 'warning';
+
+        return { budget, spent, limit, remaining: limit - spent, percentage, isOverBudget, status };
+    });
+}
+
+/** Saldo total disponible sumando todos los presupuestos. */
+export function getTotalRemaining(progress: BudgetProgress[]): number {
+    return progress.reduce((acc, item) => acc + item.remaining, 0);
+}
@@ -0,0 +1,38 @@
+import { Transaction } from '@/types';
+import { addDays } from '@/lib/dates';
+import { isSplit } from '@/lib/splits';
+
+/** Cambio aplicado a todas las transacciones seleccionadas en el historial. */
+export type BulkEdit =
+    | { kind: 'category'; category: string }
+    | { kind: 'type'; type: 'income' | 'expense' }
+    | { kind: 'shift'; days: number };
+
+/**
+ * Versión editada de una transacción; null si el cambio no le aplica o no cambia nada.
+ * - Categoría: reemplaza la división entre categorías, si la tenía.
+ * - Tipo: solo entre ingreso y gasto (una transferencia depende de su cuenta de destino).
+ * - Fecha: se desplaza los días indicados (negativos hacia atrás).
+ */
+function editTransaction(transaction: Transaction, edit: BulkEdit): Transaction | null {
+    switch (edit.kind) {
+        case 'category':
+            if (transaction.type === 'transfer' || (transaction.category === edit.category && !isSplit(transaction))) return null;
+            // Una lista vacía quita la división guardada
+            return { ...transaction, category: edit.category, ...(isSplit(transaction) && { splits: [] }) };
+        case 'type':
+            if (transaction.type === 'transfer' || transaction.type === edit.type) return null;
+            return { ...transaction, type: edit.type };
+        case 'shift':
+            if (edit.days === 0) return null;
+            return { ...transaction, date: addDays(transaction.date, edit.days) };
+    }
+}
+
+/**
+ * Aplica un cambio masivo a las transacciones seleccionadas.
+ * @returns Solo las transacciones que cambian.
+ */
+export function applyBulkEdit(transactions: Transaction[], edit: BulkEdit): Transaction[] {
+    return transactions.flatMap((transaction) => editTransaction(transaction, edit) ?? []);
+}
@@ -0,0 +1,121 @@
+import { Category, CategoryType, TransactionType } from '@/types';
+import { normalizeText } from '@/lib/text';
+
+export const CATEGORY_TYPE_LABELS: Record<CategoryType, string> = {
+    income: 'Ingresos',
+    expense: 'Gastos',
+    both: 'Ingresos y gastos',
+};
+
+/** Paleta ofrecida al crear categorías; las migradas la recorren en orden. */
+export const CATEGORY_COLORS = [
+    '#7c3aed', '#2563eb', '#0891b2', '#059669', '#65a30d',
+    '#ca8a04', '#ea580c', '#dc2626', '#db2777', '#6b7280',
+] as const;
+
+/** Iconos de lucide-react disponibles para las categorías. */
+export const CATEGORY_ICONS = [
+    'Tag', 'ShoppingCart', 'Utensils', 'Coffee', 'Home', 'Car', 'Bus', 'Plane',
+    'HeartPulse', 'GraduationCap', 'Shirt', 'Gift', 'Film', 'Gamepad2', 'Dumbbell', 'PawPrint',
+    'Smartphone', 'Zap', 'Wifi', 'Briefcase', 'Banknote', 'PiggyBank', 'TrendingUp', 'Receipt',
+] as const;
+
+export const DEFAULT_CATEGORY_ICON = 'Tag';
+
+/** Uso de un nombre de categoría en una transacción, regla o presupuesto. */
+export interface CategoryUsage {
+    category: string;
+    /** Tipo del movimiento; sin tipo (ej: presupuestos) no influye en el tipo de la categoría. */
+    type?: TransactionType;
+}
+
+/** Resultado de mapear nombres libres sobre las categorías gestionadas. */
+export interface CategoryMigration {
+    /** Categorías nuevas para los nombres sin equivalente. */
+    toCreate: Omit<Category, 'id'>[];
+    /** Nombre usado → nombre de la categoría gestionada (solo los que cambian). */
+    renames: Map<string, string>;
+}
+
+/**
+ * Busca una categoría por nombre sin distinguir mayúsculas, tildes ni espacios extremos.
+ */
+export function findCategoryByName(categories: Category[], name: string): Category | undefined {
+    const key = normalizeText(name);
+    return categories.find((category) => normalizeText(category.name) === key);
+}
+
+/** Indica si la categoría puede usarse en un movimiento del tipo dado. */
+export function categoryAppliesTo(category: Category, type: TransactionType): boolean {
+    return category.type === 'both' || category.type === type;
+}
+
+/**
+ * Nombre completo para mostrar: "Padre › Hija" en las subcategorías.
+ */
+export function getCategoryPath(categories: Category[], category: Category): string {
+    const parent = category.parentId ? categories.find((item) => item.id === category.parentId) : undefined;
+    return parent ? `${parent.name} › ${category.name}` : category.name;
+}
+
+/**
+ * Ordena las categorías como árbol: cada padre (alfabético) seguido de sus subcategorías.
+ */
+export function sortCategoryTree(categories: Category[]): Category[] {
+    const byName = (a: Category, b: Category) => a.name.localeCompare(b.name, 'es', { sensitivity: 'base' });
+    const ids = new Set(categories.map((category) => category.id));
+    const roots = categories.filter((category) => !category.parentId || !ids.has(category.parentId)).sort(byName);
+
+    return roots.flatMap((root) => [
+        root,
+        ...categories.filter((category) => category.parentId === root.id).sort(byName),
+    ]);
+}
+
+/**
+ * Mapea nombres de categoría de texto libre sobre las categorías gestionadas.
+ * Las variantes que solo difieren en mayúsculas, tildes o espacios se agrupan:
+ * si ya existe una categoría equivalente se usa su nombre; si no, se propone
+ * crearla con la grafía más usada y un tipo deducido de los movimientos.
+ */
+export function planCategoryMigration(categories: Category[], usages: CategoryUsage[]): CategoryMigration {
+    const groups = new Map<string, { counts: Map<string, number>; types: Set<TransactionType> }>();
+
+    for (const usage of usages) {
+        const key = normalizeText(usage.category);
+        if (!key) continue;
+
+        const group = groups.get(key) ?? { counts: new Map(), types: new Set() };
+        group.counts.set(usage.category, (group.counts.get(usage.category) ?? 0) + 1);
+        if (usage.type) group.types.add(usage.type);
+        groups.set(key, group);
+    }
+
+    const toCreate: Omit<Category, 'id'>[] = [];
+    const renames = new Map<string, string>();
+
+    for (const [key, group] of groups) {
+        const existing = categories.find((category) => normalizeText(category.name) === key);
+        let name = existing?.name;
+
+        if (!name) {
+            // La grafía más usada (a igualdad, la primera encontrada) da nombre a la categoría
+            name = [...group.counts].sort((a, b) => b[1] - a[1])[0][0].trim();
+            const type: CategoryType = group.types.has('income') && !group.types.has('expense') ? 'income'
+                : group.types.has('expense') && !group.types.has('income') ? 'expense'
+                : 'both';
+            toCreate.push({
+                name,
+                type,
+                color: CATEGORY_COLORS[(categories.length + toCreate.length) % CATEGORY_COLORS.length],
+                icon: DEFAULT_CATEGORY_ICON,
+            });
+        }
+
+        for (const variant of group.counts.keys()) {
+            if (variant !== name) renames.set(variant, name);
+        }
+    }
+
+    return { toCreate, renames };
+}
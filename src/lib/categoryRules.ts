@@ -0,0 +1,121 @@
+import { CategoryRule, Transaction, TransactionType } from '@/types';
+import { normalizeText } from '@/lib/text';
+import { isSplit } from '@/lib/splits';
+
+/** Datos de un movimiento con los que se elige su categoría. */
+export interface CategorizationInput {
+    title: string;
+    /** Puede faltar mientras se completa el formulario. */
+    amount?: number;
+    type: TransactionType;
+}
+
+/** Categoría sugerida para un movimiento y de dónde sale. */
+export interface CategorySuggestion {
+    category: string;
+    /** Una regla del usuario o lo aprendido de los títulos del historial. */
+    source: 'rule' | 'history';
+}
+
+/** Longitud mínima de la clave del título para sugerir por historial. */
+const MIN_LEARNED_KEY_LENGTH = 3;
+
+/**
+ * Clave de un título para compararlo con el historial: normalizado y sin números ni signos
+ * (ej: "UBER *Trip 4821" → "uber trip"), para que las referencias de cada cobro no
+ * impidan reconocer al comercio.
+ */
+export const getTitleKey = (title: string) =>
+    normalizeText(title).replace(/[^a-z]+/g, ' ').trim();
+
+/**
+ * Indica si un movimiento cumple las condiciones de la regla.
+ * Las condiciones de monto no se cumplen mientras el monto no se conozca.
+ */
+export function matchesRule(rule: CategoryRule, { title, amount, type }: CategorizationInput): boolean {
+    if (type === 'transfer' || (rule.type && rule.type !== type)) return false;
+    if (!normalizeText(title).includes(normalizeText(rule.titleContains))) return false;
+
+    if (rule.minAmount === undefined && rule.maxAmount === undefined) return true;
+    if (amount === undefined || !Number.isFinite(amount)) return false;
+    return (rule.minAmount === undefined || amount >= rule.minAmount) && (rule.maxAmount === undefined || amount <= rule.maxAmount);
+}
+
+/** Primera regla (en el orden de la lista) que cumple el movimiento. */
+export const findMatchingRule = (rules: CategoryRule[], input: CategorizationInput) =>
+    rules.find((rule) => matchesRule(rule, input)) ?? null;
+
+/** Uso de una categoría entre los movimientos con títulos equivalentes. */
+interface CategoryStats {
+    count: number;
+    /** Fecha del movimiento más reciente con esa categoría. */
+    lastDate: string;
+}
+
+/** Categorías usadas por tipo de movimiento y clave de título (`tipo|clave`). */
+type TitleIndex = Map<string, Map<string, CategoryStats>>;
+
+/** Agrupa el historial por tipo y clave de título. Las transacciones divididas no cuentan. */
+function indexTitles(history: Transaction[]): TitleIndex {
+    const index: TitleIndex = new Map();
+
+    for (const tx of history) {
+        if (tx.type === 'transfer' || isSplit(tx)) continue;
+
+        const key = `${tx.type}|${getTitleKey(tx.title)}`;
+        const categories = index.get(key) ?? new Map<string, CategoryStats>();
+        const current = categories.get(tx.category);
+        categories.set(tx.category, {
+            count: (current?.count ?? 0) + 1,
+            lastDate: current && current.lastDate > tx.date ? current.lastDate : tx.date,
+        });
+        index.set(key, categories);
+    }
+
+    return index;
+}
+
+/**
+ * Categoría aprendida de los movimientos anteriores del mismo tipo con un título equivalente.
+ * Se prefieren los títulos con la misma clave; si no hay, los que empiezan por ella
+ * (ej: "Uber" reconoce "Uber Trip"). Entre los candidatos gana la categoría más usada
+ * y, a igualdad, la del movimiento más reciente.
+ */
+function getLearnedCategory(index: TitleIndex, { title, type }: CategorizationInput): string | null {
+    const key = getTitleKey(title);
+    if (type === 'transfer' || key.length < MIN_LEARNED_KEY_LENGTH) return null;
+
+    const exact = index.get(`${type}|${key}`);
+    const groups = exact
+        ? [exact]
+        : [...index].filter(([indexKey]) => indexKey.startsWith(`${type}|${key} `)).map(([, categories]) => categories);
+
+    const totals = new Map<string, CategoryStats>();
+    for (const [category, { count, lastDate }] of groups.flatMap((categories) => [...categories])) {
+        const current = totals.get(category);
+        totals.set(category, {
+            count: (current?.count ?? 0) + count,
+            lastDate: current && current.lastDate > lastDate ? current.lastDate : lastDate,
+        });
+    }
+
+    const [best] = [...totals].sort(([, a], [, b]) => b.count - a.count || b.lastDate.localeCompare(a.lastDate));
+    return best?.[0] ?? null;
+}
+
+/**
+ * Crea el categorizador de movimientos: sugiere la categoría de la primera regla que cumple
+ * o, si ninguna aplica, la aprendida del historial. El historial se indexa una sola vez,
+ * para categorizar muchas filas (importación) o cada tecla del título sin recorrerlo entero.
+ */
+export function createCategorizer(rules: CategoryRule[], history: Transaction[]) {
+    const index = indexTitles(history);
+
+    return (input: CategorizationInput): CategorySuggestion | null => {
+        const rule = findMatchingRule(rules, input);
+        if (rule) return { category: rule.category, source: 'rule' };
+
+        const learned = getLearnedCategory(index, input);
+        return learned ? { category: learned, source: 'history' } : null;
+    };
+}
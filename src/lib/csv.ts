@@ -0,0 +1,82 @@
+/**
+ * Lectura de archivos CSV (RFC 4180): campos entre comillas, comillas escapadas ("")
+ * y saltos de línea dentro de un campo.
+ */
+
+/**
+ * Detecta el separador más probable de la primera línea (`,`, `;` o tabulación).
+ * Los extractos con coma decimal suelen usar `;`.
+ */
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const candidates = [',', ';', '\t'];
+    const counts = candidates.map((candidate) => firstLine.split(candidate).length - 1);
+    const best = counts.indexOf(Math.max(...counts));
+
+    return counts[best] > 0 ? candidates[best] : ',';
+}
+
+/**
+ * Convierte el contenido de un CSV en filas de celdas.
+ * @param text - Contenido del archivo.
+ * @param delimiter - Separador; si se omite se detecta automáticamente.
+ * @returns Filas no vacías con las celdas sin comillas.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    // Quita el BOM de UTF-8 que añaden algunas hojas de cálculo
+    const content = text.replace(/^\uFEFF/, '');
+
+    const pushRow = () => {
+        row.push(cell);
+        if (row.some((value) => value.trim() !== '')) rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            pushRow();
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) pushRow();
+
+    return rows;
+}
+
+/** Escapa una celda si contiene el separador, comillas o saltos de línea. */
+const escapeCell = (value: string, delimiter: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializa filas de celdas a CSV.
+ * @param rows - Filas (la primera suele ser el encabezado).
+ * @param delimiter - Separador de columnas.
+ */
+export function stringifyCsv(rows: (string | number)[][], delimiter = ','): string {
+    return rows.map((row) => row.map((cell) => escapeCell(String(cell), delimiter)).join(delimiter)).join('\r\n');
+}
@@ -0,0 +1,110 @@
+import { CurrencyCode, ExchangeRate, Transaction } from '@/types';
+
+/** Monedas disponibles (ISO 4217). */
+export const CURRENCY_CODES = ['COP', 'USD', 'EUR', 'MXN', 'ARS', 'CLP', 'PEN', 'BRL', 'GBP'] as const satisfies readonly CurrencyCode[];
+
+/** Moneda asumida para usuarios y transacciones creados antes del soporte multimoneda. */
+export const DEFAULT_CURRENCY = 'COP' satisfies CurrencyCode;
+
+/** Locale usado para formatear montos (el mismo que las fechas). */
+const LOCALE = 'es-ES';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Formatea un monto con el símbolo y los decimales propios de su moneda.
+ * Los formateadores se reutilizan porque crearlos es costoso.
+ */
+export function formatCurrency(amount: number, currency: CurrencyCode): string {
+    let formatter = formatters.get(currency);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(LOCALE, { style: 'currency', currency });
+        formatters.set(currency, formatter);
+    }
+    return formatter.format(amount);
+}
+
+/** Nombre legible de la moneda (ej: "dólar estadounidense"). */
+export function getCurrencyName(currency: CurrencyCode): string {
+    return new Intl.DisplayNames(LOCALE, { type: 'currency' }).of(currency) ?? currency;
+}
+
+/** Tasas de cada par `from->to` ordenadas por fecha, incluidas las registradas en el sentido inverso. */
+type RateIndex = Map<string, { date: string; rate: number }[]>;
+
+const pairKey = (from: CurrencyCode, to: CurrencyCode) => `${from}->${to}`;
+
+/** Agrupa la tabla de tasas por par de monedas (en ambos sentidos) y ordena cada grupo por fecha. */
+function indexRates(rates: ExchangeRate[]): RateIndex {
+    const index: RateIndex = new Map();
+    const add = (key: string, date: string, rate: number) => {
+        const list = index.get(key);
+        if (list) list.push({ date, rate });
+        else index.set(key, [{ date, rate }]);
+    };
+
+    for (const rate of rates) {
+        add(pairKey(rate.from, rate.to), rate.date, rate.rate);
+        add(pairKey(rate.to, rate.from), rate.date, 1 / rate.rate);
+    }
+    for (const list of index.values()) list.sort((a, b) => a.date.localeCompare(b.date));
+
+    return index;
+}
+
+/** Tasa del índice para un par y una fecha (ver findRate). */
+function lookupRate(index: RateIndex, from: CurrencyCode, to: CurrencyCode, date: string): number | null {
+    if (from === to) return 1;
+
+    const candidates = index.get(pairKey(from, to));
+    if (!candidates) return null;
+
+    // Búsqueda binaria de la última tasa en o antes de la fecha
+    let low = 0;
+    let high = candidates.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (candidates[middle].date <= date) low = middle + 1;
+        else high = middle;
+    }
+
+    return candidates[Math.max(low - 1, 0)].rate;
+}
+
+/**
+ * Busca la tasa para convertir `from` en `to` en una fecha.
+ * Usa la tasa más reciente en o antes de esa fecha y, si no hay ninguna, la
+ * más antigua posterior. Acepta tasas registradas en el sentido inverso.
+ * Para convertir muchos montos con la misma tabla, usar createAmountConverter, que la indexa una sola vez.
+ * @returns Unidades de `to` por cada unidad de `from`, o null si no hay tasa para el par.
+ */
+export function findRate(rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode, date: string): number | null {
+    return lookupRate(indexRates(rates), from, to, date);
+}
+
+/** Devuelve el monto de una transacción en otra moneda, o null si no se puede convertir. */
+export type AmountConverter = (tx: Pick<Transaction, 'amount' | 'currency' | 'date'>) => number | null;
+
+/**
+ * Crea un conversor de montos a la moneda base a partir de la tabla de tasas.
+ * La tabla se indexa por par de monedas al crearlo, no en cada conversión.
+ */
+export function createAmountConverter(rates: ExchangeRate[], baseCurrency: CurrencyCode): AmountConverter {
+    const index = indexRates(rates);
+
+    return (tx) => {
+        const rate = lookupRate(index, tx.currency, baseCurrency, tx.date);
+        return rate === null ? null : tx.amount * rate;
+    };
+}
+
+/**
+ * Monedas de las transacciones que no se pueden convertir con la tabla actual.
+ */
+export function getMissingRateCurrencies(transactions: Transaction[], convert: AmountConverter): CurrencyCode[] {
+    const missing = new Set<CurrencyCode>();
+    for (const tx of transactions) {
+        if (!missing.has(tx.currency) && convert(tx) === null) missing.add(tx.currency);
+    }
+    return [...missing].sort();
+}
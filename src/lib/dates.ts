@@ -0,0 +1,46 @@
+/**
+ * Utilidades para fechas en formato `YYYY-MM-DD` (las que maneja Transaction.date).
+ * Se opera en UTC para que el resultado no dependa de la zona horaria.
+ */
+
+/** Convierte una fecha local a `YYYY-MM-DD`. */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Fecha de hoy como `YYYY-MM-DD`. */
+export const getTodayKey = () => toDateKey(new Date());
+
+/** Separa una fecha `YYYY-MM-DD` en sus componentes numéricos (mes 1-12). */
+export function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return { year, month, day };
+}
+
+/** Construye una fecha `YYYY-MM-DD` a partir de sus componentes (mes 1-12). */
+export function formatDateKey(year: number, month: number, day: number): string {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.toISOString().slice(0, 10);
+}
+
+/** Número de días del mes indicado (mes 1-12). */
+export function getDaysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Suma (o resta) días a una fecha `YYYY-MM-DD`. */
+export function addDays(dateKey: string, days: number): string {
+    const { year, month, day } = parseDateKey(dateKey);
+    return formatDateKey(year, month, day + days);
+}
+
+/** Días transcurridos entre dos fechas `YYYY-MM-DD` (negativo si `to` es anterior). */
+export function getDaysBetween(from: string, to: string): number {
+    const toTime = (dateKey: string) => {
+        const { year, month, day } = parseDateKey(dateKey);
+        return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toTime(to) - toTime(from)) / 86_400_000);
+}
@@ -0,0 +1,59 @@
+import { ExchangeRate } from '@/types';
+import { exchangeRateSchema } from '@/validations/validations';
+import { parseCsv } from '@/lib/csv';
+import { normalizeText } from '@/lib/text';
+import { parseAmount, parseDate } from '@/lib/transactionImport';
+
+/** Encabezados aceptados para cada columna de la tabla de tasas (sin tildes). */
+const RATE_HEADERS = {
+    date: ['fecha', 'date'],
+    from: ['de', 'desde', 'origen', 'from'],
+    to: ['a', 'hacia', 'destino', 'to'],
+    rate: ['tasa', 'valor', 'rate'],
+} as const;
+
+/** Resultado de analizar un archivo de tasas. */
+export interface ExchangeRateImportResult {
+    rates: Omit<ExchangeRate, 'id'>[];
+    /** Errores por fila, listos para mostrar. */
+    errors: string[];
+}
+
+/**
+ * Analiza un CSV de tasas con encabezados `Fecha, De, A, Tasa`
+ * (1 unidad de "De" equivale a "Tasa" unidades de "A").
+ * @throws {Error} Si faltan columnas obligatorias.
+ */
+export function parseExchangeRatesCsv(text: string): ExchangeRateImportResult {
+    const [header = [], ...rows] = parseCsv(text);
+    const normalized = header.map(normalizeText);
+
+    const columns = Object.fromEntries(
+        Object.entries(RATE_HEADERS).map(([field, aliases]) => [
+            field,
+            normalized.findIndex((name) => (aliases as readonly string[]).includes(name)),
+        ])
+    ) as Record<keyof typeof RATE_HEADERS, number>;
+
+    if (Object.values(columns).some((index) => index === -1)) {
+        throw new Error('El archivo debe tener las columnas Fecha, De, A y Tasa');
+    }
+
+    const rates: Omit<ExchangeRate, 'id'>[] = [];
+    const errors: string[] = [];
+
+    rows.forEach((cells, index) => {
+        const cell = (field: keyof typeof RATE_HEADERS) => cells[columns[field]]?.trim() ?? '';
+        const result = exchangeRateSchema.safeParse({
+            date: parseDate(cell('date')) ?? '',
+            from: cell('from').toUpperCase(),
+            to: cell('to').toUpperCase(),
+            rate: parseAmount(cell('rate')) ?? 0,
+        });
+
+        if (result.success) rates.push(result.data);
+        else errors.push(`Fila ${index + 2}: ${result.error.issues.map((issue) => issue.message).join(' · ')}`);
+    });
+
+    return { rates, errors };
+}
@@ -0,0 +1,146 @@
+import { Account, CurrencyCode, Goal, Transaction } from '@/types';
+import { AmountConverter } from '@/lib/currency';
+import { expandSplits } from '@/lib/splits';
+import { getDaysBetween, parseDateKey } from '@/lib/dates';
+import { TRANSFER_CATEGORY } from '@/lib/accounts';
+
+export type GoalStatus = 'completed' | 'on-track' | 'behind';
+
+/** Estado calculado de una meta de ahorro en una fecha. */
+export interface GoalProgress {
+    goal: Goal;
+    /** Aportes acumulados, en la moneda base. */
+    saved: number;
+    /** Lo que falta para el objetivo (0 si ya se alcanzó). */
+    remaining: number;
+    /** Porcentaje del objetivo reunido. */
+    percentage: number;
+    /** Meses que quedan contando el actual y el de la fecha objetivo (0 si ya pasó). */
+    monthsLeft: number;
+    /** Aporte mensual necesario para llegar a tiempo. */
+    monthlyContribution: number;
+    status: GoalStatus;
+}
+
+/** Valores iniciales del formulario de transacciones para registrar un aporte. */
+export type ContributionDraft = Partial<Pick<Transaction, 'title' | 'amount' | 'currency' | 'type' | 'category' | 'accountId' | 'toAccountId'>>;
+
+/** Monto con signo que un movimiento aporta a la meta, en su moneda; null si no le afecta. */
+type Contribution = Pick<Transaction, 'amount' | 'currency' | 'date'>;
+
+/**
+ * Aportes de una transacción a una meta.
+ * - Vinculada a una categoría: cada movimiento (o línea de una división) de la categoría suma su monto.
+ * - Vinculada a una cuenta: los ingresos y transferencias entrantes suman; los gastos y salidas restan.
+ */
+function getContributions(goal: Goal, tx: Transaction, accounts: Account[]): Contribution[] {
+    if (tx.date < goal.startDate) return [];
+
+    if (goal.category !== undefined) {
+        return expandSplits(tx)
+            .filter((line) => line.type !== 'transfer' && line.category === goal.category)
+            .map(({ amount, currency, date }) => ({ amount, currency, date }));
+    }
+
+    const contributions: Contribution[] = [];
+    if (tx.accountId === goal.accountId) {
+        contributions.push({ amount: tx.type === 'income' ? tx.amount : -tx.amount, currency: tx.currency, date: tx.date });
+    }
+    if (tx.type === 'transfer' && tx.toAccountId === goal.accountId) {
+        // El monto recibido viene en la moneda de la cuenta de destino
+        const currency = tx.toAmount !== undefined
+            ? accounts.find((account) => account.id === goal.accountId)?.currency ?? tx.currency
+            : tx.currency;
+        contributions.push({ amount: tx.toAmount ?? tx.amount, currency, date: tx.date });
+    }
+    return contributions;
+}
+
+/**
+ * Meses entre el de `today` y el de `targetDate`, ambos incluidos.
+ * @returns 0 si la fecha objetivo ya pasó.
+ */
+export function getMonthsLeft(today: string, targetDate: string): number {
+    if (targetDate < today) return 0;
+
+    const from = parseDateKey(today);
+    const to = parseDateKey(targetDate);
+    return (to.year - from.year) * 12 + (to.month - from.month) + 1;
+}
+
+/**
+ * Calcula el avance de cada meta a la fecha `today`.
+ * Una meta va al día si lo reunido alcanza la parte proporcional del objetivo según el tiempo
+ * transcurrido entre `startDate` y `targetDate` (ahorro lineal); si no, va atrasada.
+ * @param convert - Lleva cada aporte a la moneda base; los que no tienen tasa (null) se omiten.
+ */
+export function computeGoalProgress(
+    goals: Goal[],
+    transactions: Transaction[],
+    accounts: Account[],
+    today: string,
+    convert: AmountConverter = (tx) => tx.amount
+): GoalProgress[] {
+    return goals.map((goal) => {
+        const saved = transactions
+            .flatMap((tx) => getContributions(goal, tx, accounts))
+            .reduce((sum, contribution) => sum + (convert(contribution) ?? 0), 0);
+
+        const remaining = Math.max(goal.targetAmount - saved, 0);
+        const monthsLeft = getMonthsLeft(today, goal.targetDate);
+        const totalDays = getDaysBetween(goal.startDate, goal.targetDate);
+        const elapsed = totalDays > 0 ? Math.min(Math.max(getDaysBetween(goal.startDate, today) / totalDays, 0), 1) : 1;
+
+        let status: GoalStatus = 'behind';
+        if (remaining === 0) status = 'completed';
+        else if (saved >= goal.targetAmount * elapsed) status = 'on-track';
+
+        return {
+            goal,
+            saved,
+            remaining,
+            percentage: (saved / goal.targetAmount) * 100,
+            monthsLeft,
+            // Con la fecha vencida, lo que falta se necesitaría de una vez
+            monthlyContribution: remaining / Math.max(monthsLeft, 1),
+            status,
+        };
+    });
+}
+
+/**
+ * Transacción sugerida para aportar a una meta desde su tarjeta: un gasto en la categoría vinculada
+ * o una transferencia hacia la cuenta vinculada, por el aporte mensual necesario.
+ * El monto solo se sugiere si la transacción queda en la moneda base (la del aporte calculado).
+ */
+export function getContributionDraft(
+    { goal, monthlyContribution }: GoalProgress,
+    accounts: Account[],
+    baseCurrency: CurrencyCode
+): ContributionDraft {
+    const title = `Aporte a ${goal.name}`;
+
+    if (goal.category !== undefined) {
+        const account = accounts.find((item) => item.currency === baseCurrency) ?? accounts[0];
+        const currency = account?.currency ?? baseCurrency;
+        return {
+            title,
+            type: 'expense',
+            category: goal.category,
+            accountId: account?.id,
+            currency,
+            amount: currency === baseCurrency && monthlyContribution > 0 ? Math.round(monthlyContribution * 100) / 100 : undefined,
+        };
+    }
+
+    const source = accounts.find((item) => item.id !== goal.accountId);
+    return {
+        title,
+        type: 'transfer',
+        category: TRANSFER_CATEGORY,
+        accountId: source?.id,
+        toAccountId: goal.accountId,
+        currency: source?.currency ?? baseCurrency,
+        amount: source?.currency === baseCurrency && monthlyContribution > 0 ? Math.round(monthlyContribution * 100) / 100 : undefined,
+    };
+}
@@ -0,0 +1,15 @@
+/** Ruta por defecto tras iniciar sesión. */
+export const DEFAULT_AUTH_REDIRECT = '/dashboard';
+
+/**
+ * Valida el parámetro `next` para evitar redirecciones abiertas.
+ * Solo se aceptan rutas internas (empiezan por "/" pero no por "//").
+ * @param next - Valor recibido en la query string.
+ * @returns La ruta segura o la ruta por defecto.
+ */
+export function getSafeRedirectPath(next: string | null | undefined): string {
+    if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+        return DEFAULT_AUTH_REDIRECT;
+    }
+    return next;
+}
@@ -0,0 +1,151 @@
+import type { StateStorage } from 'zustand/middleware';
+import { Transaction } from '@/types';
+import { renameOperation, SingleOperation, TransactionOperation } from '@/lib/undoHistory';
+
+/**
+ * Cambio hecho sin conexión que espera para enviarse a la API.
+ * Las altas guardan la transacción con su ID temporal hasta que el servidor asigna el definitivo.
+ */
+export type QueuedOperation =
+    | TransactionOperation
+    | { kind: 'create'; transaction: Transaction }
+    | { kind: 'purge'; id: string };
+
+/** Reemplaza el ID temporal de un alta sincronizada en las operaciones que siguen en la cola. */
+export function renameQueuedTransaction(queue: QueuedOperation[], from: string, to: string): QueuedOperation[] {
+    return queue.map((operation) => {
+        if (operation.kind === 'create') return operation;
+        if (operation.kind === 'purge') return operation.id === from ? { ...operation, id: to } : operation;
+        return renameOperation(operation, from, to);
+    });
+}
+
+/**
+ * Transacciones del historial que se guardan en el dispositivo: las primeras de la vista cargada,
+ * suficientes para mostrarla al recargar sin conexión sin llenar la cuota del almacenamiento.
+ */
+export const PERSISTED_TRANSACTIONS_LIMIT = 200;
+
+/** Parte del store de transacciones que se guarda en el dispositivo. */
+export interface PersistedTransactionState {
+    /** Usuario dueño de los datos guardados; si inicia sesión otro, se descartan. */
+    ownerId: string | null;
+    /** Primeras transacciones de la vista cargada (hasta PERSISTED_TRANSACTIONS_LIMIT). */
+    transactions: Transaction[];
+    queue: QueuedOperation[];
+}
+
+/** Versión del estado guardado; sube con cada cambio de forma que necesite migración. */
+export const TRANSACTION_STORE_VERSION = 2;
+
+/** Estado guardado durante una migración, cuya forma depende de la versión de origen. */
+type StoredState = Record<string, unknown>;
+
+/**
+ * Migraciones del estado guardado: la de clave N lo lleva de la versión N-1 a la N.
+ * Cada cambio de forma del estado persistido sube TRANSACTION_STORE_VERSION y agrega su paso aquí.
+ */
+const MIGRATIONS: Record<number, (state: StoredState) => StoredState> = {
+    // Versión 0 (sin versión): se completan los campos con sus valores iniciales
+    1: (state) => ({ ownerId: null, transactions: [], trash: [], queue: [], ...state }),
+    // Versión 2: la papelera ya no se guarda y el historial se acota a las primeras transacciones
+    2: (state) => {
+        const next: StoredState = {
+            ...state,
+            transactions: Array.isArray(state.transactions) ? state.transactions.slice(0, PERSISTED_TRANSACTIONS_LIMIT) : [],
+        };
+        delete next.trash;
+        return next;
+    },
+};
+
+const isRecord = (value: unknown): value is StoredState => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Transacción guardada con los campos que necesitan la tabla y la sincronización. */
+const isStoredTransaction = (value: unknown): value is Transaction =>
+    isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.title === 'string'
+    && typeof value.amount === 'number'
+    && typeof value.currency === 'string'
+    && typeof value.type === 'string'
+    && typeof value.category === 'string'
+    && typeof value.date === 'string';
+
+const isSingleOperation = (value: unknown): value is SingleOperation =>
+    isRecord(value) && (value.kind === 'update'
+        ? isStoredTransaction(value.transaction)
+        : (value.kind === 'delete' || value.kind === 'restore') && typeof value.id === 'string');
+
+const isQueuedOperation = (value: unknown): value is QueuedOperation => {
+    if (!isRecord(value)) return false;
+    if (value.kind === 'create') return isStoredTransaction(value.transaction);
+    if (value.kind === 'purge') return typeof value.id === 'string';
+    if (value.kind === 'batch') return Array.isArray(value.operations) && value.operations.every(isSingleOperation);
+    return isSingleOperation(value);
+};
+
+/**
+ * Arma el estado persistido campo por campo a partir de lo leído del almacenamiento:
+ * los valores con otra forma (datos corruptos o editados a mano) se reemplazan por los iniciales
+ * y las transacciones u operaciones mal formadas se descartan.
+ * @param persisted - Estado leído del almacenamiento (ya migrado a la versión actual).
+ */
+export function readPersistedTransactionState(persisted: unknown): PersistedTransactionState {
+    const state = isRecord(persisted) ? persisted : {};
+
+    return {
+        ownerId: typeof state.ownerId === 'string' ? state.ownerId : null,
+        transactions: Array.isArray(state.transactions)
+            ? state.transactions.filter(isStoredTransaction).slice(0, PERSISTED_TRANSACTIONS_LIMIT)
+            : [],
+        queue: Array.isArray(state.queue) ? state.queue.filter(isQueuedOperation) : [],
+    };
+}
+
+/**
+ * Lleva el estado guardado con una versión anterior hasta la actual, paso a paso.
+ * @param persisted - Estado leído del almacenamiento.
+ * @param version - Versión con la que se guardó.
+ */
+export function migrateTransactionState(persisted: unknown, version: number): PersistedTransactionState {
+    let state = isRecord(persisted) ? persisted : {};
+
+    for (let next = version + 1; next <= TRANSACTION_STORE_VERSION; next++) {
+        state = MIGRATIONS[next](state);
+    }
+
+    return readPersistedTransactionState(state);
+}
+
+/** Indica si un error de escritura se debe a que el almacenamiento está lleno. */
+const isQuotaExceeded = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Almacenamiento del estado que no falla si se llena la cuota: vuelve a intentarlo guardando
+ * solo la cola, que no se puede recuperar del servidor, y si tampoco cabe conserva lo último guardado.
+ * El estado sigue completo en memoria y se vuelve a guardar con el siguiente cambio.
+ */
+export function createQuotaSafeStorage(storage: StateStorage): StateStorage {
+    return {
+        getItem: (name) => storage.getItem(name),
+        removeItem: (name) => storage.removeItem(name),
+        setItem: (name, value) => {
+            try {
+                storage.setItem(name, value);
+                return;
+            } catch (error) {
+                if (!isQuotaExceeded(error)) throw error;
+            }
+
+            const { state, version } = JSON.parse(value) as { state: PersistedTransactionState; version?: number };
+            try {
+                storage.setItem(name, JSON.stringify({ state: { ...state, transactions: [] }, version }));
+            } catch (error) {
+                if (!isQuotaExceeded(error)) throw error;
+                console.warn('No hay espacio para guardar las transacciones en el dispositivo');
+            }
+        },
+    };
+}
@@ -0,0 +1,136 @@
+import { Transaction } from '@/types';
+import { addDays, formatDateKey, getDaysBetween, getDaysInMonth, parseDateKey } from '@/lib/dates';
+
+/**
+ * Periodos predefinidos; `custom` usa un rango elegido por el usuario.
+ * Mes, trimestre y año son calendario; `last3` y `last12` terminan en el mes actual.
+ */
+export type PeriodPreset = 'month' | 'quarter' | 'year' | 'last3' | 'last12' | 'custom';
+
+/** Rango de fechas `YYYY-MM-DD`, ambos extremos inclusive. */
+export interface DateRange {
+    from: string;
+    to: string;
+}
+
+/** Periodo elegido en un selector: el preset y, si es `custom`, su rango. */
+export interface PeriodSelection {
+    preset: PeriodPreset;
+    custom?: DateRange;
+}
+
+export const PERIOD_LABELS: Record<PeriodPreset, string> = {
+    month: 'Este mes',
+    quarter: 'Este trimestre',
+    year: 'Este año',
+    last3: 'Últimos 3 meses',
+    last12: 'Últimos 12 meses',
+    custom: 'Personalizado',
+};
+
+/** Periodos del resumen del dashboard. */
+export const DASHBOARD_PERIODS: PeriodPreset[] = ['month', 'quarter', 'year', 'custom'];
+
+/** Periodos de los gráficos de análisis. */
+export const ANALYTICS_PERIODS: PeriodPreset[] = ['month', 'last3', 'last12', 'custom'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Primer día del mes desplazado `offset` meses respecto a la fecha dada. */
+function getMonthStart(dateKey: string, offset = 0): string {
+    const { year, month } = parseDateKey(dateKey);
+    return formatDateKey(year, month + offset, 1);
+}
+
+/** Último día del mes de la fecha dada. */
+function getMonthEnd(dateKey: string): string {
+    const { year, month } = parseDateKey(dateKey);
+    return formatDateKey(year, month, getDaysInMonth(year, month));
+}
+
+/**
+ * Primer mes (desplazamiento respecto al mes de `today`) y cantidad de meses de cada preset.
+ */
+function getPresetMonths(preset: Exclude<PeriodPreset, 'custom'>, today: string): { offset: number; months: number } {
+    const { month } = parseDateKey(today);
+
+    switch (preset) {
+        case 'quarter':
+            return { offset: -((month - 1) % 3), months: 3 };
+        case 'year':
+            return { offset: 1 - month, months: 12 };
+        case 'last3':
+            return { offset: -2, months: 3 };
+        case 'last12':
+            return { offset: -11, months: 12 };
+        default:
+            return { offset: 0, months: 1 };
+    }
+}
+
+/**
+ * Rango de fechas de un periodo. Los presets abarcan meses completos según el mes de `today`.
+ * Un rango personalizado invertido se corrige intercambiando los extremos; sin rango se usa el mes actual.
+ */
+export function getPeriodRange(selection: PeriodSelection, today: string): DateRange {
+    if (selection.preset === 'custom' && selection.custom) {
+        const { from, to } = selection.custom;
+        return from <= to ? { from, to } : { from: to, to: from };
+    }
+
+    const { offset, months } = getPresetMonths(selection.preset === 'custom' ? 'month' : selection.preset, today);
+    return { from: getMonthStart(today, offset), to: getMonthEnd(getMonthStart(today, offset + months - 1)) };
+}
+
+/**
+ * Periodo anterior equivalente: si el rango son meses completos, los mismos meses justo antes
+ * (el trimestre o año anterior); si no, la misma cantidad de días inmediatamente antes.
+ */
+export function getPreviousRange(range: DateRange): DateRange {
+    if (parseDateKey(range.from).day === 1 && range.to === getMonthEnd(range.to)) {
+        const months = listMonthKeys(range).length;
+        return { from: getMonthStart(range.from, -months), to: addDays(range.from, -1) };
+    }
+
+    const days = getDaysBetween(range.from, range.to) + 1;
+    return { from: addDays(range.from, -days), to: addDays(range.from, -1) };
+}
+
+/** Claves `YYYY-MM` de todos los meses que toca el rango, en orden. */
+export function listMonthKeys(range: DateRange): string[] {
+    const keys: string[] = [];
+    for (let month = getMonthStart(range.from); month <= range.to; month = getMonthStart(month, 1)) {
+        keys.push(month.slice(0, 7));
+    }
+    return keys;
+}
+
+/** Transacciones con fecha dentro del rango (inclusive). */
+export function filterByRange(transactions: Transaction[], range: DateRange): Transaction[] {
+    return transactions.filter((tx) => tx.date >= range.from && tx.date <= range.to);
+}
+
+/**
+ * Lee el periodo desde la query string (`?period=&start=&end=`).
+ * Los valores desconocidos se ignoran y se usa el mes actual.
+ */
+export function parsePeriod(params: URLSearchParams, presets: PeriodPreset[] = DASHBOARD_PERIODS): PeriodSelection {
+    const preset = params.get('period') as PeriodPreset;
+    const from = params.get('start');
+    const to = params.get('end');
+
+    return {
+        preset: presets.includes(preset) ? preset : 'month',
+        custom: from && to && DATE_PATTERN.test(from) && DATE_PATTERN.test(to) ? { from, to } : undefined,
+    };
+}
+
+/** Agrega el periodo a la query string, omitiendo el predeterminado (mes actual). */
+export function serializePeriod(selection: PeriodSelection, params = new URLSearchParams()): URLSearchParams {
+    if (selection.preset !== 'month') params.set('period', selection.preset);
+    if (selection.preset === 'custom' && selection.custom) {
+        params.set('start', selection.custom.from);
+        params.set('end', selection.custom.to);
+    }
+    return params;
+}
@@ -0,0 +1,89 @@
+import { RecurringRule, Transaction } from '@/types';
+import { addDays, formatDateKey, getDaysInMonth, parseDateKey } from '@/lib/dates';
+
+/** Límite de iteraciones por cálculo (protección ante reglas diarias muy antiguas). */
+const MAX_ITERATIONS = 100_000;
+
+/**
+ * Fecha de la ocurrencia número `index` de una regla (la 0 es la fecha de inicio).
+ * @returns La fecha `YYYY-MM-DD` o null si ese mes no tiene el día indicado y la política es 'skip'.
+ */
+function getNthOccurrence(rule: RecurringRule, index: number): string | null {
+    const step = index * rule.interval;
+
+    switch (rule.frequency) {
+        case 'daily':
+            return addDays(rule.startDate, step);
+        case 'weekly':
+            return addDays(rule.startDate, step * 7);
+        case 'monthly':
+        case 'yearly': {
+            const { year, month, day } = parseDateKey(rule.startDate);
+            const monthsToAdd = rule.frequency === 'monthly' ? step : step * 12;
+            const targetYear = year + Math.floor((month - 1 + monthsToAdd) / 12);
+            const targetMonth = ((month - 1 + monthsToAdd) % 12) + 1;
+            const lastDay = getDaysInMonth(targetYear, targetMonth);
+
+            // Días 29-31 en meses más cortos: último día del mes u omitir la ocurrencia
+            if (day > lastDay) {
+                return rule.monthEndPolicy === 'clamp' ? formatDateKey(targetYear, targetMonth, lastDay) : null;
+            }
+            return formatDateKey(targetYear, targetMonth, day);
+        }
+    }
+}
+
+/**
+ * Lista las fechas de ocurrencia de una regla dentro de un rango.
+ * @param rule - Regla de recurrencia.
+ * @param from - Fecha inicial (inclusive).
+ * @param until - Fecha final (inclusive); se recorta a `rule.endDate` si existe.
+ */
+export function getOccurrenceDates(rule: RecurringRule, from: string, until: string): string[] {
+    const limit = rule.endDate && rule.endDate < until ? rule.endDate : until;
+    const dates: string[] = [];
+
+    for (let index = 0; index < MAX_ITERATIONS; index++) {
+        const date = getNthOccurrence(rule, index);
+        if (date === null) continue;
+        if (date > limit) break;
+        if (date >= from) dates.push(date);
+    }
+
+    return dates;
+}
+
+/**
+ * Genera las transacciones pendientes de una regla hasta `today`.
+ * Solo considera ocurrencias posteriores a `lastGeneratedDate`, de modo que
+ * una ocurrencia eliminada por el usuario no vuelva a aparecer.
+ */
+export function getDueOccurrences(rule: RecurringRule, today: string): Omit<Transaction, 'id'>[] {
+    const from = rule.lastGeneratedDate ? addDays(rule.lastGeneratedDate, 1) : rule.startDate;
+
+    return getOccurrenceDates(rule, from, today).map((date) => ({
+        title: rule.title,
+        amount: rule.amount,
+        currency: rule.currency,
+        type: rule.type,
+        category: rule.category,
+        accountId: rule.accountId,
+        ...(rule.type === 'transfer' && { toAccountId: rule.toAccountId, toAmount: rule.toAmount }),
+        date,
+        recurringRuleId: rule.id,
+        occurrenceDate: date,
+    }));
+}
+
+/** Descripción corta de la frecuencia (ej: "Cada 2 semanas"). */
+export function describeRecurrence(rule: Pick<RecurringRule, 'frequency' | 'interval'>): string {
+    const labels = {
+        daily: ['Diario', 'días'],
+        weekly: ['Semanal', 'semanas'],
+        monthly: ['Mensual', 'meses'],
+        yearly: ['Anual', 'años'],
+    } as const;
+    const [single, plural] = labels[rule.frequency];
+
+    return rule.interval === 1 ? single : `Cada ${rule.interval} ${plural}`;
+}
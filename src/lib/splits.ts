@@ -0,0 +1,56 @@
+import { SplitLine, Transaction } from '@/types';
+
+/** Indica si la transacción está dividida entre varias categorías. */
+export const isSplit = (transaction: Pick<Transaction, 'splits'>) => (transaction.splits?.length ?? 0) > 0;
+
+/** Categorías de la transacción: las de sus líneas si está dividida, o la suya. */
+export const getTransactionCategories = (transaction: Pick<Transaction, 'category' | 'splits'>) =>
+    isSplit(transaction) ? transaction.splits!.map((line) => line.category) : [transaction.category];
+
+/**
+ * Descompone una transacción dividida en una copia por línea (con la categoría y el monto de la línea).
+ * Las agregaciones por categoría trabajan sobre estas copias, así que la conversión de moneda
+ * se aplica a cada línea igual que a una transacción. Si no está dividida, se devuelve tal cual.
+ */
+export const expandSplits = (transaction: Transaction): Transaction[] =>
+    isSplit(transaction)
+        ? transaction.splits!.map((line) => ({ ...transaction, category: line.category, amount: line.amount }))
+        : [transaction];
+
+/**
+ * Diferencia entre el monto total y la suma de las líneas, redondeada a centavos.
+ * Positiva si falta repartir, negativa si las líneas se pasan.
+ */
+export function getSplitRemainder(amount: number, splits: Pick<SplitLine, 'amount'>[]): number {
+    const assigned = splits.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+    // `|| 0` evita devolver -0 cuando las líneas cuadran
+    return Math.round((amount - assigned) * 100) / 100 || 0;
+}
+
+/**
+ * Valida la división de una transacción.
+ * @returns El mensaje de error o null si es válida (o no está dividida).
+ */
+export function getSplitsError({ amount, type, splits = [] }: { amount: number; type: string; splits?: Pick<SplitLine, 'amount'>[] }): string | null {
+    if (splits.length === 0) return null;
+    if (type === 'transfer') return 'Las transferencias no se pueden dividir';
+    if (splits.length < 2) return 'Divide el monto en al menos dos líneas';
+
+    const remainder = getSplitRemainder(amount, splits);
+    if (remainder === 0) return null;
+
+    const difference = Math.abs(remainder).toLocaleString('es-ES', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return `Las líneas deben sumar el monto total (${remainder > 0 ? 'faltan' : 'sobran'} ${difference})`;
+}
+
+/**
+ * Deja de cada transacción solo la parte de las categorías indicadas (en las divididas, las líneas que coinciden),
+ * para que los totales de un filtro por categoría no cuenten el resto del ticket.
+ * Sin categorías, devuelve las transacciones tal cual.
+ */
+export function narrowToCategories(transactions: Transaction[], categories: string[]): Transaction[] {
+    if (categories.length === 0) return transactions;
+
+    const selected = new Set(categories);
+    return transactions.flatMap(expandSplits).filter((tx) => selected.has(tx.category));
+}
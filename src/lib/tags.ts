@@ -0,0 +1,27 @@
+import { Transaction } from '@/types';
+
+/** Máximo de etiquetas por transacción. */
+export const MAX_TAGS = 10;
+
+/** Longitud máxima de cada etiqueta. */
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Forma canónica de una etiqueta: minúsculas, sin `#` inicial y con guiones en lugar de espacios,
+ * de modo que "Viaje Cartagena" y "#viaje-cartagena" sean la misma.
+ */
+export const normalizeTag = (value: string) =>
+    value.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Etiquetas usadas en las transacciones, de la más frecuente a la menos (empates en orden alfabético).
+ * Alimenta el autocompletado del formulario.
+ */
+export function getTagSuggestions(transactions: Pick<Transaction, 'tags'>[]): string[] {
+    const counts = new Map<string, number>();
+    transactions.forEach((tx) => tx.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+
+    return [...counts.entries()]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b, 'es'))
+        .map(([tag]) => tag);
+}
@@ -0,0 +1,5 @@
+/**
+ * Normaliza un texto para comparaciones: minúsculas, sin tildes y sin espacios extremos.
+ */
+export const normalizeText = (value: string) =>
+    value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
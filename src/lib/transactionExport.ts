@@ -0,0 +1,81 @@
+import { Transaction } from '@/types';
+import { transactionSchema } from '@/validations/validations';
+import { stringifyCsv } from '@/lib/csv';
+
+/** Identificador del formato JSON de exportación (se comprueba al importar). */
+export const EXPORT_FORMAT = 'appinit-transactions';
+export const EXPORT_VERSION = 1;
+
+/** Estructura del archivo JSON exportado. */
+export interface TransactionExportFile {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    transactions: Omit<Transaction, 'id'>[];
+}
+
+/**
+ * Campos de transactionSchema que no se exportan: los comprobantes solo existen en el servidor
+ * del usuario que los subió y la marca de modificación corresponde a la transacción original.
+ */
+const NON_EXPORTED_FIELDS = new Set<string>(['attachments', 'updatedAt']);
+
+/**
+ * Conserva solo los campos que acepta transactionSchema, de modo que el
+ * archivo exportado se pueda volver a importar sin pérdidas.
+ */
+const toExportRecord = (tx: Transaction) =>
+    Object.fromEntries(
+        Object.keys(transactionSchema.shape)
+            .filter((key) => !NON_EXPORTED_FIELDS.has(key) && tx[key as keyof Transaction] !== undefined)
+            .map((key) => [key, tx[key as keyof Transaction]])
+    ) as Omit<Transaction, 'id'>;
+
+/** Caracteres con los que una celda se interpreta como fórmula en Excel y otras hojas de cálculo. */
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Antepone un apóstrofo a los textos que empiezan como una fórmula, para que la hoja de cálculo
+ * los muestre como texto en lugar de ejecutarlos (inyección de fórmulas en CSV).
+ */
+const escapeFormula = (text: string) => (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix)) ? `'${text}` : text);
+
+/**
+ * Exporta a CSV con encabezados en español (reconocidos por la importación).
+ * Incluye BOM para que Excel detecte UTF-8. Los textos se protegen contra fórmulas;
+ * el monto se escribe tal cual para que siga siendo un número.
+ */
+export function transactionsToCsv(transactions: Transaction[]): string {
+    const rows = transactions.map((tx) => [
+        ...[tx.date, tx.title, tx.category, tx.type].map(escapeFormula),
+        tx.amount.toFixed(2),
+        escapeFormula(tx.currency),
+    ]);
+    return '\uFEFF' + stringifyCsv([['Fecha', 'Descripción', 'Categoría', 'Tipo', 'Monto', 'Moneda'], ...rows]);
+}
+
+/**
+ * Exporta a JSON en el formato que acepta la importación.
+ */
+export function transactionsToJson(transactions: Transaction[], exportedAt = new Date()): string {
+    const file: TransactionExportFile = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        transactions: transactions.map(toExportRecord),
+    };
+
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Descarga un texto como archivo desde el navegador.
+ */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,189 @@
+import { Transaction } from '@/types';
+import { normalizeText } from '@/lib/text';
+import { DateRange } from '@/lib/periods';
+import { getTransactionCategories } from '@/lib/splits';
+
+export type TypeFilter = 'all' | 'income' | 'expense' | 'transfer';
+export type SortKey = 'date' | 'amount' | 'title' | 'category';
+export type SortOrder = 'asc' | 'desc';
+
+/** Estado completo de filtros y orden del historial. */
+export interface TransactionFilters {
+    /** Texto libre buscado en título, categoría, etiquetas y notas. */
+    query: string;
+    type: TypeFilter;
+    /** Categorías seleccionadas; vacío = todas. */
+    categories: string[];
+    /** Cuentas seleccionadas (origen o destino); vacío = todas. */
+    accounts: string[];
+    /** Etiquetas seleccionadas (basta con tener una); vacío = todas. */
+    tags: string[];
+    minAmount?: number;
+    maxAmount?: number;
+    /** Fecha inicial `YYYY-MM-DD` (inclusive). */
+    from?: string;
+    /** Fecha final `YYYY-MM-DD` (inclusive). */
+    to?: string;
+    sortBy: SortKey;
+    sortOrder: SortOrder;
+}
+
+export const DEFAULT_FILTERS: TransactionFilters = {
+    query: '',
+    type: 'all',
+    categories: [],
+    accounts: [],
+    tags: [],
+    sortBy: 'date',
+    sortOrder: 'desc',
+};
+
+const TYPE_FILTERS: TypeFilter[] = ['all', 'income', 'expense', 'transfer'];
+const SORT_KEYS: SortKey[] = ['date', 'amount', 'title', 'category'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toNumber = (value: string | null) => {
+    if (value === null || value.trim() === '') return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+};
+
+const toDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : undefined);
+
+/**
+ * Lee los filtros desde la query string (`?q=&type=&category=&account=&tag=&min=&max=&from=&to=&sort=&order=`).
+ * Los valores desconocidos se ignoran y se usan los predeterminados.
+ */
+export function parseFilters(params: URLSearchParams): TransactionFilters {
+    const type = params.get('type') as TypeFilter;
+    const sortBy = params.get('sort') as SortKey;
+
+    return {
+        query: params.get('q') ?? '',
+        type: TYPE_FILTERS.includes(type) ? type : DEFAULT_FILTERS.type,
+        categories: params.getAll('category').filter(Boolean),
+        accounts: params.getAll('account').filter(Boolean),
+        tags: params.getAll('tag').filter(Boolean),
+        minAmount: toNumber(params.get('min')),
+        maxAmount: toNumber(params.get('max')),
+        from: toDate(params.get('from')),
+        to: toDate(params.get('to')),
+        sortBy: SORT_KEYS.includes(sortBy) ? sortBy : DEFAULT_FILTERS.sortBy,
+        sortOrder: params.get('order') === 'asc' ? 'asc' : DEFAULT_FILTERS.sortOrder,
+    };
+}
+
+/**
+ * Convierte los filtros en query string, omitiendo los valores predeterminados
+ * para que las URLs compartidas sean cortas.
+ */
+export function serializeFilters(filters: TransactionFilters): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (filters.query.trim()) params.set('q', filters.query.trim());
+    if (filters.type !== DEFAULT_FILTERS.type) params.set('type', filters.type);
+    filters.categories.forEach((category) => params.append('category', category));
+    filters.accounts.forEach((account) => params.append('account', account));
+    filters.tags.forEach((tag) => params.append('tag', tag));
+    if (filters.minAmount !== undefined) params.set('min', String(filters.minAmount));
+    if (filters.maxAmount !== undefined) params.set('max', String(filters.maxAmount));
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.sortBy !== DEFAULT_FILTERS.sortBy) params.set('sort', filters.sortBy);
+    if (filters.sortOrder !== DEFAULT_FILTERS.sortOrder) params.set('order', filters.sortOrder);
+
+    return params;
+}
+
+/** Indica si hay algún filtro (no de orden) activo. */
+export function hasActiveFilters(filters: TransactionFilters): boolean {
+    return (
+        filters.query.trim() !== '' ||
+        filters.type !== 'all' ||
+        filters.categories.length > 0 ||
+        filters.accounts.length > 0 ||
+        filters.tags.length > 0 ||
+        filters.minAmount !== undefined ||
+        filters.maxAmount !== undefined ||
+        !!filters.from ||
+        !!filters.to
+    );
+}
+
+/**
+ * Acota el rango de fechas de los filtros a un periodo.
+ * Las fechas del filtro solo pueden estrecharlo; si no se solapan, el rango queda vacío.
+ */
+export function scopeToRange(filters: TransactionFilters, range: DateRange): TransactionFilters & DateRange {
+    return {
+        ...filters,
+        from: filters.from && filters.from > range.from ? filters.from : range.from,
+        to: filters.to && filters.to < range.to ? filters.to : range.to,
+    };
+}
+
+/** Texto en el que busca la consulta: título, categorías (con las líneas y sus notas si está dividida), etiquetas y notas. */
+const getSearchText = (tx: Transaction) =>
+    [
+        tx.title,
+        tx.category,
+        ...(tx.splits ?? []).flatMap((line) => [line.category, line.note ?? '']),
+        ...(tx.tags ?? []),
+        tx.notes ?? '',
+    ].join(' ');
+
+/**
+ * Aplica los filtros (sin ordenar).
+ * Una transacción dividida cumple el filtro de categorías si alguna de sus líneas lo cumple.
+ */
+export function filterTransactions(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+    const query = normalizeText(filters.query.trim());
+    const categories = new Set(filters.categories);
+    const accounts = new Set(filters.accounts);
+    const tags = new Set(filters.tags);
+
+    return transactions.filter((tx) => {
+        if (filters.type !== 'all' && tx.type !== filters.type) return false;
+        if (categories.size > 0 && !getTransactionCategories(tx).some((category) => categories.has(category))) return false;
+        if (accounts.size > 0 && !accounts.has(tx.accountId) && !(tx.toAccountId && accounts.has(tx.toAccountId))) return false;
+        if (tags.size > 0 && !tx.tags?.some((tag) => tags.has(tag))) return false;
+        if (filters.minAmount !== undefined && tx.amount < filters.minAmount) return false;
+        if (filters.maxAmount !== undefined && tx.amount > filters.maxAmount) return false;
+        if (filters.from && tx.date < filters.from) return false;
+        if (filters.to && tx.date > filters.to) return false;
+        if (query && !normalizeText(getSearchText(tx)).includes(query)) return false;
+        return true;
+    });
+}
+
+/**
+ * Compara dos transacciones según la clave indicada.
+ * Los empates se resuelven por ID para que el orden sea estable entre páginas.
+ */
+export function compareTransactions(a: Transaction, b: Transaction, sortBy: SortKey, sortOrder: SortOrder): number {
+    let result: number;
+
+    switch (sortBy) {
+        case 'amount':
+            result = a.amount - b.amount;
+            break;
+        case 'title':
+        case 'category':
+            result = a[sortBy].localeCompare(b[sortBy], 'es', { sensitivity: 'base' });
+            break;
+        default:
+            result = a.date.localeCompare(b.date);
+    }
+
+    if (result === 0) result = a.id.localeCompare(b.id);
+    return sortOrder === 'desc' ? -result : result;
+}
+
+/**
+ * Filtra y ordena; devuelve un arreglo nuevo.
+ */
+export function applyFilters(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+    return filterTransactions(transactions, filters).sort((a, b) =>
+        compareTransactions(a, b, filters.sortBy, filters.sortOrder)
+    );
+}
@@ -0,0 +1,297 @@
+import { CurrencyCode, Transaction, TransactionType } from '@/types';
+import { transactionSchema } from '@/validations/validations';
+import { formatDateKey, getDaysInMonth } from '@/lib/dates';
+import { EXPORT_FORMAT } from '@/lib/transactionExport';
+import { normalizeText } from '@/lib/text';
+import { CategorizationInput } from '@/lib/categoryRules';
+
+/** Campos de Transaction que se pueden asignar a una columna del CSV. */
+export const IMPORT_FIELDS = ['title', 'amount', 'currency', 'type', 'category', 'date'] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Índice de columna del CSV asignado a cada campo. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+    title: 'Descripción',
+    amount: 'Monto',
+    currency: 'Moneda',
+    type: 'Tipo',
+    category: 'Categoría',
+    date: 'Fecha',
+};
+
+/** Categoría asignada cuando el archivo no trae esa columna. */
+export const DEFAULT_IMPORT_CATEGORY = 'Sin categoría';
+
+/** Valores asignados a lo que el archivo no indica. */
+export interface ImportDefaults {
+    /** Moneda de las filas sin columna de moneda (o de los registros anteriores al soporte multimoneda). */
+    currency: CurrencyCode;
+    /** Cuenta de las filas sin cuenta o con una cuenta que no existe. */
+    accountId: string;
+    /** Cuentas existentes del usuario; por defecto solo `accountId`. */
+    accountIds?: string[];
+    /**
+     * Categoría de las filas sin categoría en el archivo (ej: reglas del usuario o historial);
+     * si no devuelve ninguna, se usa DEFAULT_IMPORT_CATEGORY.
+     */
+    categorize?: (input: CategorizationInput) => string | null | undefined;
+}
+
+/** Resultado del análisis de una fila del archivo. */
+export interface ImportRow {
+    /** Número de fila en el archivo (empezando en 1). */
+    line: number;
+    /** Transacción lista para guardar, o null si la fila tiene errores. */
+    data: Omit<Transaction, 'id'> | null;
+    errors: string[];
+    /** Coincide en fecha, monto y título con otra transacción (existente o del mismo archivo). */
+    isDuplicate: boolean;
+}
+
+/** Nombres de encabezado habituales para cada campo (sin tildes). */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    title: ['titulo', 'descripcion', 'concepto', 'detalle', 'title', 'description'],
+    amount: ['monto', 'valor', 'importe', 'cantidad', 'amount'],
+    currency: ['moneda', 'divisa', 'currency'],
+    type: ['tipo', 'type'],
+    category: ['categoria', 'category'],
+    date: ['fecha', 'date'],
+};
+
+/**
+ * Propone una asignación de columnas a partir de los encabezados del archivo.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(normalizeText);
+    const mapping: ColumnMapping = {};
+
+    for (const field of IMPORT_FIELDS) {
+        const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+        if (index !== -1) mapping[field] = index;
+    }
+
+    return mapping;
+}
+
+/**
+ * Convierte un monto escrito en formato local a número con signo.
+ * Acepta coma o punto decimal, separadores de miles, símbolo de moneda,
+ * signo negativo al inicio o al final y paréntesis contables: "(1.234,50)".
+ * @returns El número o null si no es un monto válido.
+ */
+export function parseAmount(raw: string): number | null {
+    let value = raw.trim().replace(/[\s$€£]/g, '').replace(/[A-Za-z]{3}$/, '');
+    if (!value) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(value)) {
+        negative = true;
+        value = value.slice(1, -1);
+    }
+    if (value.startsWith('-') || value.endsWith('-')) {
+        negative = true;
+        value = value.replace(/^-|-$/g, '');
+    }
+    value = value.replace(/^\+/, '');
+
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+
+    if (lastComma !== -1 && lastDot !== -1) {
+        // Ambos separadores: el último es el decimal
+        const decimal = lastComma > lastDot ? ',' : '.';
+        const thousands = decimal === ',' ? '.' : ',';
+        value = value.split(thousands).join('').replace(decimal, '.');
+    } else if (lastComma !== -1 || lastDot !== -1) {
+        // Un solo tipo de separador: es de miles si agrupa de 3 en 3 (ej: 1.500, 12,000,000)
+        const separator = lastComma !== -1 ? ',' : '.';
+        const parts = value.split(separator);
+        const isThousands = parts.length > 2 || (parts.length === 2 && parts[1].length === 3);
+        value = isThousands ? parts.join('') : parts.join('.');
+    }
+
+    if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+    const amount = Number(value);
+    return negative ? -amount : amount;
+}
+
+/**
+ * Convierte una fecha `dd/mm/yyyy`, `dd-mm-yyyy`, `dd/mm/yy` o `yyyy-mm-dd` a `YYYY-MM-DD`.
+ * @returns La fecha normalizada o null si no existe en el calendario.
+ */
+export function parseDate(raw: string): string | null {
+    const value = raw.trim();
+    let year: number, month: number, day: number;
+
+    const iso = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+    const local = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (local) {
+        [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+        if (local[3].length === 2) year += 2000;
+    } else {
+        return null;
+    }
+
+    if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) return null;
+    return formatDateKey(year, month, day);
+}
+
+/**
+ * Interpreta la columna de tipo (ingreso/gasto) en español o inglés.
+ * Los extractos no traen transferencias entre cuentas propias: se importan como ingreso o gasto.
+ */
+export function parseType(raw: string): TransactionType | null {
+    const value = normalizeText(raw);
+    if (['income', 'ingreso', 'ingresos', 'credito', 'abono'].includes(value)) return 'income';
+    if (['expense', 'gasto', 'gastos', 'egreso', 'debito', 'cargo'].includes(value)) return 'expense';
+    return null;
+}
+
+/** Clave usada para detectar duplicados probables: fecha, monto y título. */
+export const getDuplicateKey = (tx: Pick<Transaction, 'date' | 'amount' | 'title'>) =>
+    `${tx.date}|${tx.amount.toFixed(2)}|${normalizeText(tx.title)}`;
+
+/**
+ * Analiza y valida las filas del archivo según la asignación de columnas.
+ * Cada fila se valida con transactionSchema; los montos negativos se
+ * interpretan como gastos cuando no hay columna de tipo (o no se reconoce).
+ * Las filas sin categoría se categorizan con `defaults.categorize`.
+ * @param rows - Filas de datos (sin encabezado).
+ * @param mapping - Columna asignada a cada campo.
+ * @param existing - Transacciones ya guardadas, para marcar duplicados.
+ * @param defaults - Moneda y cuenta asignadas a todas las filas (la moneda solo si el archivo no trae esa columna).
+ * @param firstLine - Número de fila del archivo que corresponde a `rows[0]`.
+ */
+export function buildImportRows(
+    rows: string[][],
+    mapping: ColumnMapping,
+    existing: Transaction[],
+    defaults: ImportDefaults,
+    firstLine = 1
+): ImportRow[] {
+    const parsed = rows.map((cells, index) => {
+        const cell = (field: ImportField) => (mapping[field] !== undefined ? cells[mapping[field]!]?.trim() ?? '' : '');
+        const errors: string[] = [];
+
+        const signedAmount = parseAmount(cell('amount'));
+        if (signedAmount === null) errors.push(`Monto inválido: "${cell('amount')}"`);
+
+        const date = parseDate(cell('date'));
+        if (date === null) errors.push(`Fecha inválida: "${cell('date')}"`);
+
+        const type = parseType(cell('type')) ?? ((signedAmount ?? 0) < 0 ? 'expense' : 'income');
+        const amount = Math.abs(signedAmount ?? 0);
+        const category = cell('category') || defaults.categorize?.({ title: cell('title'), amount, type }) || DEFAULT_IMPORT_CATEGORY;
+
+        const result = transactionSchema.safeParse({
+            title: cell('title'),
+            amount,
+            currency: cell('currency').toUpperCase() || defaults.currency,
+            type,
+            category,
+            date: date ?? '',
+            accountId: defaults.accountId,
+        });
+
+        if (!result.success) {
+            // Los campos con error de formato ya tienen su propio mensaje
+            const failed = new Set([...(signedAmount === null ? ['amount'] : []), ...(date === null ? ['date'] : [])]);
+            for (const issue of result.error.issues) {
+                if (!failed.has(String(issue.path[0]))) errors.push(issue.message);
+            }
+        }
+
+        const data = errors.length === 0 && result.success ? result.data : null;
+        return { line: firstLine + index, data, errors, isDuplicate: false };
+    });
+
+    return markDuplicates(parsed, existing);
+}
+
+/**
+ * Analiza un archivo JSON exportado por la aplicación (o un arreglo de transacciones).
+ * Cada elemento se valida con transactionSchema. Los registros de cuentas que no
+ * existen (otro usuario u otra instalación) pasan a `defaults.accountId`; las
+ * transferencias hacia una cuenta desconocida se marcan como error.
+ * @param defaults - Moneda y cuenta de los registros que no las indican.
+ * @throws {Error} Si el contenido no es JSON o no tiene el formato esperado.
+ */
+export function buildImportRowsFromJson(text: string, existing: Transaction[], defaults: ImportDefaults): ImportRow[] {
+    let content: unknown;
+    try {
+        content = JSON.parse(text);
+    } catch {
+        throw new Error('El archivo no es un JSON válido');
+    }
+
+    const isExportFile = typeof content === 'object' && content !== null && (content as { format?: string }).format === EXPORT_FORMAT;
+    const records = isExportFile ? (content as { transactions: unknown }).transactions : content;
+
+    if (!Array.isArray(records)) {
+        throw new Error('El archivo JSON no tiene el formato de exportación de transacciones');
+    }
+
+    const accountIds = new Set(defaults.accountIds ?? [defaults.accountId]);
+
+    const parsed = records.map((record, index) => {
+        // Los comprobantes y la marca de modificación de archivos exportados antes de omitirlos se descartan
+        const withDefaults = typeof record === 'object' && record !== null
+            ? {
+                currency: defaults.currency,
+                ...record,
+                accountId: accountIds.has(record.accountId) ? record.accountId : defaults.accountId,
+                attachments: undefined,
+                updatedAt: undefined,
+            }
+            : record;
+        const result = transactionSchema.safeParse(withDefaults);
+        const errors = result.success ? [] : result.error.issues.map((issue) => issue.message);
+
+        if (result.success && result.data.toAccountId && !accountIds.has(result.data.toAccountId)) {
+            errors.push('La cuenta de destino de la transferencia no existe');
+        }
+
+        return {
+            line: index + 1,
+            data: result.success && errors.length === 0 ? result.data : null,
+            errors,
+            isDuplicate: false,
+        };
+    });
+
+    return markDuplicates(parsed, existing);
+}
+
+/**
+ * Fechas mínima y máxima de las filas válidas, para buscar en el historial las
+ * transacciones con las que pueden estar duplicadas. `null` si no hay filas válidas.
+ */
+export function getImportDateRange(rows: ImportRow[]): { from: string; to: string } | null {
+    const dates = rows.flatMap((row) => (row.data ? [row.data.date] : [])).sort();
+    return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+}
+
+/**
+ * Marca como duplicadas las filas válidas que coinciden con una transacción
+ * existente o con una fila anterior del mismo archivo.
+ */
+export function markDuplicates(rows: ImportRow[], existing: Transaction[]): ImportRow[] {
+    const seen = new Set(existing.map(getDuplicateKey));
+
+    return rows.map((row) => {
+        if (!row.data) return row;
+
+        const key = getDuplicateKey(row.data);
+        const isDuplicate = seen.has(key);
+        seen.add(key);
+
+        return { ...row, isDuplicate };
+    });
+}
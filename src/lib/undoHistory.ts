@@ -0,0 +1,82 @@
+import { Transaction } from '@/types';
+
+/** Cantidad máxima de cambios que se pueden deshacer. */
+export const HISTORY_LIMIT = 50;
+
+/** Operación sobre una sola transacción. */
+export type SingleOperation =
+    | { kind: 'delete'; id: string }
+    | { kind: 'restore'; id: string }
+    | { kind: 'update'; transaction: Transaction };
+
+/**
+ * Operación que se aplica al deshacer o rehacer un cambio: sobre una transacción
+ * o, en las acciones masivas, sobre varias a la vez.
+ */
+export type TransactionOperation = SingleOperation | { kind: 'batch'; operations: SingleOperation[] };
+
+/** Cambio registrado en el historial: su operación inversa y la que lo vuelve a aplicar. */
+export interface HistoryEntry {
+    /** Descripción para el aviso (ej: "Transacción eliminada"). */
+    label: string;
+    undo: TransactionOperation;
+    redo: TransactionOperation;
+}
+
+/** ID de la transacción afectada por una operación. */
+export const getOperationTarget = (operation: SingleOperation) =>
+    operation.kind === 'update' ? operation.transaction.id : operation.id;
+
+/** IDs de las transacciones afectadas por una operación (varios en un lote). */
+export const getOperationTargets = (operation: TransactionOperation) =>
+    operation.kind === 'batch' ? operation.operations.map(getOperationTarget) : [getOperationTarget(operation)];
+
+/** Agrega una entrada al final de la pila, descartando las más antiguas por encima del límite. */
+export function pushEntry(stack: HistoryEntry[], entry: HistoryEntry, limit = HISTORY_LIMIT): HistoryEntry[] {
+    return [...stack, entry].slice(-limit);
+}
+
+/** Quita de una operación lo que afecta a la transacción indicada; null si no queda nada por aplicar. */
+function withoutTransaction(operation: TransactionOperation, id: string): TransactionOperation | null {
+    if (operation.kind !== 'batch') return getOperationTarget(operation) === id ? null : operation;
+
+    const operations = operation.operations.filter((item) => getOperationTarget(item) !== id);
+    return operations.length > 0 ? { ...operation, operations } : null;
+}
+
+/**
+ * Quita de la pila las entradas de una transacción eliminada definitivamente,
+ * que ya no se podrían aplicar. En un lote solo se descarta su parte: el resto se sigue pudiendo deshacer.
+ */
+export function forgetTransaction(stack: HistoryEntry[], id: string): HistoryEntry[] {
+    return stack.flatMap((entry) => {
+        const undo = withoutTransaction(entry.undo, id);
+        const redo = withoutTransaction(entry.redo, id);
+        return undo && redo ? [{ ...entry, undo, redo }] : [];
+    });
+}
+
+/** Cambia el ID de la transacción en una operación (el resto queda igual). */
+export function renameOperation<T extends TransactionOperation>(operation: T, from: string, to: string): T;
+export function renameOperation(operation: TransactionOperation, from: string, to: string): TransactionOperation {
+    if (operation.kind === 'batch') {
+        return { ...operation, operations: operation.operations.map((item) => renameOperation(item, from, to)) };
+    }
+    if (getOperationTarget(operation) !== from) return operation;
+
+    return operation.kind === 'update'
+        ? { ...operation, transaction: { ...operation.transaction, id: to } }
+        : { ...operation, id: to };
+}
+
+/**
+ * Reemplaza un ID en las entradas de la pila; se usa cuando una transacción creada sin conexión
+ * recibe su ID definitivo al sincronizarse.
+ */
+export function renameTransaction(stack: HistoryEntry[], from: string, to: string): HistoryEntry[] {
+    return stack.map((entry) => ({
+        ...entry,
+        undo: renameOperation(entry.undo, from, to),
+        redo: renameOperation(entry.redo, from, to),
+    }));
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/server/session';
+import { getSafeRedirectPath } from '@/lib/navigation';
+
+/** Rutas del grupo (dashboarb) que requieren sesión. */
+const PROTECTED_PATHS = ['/dashboard', '/analytics'];
+
+/** Rutas de autenticación a las que no debe acceder un usuario con sesión. */
+const AUTH_PATHS = ['/login', '/register'];
+
+const matches = (pathname: string, paths: string[]) =>
+    paths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+
+/**
+ * Protección de rutas en el servidor (convención `proxy` de Next.js 16,
+ * antes `middleware`). Verifica la cookie de sesión firmada antes de renderizar.
+ */
+export async function proxy(request: NextRequest) {
+    const { pathname, search } = request.nextUrl;
+    const userId = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+    // Sin sesión: al login conservando la ruta solicitada en ?next=
+    if (!userId && matches(pathname, PROTECTED_PATHS)) {
+        const loginUrl = new URL('/login', request.url);
+        loginUrl.searchParams.set('next', `${pathname}${search}`);
+        return NextResponse.redirect(loginUrl);
+    }
+
+    // Con sesión: fuera de login/registro
+    if (userId && matches(pathname, AUTH_PATHS)) {
+        const next = getSafeRedirectPath(request.nextUrl.searchParams.get('next'));
+        return NextResponse.redirect(new URL(next, request.url));
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: ['/dashboard/:path*', '/analytics/:path*', '/login', '/register'],
+};
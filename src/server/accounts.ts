@@ -0,0 +1,62 @@
+import { Account, Transaction } from '@/types';
+import { accountRepository } from '@/server/repositories/accountRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { toUser, userRepository } from '@/server/repositories/userRepository';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+/** Nombre de la cuenta creada para los datos anteriores a las cuentas. */
+export const DEFAULT_ACCOUNT_NAME = 'Cuenta principal';
+
+/**
+ * Garantiza que el usuario tenga al menos una cuenta y que todas sus
+ * transacciones y reglas recurrentes apunten a una.
+ * Los registros creados antes de existir las cuentas se asignan a la primera.
+ * @returns Las cuentas del usuario.
+ */
+export async function ensureAccounts(userId: string): Promise<Account[]> {
+    let accounts = await accountRepository.findAllByUser(userId);
+
+    if (accounts.length === 0) {
+        const user = await userRepository.findById(userId);
+        const currency = user ? toUser(user).baseCurrency : DEFAULT_CURRENCY;
+
+        // Solo se crea si sigue sin haber cuentas dentro de la escritura serializada (peticiones simultáneas)
+        await accountRepository.createMany(
+            userId,
+            [{ name: DEFAULT_ACCOUNT_NAME, type: 'cash', openingBalance: 0, currency }],
+            () => true
+        );
+        accounts = await accountRepository.findAllByUser(userId);
+    }
+
+    const defaultAccountId = accounts[0].id;
+    const [transactions, rules] = await Promise.all([
+        transactionRepository.findAllByUser(userId),
+        recurringRuleRepository.findAllByUser(userId),
+    ]);
+
+    if (transactions.some((tx) => !tx.accountId)) {
+        await transactionRepository.updateWhere(userId, (tx) => !tx.accountId, { accountId: defaultAccountId });
+    }
+    if (rules.some((rule) => !rule.accountId)) {
+        await recurringRuleRepository.updateWhere(userId, (rule) => !rule.accountId, { accountId: defaultAccountId });
+    }
+
+    return accounts;
+}
+
+/**
+ * Indica si algún elemento hace referencia a una cuenta que no pertenece al usuario.
+ */
+export async function hasUnknownAccount(
+    userId: string,
+    items: Partial<Pick<Transaction, 'accountId' | 'toAccountId'>>[]
+): Promise<boolean> {
+    const accountIds = new Set((await accountRepository.findAllByUser(userId)).map((account) => account.id));
+
+    return items.some((item) =>
+        (item.accountId !== undefined && !accountIds.has(item.accountId)) ||
+        (item.toAccountId !== undefined && !accountIds.has(item.toAccountId))
+    );
+}
@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Attachment, AttachmentType, Transaction } from '@/types';
+import { attachmentRepository } from '@/server/repositories/attachmentRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { getDataDir } from '@/server/storage';
+
+/** Antigüedad a partir de la cual un comprobante que ninguna transacción adjunta se da por abandonado (24 h). */
+export const ORPHAN_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error lanzado cuando el contenido del archivo no corresponde al tipo declarado.
+ */
+export class InvalidAttachmentError extends Error {
+    constructor() {
+        super('El contenido del archivo no coincide con su tipo');
+        this.name = 'InvalidAttachmentError';
+    }
+}
+
+/** Indica si los bytes del archivo empiezan (desde `offset`) por la firma indicada. */
+const hasSignature = (data: Buffer, signature: string, offset = 0) =>
+    data.toString('latin1', offset, offset + signature.length) === signature;
+
+/**
+ * Firma (primeros bytes) de cada formato admitido. El tipo lo declara el navegador,
+ * así que se comprueba contra el contenido real antes de servirlo con ese tipo.
+ */
+const SIGNATURES: Record<AttachmentType, (data: Buffer) => boolean> = {
+    'image/jpeg': (data) => hasSignature(data, '\xff\xd8\xff'),
+    'image/png': (data) => hasSignature(data, '\x89PNG\r\n\x1a\n'),
+    'image/webp': (data) => hasSignature(data, 'RIFF') && hasSignature(data, 'WEBP', 8),
+    'image/gif': (data) => hasSignature(data, 'GIF87a') || hasSignature(data, 'GIF89a'),
+    'application/pdf': (data) => hasSignature(data, '%PDF-'),
+};
+
+/** Archivo del comprobante: una carpeta por usuario y el ID como nombre. */
+const getAttachmentPath = (userId: string, id: string) => path.join(getDataDir(), 'uploads', userId, id);
+
+/** IDs de los comprobantes adjuntos a alguna transacción del usuario (también en la papelera). */
+async function findReferencedAttachmentIds(userId: string): Promise<Set<string>> {
+    const transactions = await transactionRepository.findAllByUser(userId);
+    return new Set(transactions.flatMap((tx) => (tx.attachments ?? []).map((attachment) => attachment.id)));
+}
+
+/**
+ * Guarda un archivo ya validado (tipo y tamaño) y registra sus metadatos.
+ * @returns El comprobante creado, listo para asociarlo a una transacción.
+ * @throws {InvalidAttachmentError} Si el contenido no corresponde al tipo declarado.
+ */
+export async function saveAttachment(userId: string, file: File): Promise<Attachment> {
+    const type = file.type as AttachmentType;
+    const data = Buffer.from(await file.arrayBuffer());
+    if (!SIGNATURES[type](data)) throw new InvalidAttachmentError();
+
+    const attachment = await attachmentRepository.create(userId, {
+        name: file.name,
+        type,
+        size: file.size,
+    });
+
+    try {
+        const filePath = getAttachmentPath(userId, attachment.id);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+    } catch (error) {
+        await attachmentRepository.remove(userId, attachment.id);
+        throw error;
+    }
+
+    return attachment;
+}
+
+/**
+ * Lee un comprobante del usuario.
+ * @returns Los metadatos y el contenido, o null si no existe para ese usuario.
+ */
+export async function readAttachment(userId: string, id: string): Promise<{ attachment: Attachment; data: Buffer } | null> {
+    const attachment = await attachmentRepository.findById(userId, id);
+    if (!attachment) return null;
+
+    try {
+        return { attachment, data: await fs.readFile(getAttachmentPath(userId, id)) };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * Indica si algún elemento adjunta un comprobante que el usuario no subió.
+ */
+export async function hasUnknownAttachment(userId: string, items: Partial<Pick<Transaction, 'attachments'>>[]): Promise<boolean> {
+    const attachmentIds = new Set((await attachmentRepository.findAllByUser(userId)).map((attachment) => attachment.id));
+
+    return items.some((item) => item.attachments?.some((attachment) => !attachmentIds.has(attachment.id)));
+}
+
+/**
+ * Borra los comprobantes (metadatos y archivos) indicados, ej: los de una transacción eliminada definitivamente.
+ */
+export async function removeAttachments(userId: string, attachments: Attachment[] = []): Promise<void> {
+    for (const { id } of attachments) {
+        await attachmentRepository.remove(userId, id);
+        await fs.rm(getAttachmentPath(userId, id), { force: true });
+    }
+}
+
+/**
+ * Marca como recién soltados los comprobantes que una edición quitó de su transacción.
+ * No se borran en el momento para que deshacer la edición los pueda volver a adjuntar:
+ * si nadie los recupera, removeOrphanAttachments los borra pasado ORPHAN_ATTACHMENT_TTL_MS.
+ */
+export async function markDetachedAttachments(userId: string, changes: { before: Transaction; after: Transaction }[]): Promise<void> {
+    const now = new Date();
+
+    for (const { before, after } of changes) {
+        const kept = new Set((after.attachments ?? []).map((attachment) => attachment.id));
+        for (const { id } of (before.attachments ?? []).filter((attachment) => !kept.has(attachment.id))) {
+            await fs.utimes(getAttachmentPath(userId, id), now, now).catch(() => undefined);
+        }
+    }
+}
+
+/**
+ * Borra los comprobantes que ninguna transacción adjunta desde hace más de ORPHAN_ATTACHMENT_TTL_MS
+ * (ej: los de un formulario que se cerró sin guardar o los que una edición quitó).
+ */
+export async function removeOrphanAttachments(userId: string, now = Date.now()): Promise<void> {
+    const referenced = await findReferencedAttachmentIds(userId);
+    const orphans: Attachment[] = [];
+
+    for (const attachment of await attachmentRepository.findAllByUser(userId)) {
+        if (referenced.has(attachment.id)) continue;
+
+        // Sin archivo todavía, puede ser una subida en curso: se deja
+        const stats = await fs.stat(getAttachmentPath(userId, attachment.id)).catch(() => null);
+        if (stats && now - stats.mtimeMs > ORPHAN_ATTACHMENT_TTL_MS) orphans.push(attachment);
+    }
+
+    await removeAttachments(userId, orphans);
+}
@@ -0,0 +1,40 @@
+import { AuditAction, AuditEntry, Transaction } from '@/types';
+import { auditRepository } from '@/server/repositories/auditRepository';
+import { diffTransactions } from '@/lib/audit';
+
+/** Cambio a registrar: la transacción antes y después (null si no existía o ya no existe). */
+interface AuditChange {
+    action: AuditAction;
+    before: Transaction | null;
+    after: Transaction | null;
+}
+
+/**
+ * Registra en el historial los cambios hechos por el usuario, en una sola escritura.
+ * Las ediciones que no cambian ningún campo no se registran.
+ * @param actorId - Usuario que hizo el cambio.
+ */
+export async function recordAudit(actorId: string, changes: AuditChange[]): Promise<AuditEntry[]> {
+    const timestamp = new Date().toISOString();
+
+    const entries = changes
+        .map(({ action, before, after }) => ({
+            transactionId: (after ?? before)!.id,
+            actorId,
+            action,
+            timestamp,
+            changes: diffTransactions(before, after),
+        }))
+        .filter((entry) => entry.action !== 'update' || entry.changes.length > 0);
+
+    return entries.length > 0 ? auditRepository.createMany(actorId, entries) : [];
+}
+
+/** Historial de una transacción, del cambio más reciente al más antiguo. */
+export async function findTransactionAudit(userId: string, transactionId: string): Promise<AuditEntry[]> {
+    const entries = await auditRepository.findAllByUser(userId);
+    return entries
+        .filter((entry) => entry.transactionId === transactionId)
+        .reverse()
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
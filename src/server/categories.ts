@@ -0,0 +1,154 @@
+import { Category, SplitLine, TransactionType } from '@/types';
+import { categoryRepository } from '@/server/repositories/categoryRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { budgetRepository } from '@/server/repositories/budgetRepository';
+import { goalRepository } from '@/server/repositories/goalRepository';
+import { categoryRuleRepository } from '@/server/repositories/categoryRuleRepository';
+import { recordAudit } from '@/server/audit';
+import { CategoryUsage, planCategoryMigration } from '@/lib/categories';
+import { normalizeText } from '@/lib/text';
+
+/** Las transferencias usan una categoría fija que no forma parte de la taxonomía. */
+const isCategorized = (item: { type?: TransactionType }) => item.type !== 'transfer';
+
+/** Evita crear dos categorías equivalentes si dos peticiones migran a la vez. */
+const isSameCategory = (item: Omit<Category, 'id'>, existing: Category) =>
+    normalizeText(item.name) === normalizeText(existing.name);
+
+/**
+ * Crea las categorías que falten para los usos indicados.
+ * @returns Las categorías del usuario y el mapa de nombres a reemplazar.
+ */
+async function migrateUsages(userId: string, usages: CategoryUsage[]) {
+    let categories = await categoryRepository.findAllByUser(userId);
+    const { toCreate, renames } = planCategoryMigration(categories, usages);
+
+    if (toCreate.length > 0) {
+        await categoryRepository.createMany(userId, toCreate, isSameCategory);
+        categories = await categoryRepository.findAllByUser(userId);
+    }
+
+    return { categories, renames };
+}
+
+/**
+ * Convierte las categorías de texto libre del usuario en categorías gestionadas.
+ * Los nombres de transacciones, reglas (recurrentes y de categorización), presupuestos y metas que solo difieren en
+ * mayúsculas o tildes se unifican con el de la categoría correspondiente.
+ * @returns Las categorías del usuario.
+ */
+export async function ensureCategories(userId: string): Promise<Category[]> {
+    const [transactions, rules, budgets, goals, categoryRules] = await Promise.all([
+        transactionRepository.findAllByUser(userId),
+        recurringRuleRepository.findAllByUser(userId),
+        budgetRepository.findAllByUser(userId),
+        goalRepository.findAllByUser(userId),
+        categoryRuleRepository.findAllByUser(userId),
+    ]);
+
+    const { categories, renames } = await migrateUsages(userId, [
+        ...transactions.filter(isCategorized).flatMap((tx) => [
+            tx,
+            ...(tx.splits ?? []).map(({ category }) => ({ category, type: tx.type })),
+        ]),
+        ...rules.filter(isCategorized),
+        ...budgets.map(({ category }) => ({ category, type: 'expense' as const })),
+        ...goals.flatMap(({ category }) => (category === undefined ? [] : [{ category, type: 'expense' as const }])),
+        ...categoryRules.map(({ category, type }) => ({ category, type: type ?? 'expense' })),
+    ]);
+
+    for (const [from, to] of renames) {
+        await renameCategoryUsages(userId, from, to);
+    }
+
+    return categories;
+}
+
+/**
+ * Lleva los nombres de categoría de los elementos recibidos a las categorías
+ * gestionadas, creando las que no existan (ej: al importar un extracto).
+ * Las líneas de las transacciones divididas se resuelven igual que la categoría principal.
+ * @param defaultType - Tipo de las categorías creadas para elementos sin tipo (ej: presupuestos).
+ * @returns Los elementos con el nombre de categoría normalizado.
+ */
+export async function resolveCategoryNames<T extends { category?: string; type?: TransactionType; splits?: SplitLine[] }>(
+    userId: string,
+    items: T[],
+    defaultType?: TransactionType
+): Promise<T[]> {
+    const usages = items
+        .filter(isCategorized)
+        .flatMap((item) => [item.category, ...(item.splits ?? []).map((line) => line.category)]
+            .filter((category) => category !== undefined)
+            .map((category) => ({ category, type: item.type ?? defaultType })));
+    if (usages.length === 0) return items;
+
+    const { renames } = await migrateUsages(userId, usages);
+    const rename = (category: string) => renames.get(category) ?? category;
+
+    return items.map((item) => {
+        if (!isCategorized(item)) return item;
+
+        return {
+            ...item,
+            ...(item.category !== undefined && { category: rename(item.category) }),
+            ...(item.splits && { splits: item.splits.map((line) => ({ ...line, category: rename(line.category) })) }),
+        };
+    });
+}
+
+/**
+ * Cambia el nombre de categoría en transacciones (también en sus líneas), reglas (recurrentes y
+ * de categorización), presupuestos y metas.
+ * Cada transacción afectada queda en su historial de cambios.
+ */
+export async function renameCategoryUsages(userId: string, from: string, to: string): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    const renameLine = (line: SplitLine) => (line.category === from ? { ...line, category: to } : line);
+
+    // Cada transacción dividida tiene sus propias líneas: los cambios se calculan por transacción
+    const affected = (await transactionRepository.findAllByUser(userId)).filter((tx) =>
+        (isCategorized(tx) && tx.category === from) || tx.splits?.some((line) => line.category === from));
+    const updated = await transactionRepository.updateMany(userId, affected.map((tx) => ({
+        id: tx.id,
+        updatedAt,
+        ...(isCategorized(tx) && tx.category === from && { category: to }),
+        ...(tx.splits && { splits: tx.splits.map(renameLine) }),
+    })));
+
+    const before = new Map(affected.map((tx) => [tx.id, tx]));
+    await recordAudit(userId, updated.map((after) => ({ action: 'update', before: before.get(after.id) ?? null, after })));
+
+    await recurringRuleRepository.updateWhere(userId, (rule) => isCategorized(rule) && rule.category === from, { category: to });
+    await budgetRepository.updateWhere(userId, (budget) => budget.category === from, { category: to });
+    await goalRepository.updateWhere(userId, (goal) => goal.category === from, { category: to });
+    await categoryRuleRepository.updateWhere(userId, (rule) => rule.category === from, { category: to });
+}
+
+/**
+ * Valida el nombre y la categoría padre de una categoría nueva o editada.
+ * @param id - ID de la categoría editada (undefined al crear).
+ * @returns El mensaje de error o null si es válida.
+ */
+export function getCategoryConflict(
+    categories: Category[],
+    data: Pick<Category, 'name' | 'parentId'>,
+    id?: string
+): string | null {
+    const name = normalizeText(data.name);
+    if (categories.some((category) => category.id !== id && normalizeText(category.name) === name)) {
+        return 'Ya existe una categoría con ese nombre';
+    }
+
+    if (!data.parentId) return null;
+
+    const parent = categories.find((category) => category.id === data.parentId);
+    if (!parent || parent.id === id) return 'La categoría padre no es válida';
+    if (parent.parentId) return 'Solo se permite un nivel de subcategorías';
+    if (id && categories.some((category) => category.parentId === id)) {
+        return 'Una categoría con subcategorías no puede ser subcategoría';
+    }
+
+    return null;
+}
@@ -0,0 +1,19 @@
+import { exchangeRateRepository } from '@/server/repositories/exchangeRateRepository';
+import { toUser, userRepository } from '@/server/repositories/userRepository';
+import { createAmountConverter } from '@/lib/currency';
+
+/**
+ * Moneda base del usuario y conversor de montos según su tabla de tasas,
+ * para los totales que se calculan en el servidor.
+ * @returns null si el usuario no existe.
+ */
+export async function getUserConverter(userId: string) {
+    const [record, rates] = await Promise.all([
+        userRepository.findById(userId),
+        exchangeRateRepository.findAllByUser(userId),
+    ]);
+    if (!record) return null;
+
+    const { baseCurrency } = toUser(record);
+    return { baseCurrency, convert: createAmountConverter(rates, baseCurrency) };
+}
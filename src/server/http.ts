@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+
+/**
+ * Respuesta de error estándar de la API: `{ error, issues? }`.
+ * @param message - Mensaje legible para el cliente.
+ * @param status - Código HTTP.
+ */
+export function jsonError(message: string, status: number, issues?: Record<string, string[] | undefined>) {
+    return NextResponse.json({ error: message, ...(issues && { issues }) }, { status });
+}
+
+/** Respuesta 400 con los errores por campo de una validación de Zod. */
+export function validationError(error: z.ZodError) {
+    return jsonError('Datos inválidos', 400, z.flattenError(error).fieldErrors);
+}
+
+/** Respuesta 401 para peticiones sin sesión. */
+export function unauthorized() {
+    return jsonError('No autenticado', 401);
+}
+
+/**
+ * Lee el cuerpo JSON de la petición sin lanzar excepciones.
+ * @returns El cuerpo parseado o undefined si no es JSON válido.
+ */
+export async function readJson(request: Request): Promise<unknown> {
+    try {
+        return await request.json();
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Genera el hash de una contraseña con scrypt y una sal aleatoria.
+ * @returns Cadena con el formato `scrypt$<sal>$<hash>` (ambos en base64).
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Compara una contraseña en texto plano con un hash almacenado
+ * usando una comparación de tiempo constante.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [algorithm, salt, hash] = stored.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+    return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,39 @@
+import { Transaction } from '@/types';
+import { getDueOccurrences } from '@/lib/recurrence';
+import { getTodayKey } from '@/lib/dates';
+import { recurringRuleRepository } from '@/server/repositories/recurringRuleRepository';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+import { ensureAccounts } from '@/server/accounts';
+import { recordAudit } from '@/server/audit';
+
+/** Una ocurrencia ya existe si comparte regla y fecha programada. */
+const isSameOccurrence = (item: Omit<Transaction, 'id'>, existing: Transaction) =>
+    !!item.recurringRuleId &&
+    existing.recurringRuleId === item.recurringRuleId &&
+    existing.occurrenceDate === item.occurrenceDate;
+
+/**
+ * Crea las transacciones pendientes de todas las reglas del usuario hasta hoy.
+ * La comprobación de duplicados ocurre dentro de la escritura serializada de la
+ * colección, por lo que dos llamadas simultáneas no generan la misma ocurrencia.
+ * Las ocurrencias creadas quedan en el historial de cambios como altas del usuario.
+ * @returns Las transacciones creadas.
+ */
+export async function generateRecurringTransactions(userId: string, today = getTodayKey()): Promise<Transaction[]> {
+    // Las reglas anteriores a las cuentas reciben la cuenta principal antes de generar
+    await ensureAccounts(userId);
+    const rules = await recurringRuleRepository.findAllByUser(userId);
+    const created: Transaction[] = [];
+
+    for (const rule of rules) {
+        if (rule.lastGeneratedDate && rule.lastGeneratedDate >= today) continue;
+
+        const due = getDueOccurrences(rule, today);
+        created.push(...await transactionRepository.createMany(userId, due, isSameOccurrence));
+
+        await recurringRuleRepository.update(userId, rule.id, { lastGeneratedDate: today });
+    }
+
+    await recordAudit(userId, created.map((after) => ({ action: 'create', before: null, after })));
+    return created;
+}
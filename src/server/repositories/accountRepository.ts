@@ -0,0 +1,7 @@
+import { Account } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Repositorio de cuentas (bancos, efectivo, tarjetas...) de cada usuario.
+ */
+export const accountRepository = createUserScopedRepository<Account>('accounts');
@@ -0,0 +1,7 @@
+import { Attachment } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Metadatos de los comprobantes subidos; el contenido se guarda aparte en DATA_DIR/uploads.
+ */
+export const attachmentRepository = createUserScopedRepository<Attachment>('attachments');
@@ -0,0 +1,7 @@
+import { AuditEntry } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Historial de cambios de las transacciones, acotado al propietario de los datos.
+ */
+export const auditRepository = createUserScopedRepository<AuditEntry>('audit');
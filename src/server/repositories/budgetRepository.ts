@@ -0,0 +1,7 @@
+import { Budget } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Repositorio de presupuestos mensuales por categoría.
+ */
+export const budgetRepository = createUserScopedRepository<Budget>('budgets');
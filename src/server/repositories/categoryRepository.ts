@@ -0,0 +1,7 @@
+import { Category } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Repositorio de categorías gestionadas de cada usuario.
+ */
+export const categoryRepository = createUserScopedRepository<Category>('categories');
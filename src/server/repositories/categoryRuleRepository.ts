@@ -0,0 +1,7 @@
+import { CategoryRule } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Repositorio de reglas de categorización automática.
+ */
+export const categoryRuleRepository = createUserScopedRepository<CategoryRule>('category-rules');
@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from '@/server/storage';
+
+/**
+ * Crea un repositorio CRUD sobre una colección JSON cuyos registros
+ * pertenecen a un usuario. Todas las operaciones están acotadas al propietario.
+ * @param collection - Nombre de la colección (archivo en DATA_DIR).
+ * @param normalize - Completa los registros guardados con versiones anteriores del modelo
+ *   (ej: campos nuevos con su valor por defecto) al leerlos.
+ */
+export function createUserScopedRepository<T extends { id: string }>(
+    collection: string,
+    normalize: (entity: T) => T = (entity) => entity
+) {
+    /** Registro persistido: la entidad más el usuario propietario. */
+    type StoredRecord = T & { userId: string };
+
+    /** Elimina los campos internos antes de exponer el registro. */
+    const toEntity = (record: StoredRecord): T => {
+        const entity: T & { userId?: string } = { ...record };
+        delete entity.userId;
+        return normalize(entity);
+    };
+
+    return {
+        /** Lista los registros de un usuario. */
+        async findAllByUser(userId: string): Promise<T[]> {
+            const records = await readCollection<StoredRecord>(collection);
+            return records.filter((record) => record.userId === userId).map(toEntity);
+        },
+
+        /** Busca un registro del usuario por su ID. */
+        async findById(userId: string, id: string): Promise<T | null> {
+            const records = await readCollection<StoredRecord>(collection);
+            const record = records.find((item) => item.id === id && item.userId === userId);
+            return record ? toEntity(record) : null;
+        },
+
+        /** Crea un registro y lo devuelve con su ID generado. */
+        async create(userId: string, data: Omit<T, 'id'>): Promise<T> {
+            return updateCollection<StoredRecord, T>(collection, (records) => {
+                const record = { ...data, id: randomUUID(), userId } as StoredRecord;
+                records.push(record);
+                return toEntity(record);
+            });
+        },
+
+        /**
+         * Crea varios registros en una sola escritura.
+         * @param isDuplicate - Si se indica, omite los elementos que coincidan con un registro existente del usuario.
+         * @returns Los registros efectivamente creados.
+         */
+        async createMany(
+            userId: string,
+            items: Omit<T, 'id'>[],
+            isDuplicate?: (item: Omit<T, 'id'>, existing: T) => boolean
+        ): Promise<T[]> {
+            return updateCollection<StoredRecord, T[]>(collection, (records) => {
+                const owned = records.filter((record) => record.userId === userId).map(toEntity);
+                const created: T[] = [];
+
+                for (const item of items) {
+                    if (isDuplicate && [...owned, ...created].some((existing) => isDuplicate(item, existing))) continue;
+
+                    const record = { ...item, id: randomUUID(), userId } as StoredRecord;
+                    records.push(record);
+                    created.push(toEntity(record));
+                }
+
+                return created;
+            });
+        },
+
+        /**
+         * Aplica los mismos cambios a todos los registros del usuario que cumplan el predicado.
+         * @returns Los registros actualizados.
+         */
+        async updateWhere(userId: string, predicate: (entity: T) => boolean, changes: Partial<Omit<T, 'id'>>): Promise<T[]> {
+            return updateCollection<StoredRecord, T[]>(collection, (records) => {
+                const updated: T[] = [];
+
+                records.forEach((record, index) => {
+                    if (record.userId !== userId || !predicate(toEntity(record))) return;
+
+                    records[index] = { ...record, ...changes, id: record.id, userId };
+                    updated.push(toEntity(records[index]));
+                });
+
+                return updated;
+            });
+        },
+
+        /**
+         * Aplica a cada registro sus propios cambios en una sola escritura.
+         * @returns Los registros actualizados, en el orden recibido (omite los que no existen para ese usuario).
+         */
+        async updateMany(userId: string, updates: (Partial<Omit<T, 'id'>> & { id: string })[]): Promise<T[]> {
+            return updateCollection<StoredRecord, T[]>(collection, (records) => {
+                const updated: T[] = [];
+
+                for (const { id, ...changes } of updates) {
+                    const index = records.findIndex((record) => record.id === id && record.userId === userId);
+                    if (index === -1) continue;
+
+                    records[index] = { ...records[index], ...changes, id, userId };
+                    updated.push(toEntity(records[index]));
+                }
+
+                return updated;
+            });
+        },
+
+        /**
+         * Aplica cambios sobre un registro existente.
+         * @returns El registro actualizado o null si no existe para ese usuario.
+         */
+        async update(userId: string, id: string, changes: Partial<Omit<T, 'id'>>): Promise<T | null> {
+            return updateCollection<StoredRecord, T | null>(collection, (records) => {
+                const index = records.findIndex((record) => record.id === id && record.userId === userId);
+                if (index === -1) return null;
+
+                records[index] = { ...records[index], ...changes, id, userId };
+                return toEntity(records[index]);
+            });
+        },
+
+        /**
+         * Elimina un registro.
+         * @returns true si se eliminó, false si no existía para ese usuario.
+         */
+        async remove(userId: string, id: string): Promise<boolean> {
+            return updateCollection<StoredRecord, boolean>(collection, (records) => {
+                const index = records.findIndex((record) => record.id === id && record.userId === userId);
+                if (index === -1) return false;
+
+                records.splice(index, 1);
+                return true;
+            });
+        },
+    };
+}
@@ -0,0 +1,12 @@
+import { ExchangeRate } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Repositorio de la tabla de tasas de cambio de cada usuario.
+ */
+export const exchangeRateRepository = createUserScopedRepository<ExchangeRate>('exchangeRates');
+
+/** Dos tasas son la misma si comparten fecha y par de monedas (en cualquier sentido). */
+export const isSameRate = (item: Omit<ExchangeRate, 'id'>, existing: ExchangeRate) =>
+    item.date === existing.date &&
+    ((item.from === existing.from && item.to === existing.to) || (item.from === existing.to && item.to === existing.from));
@@ -0,0 +1,7 @@
+import { Goal } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+
+/**
+ * Repositorio de metas de ahorro.
+ */
+export const goalRepository = createUserScopedRepository<Goal>('goals');
@@ -0,0 +1,11 @@
+import { RecurringRule } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+/**
+ * Repositorio de reglas de transacciones recurrentes.
+ */
+export const recurringRuleRepository = createUserScopedRepository<RecurringRule>('recurringRules', (rule) => ({
+    ...rule,
+    currency: rule.currency ?? DEFAULT_CURRENCY,
+}));
@@ -0,0 +1,13 @@
+import { Transaction } from '@/types';
+import { createUserScopedRepository } from '@/server/repositories/createUserScopedRepository';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+/**
+ * Repositorio de transacciones basado en archivos JSON.
+ * Todas las operaciones están acotadas al usuario propietario.
+ * Las transacciones anteriores al soporte multimoneda se leen en la moneda por defecto.
+ */
+export const transactionRepository = createUserScopedRepository<Transaction>('transactions', (tx) => ({
+    ...tx,
+    currency: tx.currency ?? DEFAULT_CURRENCY,
+}));
@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+import { User } from '@/types';
+import { readCollection, updateCollection } from '@/server/storage';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+const COLLECTION = 'users';
+
+/** Registro persistido: el usuario público más sus credenciales. */
+export type UserRecord = User & { passwordHash: string; createdAt: string };
+
+/** Elimina las credenciales antes de exponer el usuario. */
+export const toUser = ({ id, email, name, baseCurrency }: UserRecord): User => ({
+    id,
+    email,
+    name,
+    baseCurrency: baseCurrency ?? DEFAULT_CURRENCY,
+});
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Repositorio de usuarios basado en archivos JSON.
+ */
+export const userRepository = {
+    /** Busca un usuario por correo (sin distinguir mayúsculas). */
+    async findByEmail(email: string): Promise<UserRecord | null> {
+        const records = await readCollection<UserRecord>(COLLECTION);
+        return records.find((record) => record.email === normalizeEmail(email)) ?? null;
+    },
+
+    /** Busca un usuario por su ID. */
+    async findById(id: string): Promise<UserRecord | null> {
+        const records = await readCollection<UserRecord>(COLLECTION);
+        return records.find((record) => record.id === id) ?? null;
+    },
+
+    /**
+     * Registra un nuevo usuario.
+     * @returns El usuario creado o null si el correo ya está registrado.
+     */
+    async create(data: { email: string; name: string; passwordHash: string }): Promise<User | null> {
+        return updateCollection<UserRecord, User | null>(COLLECTION, (records) => {
+            const email = normalizeEmail(data.email);
+            if (records.some((record) => record.email === email)) return null;
+
+            const record: UserRecord = {
+                id: randomUUID(),
+                email,
+                name: data.name.trim(),
+                baseCurrency: DEFAULT_CURRENCY,
+                passwordHash: data.passwordHash,
+                createdAt: new Date().toISOString(),
+            };
+            records.push(record);
+            return toUser(record);
+        });
+    },
+
+    /**
+     * Actualiza las preferencias del usuario.
+     * @returns El usuario actualizado o null si no existe.
+     */
+    async update(id: string, changes: Partial<Pick<User, 'name' | 'baseCurrency'>>): Promise<User | null> {
+        return updateCollection<UserRecord, User | null>(COLLECTION, (records) => {
+            const index = records.findIndex((record) => record.id === id);
+            if (index === -1) return null;
+
+            records[index] = { ...records[index], ...changes };
+            return toUser(records[index]);
+        });
+    },
+};
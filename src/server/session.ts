@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/** Nombre de la cookie HttpOnly que contiene la sesión firmada. */
+export const SESSION_COOKIE = 'session';
+
+/** Duración de la sesión en segundos (7 días). */
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+/** Contenido firmado dentro del token de sesión. */
+interface SessionPayload {
+    /** ID del usuario autenticado. */
+    sub: string;
+    /** Fecha de expiración (segundos desde epoch). */
+    exp: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Secreto usado para firmar las sesiones.
+ * En producción es obligatorio definir SESSION_SECRET.
+ */
+function getSecret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (secret) return secret;
+
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('SESSION_SECRET no está configurado');
+    }
+    return 'dev-session-secret';
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+/**
+ * Clave HMAC-SHA256 de Web Crypto; funciona tanto en Node como en el runtime Edge.
+ */
+const getKey = () =>
+    crypto.subtle.importKey('raw', encoder.encode(getSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+/**
+ * Crea un token `<payload>.<firma>` para el usuario indicado.
+ */
+export async function createSessionToken(userId: string, maxAge = SESSION_MAX_AGE): Promise<string> {
+    const payload: SessionPayload = { sub: userId, exp: Math.floor(Date.now() / 1000) + maxAge };
+    const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(encodedPayload));
+
+    return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifica la firma y la expiración de un token de sesión.
+ * @returns El ID del usuario o null si el token es inválido o expiró.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<string | null> {
+    if (!token) return null;
+
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) return null;
+
+    try {
+        const isValid = await crypto.subtle.verify(
+            'HMAC',
+            await getKey(),
+            fromBase64Url(signature),
+            encoder.encode(encodedPayload)
+        );
+        if (!isValid) return null;
+
+        const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedPayload))) as SessionPayload;
+        if (typeof payload.sub !== 'string' || payload.exp * 1000 < Date.now()) return null;
+
+        return payload.sub;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Obtiene el ID del usuario asociado a la petición.
+ * @returns El ID del usuario o null si la petición no tiene una sesión válida.
+ */
+export function getSessionUserId(request: NextRequest): Promise<string | null> {
+    return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Adjunta a la respuesta la cookie de sesión firmada (HttpOnly).
+ */
+export async function setSessionCookie(response: NextResponse, userId: string): Promise<NextResponse> {
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(userId), {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+}
+
+/**
+ * Elimina la cookie de sesión del navegador.
+ */
+export function clearSessionCookie(response: NextResponse): NextResponse {
+    response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+    return response;
+}
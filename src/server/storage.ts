@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directorio donde se guardan las colecciones en formato JSON.
+ * Puede sobrescribirse con la variable de entorno DATA_DIR (útil en pruebas).
+ */
+export const getDataDir = () => process.env.DATA_DIR ?? path.join(process.cwd(), 'data');
+
+/** Cola de escrituras por colección para evitar condiciones de carrera. */
+const writeQueues = new Map<string, Promise<unknown>>();
+
+const getCollectionPath = (name: string) => path.join(getDataDir(), `${name}.json`);
+
+/**
+ * Lee una colección completa desde disco.
+ * @param name - Nombre de la colección (archivo sin extensión).
+ * @returns El arreglo almacenado o un arreglo vacío si el archivo no existe.
+ */
+export async function readCollection<T>(name: string): Promise<T[]> {
+    try {
+        const raw = await fs.readFile(getCollectionPath(name), 'utf-8');
+        return JSON.parse(raw) as T[];
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+}
+
+/**
+ * Escribe la colección de forma atómica (archivo temporal + rename).
+ */
+async function writeCollection<T>(name: string, items: T[]): Promise<void> {
+    const filePath = getCollectionPath(name);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(items, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Ejecuta una mutación sobre una colección de forma serializada.
+ * El mutador recibe el arreglo actual, puede modificarlo en sitio y devuelve
+ * el resultado de la operación; los cambios se persisten al terminar.
+ * @param name - Nombre de la colección.
+ * @param mutator - Función que aplica los cambios.
+ */
+export function updateCollection<T, R>(name: string, mutator: (items: T[]) => R): Promise<R> {
+    const previous = writeQueues.get(name) ?? Promise.resolve();
+
+    const next = previous.catch(() => undefined).then(async () => {
+        const items = await readCollection<T>(name);
+        const result = mutator(items);
+        await writeCollection(name, items);
+        return result;
+    });
+
+    writeQueues.set(name, next);
+    return next;
+}
@@ -0,0 +1,92 @@
+import { Transaction, TransactionPage } from '@/types';
+import { applyFilters, compareTransactions, SortKey, SortOrder, TransactionFilters } from '@/lib/transactionFilters';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+/** Contenido del cursor: la clave de orden y la posición del último elemento entregado. */
+interface CursorPayload {
+    sortBy: SortKey;
+    sortOrder: SortOrder;
+    last: Pick<Transaction, 'id' | 'date' | 'amount' | 'title' | 'category'>;
+}
+
+/**
+ * Error lanzado cuando el cursor está mal formado o no corresponde al orden pedido.
+ */
+export class InvalidCursorError extends Error {
+    constructor() {
+        super('Cursor inválido');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+/** Codifica la posición de una transacción como cursor opaco (base64url). */
+export function encodeCursor(tx: Transaction, sortBy: SortKey, sortOrder: SortOrder): string {
+    const { id, date, amount, title, category } = tx;
+    const payload: CursorPayload = { sortBy, sortOrder, last: { id, date, amount, title, category } };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodifica un cursor y comprueba que se generó con el mismo orden.
+ * @throws {InvalidCursorError} Si el cursor no es válido para ese orden.
+ */
+export function decodeCursor(cursor: string, sortBy: SortKey, sortOrder: SortOrder): CursorPayload['last'] {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError();
+    }
+
+    const last = payload?.last;
+    const isValid =
+        payload.sortBy === sortBy &&
+        payload.sortOrder === sortOrder &&
+        typeof last?.id === 'string' &&
+        typeof last.date === 'string' &&
+        typeof last.amount === 'number' &&
+        typeof last.title === 'string' &&
+        typeof last.category === 'string';
+
+    if (!isValid) throw new InvalidCursorError();
+    return last;
+}
+
+/**
+ * Lee `limit` de la query string, acotado a [1, MAX_PAGE_SIZE].
+ */
+export function parseLimit(value: string | null): number {
+    const limit = Number(value);
+    if (!value || !Number.isInteger(limit) || limit < 1) return DEFAULT_PAGE_SIZE;
+    return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+/**
+ * Filtra, ordena y devuelve la página que sigue al cursor.
+ * Como el cursor guarda la posición (no un índice), las páginas siguen siendo
+ * consistentes aunque se creen o eliminen transacciones entre peticiones.
+ * @throws {InvalidCursorError} Si el cursor no es válido.
+ */
+export function paginateTransactions(
+    transactions: Transaction[],
+    filters: TransactionFilters,
+    { limit = DEFAULT_PAGE_SIZE, cursor }: { limit?: number; cursor?: string | null } = {}
+): TransactionPage {
+    const { sortBy, sortOrder } = filters;
+    let sorted = applyFilters(transactions, filters);
+
+    if (cursor) {
+        const last = decodeCursor(cursor, sortBy, sortOrder) as Transaction;
+        sorted = sorted.filter((tx) => compareTransactions(tx, last, sortBy, sortOrder) > 0);
+    }
+
+    const items = sorted.slice(0, limit);
+    const hasMore = sorted.length > limit;
+
+    return {
+        items,
+        nextCursor: hasMore ? encodeCursor(items[items.length - 1], sortBy, sortOrder) : null,
+    };
+}
@@ -0,0 +1,62 @@
+import { Transaction } from '@/types';
+import { transactionRepository } from '@/server/repositories/transactionRepository';
+
+/** Indica si la transacción está en la papelera. */
+export const isDeleted = (transaction: Transaction) => !!transaction.deletedAt;
+
+/**
+ * Reemplazo completo (PUT y ediciones del lote): los campos opcionales que el cliente edita
+ * y no vienen en el cuerpo se borran, en lugar de conservar los guardados (ej: deshacer el alta de unas notas).
+ * La regla recurrente, la fecha programada y la papelera las gestiona el servidor y se conservan.
+ */
+export const asReplacement = <T extends Partial<Transaction>>(data: T): T => ({
+    notes: undefined,
+    tags: undefined,
+    splits: undefined,
+    attachments: undefined,
+    ...data,
+});
+
+/** Completa la marca de modificación con el momento actual si el cliente no la envió. */
+export const withUpdatedAt = <T extends { updatedAt?: string }>(data: T): T => ({
+    ...data,
+    updatedAt: data.updatedAt ?? new Date().toISOString(),
+});
+
+/**
+ * Indica si una escritura es anterior a la última modificación guardada.
+ * Al sincronizar cambios hechos sin conexión gana la escritura más reciente (last-write-wins):
+ * la obsoleta se descarta y se responde con la versión vigente.
+ */
+export const isStaleWrite = (current: Transaction, updatedAt?: string) =>
+    !!updatedAt && !!current.updatedAt && Date.parse(updatedAt) < Date.parse(current.updatedAt);
+
+/**
+ * Transacciones vigentes del usuario (sin las de la papelera).
+ * Las comprobaciones de uso (cuentas, categorías) y la generación recurrente
+ * leen también las eliminadas, para que restaurarlas no deje referencias rotas ni duplicados.
+ */
+export async function findActiveTransactions(userId: string): Promise<Transaction[]> {
+    const transactions = await transactionRepository.findAllByUser(userId);
+    return transactions.filter((transaction) => !isDeleted(transaction));
+}
+
+/** Transacciones en la papelera, de la eliminada más recientemente a la más antigua. */
+export async function findDeletedTransactions(userId: string): Promise<Transaction[]> {
+    const transactions = await transactionRepository.findAllByUser(userId);
+    return transactions
+        .filter(isDeleted)
+        .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+}
+
+/**
+ * Saca una transacción de la papelera.
+ * @returns La transacción restaurada o null si no existe o no estaba eliminada.
+ */
+export async function restoreTransaction(userId: string, id: string): Promise<Transaction | null> {
+    const transaction = await transactionRepository.findById(userId, id);
+    if (!transaction || !isDeleted(transaction)) return null;
+
+    // Los campos undefined no se escriben en el JSON: así se borra la marca
+    return transactionRepository.update(userId, id, { deletedAt: undefined, updatedAt: new Date().toISOString() });
+}
@@ -0,0 +1,48 @@
+/**
+ * Error lanzado cuando la API responde con un estado distinto de 2xx.
+ */
+export class ApiError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+/**
+ * Envoltorio de fetch para las rutas internas de la API.
+ * Serializa el cuerpo como JSON (salvo FormData, que se envía como multipart)
+ * y convierte las respuestas de error en ApiError.
+ * @param url - Ruta relativa de la API (ej: /api/transactions).
+ * @param options - Opciones de fetch; `body` se envía como JSON.
+ */
+export async function apiRequest<T>(url: string, options: Omit<RequestInit, 'body'> & { body?: unknown } = {}): Promise<T> {
+    const { body, headers, ...rest } = options;
+    const isFormData = body instanceof FormData;
+
+    const response = await fetch(url, {
+        ...rest,
+        credentials: 'same-origin',
+        headers: {
+            // Con FormData, fetch agrega el Content-Type multipart con su separador
+            ...(body !== undefined && !isFormData && { 'Content-Type': 'application/json' }),
+            ...headers,
+        },
+        body: isFormData ? body : body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new ApiError(payload?.error ?? 'Error de comunicación con el servidor', response.status);
+    }
+
+    // 204 No Content
+    if (response.status === 204) return undefined as T;
+
+    return response.json() as Promise<T>;
+}
+
+/**
+ * Indica si la petición no llegó al servidor (sin conexión, servidor caído...).
+ * fetch rechaza con TypeError en esos casos; las respuestas de error llegan como ApiError.
+ */
+export const isNetworkError = (error: unknown) => error instanceof TypeError;
@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { Account } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+import { AccountBalance } from '@/lib/accounts';
+
+const ACCOUNTS_URL = '/api/accounts';
+
+/**
+ * Contrato del estado y las acciones para las cuentas del usuario.
+ */
+interface AccountState {
+    /** Cuentas del usuario (bancos, efectivo, tarjetas, ahorros). */
+    accounts: Account[];
+    /** Saldo de cada cuenta, calculado en el servidor con todos sus movimientos. */
+    balances: AccountBalance[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera las cuentas desde la API. */
+    getAccounts: () => Promise<void>;
+    /** Recupera el saldo de cada cuenta. */
+    getBalances: () => Promise<void>;
+    /** Crea una cuenta. */
+    addAccount: (account: Omit<Account, 'id'>) => Promise<void>;
+    /** Actualiza una cuenta existente. */
+    updateAccount: (account: Account) => Promise<void>;
+    /** Elimina una cuenta sin movimientos. */
+    deleteAccount: (id: string) => Promise<void>;
+}
+
+/**
+ * Store de cuentas, persistidas por usuario en /api/accounts.
+ */
+export const useAccountStore = create<AccountState>((set) => ({
+    accounts: [],
+    balances: [],
+    isLoading: false,
+
+    getAccounts: async () => {
+        set({ isLoading: true });
+
+        try {
+            const accounts = await apiRequest<Account[]>(ACCOUNTS_URL);
+            set({ accounts });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    getBalances: async () => {
+        const balances = await apiRequest<AccountBalance[]>(`${ACCOUNTS_URL}/balances`);
+        set({ balances });
+    },
+
+    addAccount: async (newAccount) => {
+        set({ isLoading: true });
+
+        try {
+            const account = await apiRequest<Account>(ACCOUNTS_URL, { method: 'POST', body: newAccount });
+            set((state) => ({ accounts: [...state.accounts, account] }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateAccount: async (updatedAccount) => {
+        set({ isLoading: true });
+
+        try {
+            const { id, ...data } = updatedAccount;
+            const saved = await apiRequest<Account>(`${ACCOUNTS_URL}/${id}`, { method: 'PUT', body: data });
+            set((state) => ({
+                accounts: state.accounts.map((account) => (account.id === saved.id ? saved : account)),
+            }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteAccount: async (id) => {
+        set({ isLoading: true });
+
+        try {
+            await apiRequest<void>(`${ACCOUNTS_URL}/${id}`, { method: 'DELETE' });
+            set((state) => ({ accounts: state.accounts.filter((account) => account.id !== id) }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { Attachment } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+
+/**
+ * Contrato del estado y las acciones para los comprobantes.
+ */
+interface AttachmentState {
+    /** Subidas en curso. */
+    uploadingCount: number;
+    /** Sube un archivo (ya validado con attachmentFileSchema) y devuelve sus metadatos. */
+    uploadAttachment: (file: File) => Promise<Attachment>;
+}
+
+/**
+ * Store de los comprobantes adjuntos a las transacciones.
+ * Los archivos se suben al elegirlos; la transacción guarda solo sus metadatos.
+ */
+export const useAttachmentStore = create<AttachmentState>((set) => ({
+    uploadingCount: 0,
+
+    uploadAttachment: async (file) => {
+        set((state) => ({ uploadingCount: state.uploadingCount + 1 }));
+
+        try {
+            const body = new FormData();
+            body.append('file', file);
+            return await apiRequest<Attachment>('/api/attachments', { method: 'POST', body });
+        } finally {
+            set((state) => ({ uploadingCount: state.uploadingCount - 1 }));
+        }
+    },
+}));
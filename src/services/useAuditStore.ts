@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { AuditEntry } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+
+/**
+ * Contrato del estado y las acciones para el historial de cambios.
+ */
+interface AuditState {
+    /** Historial de la transacción consultada, del cambio más reciente al más antiguo. */
+    entries: AuditEntry[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera el historial de una transacción. */
+    getTransactionAudit: (transactionId: string) => Promise<void>;
+}
+
+/**
+ * Store del historial de cambios (auditoría) de las transacciones.
+ */
+export const useAuditStore = create<AuditState>((set) => ({
+    entries: [],
+    isLoading: false,
+
+    getTransactionAudit: async (transactionId) => {
+        set({ entries: [], isLoading: true });
+
+        try {
+            const entries = await apiRequest<AuditEntry[]>(`/api/transactions/${transactionId}/audit`);
+            set({ entries });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
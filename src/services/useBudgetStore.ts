@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { Budget } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+import { BudgetProgress } from '@/lib/budgets';
+
+const BUDGETS_URL = '/api/budgets';
+
+/**
+ * Contrato del estado y las acciones para los presupuestos.
+ */
+interface BudgetState {
+    /** Presupuestos mensuales del usuario. */
+    budgets: Budget[];
+    /** Progreso de cada presupuesto en el mes consultado, calculado en el servidor. */
+    progress: BudgetProgress[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera los presupuestos desde la API. */
+    getBudgets: () => Promise<void>;
+    /** Recupera el progreso de los presupuestos en un mes (`YYYY-MM`). */
+    getProgress: (month: string) => Promise<void>;
+    /** Crea un presupuesto para una categoría. */
+    addBudget: (budget: Omit<Budget, 'id'>) => Promise<void>;
+    /** Actualiza un presupuesto existente. */
+    updateBudget: (budget: Budget) => Promise<void>;
+    /** Elimina un presupuesto. */
+    deleteBudget: (id: string) => Promise<void>;
+}
+
+/**
+ * Store global de presupuestos por categoría.
+ */
+export const useBudgetStore = create<BudgetState>((set) => ({
+    budgets: [],
+    progress: [],
+    isLoading: false,
+
+    getBudgets: async () => {
+        set({ isLoading: true });
+
+        try {
+            const budgets = await apiRequest<Budget[]>(BUDGETS_URL);
+            set({ budgets });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    getProgress: async (month) => {
+        const progress = await apiRequest<BudgetProgress[]>(`${BUDGETS_URL}/progress?${new URLSearchParams({ month })}`);
+        set({ progress });
+    },
+
+    addBudget: async (newBudget) => {
+        set({ isLoading: true });
+
+        try {
+            const budget = await apiRequest<Budget>(BUDGETS_URL, { method: 'POST', body: newBudget });
+            set((state) => ({ budgets: [...state.budgets, budget] }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateBudget: async (updatedBudget) => {
+        set({ isLoading: true });
+
+        try {
+            const { id, ...data } = updatedBudget;
+            const saved = await apiRequest<Budget>(`${BUDGETS_URL}/${id}`, { method: 'PUT', body: data });
+            set((state) => ({
+                budgets: state.budgets.map((budget) => (budget.id === saved.id ? saved : budget)),
+            }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteBudget: async (id) => {
+        set({ isLoading: true });
+
+        try {
+            await apiRequest<void>(`${BUDGETS_URL}/${id}`, { method: 'DELETE' });
+            set((state) => ({ budgets: state.budgets.filter((budget) => budget.id !== id) }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
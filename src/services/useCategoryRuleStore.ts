@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import { CategoryRule } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+
+const RULES_URL = '/api/category-rules';
+
+/**
+ * Contrato del estado y las acciones para las reglas de categorización.
+ */
+interface CategoryRuleState {
+    /** Reglas de categorización del usuario, en el orden en que se evalúan. */
+    categoryRules: CategoryRule[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera las reglas desde la API. */
+    getCategoryRules: () => Promise<void>;
+    /** Crea una regla al final de la lista. */
+    addCategoryRule: (rule: Omit<CategoryRule, 'id'>) => Promise<void>;
+    /** Actualiza una regla existente. */
+    updateCategoryRule: (rule: CategoryRule) => Promise<void>;
+    /** Elimina una regla. */
+    deleteCategoryRule: (id: string) => Promise<void>;
+}
+
+/**
+ * Store global de reglas de categorización automática.
+ */
+export const useCategoryRuleStore = create<CategoryRuleState>((set) => ({
+    categoryRules: [],
+    isLoading: false,
+
+    getCategoryRules: async () => {
+        set({ isLoading: true });
+
+        try {
+            const categoryRules = await apiRequest<CategoryRule[]>(RULES_URL);
+            set({ categoryRules });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    addCategoryRule: async (newRule) => {
+        set({ isLoading: true });
+
+        try {
+            const rule = await apiRequest<CategoryRule>(RULES_URL, { method: 'POST', body: newRule });
+            set((state) => ({ categoryRules: [...state.categoryRules, rule] }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateCategoryRule: async (updatedRule) => {
+        set({ isLoading: true });
+
+        try {
+            const { id, ...data } = updatedRule;
+            const saved = await apiRequest<CategoryRule>(`${RULES_URL}/${id}`, { method: 'PUT', body: data });
+            set((state) => ({
+                categoryRules: state.categoryRules.map((rule) => (rule.id === saved.id ? saved : rule)),
+            }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteCategoryRule: async (id) => {
+        set({ isLoading: true });
+
+        try {
+            await apiRequest<void>(`${RULES_URL}/${id}`, { method: 'DELETE' });
+            set((state) => ({ categoryRules: state.categoryRules.filter((rule) => rule.id !== id) }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
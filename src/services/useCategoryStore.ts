@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { Category } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+
+const CATEGORIES_URL = '/api/categories';
+
+/**
+ * Contrato del estado y las acciones para las categorías gestionadas.
+ */
+interface CategoryState {
+    /** Categorías y subcategorías del usuario. */
+    categories: Category[];
+    /** Cantidad de movimientos de cada categoría, por nombre (se carga al abrir la gestión). */
+    usage: Record<string, number>;
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera las categorías desde la API (migrando las de texto libre). */
+    getCategories: () => Promise<void>;
+    /** Recupera la cantidad de movimientos de cada categoría. */
+    getUsage: () => Promise<void>;
+    /** Crea una categoría y la devuelve (para seleccionarla en el formulario). */
+    addCategory: (category: Omit<Category, 'id'>) => Promise<Category>;
+    /** Actualiza una categoría; si cambia el nombre, el servidor renombra sus movimientos. */
+    updateCategory: (category: Category) => Promise<void>;
+    /** Elimina una categoría sin movimientos. */
+    deleteCategory: (id: string) => Promise<void>;
+    /** Fusiona `sourceId` en `targetId` y reasigna sus movimientos. */
+    mergeCategories: (sourceId: string, targetId: string) => Promise<void>;
+}
+
+/**
+ * Store de categorías, persistidas por usuario en /api/categories.
+ */
+export const useCategoryStore = create<CategoryState>((set) => ({
+    categories: [],
+    usage: {},
+    isLoading: false,
+
+    getCategories: async () => {
+        set({ isLoading: true });
+
+        try {
+            const categories = await apiRequest<Category[]>(CATEGORIES_URL);
+            set({ categories });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    getUsage: async () => {
+        const usage = await apiRequest<Record<string, number>>(`${CATEGORIES_URL}/usage`);
+        set({ usage });
+    },
+
+    addCategory: async (newCategory) => {
+        set({ isLoading: true });
+
+        try {
+            const category = await apiRequest<Category>(CATEGORIES_URL, { method: 'POST', body: newCategory });
+            set((state) => ({ categories: [...state.categories, category] }));
+            return category;
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateCategory: async (updatedCategory) => {
+        set({ isLoading: true });
+
+        try {
+            const { id, ...data } = updatedCategory;
+            const saved = await apiRequest<Category>(`${CATEGORIES_URL}/${id}`, { method: 'PUT', body: data });
+            set((state) => ({
+                categories: state.categories.map((category) => (category.id === saved.id ? saved : category)),
+            }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteCategory: async (id) => {
+        set({ isLoading: true });
+
+        try {
+            await apiRequest<void>(`${CATEGORIES_URL}/${id}`, { method: 'DELETE' });
+            set((state) => ({ categories: state.categories.filter((category) => category.id !== id) }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    mergeCategories: async (sourceId, targetId) => {
+        set({ isLoading: true });
+
+        try {
+            // El servidor devuelve la lista completa: cambian padres y desaparece la origen
+            const categories = await apiRequest<Category[]>(`${CATEGORIES_URL}/${sourceId}/merge`, {
+                method: 'POST',
+                body: { targetId },
+            });
+            set({ categories });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
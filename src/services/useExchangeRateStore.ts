@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { ExchangeRate } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+
+const RATES_URL = '/api/exchange-rates';
+
+/**
+ * Contrato del estado y las acciones para la tabla de tasas de cambio.
+ */
+interface ExchangeRateState {
+    /** Tasas registradas por el usuario. */
+    rates: ExchangeRate[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera la tabla de tasas desde la API. */
+    getRates: () => Promise<void>;
+    /** Registra una tasa. */
+    addRate: (rate: Omit<ExchangeRate, 'id'>) => Promise<void>;
+    /** Importa varias tasas; devuelve cuántas se crearon (las repetidas se omiten). */
+    importRates: (rates: Omit<ExchangeRate, 'id'>[]) => Promise<number>;
+    /** Actualiza una tasa existente. */
+    updateRate: (rate: ExchangeRate) => Promise<void>;
+    /** Elimina una tasa. */
+    deleteRate: (id: string) => Promise<void>;
+}
+
+/**
+ * Store de tasas de cambio, persistidas por usuario en /api/exchange-rates.
+ */
+export const useExchangeRateStore = create<ExchangeRateState>((set) => ({
+    rates: [],
+    isLoading: false,
+
+    getRates: async () => {
+        set({ isLoading: true });
+
+        try {
+            const rates = await apiRequest<ExchangeRate[]>(RATES_URL);
+            set({ rates });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    addRate: async (newRate) => {
+        set({ isLoading: true });
+
+        try {
+            const rate = await apiRequest<ExchangeRate>(RATES_URL, { method: 'POST', body: newRate });
+            set((state) => ({ rates: [...state.rates, rate] }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    importRates: async (newRates) => {
+        set({ isLoading: true });
+
+        try {
+            const created = await apiRequest<ExchangeRate[]>(`${RATES_URL}/batch`, { method: 'POST', body: newRates });
+            set((state) => ({ rates: [...state.rates, ...created] }));
+            return created.length;
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateRate: async (updatedRate) => {
+        set({ isLoading: true });
+
+        try {
+            const { id, ...data } = updatedRate;
+            const saved = await apiRequest<ExchangeRate>(`${RATES_URL}/${id}`, { method: 'PUT', body: data });
+            set((state) => ({
+                rates: state.rates.map((rate) => (rate.id === saved.id ? saved : rate)),
+            }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteRate: async (id) => {
+        set({ isLoading: true });
+
+        try {
+            await apiRequest<void>(`${RATES_URL}/${id}`, { method: 'DELETE' });
+            set((state) => ({ rates: state.rates.filter((rate) => rate.id !== id) }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { Goal } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+import { GoalProgress } from '@/lib/goals';
+
+const GOALS_URL = '/api/goals';
+
+/**
+ * Contrato del estado y las acciones para las metas de ahorro.
+ */
+interface GoalState {
+    /** Metas de ahorro del usuario. */
+    goals: Goal[];
+    /** Avance de cada meta, calculado en el servidor. */
+    progress: GoalProgress[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera las metas desde la API. */
+    getGoals: () => Promise<void>;
+    /** Recupera el avance de las metas a una fecha (`YYYY-MM-DD`). */
+    getProgress: (today: string) => Promise<void>;
+    /** Crea una meta. */
+    addGoal: (goal: Omit<Goal, 'id'>) => Promise<void>;
+    /** Actualiza una meta existente. */
+    updateGoal: (goal: Goal) => Promise<void>;
+    /** Elimina una meta. */
+    deleteGoal: (id: string) => Promise<void>;
+}
+
+/**
+ * Store global de metas de ahorro.
+ */
+export const useGoalStore = create<GoalState>((set) => ({
+    goals: [],
+    progress: [],
+    isLoading: false,
+
+    getGoals: async () => {
+        set({ isLoading: true });
+
+        try {
+            const goals = await apiRequest<Goal[]>(GOALS_URL);
+            set({ goals });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    getProgress: async (today) => {
+        const progress = await apiRequest<GoalProgress[]>(`${GOALS_URL}/progress?${new URLSearchParams({ today })}`);
+        set({ progress });
+    },
+
+    addGoal: async (newGoal) => {
+        set({ isLoading: true });
+
+        try {
+            const goal = await apiRequest<Goal>(GOALS_URL, { method: 'POST', body: newGoal });
+            set((state) => ({ goals: [...state.goals, goal] }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateGoal: async (updatedGoal) => {
+        set({ isLoading: true });
+
+        try {
+            const { id, ...data } = updatedGoal;
+            const saved = await apiRequest<Goal>(`${GOALS_URL}/${id}`, { method: 'PUT', body: data });
+            set((state) => ({
+                goals: state.goals.map((goal) => (goal.id === saved.id ? saved : goal)),
+            }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteGoal: async (id) => {
+        set({ isLoading: true });
+
+        try {
+            await apiRequest<void>(`${GOALS_URL}/${id}`, { method: 'DELETE' });
+            set((state) => ({ goals: state.goals.filter((goal) => goal.id !== id) }));
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+}));
@@ -0,0 +1,80 @@
+import { create } from 'zustand';
+import { RecurringRule, Transaction } from '@/types';
+import { apiRequest } from '@/services/apiClient';
+import { useTransactionStore } from '@/services/useTransactionStore';
+
+const RULES_URL = '/api/recurring-rules';
+
+/** Campos de la serie editables desde una ocurrencia. */
+type SeriesChanges = Pick<Transaction, 'title' | 'amount' | 'currency' | 'type' | 'category' | 'accountId' | 'toAccountId' | 'toAmount'>;
+
+/**
+ * Contrato del estado y las acciones para las reglas recurrentes.
+ */
+interface RecurringState {
+    /** Reglas recurrentes del usuario. */
+    rules: RecurringRule[];
+    /** Indicador de procesos asíncronos. */
+    isLoading: boolean;
+    /** Recupera las reglas desde la API. */
+    getRules: () => Promise<void>;
+    /** Genera las ocurrencias vencidas; devuelve cuántas transacciones se crearon. */
+    generateDueTransactions: () => Promise<number>;
+    /** Crea una regla (y sus ocurrencias vencidas). */
+    addRule: (rule: Omit<RecurringRule, 'id' | 'lastGeneratedDate'>) => Promise<void>;
+    /** Aplica cambios a la serie desde la ocurrencia indicada ("esta y las futuras"). */
+    updateSeries: (ruleId: string, changes: SeriesChanges, fromDate: string) => Promise<void>;
+    /** Detiene la serie; las transacciones ya generadas se conservan. */
+    deleteRule: (id: string) => Promise<void>;
+}
+
+/**
+ * Store de transacciones recurrentes.
+ * Tras cada cambio que afecta a las transacciones, recarga el store de transacciones.
+ */
+export const useRecurringStore = create<RecurringState>((set) => ({
+    rules: [],
+    isLoading: false,
+
+    getRules: async () => {
+        const rules = await apiRequest<RecurringRule[]>(RULES_URL);
+        set({ rules });
+    },
+
+    generateDueTransactions: async () => {
+        const { created } = await apiRequest<{ created: number }>(`${RULES_URL}/generate`, { method: 'POST' });
+        return created;
+    },
+
+    addRule: async (newRule) => {
+        set({ isLoading: true });
+
+        try {
+            const rule = await apiRequest<RecurringRule>(RULES_URL, { method: 'POST', body: newRule });
+            set((state) => ({ rules: [...state.rules, rule] }));
+            await useTransactionStore.getState().getTransactions();
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    updateSeries: async (ruleId, changes, fromDate) => {
+        set({ isLoading: true });
+
+        try {
+            const rule = await apiRequest<RecurringRule>(`${RULES_URL}/${ruleId}`, {
+                method: 'PATCH',
+                body: { ...changes, fromDate },
+            });
+            set((state) => ({ rules: state.rules.map((item) => (item.id === rule.id ? rule : item)) }));
+            await useTransactionStore.getState().getTransactions();
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    deleteRule: async (id) => {
+        await apiRequest<void>(`${RULES_URL}/${id}`, { method: 'DELETE' });
+        set((state) => ({ rules: state.rules.filter((rule) => rule.id !== id) }));
+    },
+}));
@@ -1,97 +1,823 @@
 import { create } from 'zustand';
-import { Transaction } from '@/types';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { Transaction, TransactionPage } from '@/types';
+import { apiRequest, isNetworkError } from '@/services/apiClient';
+import { FilteredSummary } from '@/lib/aggregations';
+import { serializeFilters, TransactionFilters } from '@/lib/transactionFilters';
+import {
+    forgetTransaction,
+    getOperationTarget,
+    HistoryEntry,
+    pushEntry,
+    renameTransaction,
+    SingleOperation,
+    TransactionOperation,
+} from '@/lib/undoHistory';
+import {
+    createQuotaSafeStorage,
+    migrateTransactionState,
+    PERSISTED_TRANSACTIONS_LIMIT,
+    PersistedTransactionState,
+    QueuedOperation,
+    readPersistedTransactionState,
+    renameQueuedTransaction,
+    TRANSACTION_STORE_VERSION,
+} from '@/lib/offlineSync';
+
+const TRANSACTIONS_URL = '/api/transactions';
+
+/** Filas por página del historial (las mismas que muestra la tabla). */
+const HISTORY_PAGE_SIZE = 50;
+
+/** Transacciones recientes que se cargan para las sugerencias de los formularios. */
+const RECENT_LIMIT = 500;
+
+/** Filas por petición al recorrer una consulta completa (el máximo que admite la API). */
+const BULK_PAGE_SIZE = 1000;
+
+/** Identificador de la última petición de totales, para descartar respuestas obsoletas. */
+let latestSummaryRequest = 0;
+
+/** Identificador de la última consulta del historial, para descartar páginas de filtros anteriores. */
+let latestPageRequest = 0;
+
+/** Identificador incremental de los avisos, para que cada uno cierre solo el suyo. */
+let latestNoticeId = 0;
+
+/** Contador de los IDs temporales de las altas optimistas (hasta que el servidor asigna el real). */
+let latestTempId = 0;
+
+/** Evita que dos sincronizaciones de la cola envíen el mismo cambio a la vez. */
+let isSyncing = false;
+
+/** Aviso tras un cambio, con la acción que lo revierte. */
+export interface TransactionNotice {
+    id: number;
+    message: string;
+    /** Acción ofrecida en el aviso: deshacer el cambio o rehacer lo deshecho. */
+    action: 'undo' | 'redo';
+}
 
 /**
  * Contrato del estado y las acciones para las transacciones.
  */
 interface TransactionState {
-    /** Listado global de transacciones cargadas en memoria. */
+    /** Páginas cargadas del historial, filtradas y ordenadas por el servidor según `query`. */
     transactions: Transaction[];
-    /** Indicador de procesos asíncronos. */
+    /** Query string de los filtros y el orden del historial cargado. */
+    query: string;
+    /** Cursor de la página siguiente del historial (null si no hay más). */
+    nextCursor: string | null;
+    /** Últimas transacciones por fecha, sin filtros: base de las sugerencias de categorías y etiquetas. */
+    recent: Transaction[];
+    /** Totales de los filtros activos, calculados por el servidor. */
+    summary: FilteredSummary | null;
+    /** Totales del periodo anterior equivalente, para comparar. */
+    previousSummary: FilteredSummary | null;
+    /** Transacciones en la papelera (se cargan al abrirla). */
+    trash: Transaction[];
+    /** Cambios que se pueden deshacer, del más antiguo al más reciente. */
+    undoStack: HistoryEntry[];
+    /** Cambios deshechos que se pueden rehacer. */
+    redoStack: HistoryEntry[];
+    /** Aviso del último cambio (toast con "Deshacer"). */
+    notice: TransactionNotice | null;
+    /** Indicador de carga del listado (las mutaciones no lo usan: se aplican de forma optimista). */
     isLoading: boolean;
-    /** Recupera todas las transacciones desde la fuente de datos. */
-    getAllTransactions: () => Promise<void>;
+    /** IDs con una operación en curso; las altas usan un ID temporal hasta que responde el servidor. */
+    pendingIds: string[];
+    /** Mensaje del último error de una operación (ya revertida en el estado local). */
+    error: string | null;
+    /** Usuario dueño de los datos guardados en el dispositivo. */
+    ownerId: string | null;
+    /** Cambios hechos sin conexión, en orden, a la espera de enviarse a la API. */
+    queue: QueuedOperation[];
+    /** Carga la primera página del historial con los filtros y el orden indicados (sin ellos, recarga la consulta actual). */
+    getTransactions: (filters?: TransactionFilters) => Promise<void>;
+    /** Agrega al historial la página siguiente de la consulta actual. */
+    loadMoreTransactions: () => Promise<void>;
+    /** Recupera las transacciones más recientes para las sugerencias. */
+    getRecentTransactions: () => Promise<void>;
+    /** Solicita al servidor los totales del conjunto filtrado y, opcionalmente, los del periodo anterior. */
+    getSummary: (filters: TransactionFilters, previousFilters?: TransactionFilters) => Promise<void>;
     /** * Crea una nueva transacción. */
     addTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<void>;
+    /** Crea varias transacciones en una sola operación (importación). */
+    addTransactions: (transactions: Omit<Transaction, 'id'>[]) => Promise<void>;
     /** Actualiza una transacción existente basada en su ID. */
     updateTransaction: (transaction: Transaction) => Promise<void>;
-    /** Elimina una transacción de la persistencia y del estado local. */
+    /** Envía una transacción a la papelera. */
     deleteTransaction: (id: string) => Promise<void>;
+    /**
+     * Actualiza varias transacciones en un solo cambio del estado (acciones masivas).
+     * `originals` son las versiones anteriores de las que no están cargadas, para poder deshacerlas.
+     */
+    updateTransactions: (transactions: Transaction[], originals?: Transaction[]) => Promise<void>;
+    /** Envía varias transacciones a la papelera en un solo cambio del estado. */
+    deleteTransactions: (ids: string[]) => Promise<void>;
+    /** Recupera las transacciones de la papelera. */
+    getTrash: () => Promise<void>;
+    /** Saca una transacción de la papelera. */
+    restoreTransaction: (id: string) => Promise<void>;
+    /** Elimina definitivamente una transacción de la papelera (no se puede deshacer). */
+    purgeTransaction: (id: string) => Promise<void>;
+    /** Revierte el último cambio registrado. */
+    undo: () => Promise<void>;
+    /** Vuelve a aplicar el último cambio deshecho. */
+    redo: () => Promise<void>;
+    /** Cierra el aviso indicado (si sigue siendo el actual). */
+    dismissNotice: (id: number) => void;
+    /** Descarta el último error. */
+    clearError: () => void;
+    /** Asocia los datos guardados al usuario de la sesión; si son de otro usuario, los descarta. */
+    setOwner: (userId: string | null) => void;
+    /** Envía a la API los cambios de la cola. */
+    syncQueue: () => Promise<void>;
 }
 
 /**
  * Store global de transacciones.
- * Utiliza Zustand para una gestión de estado ligera y reactiva.
+ * Utiliza Zustand para una gestión de estado ligera y reactiva y persiste
+ * los cambios a través de las rutas /api/transactions.
+ * La cola sin conexión y las primeras transacciones del historial se guardan además en localStorage,
+ * para mostrarlas al recargar sin esperar a la red.
  */
-export const useTransactionStore = create<TransactionState>((set, get) => ({
+export const useTransactionStore = create<TransactionState>()(persist((set, get) => ({
     // --- ESTADO INICIAL ---
     transactions: [],
+    query: '',
+    nextCursor: null,
+    recent: [],
+    summary: null,
+    previousSummary: null,
+    trash: [],
+    undoStack: [],
+    redoStack: [],
+    notice: null,
     isLoading: false,
+    pendingIds: [],
+    error: null,
+    ownerId: null,
+    queue: [],
+
+    /**
+     * Lectura del historial: solo la primera página de la consulta; el resto se pide con `loadMoreTransactions`.
+     * El servidor filtra y ordena. Si cambian los filtros mientras llega la respuesta, se descarta.
+     * Antes envía los cambios hechos sin conexión; si no se pudieron enviar, conserva los datos locales.
+     */
+    getTransactions: async (filters) => {
+        const query = filters ? serializeFilters(filters).toString() : get().query;
+        const request = ++latestPageRequest;
+        set({ isLoading: true, query });
+
+        try {
+            await get().syncQueue();
+            if (get().queue.length > 0) return;
+
+            const page = await fetchPage(query);
+            if (request === latestPageRequest) set({ transactions: page.items, nextCursor: page.nextCursor, error: null });
+        } catch (error) {
+            set({
+                error: isNetworkError(error)
+                    ? 'Sin conexión: se muestran los datos guardados en este dispositivo'
+                    : getErrorMessage(error, 'No fue posible cargar las transacciones'),
+            });
+            throw error;
+        } finally {
+            if (request === latestPageRequest) set({ isLoading: false });
+        }
+    },
 
     /**
-     * Simulación de lectura de datos (Fetch).
+     * Página siguiente de la consulta actual. Las filas ya cargadas (ej: un alta optimista) no se repiten.
      */
-    getAllTransactions: async () => {
-        set({ isLoading: true });
+    loadMoreTransactions: async () => {
+        const { query, nextCursor } = get();
+        if (!nextCursor) return;
 
-        // Simulación de tiempo de procesamiento
-        await new Promise((resolve) => setTimeout(resolve, 800));
+        const request = latestPageRequest;
+        try {
+            const page = await fetchPage(query, nextCursor);
+            if (request !== latestPageRequest) return;
 
-        const mockData: Transaction[] = [
-            { id: '1', title: 'Salario', amount: 3000, type: 'income', category: 'Trabajo', date: '2023-10-01' },
-            { id: '2', title: 'Alquiler', amount: 800, type: 'expense', category: 'Vivienda', date: '2023-10-05' },
-        ];
+            set((state) => {
+                const loaded = new Set(state.transactions.map((tx) => tx.id));
+                return {
+                    transactions: [...state.transactions, ...page.items.filter((tx) => !loaded.has(tx.id))],
+                    nextCursor: page.nextCursor,
+                };
+            });
+        } catch (error) {
+            set({ error: getErrorMessage(error, 'No fue posible cargar más transacciones') });
+            throw error;
+        }
+    },
 
-        set({ transactions: mockData, isLoading: false });
+    getRecentTransactions: async () => {
+        const { items } = await fetchPage('', null, RECENT_LIMIT);
+        set({ recent: items });
     },
 
     /**
-     * Inserción de nueva transacción.
+     * Totales agregados en el servidor (y los del periodo de comparación, en paralelo).
+     * Si llegan respuestas fuera de orden (ej: mientras se escribe en la búsqueda), solo se aplica la última.
+     */
+    getSummary: async (filters, previousFilters) => {
+        const request = ++latestSummaryRequest;
+        const fetchSummary = (query: TransactionFilters) =>
+            apiRequest<FilteredSummary>(`${TRANSACTIONS_URL}/summary?${serializeFilters(query)}`);
+
+        const [summary, previousSummary] = await Promise.all([
+            fetchSummary(filters),
+            previousFilters ? fetchSummary(previousFilters) : null,
+        ]);
+
+        if (request === latestSummaryRequest) set({ summary, previousSummary });
+    },
+
+    /**
+     * Inserción de nueva transacción (optimista).
+     * Se muestra al instante con un ID temporal que se reemplaza por el registro que devuelve el servidor.
      */
     addTransaction: async (newTx) => {
-        set({ isLoading: true });
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        // Los IDs temporales se guardan con la cola: incluyen la hora para no repetirse tras recargar
+        const tempId = `temp-${Date.now().toString(36)}-${++latestTempId}`;
+        const optimistic: Transaction = { ...newTx, id: tempId, updatedAt: new Date().toISOString() };
 
-        // Generación de ID temporal (Mock)
-        const transaction: Transaction = {
-            ...newTx,
-            id: Math.random().toString(36).substring(2, 9)
-        };
+        const transaction = await runOptimistic({
+            ids: [tempId],
+            apply: (state) => ({ transactions: [optimistic, ...state.transactions] }),
+            request: () => sendOperation({ kind: 'create', transaction: optimistic }),
+            commit: (saved, state) => ({ transactions: replaceById(state.transactions, tempId, saved) }),
+            rollback: (state) => ({ transactions: state.transactions.filter((tx) => tx.id !== tempId) }),
+            fallbackError: 'No fue posible crear la transacción',
+            offline: { operation: { kind: 'create', transaction: optimistic }, result: optimistic },
+        });
 
-        // Actualización funcional del estado
-        set((state) => ({
-            transactions: [transaction, ...state.transactions],
-            isLoading: false
-        }));
+        record({
+            label: `Transacción “${transaction.title}” creada`,
+            undo: { kind: 'delete', id: transaction.id },
+            redo: { kind: 'restore', id: transaction.id },
+        });
+    },
+
+    /**
+     * Inserción masiva: una sola petición y una sola actualización del estado.
+     * No es optimista: la importación espera la respuesta para informar cuántas se crearon.
+     */
+    addTransactions: async (newTxs) => {
+        try {
+            const created = await apiRequest<Transaction[]>(`${TRANSACTIONS_URL}/batch`, { method: 'POST', body: newTxs });
+            // Las recientes también, para detectar duplicados si se vuelve a importar el mismo archivo
+            set((state) => ({ transactions: [...created, ...state.transactions], recent: [...created, ...state.recent], error: null }));
+        } catch (error) {
+            set({ error: getErrorMessage(error, 'No fue posible importar las transacciones') });
+            throw error;
+        }
     },
 
     /**
-     * Actualización de registros.
-     * Utiliza .map() para crear un nuevo arreglo, reemplazando solo el objeto modificado.
+     * Actualización de registros (optimista).
+     * Utiliza .map() para crear un nuevo arreglo, reemplazando solo el objeto modificado;
+     * la versión anterior queda en el historial para poder deshacer.
      */
     updateTransaction: async (updatedTx) => {
-        set({ isLoading: true });
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        set((state) => ({
-            transactions: state.transactions.map(tx =>
-                tx.id === updatedTx.id ? updatedTx : tx
-            ),
-            isLoading: false
-        }));
+        const previous = get().transactions.find((tx) => tx.id === updatedTx.id);
+        const saved = await applyOperation({ kind: 'update', transaction: updatedTx });
+
+        if (previous) {
+            record({
+                label: `Transacción “${saved.title}” actualizada`,
+                undo: { kind: 'update', transaction: previous },
+                redo: { kind: 'update', transaction: saved },
+            });
+        }
     },
 
     /**
-     * Eliminación de registros.
-     * Utiliza .filter() para generar un nuevo arreglo excluyendo el ID seleccionado.
+     * Eliminación de registros (borrado lógico, optimista).
+     * La transacción pasa del listado a la papelera y se puede deshacer.
      */
     deleteTransaction: async (id) => {
-        set({ isLoading: true });
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        const title = get().transactions.find((tx) => tx.id === id)?.title;
+        await applyOperation({ kind: 'delete', id });
 
-        set((state) => ({
-            transactions: state.transactions.filter(tx => tx.id !== id),
-            isLoading: false
-        }));
+        record({
+            label: `Transacción “${title}” enviada a la papelera`,
+            undo: { kind: 'restore', id },
+            redo: { kind: 'delete', id },
+        });
     },
-}));
\ No newline at end of file
+
+    /**
+     * Edición masiva (optimista): un solo cambio del estado, una sola petición
+     * y una sola entrada en el historial, que deshace todas las ediciones a la vez.
+     */
+    updateTransactions: async (updatedTxs, originals = []) => {
+        if (updatedTxs.length === 0) return;
+
+        // Las cargadas tienen prioridad: pueden incluir cambios locales más recientes
+        const previous = new Map([...originals, ...get().transactions].map((tx) => [tx.id, tx]));
+        const saved = await applyOperation({
+            kind: 'batch',
+            operations: updatedTxs.map((transaction): SingleOperation => ({ kind: 'update', transaction })),
+        });
+        const edited = saved.filter((tx) => previous.has(tx.id));
+        if (edited.length === 0) return;
+
+        record({
+            label: countTransactions(edited.length, 'actualizada', 'actualizadas'),
+            undo: { kind: 'batch', operations: edited.map((tx) => ({ kind: 'update', transaction: previous.get(tx.id)! })) },
+            redo: { kind: 'batch', operations: edited.map((transaction) => ({ kind: 'update', transaction })) },
+        });
+    },
+
+    /** Borrado lógico masivo (optimista), con una sola entrada en el historial. */
+    deleteTransactions: async (ids) => {
+        if (ids.length === 0) return;
+
+        await applyOperation({ kind: 'batch', operations: ids.map((id): SingleOperation => ({ kind: 'delete', id })) });
+
+        record({
+            label: countTransactions(ids.length, 'enviada a la papelera', 'enviadas a la papelera'),
+            undo: { kind: 'batch', operations: ids.map((id) => ({ kind: 'restore', id })) },
+            redo: { kind: 'batch', operations: ids.map((id) => ({ kind: 'delete', id })) },
+        });
+    },
+
+    getTrash: async () => {
+        const trash = await apiRequest<Transaction[]>(`${TRANSACTIONS_URL}/trash`);
+        set({ trash });
+    },
+
+    restoreTransaction: async (id) => {
+        const title = get().trash.find((tx) => tx.id === id)?.title;
+        await applyOperation({ kind: 'restore', id });
+
+        record({
+            label: `Transacción “${title}” restaurada`,
+            undo: { kind: 'delete', id },
+            redo: { kind: 'restore', id },
+        });
+    },
+
+    /**
+     * Eliminación definitiva desde la papelera.
+     * Se descartan las entradas del historial de esa transacción, que ya no se podrían aplicar.
+     */
+    purgeTransaction: async (id) => {
+        const removed = get().trash.find((tx) => tx.id === id);
+        const forget = (state: TransactionState) => ({
+            undoStack: forgetTransaction(state.undoStack, id),
+            redoStack: forgetTransaction(state.redoStack, id),
+        });
+
+        await runOptimistic({
+            ids: [id],
+            apply: (state) => ({ trash: state.trash.filter((tx) => tx.id !== id) }),
+            request: () => sendOperation({ kind: 'purge', id }),
+            commit: (_, state) => forget(state),
+            rollback: (state) => ({ trash: removed ? [removed, ...state.trash] : state.trash }),
+            fallbackError: 'No fue posible eliminar la transacción',
+            offline: { operation: { kind: 'purge', id }, result: undefined, commit: forget },
+        });
+    },
+
+    undo: () => travel('undo'),
+
+    redo: () => travel('redo'),
+
+    dismissNotice: (id) => {
+        set((state) => (state.notice?.id === id ? { notice: null } : {}));
+    },
+
+    clearError: () => set({ error: null }),
+
+    setOwner: (ownerId) => {
+        if (get().ownerId === ownerId) return;
+
+        set({
+            ownerId,
+            transactions: [],
+            query: '',
+            nextCursor: null,
+            recent: [],
+            trash: [],
+            queue: [],
+            undoStack: [],
+            redoStack: [],
+            notice: null,
+            summary: null,
+            previousSummary: null,
+            error: null,
+        });
+    },
+
+    /**
+     * Envía los cambios de la cola en el orden en que se hicieron.
+     * Se detiene en el primer fallo de red (el resto espera al siguiente intento); un cambio que el
+     * servidor rechaza se descarta y su mensaje queda en `error`. Nunca lanza errores.
+     */
+    syncQueue: async () => {
+        if (isSyncing) return;
+        isSyncing = true;
+
+        try {
+            for (let operation = get().queue[0]; operation; operation = get().queue[0]) {
+                try {
+                    const result = await sendOperation(operation);
+                    set((state) => reconcile(operation, result, { ...state, queue: state.queue.slice(1) }));
+                } catch (error) {
+                    if (isNetworkError(error)) return;
+
+                    set((state) => ({
+                        queue: state.queue.slice(1),
+                        error: getErrorMessage(error, 'No fue posible sincronizar un cambio hecho sin conexión'),
+                    }));
+                }
+            }
+        } finally {
+            isSyncing = false;
+        }
+    },
+}), {
+    name: 'transactions',
+    storage: createJSONStorage(() => createQuotaSafeStorage(localStorage)),
+    version: TRANSACTION_STORE_VERSION,
+    migrate: migrateTransactionState,
+    // Lo guardado con la versión actual no pasa por la migración: se valida igual antes de entrar al store
+    merge: (persisted, current) => ({ ...current, ...readPersistedTransactionState(persisted) }),
+    partialize: ({ ownerId, transactions, queue }): PersistedTransactionState => ({
+        ownerId,
+        transactions: transactions.slice(0, PERSISTED_TRANSACTIONS_LIMIT),
+        queue,
+    }),
+}));
+
+/** Acceso al store desde las mutaciones optimistas y el historial (fuera de las acciones). */
+const { setState, getState } = useTransactionStore;
+
+/** Pide una página de GET /api/transactions con los filtros y el orden de `query`. */
+function fetchPage(query: string, cursor?: string | null, limit = HISTORY_PAGE_SIZE) {
+    const params = new URLSearchParams(query);
+    params.set('limit', String(limit));
+    if (cursor) params.set('cursor', cursor);
+
+    return apiRequest<TransactionPage>(`${TRANSACTIONS_URL}?${params}`);
+}
+
+/**
+ * Recupera todas las transacciones de una consulta acotada, página a página
+ * (ej: el mes del estado de cuenta o la vista que se exporta), sin pasar por el store.
+ */
+export async function fetchFilteredTransactions(filters: TransactionFilters): Promise<Transaction[]> {
+    const query = serializeFilters(filters).toString();
+    const transactions: Transaction[] = [];
+    let cursor: string | null = null;
+
+    do {
+        const page: TransactionPage = await fetchPage(query, cursor, BULK_PAGE_SIZE);
+        transactions.push(...page.items);
+        cursor = page.nextCursor;
+    } while (cursor);
+
+    return transactions;
+}
+
+/** Mensaje legible de un error de la API. */
+const getErrorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+/** Aviso de una acción masiva (ej: "3 transacciones actualizadas"). */
+const countTransactions = (count: number, singular: string, plural: string) =>
+    count === 1 ? `1 transacción ${singular}` : `${count} transacciones ${plural}`;
+
+/** Reemplaza el registro con el ID indicado (si sigue en la lista). */
+const replaceById = (list: Transaction[], id: string, transaction: Transaction) =>
+    list.map((tx) => (tx.id === id ? transaction : tx));
+
+/** Mutación optimista: cambio inmediato, petición y confirmación o reversión. */
+interface OptimisticMutation<R> {
+    /** IDs que quedan pendientes mientras dura la petición. */
+    ids: string[];
+    apply: (state: TransactionState) => Partial<TransactionState>;
+    request: () => Promise<R>;
+    /** Ajusta el estado con la respuesta del servidor. */
+    commit: (result: R, state: TransactionState) => Partial<TransactionState>;
+    /**
+     * Deshace solo el cambio aplicado (no restaura una copia del estado completo),
+     * para no perder otras operaciones que hayan terminado mientras tanto.
+     */
+    rollback: (state: TransactionState) => Partial<TransactionState>;
+    /** Mensaje si el error no trae uno propio. */
+    fallbackError: string;
+    /**
+     * Si se indica, la mutación funciona sin conexión: ante un fallo de red el cambio local se conserva,
+     * la operación se encola y se continúa con `result` (y `commit`, si el estado depende de él).
+     */
+    offline?: {
+        operation: QueuedOperation;
+        result: R;
+        commit?: (state: TransactionState) => Partial<TransactionState>;
+    };
+}
+
+/**
+ * Ejecuta una mutación optimista. Si la petición falla, revierte el cambio,
+ * guarda el mensaje en `error` y relanza el error para quien la invocó.
+ * Las mutaciones con `offline` se encolan sin conexión, y también mientras la cola tenga
+ * cambios pendientes, para que lleguen al servidor en el orden en que se hicieron.
+ */
+async function runOptimistic<R>({ ids, apply, request, commit, rollback, fallbackError, offline }: OptimisticMutation<R>): Promise<R> {
+    const release = (pendingIds: string[]) => pendingIds.filter((id) => !ids.includes(id));
+    const enqueue = (state: TransactionState, { operation, commit: commitOffline }: NonNullable<typeof offline>) => ({
+        ...state,
+        ...commitOffline?.(state),
+        queue: [...state.queue, operation],
+    });
+
+    if (offline && getState().queue.length > 0) {
+        setState((state) => ({ ...enqueue({ ...state, ...apply(state) }, offline), error: null }));
+        void getState().syncQueue();
+        return offline.result;
+    }
+
+    setState((state) => ({ ...apply(state), pendingIds: [...state.pendingIds, ...ids], error: null }));
+
+    try {
+        const result = await request();
+        setState((state) => ({ ...commit(result, state), pendingIds: release(state.pendingIds) }));
+        return result;
+    } catch (error) {
+        if (offline && isNetworkError(error)) {
+            setState((state) => ({ ...enqueue(state, offline), pendingIds: release(state.pendingIds) }));
+            return offline.result;
+        }
+
+        setState((state) => ({
+            ...rollback(state),
+            pendingIds: release(state.pendingIds),
+            error: getErrorMessage(error, fallbackError),
+        }));
+        throw error;
+    }
+}
+
+/** Operación sobre varias transacciones. */
+type BatchOperation = Extract<TransactionOperation, { kind: 'batch' }>;
+
+/** Lista del store en la que está (o queda) una transacción. */
+type TransactionList = 'transactions' | 'trash';
+
+/**
+ * Aplica una operación del historial de forma optimista contra la API.
+ * Eliminar y restaurar mueven la transacción entre el listado y la papelera;
+ * si la petición falla, vuelve a su lista y posición originales (sin conexión, se encola).
+ * @returns La transacción tal como quedó en el servidor (todas, en un lote).
+ */
+async function applyOperation(operation: SingleOperation): Promise<Transaction>;
+async function applyOperation(operation: BatchOperation): Promise<Transaction[]>;
+async function applyOperation(operation: TransactionOperation): Promise<Transaction | Transaction[]>;
+async function applyOperation(operation: TransactionOperation): Promise<Transaction | Transaction[]> {
+    if (operation.kind === 'batch') return applyBatch(operation.operations);
+
+    const now = new Date().toISOString();
+
+    if (operation.kind === 'update') {
+        // La marca de modificación es la del momento del cambio (también al deshacer o rehacer)
+        const stamped: Transaction = { ...operation.transaction, updatedAt: now };
+        const { id } = stamped;
+        const previous = getState().transactions.find((tx) => tx.id === id);
+
+        return runOptimistic({
+            ids: [id],
+            apply: (state) => ({ transactions: replaceById(state.transactions, id, stamped) }),
+            request: () => sendOperation({ kind: 'update', transaction: stamped }),
+            // Si ganó una edición más reciente hecha en otro dispositivo, el servidor responde con ella
+            commit: (saved, state) => ({ transactions: replaceById(state.transactions, id, saved) }),
+            rollback: (state) => ({ transactions: previous ? replaceById(state.transactions, id, previous) : state.transactions }),
+            fallbackError: 'No fue posible guardar los cambios',
+            offline: { operation: { kind: 'update', transaction: stamped }, result: stamped },
+        });
+    }
+
+    const { id } = operation;
+    const isDelete = operation.kind === 'delete';
+    const source = isDelete ? 'transactions' : 'trash';
+    const target = isDelete ? 'trash' : 'transactions';
+    const index = getState()[source].findIndex((tx) => tx.id === id);
+    const original = getState()[source][index];
+    // Copia local con la marca de papelera puesta (o quitada) hasta que responda el servidor
+    const moved: Transaction | undefined = original && { ...original, deletedAt: isDelete ? now : undefined, updatedAt: now };
+
+    return runOptimistic({
+        ids: [id],
+        apply: (state) => ({
+            [source]: state[source].filter((tx) => tx.id !== id),
+            [target]: moved ? [moved, ...state[target]] : state[target],
+        }),
+        request: () => sendOperation(operation),
+        // La respuesta trae (o quita) la marca deletedAt; si no estaba cargada, se agrega al principio
+        commit: (saved, state) => ({
+            [target]: moved ? replaceById(state[target], id, saved) : [saved, ...state[target]],
+        }),
+        rollback: (state) => ({
+            [target]: state[target].filter((tx) => tx.id !== id),
+            [source]: original ? state[source].toSpliced(Math.max(index, 0), 0, original) : state[source],
+        }),
+        fallbackError: isDelete ? 'No fue posible eliminar la transacción' : 'No fue posible restaurar la transacción',
+        // Sin la transacción cargada no hay copia local que conservar mientras se espera la conexión
+        offline: moved && { operation, result: moved },
+    });
+}
+
+/** Efecto local de una operación de un lote. */
+interface LocalChange {
+    id: string;
+    source: TransactionList;
+    target: TransactionList;
+    /** Posición original en `source`, para devolverla a su lugar si la petición falla. */
+    index: number;
+    original?: Transaction;
+    /** Copia local hasta que responde el servidor (no existe si la transacción no estaba cargada). */
+    local?: Transaction;
+}
+
+/**
+ * Aplica las operaciones de un lote con un solo cambio del estado y una sola petición.
+ * El servidor aplica el lote completo o ninguna operación, así que un fallo revierte todas.
+ */
+async function applyBatch(operations: SingleOperation[]): Promise<Transaction[]> {
+    const now = new Date().toISOString();
+    const ids = operations.map(getOperationTarget);
+    // La marca de modificación de las ediciones es la del momento del cambio
+    const stamped = operations.map((operation): SingleOperation =>
+        operation.kind === 'update' ? { ...operation, transaction: { ...operation.transaction, updatedAt: now } } : operation);
+
+    const changes = stamped.map((operation): LocalChange => {
+        const id = getOperationTarget(operation);
+        const source = operation.kind === 'restore' ? 'trash' : 'transactions';
+        const target = operation.kind === 'delete' ? 'trash' : 'transactions';
+        const index = getState()[source].findIndex((tx) => tx.id === id);
+        const original = getState()[source][index];
+
+        const local = operation.kind === 'update'
+            ? original && operation.transaction
+            : original && { ...original, deletedAt: operation.kind === 'delete' ? now : undefined, updatedAt: now };
+        return { id, source, target, index, original, local };
+    });
+    const moved = changes.filter((change) => change.source !== change.target);
+    const movedIds = new Set(moved.map((change) => change.id));
+    const edits = changes.filter((change) => change.source === change.target && change.local && change.original);
+    const edited = new Map(edits.map((change) => [change.id, change.local!]));
+    const originals = new Map(edits.map((change) => [change.id, change.original!]));
+
+    /** Lista con las copias locales: las movidas al principio de su destino y las editadas en su lugar. */
+    const applyTo = (state: TransactionState, list: TransactionList) => [
+        ...moved.flatMap((change) => (change.target === list && change.local ? [change.local] : [])),
+        ...state[list].filter((tx) => !movedIds.has(tx.id)).map((tx) => edited.get(tx.id) ?? tx),
+    ];
+
+    /** Lista con las versiones del servidor; las que no estaban cargadas se agregan al principio de su destino. */
+    const commitTo = (saved: Transaction[], state: TransactionState, list: TransactionList) => {
+        const byId = new Map(saved.map((tx) => [tx.id, tx]));
+        const missing = moved.filter((change) => change.target === list && !change.local).flatMap((change) => byId.get(change.id) ?? []);
+        return [...missing, ...state[list].map((tx) => byId.get(tx.id) ?? tx)];
+    };
+
+    /** Lista sin las copias locales, con los originales de vuelta en su posición. */
+    const rollbackTo = (state: TransactionState, list: TransactionList) => moved
+        .filter((change) => change.source === list && change.original)
+        .sort((a, b) => a.index - b.index)
+        .reduce(
+            (result, change) => result.toSpliced(change.index, 0, change.original!),
+            state[list]
+                .filter((tx) => !movedIds.has(tx.id))
+                .map((tx) => originals.get(tx.id) ?? tx)
+        );
+
+    const locals = changes.flatMap((change) => change.local ?? []);
+
+    return runOptimistic({
+        ids,
+        apply: (state) => ({ transactions: applyTo(state, 'transactions'), trash: applyTo(state, 'trash') }),
+        request: () => sendOperation({ kind: 'batch', operations: stamped }),
+        commit: (saved, state) => ({ transactions: commitTo(saved, state, 'transactions'), trash: commitTo(saved, state, 'trash') }),
+        rollback: (state) => ({ transactions: rollbackTo(state, 'transactions'), trash: rollbackTo(state, 'trash') }),
+        fallbackError: 'No fue posible aplicar los cambios',
+        // Sin conexión solo se encola si todas las transacciones tienen su copia local
+        offline: locals.length === changes.length ? { operation: { kind: 'batch', operations: stamped }, result: locals } : undefined,
+    });
+}
+
+/** Operación de un lote tal como la recibe PATCH /api/transactions/batch. */
+const toBatchRequest = (operation: SingleOperation) => {
+    if (operation.kind !== 'update') return operation;
+    return { kind: operation.kind, id: operation.transaction.id, transaction: omitId(operation.transaction) };
+};
+
+/** Campos de la transacción sin su ID (el servidor asigna el definitivo o lo recibe en la URL). */
+const omitId = (transaction: Transaction): Omit<Transaction, 'id'> => {
+    const data: Omit<Transaction, 'id'> & { id?: string } = { ...transaction };
+    delete data.id;
+    return data;
+};
+
+/** Envía una operación a la API (al momento o al sincronizar la cola). */
+function sendOperation(operation: SingleOperation | Extract<QueuedOperation, { kind: 'create' }>): Promise<Transaction>;
+function sendOperation(operation: BatchOperation): Promise<Transaction[]>;
+function sendOperation(operation: QueuedOperation): Promise<Transaction | Transaction[] | void>;
+function sendOperation(operation: QueuedOperation): Promise<Transaction | Transaction[] | void> {
+    switch (operation.kind) {
+        case 'create': {
+            // El ID temporal no se envía: el servidor asigna el definitivo
+            return apiRequest<Transaction>(TRANSACTIONS_URL, { method: 'POST', body: omitId(operation.transaction) });
+        }
+        case 'update': {
+            const { transaction } = operation;
+            return apiRequest<Transaction>(`${TRANSACTIONS_URL}/${transaction.id}`, { method: 'PUT', body: omitId(transaction) });
+        }
+        case 'delete':
+            return apiRequest<Transaction>(`${TRANSACTIONS_URL}/${operation.id}`, { method: 'DELETE' });
+        case 'restore':
+            return apiRequest<Transaction>(`${TRANSACTIONS_URL}/${operation.id}/restore`, { method: 'POST' });
+        case 'purge':
+            return apiRequest<void>(`${TRANSACTIONS_URL}/${operation.id}?permanent=true`, { method: 'DELETE' });
+        case 'batch':
+            return apiRequest<Transaction[]>(`${TRANSACTIONS_URL}/batch`, {
+                method: 'PATCH',
+                body: operation.operations.map(toBatchRequest),
+            });
+    }
+}
+
+/**
+ * Refleja en el estado la respuesta a una operación de la cola.
+ * Un alta sincronizada cambia su ID temporal por el definitivo en los listados, en el resto
+ * de la cola y en el historial; el resto de operaciones toman la versión del servidor.
+ */
+function reconcile(
+    operation: QueuedOperation,
+    result: Transaction | Transaction[] | void,
+    state: TransactionState
+): Partial<TransactionState> {
+    if (!result) return state;
+
+    if (operation.kind === 'create' && !Array.isArray(result)) {
+        const from = operation.transaction.id;
+        const rename = (list: Transaction[]) => list.map((tx) => (tx.id === from ? { ...tx, id: result.id } : tx));
+
+        return {
+            ...state,
+            transactions: rename(state.transactions),
+            trash: rename(state.trash),
+            queue: renameQueuedTransaction(state.queue, from, result.id),
+            undoStack: renameTransaction(state.undoStack, from, result.id),
+            redoStack: renameTransaction(state.redoStack, from, result.id),
+        };
+    }
+
+    const saved = new Map([result].flat().map((tx) => [tx.id, tx]));
+    return {
+        ...state,
+        transactions: state.transactions.map((tx) => saved.get(tx.id) ?? tx),
+        trash: state.trash.map((tx) => saved.get(tx.id) ?? tx),
+    };
+}
+
+/** Registra un cambio nuevo: se puede deshacer y ya no hay nada que rehacer. */
+function record(entry: HistoryEntry) {
+    setState((state) => ({
+        undoStack: pushEntry(state.undoStack, entry),
+        redoStack: [],
+        notice: { id: ++latestNoticeId, message: entry.label, action: 'undo' },
+    }));
+}
+
+/**
+ * Mueve la última entrada de una pila a la otra aplicando su operación.
+ * Se saca de la pila antes de llamar a la API para que un atajo repetido no la aplique dos veces;
+ * si la API falla, vuelve a su lugar (el estado ya lo revirtió la mutación optimista).
+ */
+async function travel(direction: 'undo' | 'redo') {
+    const from = direction === 'undo' ? 'undoStack' : 'redoStack';
+    const to = direction === 'undo' ? 'redoStack' : 'undoStack';
+    const entry = getState()[from].at(-1);
+    if (!entry) return;
+
+    setState((state) => ({ [from]: state[from].slice(0, -1) }));
+
+    try {
+        await applyOperation(entry[direction]);
+        setState((state) => ({
+            [to]: pushEntry(state[to], entry),
+            notice: {
+                id: ++latestNoticeId,
+                message: direction === 'undo' ? `Deshecho: ${entry.label}` : entry.label,
+                action: direction === 'undo' ? 'redo' : 'undo',
+            },
+        }));
+    } catch (error) {
+        setState((state) => ({ [from]: [...state[from], entry] }));
+        throw error;
+    }
+}
@@ -1,22 +1,219 @@
-export type TransactionType = 'income' | 'expense';
+/** Una transferencia mueve dinero entre cuentas propias: no es ingreso ni gasto. */
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+/** Monedas soportadas (ISO 4217). La lista de valores está en CURRENCY_CODES (lib/currency). */
+export type CurrencyCode = 'COP' | 'USD' | 'EUR' | 'MXN' | 'ARS' | 'CLP' | 'PEN' | 'BRL' | 'GBP';
 
 export interface Transaction {
     id: string;
     title: string;
     amount: number;
+    /** Moneda en la que se expresa `amount`. */
+    currency: CurrencyCode;
     type: TransactionType;
+    /** Nombre de la categoría gestionada (ver Category). */
     category: string;
     date: string;
+    /** Cuenta de la que sale (o a la que entra) el dinero. */
+    accountId: string;
+    /** Cuenta de destino; solo en transferencias. */
+    toAccountId?: string;
+    /** Monto acreditado en la cuenta de destino si usa otra moneda; por defecto, `amount`. */
+    toAmount?: number;
+    /** Regla que generó la transacción, si es recurrente. */
+    recurringRuleId?: string;
+    /** Fecha programada de la ocurrencia (no cambia aunque se edite `date`). */
+    occurrenceDate?: string;
+    /** Momento (ISO) en que se envió a la papelera; las transacciones eliminadas no cuentan en ningún total. */
+    deletedAt?: string;
+    /** Momento (ISO) de la última modificación; al sincronizar cambios sin conexión gana la más reciente. */
+    updatedAt?: string;
+    /** Comprobantes adjuntos (fotos de recibos, facturas en PDF). */
+    attachments?: Attachment[];
+    /**
+     * División del monto entre varias categorías; las líneas suman `amount`.
+     * Los totales por categoría y los presupuestos cuentan las líneas en lugar de `category`.
+     */
+    splits?: SplitLine[];
+    /** Etiquetas libres en minúsculas (ej: "viaje-cartagena", "deducible"), independientes de la categoría. */
+    tags?: string[];
+    /** Notas largas del movimiento. */
+    notes?: string;
+}
+
+/** Parte de una transacción dividida, en la moneda de la transacción. */
+export interface SplitLine {
+    category: string;
+    amount: number;
+    note?: string;
+}
+
+/** Formatos admitidos como comprobante. La lista de valores está en ATTACHMENT_TYPES (lib/attachments). */
+export type AttachmentType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif' | 'application/pdf';
+
+/** Archivo subido con POST /api/attachments; el contenido se descarga de /api/attachments/:id. */
+export interface Attachment {
+    id: string;
+    /** Nombre original del archivo. */
+    name: string;
+    type: AttachmentType;
+    /** Tamaño en bytes. */
+    size: number;
+}
+
+/** Página de resultados de GET /api/transactions (paginación por cursor). */
+export interface TransactionPage {
+    items: Transaction[];
+    /** Cursor para pedir la página siguiente, o null si es la última. */
+    nextCursor: string | null;
+}
+
+export type AccountType = 'bank' | 'cash' | 'credit' | 'savings';
+
+/** Cuenta o billetera donde vive el dinero (banco, efectivo, tarjeta...). */
+export interface Account {
+    id: string;
+    name: string;
+    type: AccountType;
+    /** Saldo al empezar a registrar movimientos, en la moneda de la cuenta. */
+    openingBalance: number;
+    currency: CurrencyCode;
+}
+
+/** Movimientos a los que aplica una categoría. */
+export type CategoryType = 'income' | 'expense' | 'both';
+
+/** Categoría gestionada; las transacciones y presupuestos la referencian por nombre. */
+export interface Category {
+    id: string;
+    /** Nombre único por usuario (sin distinguir mayúsculas ni tildes). */
+    name: string;
+    /** Categoría padre; solo hay un nivel de subcategorías. */
+    parentId?: string;
+    type: CategoryType;
+    /** Color en formato `#rrggbb`. */
+    color: string;
+    /** Nombre del icono de lucide-react (ver CATEGORY_ICONS). */
+    icon: string;
 }
 
 export interface User {
     id: string;
     email: string;
     name: string;
+    /** Moneda a la que se convierten los totales. */
+    baseCurrency: CurrencyCode;
 }
 
 export interface AuthState {
     user: User | null;
     isAuthenticated: boolean;
     isLoading: boolean;
-}
\ No newline at end of file
+}
+
+export interface Budget {
+    id: string;
+    /** Categoría de gastos a la que aplica el límite. */
+    category: string;
+    /** Límite mensual. */
+    amount: number;
+    /** Si es true, el saldo no usado (o el exceso) del mes anterior se traslada al actual. */
+    rollover: boolean;
+}
+
+/**
+ * Meta de ahorro. El avance se calcula con los movimientos de la categoría o de la cuenta
+ * vinculada (solo una de las dos) desde `startDate`.
+ */
+export interface Goal {
+    id: string;
+    name: string;
+    /** Monto a reunir, en la moneda base del usuario. */
+    targetAmount: number;
+    /** Fecha `YYYY-MM-DD` en la que se quiere alcanzar el monto. */
+    targetDate: string;
+    /** Fecha `YYYY-MM-DD` desde la que cuentan los aportes. */
+    startDate: string;
+    /** Categoría cuyos movimientos son aportes a la meta. */
+    category?: string;
+    /** Cuenta cuyo flujo neto (entradas − salidas) es el ahorro acumulado. */
+    accountId?: string;
+}
+
+/**
+ * Regla de categorización automática: si un movimiento cumple las condiciones
+ * se le sugiere (o, al importar, se le asigna) la categoría.
+ */
+export interface CategoryRule {
+    id: string;
+    /** Texto que debe contener el título (sin distinguir mayúsculas ni tildes). */
+    titleContains: string;
+    /** Monto mínimo, incluido. */
+    minAmount?: number;
+    /** Monto máximo, incluido. */
+    maxAmount?: number;
+    /** Tipo del movimiento; sin tipo, la regla aplica a ingresos y gastos. */
+    type?: 'income' | 'expense';
+    category: string;
+}
+
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/** Qué hacer con los días 29-31 en meses que no los tienen. */
+export type MonthEndPolicy = 'clamp' | 'skip';
+
+export interface RecurringRule {
+    id: string;
+    title: string;
+    amount: number;
+    currency: CurrencyCode;
+    type: TransactionType;
+    category: string;
+    accountId: string;
+    toAccountId?: string;
+    toAmount?: number;
+    frequency: RecurrenceFrequency;
+    /** Cada cuántas unidades de `frequency` se repite (ej: 2 = cada 2 semanas). */
+    interval: number;
+    startDate: string;
+    endDate?: string;
+    monthEndPolicy: MonthEndPolicy;
+    /** Última fecha hasta la que ya se generaron ocurrencias. */
+    lastGeneratedDate?: string;
+}
+
+/**
+ * Tasa de cambio registrada por el usuario para una fecha:
+ * 1 unidad de `from` equivale a `rate` unidades de `to`.
+ */
+export interface ExchangeRate {
+    id: string;
+    /** Fecha `YYYY-MM-DD` desde la que aplica la tasa. */
+    date: string;
+    from: CurrencyCode;
+    to: CurrencyCode;
+    rate: number;
+}
+
+/** Tipo de cambio registrado en el historial de una transacción. */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+/** Cambio de un campo de la transacción; `from`/`to` ausentes = el campo no tenía valor. */
+export interface FieldChange {
+    field: keyof Transaction;
+    from?: Transaction[keyof Transaction];
+    to?: Transaction[keyof Transaction];
+}
+
+/** Entrada del historial de cambios (auditoría) de una transacción. */
+export interface AuditEntry {
+    id: string;
+    transactionId: string;
+    /** Usuario que hizo el cambio. */
+    actorId: string;
+    action: AuditAction;
+    /** Momento (ISO) del cambio. */
+    timestamp: string;
+    changes: FieldChange[];
+}
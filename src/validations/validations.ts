@@ -1,17 +1,299 @@
 import * as z from "zod";
+import { CURRENCY_CODES, DEFAULT_CURRENCY } from "@/lib/currency";
+import { CATEGORY_ICONS } from "@/lib/categories";
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS } from "@/lib/attachments";
+import { getSplitsError } from "@/lib/splits";
+import { getTransferError } from "@/lib/accounts";
+import { MAX_TAG_LENGTH, MAX_TAGS, normalizeTag } from "@/lib/tags";
+
+/** Código de moneda soportado (ISO 4217). */
+const currencySchema = z.enum(CURRENCY_CODES, "Selecciona una moneda válida");
 
 export const loginSchema = z.object({
     email: z.string().email("Introduce un correo electrónico válido"),
     password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
 });
 
-export const transactionSchema = z.object({
+export const registerSchema = z.object({
+    name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+    email: z.string().email("Introduce un correo electrónico válido"),
+    password: z.string()
+        .min(8, "La contraseña debe tener al menos 8 caracteres")
+        .regex(/[a-z]/, "Debe incluir al menos una letra minúscula")
+        .regex(/[A-Z]/, "Debe incluir al menos una letra mayúscula")
+        .regex(/[0-9]/, "Debe incluir al menos un número"),
+    confirmPassword: z.string().min(1, "Confirma tu contraseña"),
+}).refine((data) => data.password === data.confirmPassword, {
+    message: "Las contraseñas no coinciden",
+    path: ["confirmPassword"],
+});
+
+const ATTACHMENT_TYPE_MESSAGE = "Solo se admiten imágenes (JPG, PNG, WebP, GIF) o PDF";
+const ATTACHMENT_SIZE_MESSAGE = `Cada archivo puede pesar hasta ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`;
+
+/** Archivo recibido por la ruta de subida (el formulario lo valida también antes de enviarlo). */
+export const attachmentFileSchema = z
+    .file("Selecciona un archivo")
+    .max(MAX_ATTACHMENT_SIZE, ATTACHMENT_SIZE_MESSAGE)
+    .mime([...ATTACHMENT_TYPES], ATTACHMENT_TYPE_MESSAGE);
+
+/** Comprobantes ya subidos, tal como se guardan en la transacción. */
+const attachmentsSchema = z
+    .array(z.object({
+        id: z.string().min(1),
+        name: z.string().min(1).max(255),
+        type: z.enum(ATTACHMENT_TYPES, ATTACHMENT_TYPE_MESSAGE),
+        size: z.number().int().positive().max(MAX_ATTACHMENT_SIZE, ATTACHMENT_SIZE_MESSAGE),
+    }))
+    .max(MAX_ATTACHMENTS, `Puedes adjuntar hasta ${MAX_ATTACHMENTS} archivos`)
+    .optional();
+
+/** Etiquetas libres: se guardan normalizadas (ver normalizeTag) y sin repetir. */
+const tagsSchema = z
+    .array(z.string()
+        .transform(normalizeTag)
+        .pipe(z.string().min(1, "La etiqueta no puede estar vacía").max(MAX_TAG_LENGTH, `Cada etiqueta puede tener hasta ${MAX_TAG_LENGTH} caracteres`)))
+    .max(MAX_TAGS, `Puedes usar hasta ${MAX_TAGS} etiquetas`)
+    .optional()
+    .transform((tags) => tags && [...new Set(tags)]);
+
+/** Texto de las notas; el formulario lo envía aunque esté vacío para poder borrarlas al editar. */
+const notesTextSchema = z.string().trim().max(1000, "Las notas no pueden superar 1000 caracteres");
+
+/** Notas tal como se guardan: el texto vacío quita las notas. */
+const notesSchema = notesTextSchema.optional().transform((value) => value || undefined);
+
+/**
+ * Campos de una transacción, sin validaciones cruzadas.
+ * Los esquemas derivados (reglas, formulario) parten de aquí porque Zod no
+ * permite extender objetos que ya tienen refinamientos.
+ */
+const transactionFieldsSchema = z.object({
     title: z.string().min(3, "El título debe tener al menos 3 caracteres"),
     amount: z.coerce.number().positive("El monto debe ser mayor a 0"),
-    type: z.enum(["income", "expense"]),
+    // Los archivos y registros anteriores al soporte multimoneda no traen este campo
+    currency: currencySchema.default(DEFAULT_CURRENCY),
+    type: z.enum(["income", "expense", "transfer"]),
     category: z.string().min(1, "La categoría es obligatoria"),
     date: z.string().min(1, "La fecha es obligatoria"),
+    accountId: z.string().min(1, "Selecciona una cuenta"),
+    toAccountId: z.string().optional().transform((value) => value || undefined),
+    toAmount: z.coerce.number().positive("El monto recibido debe ser mayor a 0").optional(),
+});
+
+/**
+ * Líneas de una transacción dividida entre categorías. Una lista vacía quita la división
+ * (con PATCH, omitir el campo conserva la división guardada; PUT la quita).
+ */
+const splitsSchema = z
+    .array(z.object({
+        category: z.string().min(1, "La categoría es obligatoria"),
+        amount: z.coerce.number().positive("El monto debe ser mayor a 0"),
+        note: z.string().trim().max(120, "La nota no puede superar 120 caracteres").optional().transform((value) => value || undefined),
+    }))
+    .optional();
+
+/** Las líneas de una transacción dividida deben sumar el monto total. */
+const refineSplits = (data: { amount: number; type: string; splits?: { amount: number }[] }, ctx: z.RefinementCtx) => {
+    const message = getSplitsError(data);
+    if (message) ctx.addIssue({ code: "custom", message, path: ["splits"] });
+};
+
+/** Las transferencias necesitan una cuenta de destino distinta de la de origen. */
+const refineTransfer = (data: { type: string; accountId: string; toAccountId?: string }, ctx: z.RefinementCtx) => {
+    const message = getTransferError(data);
+    if (message) ctx.addIssue({ code: "custom", message, path: ["toAccountId"] });
+};
+
+/**
+ * Momento (ISO) en que el cliente hizo el cambio. Al sincronizar cambios hechos sin conexión
+ * decide los conflictos: gana la escritura más reciente.
+ */
+const updatedAtSchema = z.iso.datetime({ message: "Fecha de modificación inválida" }).optional();
+
+export const transactionSchema = transactionFieldsSchema
+    .extend({ splits: splitsSchema, tags: tagsSchema, notes: notesSchema, attachments: attachmentsSchema, updatedAt: updatedAtSchema })
+    .superRefine(refineTransfer)
+    .superRefine(refineSplits);
+
+/**
+ * Cambios parciales de una transacción (PATCH).
+ * Sin valor por defecto en la moneda para no sobrescribirla si no se envía.
+ * La suma de las líneas y la cuenta de destino se comprueban en la ruta, sobre la transacción ya combinada con los cambios.
+ */
+export const transactionPatchSchema = transactionFieldsSchema
+    .extend({
+        currency: currencySchema,
+        splits: splitsSchema,
+        tags: tagsSchema,
+        notes: notesSchema,
+        attachments: attachmentsSchema,
+        updatedAt: updatedAtSchema,
+    })
+    .partial();
+
+/** Lote de transacciones (importación masiva). */
+export const transactionBatchSchema = z
+    .array(transactionSchema)
+    .min(1, "El lote no contiene transacciones")
+    .max(5000, "El lote no puede superar 5000 transacciones");
+
+/**
+ * Cambios sobre varias transacciones existentes (acciones masivas del historial y su deshacer).
+ * Cada transacción puede aparecer una sola vez en el lote.
+ */
+export const transactionOperationsSchema = z
+    .array(z.discriminatedUnion("kind", [
+        z.object({ kind: z.literal("delete"), id: z.string().min(1) }),
+        z.object({ kind: z.literal("restore"), id: z.string().min(1) }),
+        z.object({ kind: z.literal("update"), id: z.string().min(1), transaction: transactionSchema }),
+    ]))
+    .min(1, "El lote no contiene cambios")
+    .max(5000, "El lote no puede superar 5000 cambios")
+    .refine((operations) => new Set(operations.map(({ id }) => id)).size === operations.length, "El lote repite una transacción");
+
+export const recurrenceSchema = z.object({
+    frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+    interval: z.coerce.number().int("El intervalo debe ser un número entero").min(1, "El intervalo mínimo es 1"),
+    endDate: z.string().optional().transform((value) => value || undefined),
+    monthEndPolicy: z.enum(["clamp", "skip"]).default("clamp"),
+});
+
+export const recurringRuleSchema = transactionFieldsSchema
+    .omit({ date: true })
+    .extend({ startDate: z.string().min(1, "La fecha de inicio es obligatoria") })
+    .extend(recurrenceSchema.shape)
+    .refine((rule) => !rule.endDate || rule.endDate >= rule.startDate, {
+        message: "La fecha final no puede ser anterior al inicio",
+        path: ["endDate"],
+    })
+    .superRefine(refineTransfer);
+
+/**
+ * Cambios aplicados a una serie recurrente desde una ocurrencia ("esta y las futuras").
+ */
+export const recurringSeriesUpdateSchema = transactionFieldsSchema
+    .omit({ date: true })
+    .extend({ fromDate: z.string().min(1, "La fecha de la ocurrencia es obligatoria") })
+    .superRefine(refineTransfer);
+
+/**
+ * Esquema del formulario de transacciones: la transacción más la sección "Repetir".
+ */
+export const transactionFormSchema = transactionFieldsSchema
+    .extend({
+        splits: splitsSchema,
+        tags: tagsSchema,
+        notes: notesTextSchema.optional(),
+        attachments: attachmentsSchema,
+        repeat: z.boolean().default(false),
+        recurrence: recurrenceSchema,
+    })
+    .refine((data) => !data.repeat || !data.recurrence.endDate || data.recurrence.endDate >= data.date, {
+        message: "La fecha final no puede ser anterior al inicio",
+        path: ["recurrence", "endDate"],
+    })
+    .superRefine(refineTransfer)
+    // Las series recurrentes no se dividen: las líneas solo cuentan si no se repite
+    .superRefine((data, ctx) => {
+        if (!data.repeat) refineSplits(data, ctx);
+    });
+
+export const budgetSchema = z.object({
+    category: z.string().trim().min(1, "La categoría es obligatoria"),
+    amount: z.coerce.number().positive("El límite debe ser mayor a 0"),
+    rollover: z.boolean().default(false),
+});
+
+/**
+ * Meta de ahorro: se vincula a una categoría o a una cuenta (solo una).
+ * La cadena vacía del formulario equivale a no vincular ese campo.
+ */
+export const goalSchema = z
+    .object({
+        name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(60, "El nombre no puede superar 60 caracteres"),
+        targetAmount: z.coerce.number().positive("El objetivo debe ser mayor a 0"),
+        startDate: z.string().min(1, "La fecha de inicio es obligatoria"),
+        targetDate: z.string().min(1, "La fecha objetivo es obligatoria"),
+        category: z.string().trim().optional().transform((value) => value || undefined),
+        accountId: z.string().optional().transform((value) => value || undefined),
+    })
+    .refine((goal) => goal.targetDate > goal.startDate, {
+        message: "La fecha objetivo debe ser posterior al inicio",
+        path: ["targetDate"],
+    })
+    .refine((goal) => (goal.category === undefined) !== (goal.accountId === undefined), {
+        message: "Vincula la meta a una categoría o a una cuenta",
+        path: ["category"],
+    });
+
+/** Monto opcional de las condiciones de una regla de categorización. */
+const ruleAmountSchema = z.coerce.number().nonnegative("El monto no puede ser negativo").optional();
+
+export const categoryRuleSchema = z
+    .object({
+        titleContains: z.string().trim().min(2, "Escribe al menos 2 caracteres").max(60, "El texto no puede superar 60 caracteres"),
+        minAmount: ruleAmountSchema,
+        maxAmount: ruleAmountSchema,
+        type: z.enum(["income", "expense"]).optional().or(z.literal("")).transform((value) => value || undefined),
+        category: z.string().trim().min(1, "La categoría es obligatoria"),
+    })
+    .refine((rule) => rule.minAmount === undefined || rule.maxAmount === undefined || rule.minAmount <= rule.maxAmount, {
+        message: "El monto mínimo no puede superar el máximo",
+        path: ["maxAmount"],
+    });
+
+export const accountSchema = z.object({
+    name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+    type: z.enum(["bank", "cash", "credit", "savings"]),
+    openingBalance: z.coerce.number("El saldo inicial debe ser un número"),
+    currency: currencySchema,
+});
+
+export const categorySchema = z.object({
+    name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+    parentId: z.string().optional().transform((value) => value || undefined),
+    type: z.enum(["income", "expense", "both"]),
+    color: z.string().regex(/^#[0-9a-f]{6}$/i, "Selecciona un color válido"),
+    icon: z.enum(CATEGORY_ICONS, "Selecciona un icono válido"),
+});
+
+/** Fusión de categorías: la categoría de la ruta se integra en `targetId`. */
+export const categoryMergeSchema = z.object({
+    targetId: z.string().min(1, "Selecciona la categoría de destino"),
+});
+
+/** Tasa de cambio: 1 `from` = `rate` `to`, vigente desde `date`. */
+export const exchangeRateSchema = z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Introduce una fecha válida"),
+    from: currencySchema,
+    to: currencySchema,
+    rate: z.coerce.number().positive("La tasa debe ser mayor a 0"),
+}).refine((rate) => rate.from !== rate.to, {
+    message: "Las monedas deben ser distintas",
+    path: ["to"],
+});
+
+/** Lote de tasas (importación). */
+export const exchangeRateBatchSchema = z
+    .array(exchangeRateSchema)
+    .min(1, "El archivo no contiene tasas")
+    .max(5000, "El lote no puede superar 5000 tasas");
+
+/** Preferencias editables del usuario. */
+export const userPreferencesSchema = z.object({
+    baseCurrency: currencySchema,
 });
 
 export type LoginFormData = z.infer<typeof loginSchema>;
+export type RegisterFormData = z.infer<typeof registerSchema>;
 export type TransactionFormData = z.infer<typeof transactionSchema>;
+export type TransactionFormValues = z.infer<typeof transactionFormSchema>;
+export type RecurringRuleFormData = z.infer<typeof recurringRuleSchema>;
+export type BudgetFormData = z.infer<typeof budgetSchema>;
+export type GoalFormData = z.infer<typeof goalSchema>;
+export type CategoryRuleFormData = z.infer<typeof categoryRuleSchema>;
+export type AccountFormData = z.infer<typeof accountSchema>;
+export type CategoryFormData = z.infer<typeof categorySchema>;
+export type ExchangeRateFormData = z.infer<typeof exchangeRateSchema>;
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;